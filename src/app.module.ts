@@ -3,6 +3,7 @@ import { HandlebarsAdapter } from '@nestjs-modules/mailer/dist/adapters/handleba
 import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { join } from 'path';
 import { LoggerMiddleware } from './core/common/middleware/logger.middleware';
 import { PrismaService } from './core/services/prisma.service';
@@ -16,6 +17,13 @@ import { WhisperModule } from './modules/whisper/whisper.module';
 import { TaskAiModule } from './modules/task-ai/task-ai.module';
 import { TeamModule } from './modules/team/team.module';
 import { ProjectModule } from './modules/project/project.module';
+import { LabelModule } from './modules/label/label.module';
+import { NotificationModule } from './modules/notification/notification.module';
+import { WebhookModule } from './modules/webhook/webhook.module';
+import { SyncModule } from './modules/sync/sync.module';
+import { SavedViewModule } from './modules/saved-view/saved-view.module';
+import { SearchModule } from './modules/search/search.module';
+import { CalendarModule } from './modules/calendar/calendar.module';
 import { TasksGateway } from './modules/task/tasks.gateway';
 // import { WebsocketModule } from './websocket/websocket.module';
 
@@ -40,6 +48,9 @@ import { TasksGateway } from './modules/task/tasks.gateway';
             ]
         }),
 
+        // Scheduled jobs (recurring task generation, ...)
+        ScheduleModule.forRoot(),
+
         // Email Configuration
         MailerModule.forRootAsync({
             imports: [ConfigModule],
@@ -72,7 +83,13 @@ import { TasksGateway } from './modules/task/tasks.gateway';
         WhisperModule,
         TeamModule,
         ProjectModule,
-       
+        LabelModule,
+        NotificationModule,
+        WebhookModule,
+        SyncModule,
+        SavedViewModule,
+        SearchModule,
+        CalendarModule
     ],
     controllers: [],
     providers: [PrismaService, TokenBlacklistService]
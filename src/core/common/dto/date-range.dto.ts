@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class DateRangeDto {
+    @ApiProperty({
+        description: 'Start of the period (default: 30 days ago)',
+        example: '2025-06-01',
+        required: false
+    })
+    @IsOptional()
+    @IsDateString({}, { message: 'from must be a valid date' })
+    from?: string;
+
+    @ApiProperty({
+        description:
+            'End of the period, inclusive for plain dates (default: now)',
+        example: '2025-06-30',
+        required: false
+    })
+    @IsOptional()
+    @IsDateString({}, { message: 'to must be a valid date' })
+    to?: string;
+}
@@ -1,6 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
-import { IsInt, IsOptional, Min, Max } from 'class-validator';
+import { IsInt, IsOptional, IsString, Min, Max } from 'class-validator';
 
 export class PaginationDto {
     @ApiProperty({
@@ -32,9 +32,24 @@ export class PaginationDto {
     limit?: number = 5;
 }
 
+export class CursorPaginationDto extends PaginationDto {
+    @ApiProperty({
+        description:
+            'Opaque cursor from meta.nextCursor of the previous page; takes precedence over page',
+        required: false
+    })
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+}
+
 export class PaginationMetaDto {
-    @ApiProperty({ example: 1, description: 'Current page number' })
-    page: number;
+    @ApiProperty({
+        example: 1,
+        description: 'Current page number (not set when paging by cursor)',
+        required: false
+    })
+    page?: number;
 
     @ApiProperty({ example: 5, description: 'Items per page' })
     limit: number;
@@ -42,21 +57,41 @@ export class PaginationMetaDto {
     @ApiProperty({ example: 50, description: 'Total number of items' })
     total: number;
 
-    @ApiProperty({ example: 10, description: 'Total number of pages' })
-    totalPages: number;
+    @ApiProperty({
+        example: 10,
+        description: 'Total number of pages (not set when paging by cursor)',
+        required: false
+    })
+    totalPages?: number;
 
     @ApiProperty({ example: true, description: 'Whether there is a next page' })
     hasNextPage: boolean;
 
-    @ApiProperty({ example: false, description: 'Whether there is a previous page' })
+    @ApiProperty({
+        example: false,
+        description: 'Whether there is a previous page'
+    })
     hasPreviousPage: boolean;
+
+    @ApiProperty({
+        example:
+            'eyJzb3J0IjoiY3JlYXRlZEF0OmRlc2MiLCJ2YWx1ZXMiOltdLCJpZCI6IjEifQ',
+        description:
+            'Cursor of the next page, null on the last one (on endpoints that page by cursor)',
+        required: false,
+        nullable: true
+    })
+    nextCursor?: string | null;
 }
 
 export class PaginatedResponseDto<T> {
     @ApiProperty({ description: 'Array of items' })
     data: T[];
 
-    @ApiProperty({ type: PaginationMetaDto, description: 'Pagination metadata' })
+    @ApiProperty({
+        type: PaginationMetaDto,
+        description: 'Pagination metadata'
+    })
     meta: PaginationMetaDto;
 }
 
@@ -66,7 +101,7 @@ export function createPaginationMeta(
     total: number
 ): PaginationMetaDto {
     const totalPages = Math.ceil(total / limit);
-    
+
     return {
         page,
         limit,
@@ -8,6 +8,7 @@ import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { Request } from 'express';
 import { TokenBlacklistService } from '../../services/token-blacklist.service';
+import { verifyAccessToken } from '../../utils/auth';
 
 @Injectable()
 export class AuthGuard implements CanActivate {
@@ -24,26 +25,12 @@ export class AuthGuard implements CanActivate {
             throw new UnauthorizedException();
         }
 
-        try {
-            // Check if token is blacklisted
-            const isBlacklisted =
-                await this.tokenBlacklistService.isTokenBlacklisted(token);
-            if (isBlacklisted) {
-                throw new UnauthorizedException('Token has been invalidated');
-            }
-
-            const JWT_SECRET = this.configService.get('JWT_SECRET', 'secret');
-
-            const payload = await this.jwtService.verifyAsync(token, {
-                secret: JWT_SECRET
-            });
-            request['user'] = payload;
-        } catch (error) {
-            if (error.message === 'Token has been invalidated') {
-                throw new UnauthorizedException('Token has been invalidated');
-            }
-            throw new UnauthorizedException();
-        }
+        request['user'] = await verifyAccessToken(
+            this.jwtService,
+            this.configService,
+            this.tokenBlacklistService,
+            token
+        );
 
         return true;
     }
@@ -0,0 +1,33 @@
+import { PipeTransform, Injectable, BadRequestException } from '@nestjs/common';
+import { MAX_ICS_IMPORT_BYTES } from '../../constants/calendar.constants';
+
+@Injectable()
+export class IcsFileValidationPipe implements PipeTransform {
+    // Browsers send text/calendar; other clients often send a generic type, so the extension is enough
+    private readonly allowedMimeTypes = ['text/calendar', 'application/ics'];
+
+    transform(file: Express.Multer.File): Express.Multer.File {
+        if (!file) {
+            throw new BadRequestException('No file uploaded');
+        }
+
+        // Validate file type
+        if (
+            !this.allowedMimeTypes.includes(file.mimetype) &&
+            !file.originalname?.toLowerCase().endsWith('.ics')
+        ) {
+            throw new BadRequestException(
+                'Invalid file type. Upload an iCalendar (.ics) file'
+            );
+        }
+
+        // Validate file size
+        if (file.size > MAX_ICS_IMPORT_BYTES) {
+            throw new BadRequestException(
+                `File too large. Maximum size is ${MAX_ICS_IMPORT_BYTES / 1024 / 1024}MB`
+            );
+        }
+
+        return file;
+    }
+}
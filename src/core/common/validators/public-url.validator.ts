@@ -0,0 +1,26 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+import { isInternalHost } from '../../utils/network';
+
+// Invalid URLs are left to IsUrl
+export function IsPublicUrl(validationOptions?: ValidationOptions) {
+    return function (object: object, propertyName: string) {
+        registerDecorator({
+            name: 'isPublicUrl',
+            target: object.constructor,
+            propertyName: propertyName,
+            options: validationOptions,
+            validator: {
+                validate(value: any) {
+                    try {
+                        return !isInternalHost(new URL(value).hostname);
+                    } catch {
+                        return true;
+                    }
+                },
+                defaultMessage() {
+                    return 'URL must not point to this server or an internal network';
+                }
+            }
+        });
+    };
+}
@@ -86,6 +86,11 @@ class EnvironmentVariables {
     @IsString()
     UPLOAD_DIRECTORY: string;
 
+    @IsNumber()
+    @Min(1)
+    @IsOptional()
+    TRASH_RETENTION_DAYS: number;
+
     @IsString()
     CLOUDINARY_CLOUD_NAME: string;
 
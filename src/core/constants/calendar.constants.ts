@@ -0,0 +1,46 @@
+import { TaskPriority, TaskStatus } from '@prisma/client';
+
+// PRODID of the calendars we publish
+export const CALENDAR_PRODUCT_ID = '-//Flow Space//Tasks//EN';
+
+// Domain part of the UID of published events and to-dos, so they stay unique across calendars
+export const CALENDAR_UID_DOMAIN = 'flow-space.dev';
+
+// Length of the event shown for a task due at a time; calendars hide events without one
+export const CALENDAR_EVENT_MINUTES = 30;
+
+// Tasks due longer ago than this are left out of feeds
+export const CALENDAR_FEED_PAST_DAYS = 90;
+
+// Most tasks in a feed, the soonest due first
+export const CALENDAR_FEED_MAX_TASKS = 1000;
+
+// How often calendar apps are asked to read a feed again
+export const CALENDAR_FEED_REFRESH_MINUTES = 60;
+
+export const MAX_ICS_IMPORT_BYTES = 1024 * 1024;
+
+export const MAX_ICS_IMPORT_TASKS = 200;
+
+// Which components a feed publishes: events show in every calendar app, to-dos only in those with task lists
+export enum CalendarFeedContent {
+    ALL = 'all',
+    EVENTS = 'events',
+    TODOS = 'todos'
+}
+
+// STATUS of a VTODO for each task status
+export const ICS_TODO_STATUS: Record<TaskStatus, string> = {
+    [TaskStatus.TODO]: 'NEEDS-ACTION',
+    [TaskStatus.IN_PROGRESS]: 'IN-PROCESS',
+    [TaskStatus.DONE]: 'COMPLETED',
+    [TaskStatus.CANCELLED]: 'CANCELLED'
+};
+
+// PRIORITY of a VEVENT or VTODO for each task priority, from 1 (highest) to 9 (lowest)
+export const ICS_PRIORITY: Record<TaskPriority, number> = {
+    [TaskPriority.URGENT]: 1,
+    [TaskPriority.HIGH]: 3,
+    [TaskPriority.MEDIUM]: 5,
+    [TaskPriority.LOW]: 9
+};
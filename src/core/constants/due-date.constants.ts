@@ -0,0 +1,6 @@
+import { Prisma } from '@prisma/client';
+
+// Tasks due at a time, including those saved before all-day tasks existed
+export const NOT_ALL_DAY = {
+    OR: [{ allDay: false }, { allDay: null }, { allDay: { isSet: false } }]
+} satisfies Prisma.TaskWhereInput;
@@ -1,13 +1,20 @@
 export enum EmailTemplate {
     VERIFY_ACCOUNT = 'verify-account',
     RESET_PASSWORD = 'reset-password',
-    TEAM_INVITATION = 'team-invitation'
+    TEAM_INVITATION = 'team-invitation',
+    TASK_REMINDER = 'task-reminder',
+    OVERDUE_DIGEST = 'overdue-digest',
+    NOTIFICATION = 'notification',
+    NOTIFICATION_DIGEST = 'notification-digest'
 }
 
 export enum EmailSubject {
     VERIFY_ACCOUNT = 'Verify your email',
     RESET_PASSWORD = 'Reset password',
-    TEAM_INVITATION = 'You have been invited to join a team'
+    TEAM_INVITATION = 'You have been invited to join a team',
+    TASK_REMINDER = 'Task reminder',
+    OVERDUE_DIGEST = 'Your overdue tasks',
+    NOTIFICATION_DIGEST = 'Your notification digest'
 }
 
 export interface EmailOptions {
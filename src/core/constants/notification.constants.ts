@@ -0,0 +1,21 @@
+import { NotificationChannel, NotificationType } from '@prisma/client';
+
+// Channels used until a user changes them; emailed types are the ones that were emailed before preferences existed
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<
+    NotificationType,
+    NotificationChannel
+> = {
+    TEAM_INVITATION: NotificationChannel.EMAIL,
+    TEAM_ROLE_CHANGED: NotificationChannel.IN_APP,
+    TEAM_MEMBER_REMOVED: NotificationChannel.IN_APP,
+    TASK_ASSIGNED: NotificationChannel.IN_APP,
+    TASK_COMMENTED: NotificationChannel.IN_APP,
+    TASK_MENTIONED: NotificationChannel.IN_APP,
+    TASK_REMINDER: NotificationChannel.EMAIL,
+    OVERDUE_TASKS: NotificationChannel.EMAIL
+};
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Local hour at which digests are sent; weekly digests go out on Mondays
+export const DIGEST_HOUR = 8;
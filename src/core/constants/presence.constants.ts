@@ -0,0 +1,13 @@
+export enum PresenceState {
+    VIEWING = 'VIEWING',
+    EDITING = 'EDITING'
+}
+
+// An edit lock lapses unless its holder renews it within this delay, e.g. after a crash
+export const EDIT_LOCK_TTL_MS = 60 * 1000;
+
+// Sockets join the channel of the project or task they have open to get its presence and lock events
+export const projectChannel = (projectId: string): string =>
+    `project:${projectId}`;
+
+export const taskChannel = (taskId: string): string => `task:${taskId}`;
@@ -0,0 +1,9 @@
+import { TaskPriority } from '@prisma/client';
+
+// Severity of each priority, stored on tasks as priorityRank so they sort by it rather than by name
+export const PRIORITY_RANK: Record<TaskPriority, number> = {
+    [TaskPriority.LOW]: 1,
+    [TaskPriority.MEDIUM]: 2,
+    [TaskPriority.HIGH]: 3,
+    [TaskPriority.URGENT]: 4
+};
@@ -0,0 +1,4 @@
+// Reminders are given in minutes before the due date, up to a week ahead
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+export const MAX_REMINDERS_PER_TASK = 5;
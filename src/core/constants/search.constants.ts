@@ -0,0 +1,11 @@
+// Most recently changed entries scored per search; older matches beyond it are not ranked
+export const SEARCH_MAX_CANDIDATES = 1000;
+
+// A word in a title counts as much as this many in a body
+export const SEARCH_TITLE_WEIGHT = 3;
+
+// Characters of body text shown around the first match
+export const SEARCH_SNIPPET_LENGTH = 160;
+
+// Entities indexed per query, and per type on each run of the indexer
+export const SEARCH_INDEX_BATCH_SIZE = 500;
@@ -0,0 +1,27 @@
+export enum SyncMutationType {
+    CREATE = 'CREATE',
+    UPDATE = 'UPDATE',
+    DELETE = 'DELETE'
+}
+
+export enum SyncMutationStatus {
+    APPLIED = 'APPLIED',
+    // The task changed since the base version; the result carries the current task
+    CONFLICT = 'CONFLICT',
+    NOT_FOUND = 'NOT_FOUND',
+    // Refused for good, e.g. invalid data or missing permissions; do not retry
+    REJECTED = 'REJECTED',
+    // Not applied because of a server error; retry later
+    FAILED = 'FAILED'
+}
+
+// Cursors lag behind the pull so that writes still in flight during it are not missed; clients may get them twice
+export const SYNC_CURSOR_OVERLAP_MS = 5 * 1000;
+
+export const MAX_SYNC_MUTATIONS = 100;
+
+// A CREATE mutation claimed longer ago than this without a task is taken to be abandoned, e.g. by a crashed push
+export const SYNC_CLAIM_TIMEOUT_MS = 60 * 1000;
+
+// Tasks sent per pull; the rest come with the next page
+export const SYNC_PAGE_SIZE = 500;
@@ -0,0 +1,7 @@
+// Tasks and projects with deletedAt set are in the trash
+export const NOT_TRASHED = { deletedAt: { isSet: false } } as const;
+
+export const IN_TRASH = { deletedAt: { isSet: true } } as const;
+
+// Days a trashed task or project is kept before it is purged for good
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
@@ -0,0 +1,8 @@
+// Fields the tasks of a saved view can be grouped by
+export enum ViewGroupBy {
+    STATUS = 'status',
+    PRIORITY = 'priority',
+    PROJECT = 'project',
+    // Due day, YYYY-MM-DD
+    DUE_DATE = 'dueDate'
+}
@@ -0,0 +1,25 @@
+export const WEBHOOK_EVENTS = [
+    'task.created',
+    'task.updated',
+    'task.deleted',
+    'project.deleted',
+    'member.joined',
+    'member.left'
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Attempts before a delivery is given up; retries wait 30s, 1m, 2m, 4m and 8m
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+export const WEBHOOK_RETRY_BASE_SECONDS = 30;
+
+// Receivers must answer within this delay for an attempt to count as delivered
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export const WEBHOOK_HEADERS = {
+    EVENT: 'X-FlowSpace-Event',
+    DELIVERY: 'X-FlowSpace-Delivery',
+    TIMESTAMP: 'X-FlowSpace-Timestamp',
+    SIGNATURE: 'X-FlowSpace-Signature'
+} as const;
@@ -1,6 +1,10 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
 import { MailerService } from '@nestjs-modules/mailer';
 import * as bcrypt from 'bcryptjs';
 import { EmailOptions } from '../constants/email.constants';
+import { TokenBlacklistService } from '../services/token-blacklist.service';
 
 export const comparePassword = async (
     password: string,
@@ -28,6 +32,7 @@ export const generateOTP = (length: number = 4): string => {
 
 /**
  * Sends a verification email with the given OTP code
+ * Always sent right away: notification preferences and quiet hours do not apply to account codes
  * @param mailerService - A MailerService instance
  * @param email - The recipient's email address
  * @param otp - The OTP code to be sent
@@ -69,9 +74,8 @@ export const handleOtpOperation = async (
     resetEmailVerified: boolean = false
 ) => {
     const otp = generateOTP();
-    // Add 1 hour to align local time with PostgreSQL UTC interpretation
-    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
-    expiresAt.setMinutes(expiresAt.getMinutes() + 15);
+    // Valid for 15 minutes
+    const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
 
     await sendOtpToEmail(mailerService, email, otp, emailOptions);
 
@@ -84,3 +88,31 @@ export const handleOtpOperation = async (
         }
     });
 };
+
+/**
+ * Verifies an access token: signed with JWT_SECRET, not expired and not logged out
+ * @param jwtService - A JwtService instance
+ * @param configService - A ConfigService instance
+ * @param tokenBlacklistService - A TokenBlacklistService instance
+ * @param token - The raw JWT
+ * @returns The token payload, with the user ID in `sub`
+ * @throws UnauthorizedException if the token cannot be trusted
+ */
+export const verifyAccessToken = async (
+    jwtService: JwtService,
+    configService: ConfigService,
+    tokenBlacklistService: TokenBlacklistService,
+    token: string
+) => {
+    if (await tokenBlacklistService.isTokenBlacklisted(token)) {
+        throw new UnauthorizedException('Token has been invalidated');
+    }
+
+    try {
+        return await jwtService.verifyAsync(token, {
+            secret: configService.get('JWT_SECRET', 'secret')
+        });
+    } catch {
+        throw new UnauthorizedException();
+    }
+};
@@ -0,0 +1,97 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+    assertVersion,
+    parseIfMatch,
+    rethrowVersionConflict,
+    toETag,
+    versionFilter
+} from './concurrency';
+
+describe('concurrency utils', () => {
+    describe('toETag', () => {
+        it('should quote the version and count unversioned records as 0', () => {
+            expect(toETag(3)).toBe('"3"');
+            expect(toETag(undefined)).toBe('"0"');
+        });
+    });
+
+    describe('parseIfMatch', () => {
+        it('should read strong, weak and unquoted ETags', () => {
+            expect(parseIfMatch('"3"')).toBe(3);
+            expect(parseIfMatch('W/"3"')).toBe(3);
+            expect(parseIfMatch(' 3 ')).toBe(3);
+        });
+
+        it('should skip the check without a header or with *', () => {
+            expect(parseIfMatch(undefined)).toBeUndefined();
+            expect(parseIfMatch('*')).toBeUndefined();
+        });
+
+        it('should reject ETags the API never returned', () => {
+            expect(() => parseIfMatch('"abc"')).toThrow(BadRequestException);
+        });
+    });
+
+    describe('assertVersion', () => {
+        it('should return the version of a record at the expected version', () => {
+            expect(assertVersion({ version: 2 }, 2, 'changed')).toBe(2);
+            expect(assertVersion({}, 0, 'changed')).toBe(0);
+            expect(assertVersion({ version: 5 }, undefined, 'changed')).toBe(5);
+        });
+
+        it('should refuse an outdated version with the current record', () => {
+            const current = { id: 'task1', version: 4 };
+
+            try {
+                assertVersion(current, 3, 'The task was changed');
+                fail('expected a conflict');
+            } catch (error) {
+                expect(error).toBeInstanceOf(ConflictException);
+                expect(error.getResponse()).toEqual({
+                    statusCode: 409,
+                    error: 'Conflict',
+                    message: 'The task was changed',
+                    etag: '"4"',
+                    current
+                });
+            }
+        });
+    });
+
+    describe('versionFilter', () => {
+        it('should also match unversioned records at version 0', () => {
+            expect(versionFilter(2)).toEqual({ OR: [{ version: 2 }] });
+            expect(versionFilter(0)).toEqual({
+                OR: [
+                    { version: 0 },
+                    { version: null },
+                    { version: { isSet: false } }
+                ]
+            });
+        });
+    });
+
+    describe('rethrowVersionConflict', () => {
+        it('should turn a missing record into a conflict', async () => {
+            const notFound = new Prisma.PrismaClientKnownRequestError(
+                'Record to update not found.',
+                { code: 'P2025', clientVersion: 'test' }
+            );
+            const loadCurrent = jest.fn().mockResolvedValue({ version: 7 });
+
+            await expect(
+                rethrowVersionConflict('changed', loadCurrent)(notFound)
+            ).rejects.toThrow(ConflictException);
+            expect(loadCurrent).toHaveBeenCalled();
+        });
+
+        it('should rethrow other errors', async () => {
+            const error = new Error('connection lost');
+
+            await expect(
+                rethrowVersionConflict('changed', jest.fn())(error)
+            ).rejects.toBe(error);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+type Versioned = { version?: number | null };
+
+// `"3"`, optionally weak (`W/"3"`); the quotes may be left out
+const ETAG_PATTERN = /^(?:W\/)?"?(\d+)"?$/;
+
+/**
+ * Build the ETag of a versioned record (tasks and projects)
+ * @param version - The record's version; unset on records saved before versioning, which count as 0
+ * @returns The quoted version, e.g. `"3"`
+ */
+export const toETag = (version: number | null | undefined): string =>
+    `"${version ?? 0}"`;
+
+/**
+ * Read the version a client expects from an If-Match header
+ * @param ifMatch - The header value
+ * @returns The expected version, or undefined when the header is missing or `*` (no check)
+ * @throws BadRequestException if the header is not an ETag returned by the API
+ */
+export const parseIfMatch = (ifMatch?: string): number | undefined => {
+    const value = ifMatch?.trim();
+    if (!value || value === '*') {
+        return undefined;
+    }
+
+    const match = ETAG_PATTERN.exec(value);
+    if (!match) {
+        throw new BadRequestException(
+            'If-Match must be an ETag returned by the API, e.g. "3"'
+        );
+    }
+    return Number(match[1]);
+};
+
+/**
+ * Check that a record is at the version a client expects
+ * @param record - The record as just read
+ * @param expectedVersion - From If-Match; undefined skips the check
+ * @param message - The conflict message
+ * @returns The record's version, to base the update on
+ * @throws ConflictException with the record if it is at another version
+ */
+export const assertVersion = (
+    record: Versioned,
+    expectedVersion: number | undefined,
+    message: string
+): number => {
+    const version = record.version ?? 0;
+    if (expectedVersion !== undefined && expectedVersion !== version) {
+        throw versionConflict(message, record);
+    }
+    return version;
+};
+
+/**
+ * Filter matching the records still at a version, for a compare-and-set update
+ * @param version - The version the update was based on
+ */
+export const versionFilter = (version: number) => ({
+    OR: [
+        { version },
+        // Records saved before versioning are at version 0
+        ...(version === 0
+            ? [{ version: null }, { version: { isSet: false } }]
+            : [])
+    ]
+});
+
+/**
+ * Refuse an update based on an outdated version, with the current state so clients can merge
+ * @param message - What was changed meanwhile
+ * @param current - The record as it is now
+ * @returns A 409 exception whose body carries `current`
+ */
+export const versionConflict = (
+    message: string,
+    current: Versioned
+): ConflictException =>
+    new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message,
+        etag: toETag(current.version),
+        current
+    });
+
+/**
+ * Catch handler for a compare-and-set update: a missing record means it changed in the meantime
+ * @param message - The conflict message
+ * @param loadCurrent - Reads the record as it is now
+ */
+export const rethrowVersionConflict =
+    (message: string, loadCurrent: () => Promise<Versioned>) =>
+    async (error: unknown): Promise<never> => {
+        if (
+            error instanceof Prisma.PrismaClientKnownRequestError &&
+            error.code === 'P2025'
+        ) {
+            throw versionConflict(message, await loadCurrent());
+        }
+        throw error;
+    };
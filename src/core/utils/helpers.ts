@@ -196,3 +196,27 @@ export const slugify = (str: string): string => {
         .replace(/[\s_-]+/g, '-')
         .replace(/^-+|-+$/g, '');
 };
+
+/**
+ * Resolves an optional date range, such as the from/to query parameters of a report
+ * @param from - Start of the range (default: `defaultDays` before now)
+ * @param to - End of the range; a plain date (YYYY-MM-DD) covers the whole day (default: now)
+ * @param defaultDays - Length of the range when `from` is missing
+ * @returns {{ from: Date; to: Date }} The range boundaries
+ * @example
+ * resolveDateRange('2025-06-01', '2025-06-30')
+ * returns { from: 2025-06-01T00:00:00.000Z, to: 2025-06-30T23:59:59.999Z }
+ */
+export const resolveDateRange = (
+    from?: string,
+    to?: string,
+    defaultDays = 30
+): { from: Date; to: Date } => {
+    const end = to
+        ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to)
+        : new Date();
+    const start = from
+        ? new Date(from)
+        : new Date(end.getTime() - defaultDays * 24 * 60 * 60 * 1000);
+    return { from: start, to: end };
+};
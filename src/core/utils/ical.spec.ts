@@ -0,0 +1,131 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+    escapeText,
+    getProperty,
+    parseCalendar,
+    parseDateValue,
+    serializeCalendar,
+    unescapeText
+} from './ical';
+
+describe('ical utils', () => {
+    describe('serializeCalendar', () => {
+        it('should escape text and fold long lines at 75 bytes', () => {
+            const summary = `Relire la spécification; ${'é'.repeat(60)}`;
+
+            const document = serializeCalendar({
+                type: 'VCALENDAR',
+                properties: [{ name: 'VERSION', params: {}, value: '2.0' }],
+                components: [
+                    {
+                        type: 'VTODO',
+                        properties: [
+                            {
+                                name: 'SUMMARY',
+                                params: {},
+                                value: escapeText(summary)
+                            },
+                            {
+                                name: 'DUE',
+                                params: { VALUE: 'DATE' },
+                                value: '20250603'
+                            }
+                        ],
+                        components: []
+                    }
+                ]
+            });
+
+            const lines = document.split('\r\n');
+            expect(lines[0]).toBe('BEGIN:VCALENDAR');
+            expect(lines).toContain('DUE;VALUE=DATE:20250603');
+            expect(document.endsWith('END:VTODO\r\nEND:VCALENDAR\r\n')).toBe(
+                true
+            );
+            expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(
+                true
+            );
+
+            const [calendar] = parseCalendar(document);
+            const todo = calendar.components[0];
+            expect(unescapeText(getProperty(todo, 'SUMMARY').value)).toBe(
+                summary
+            );
+        });
+    });
+
+    describe('parseCalendar', () => {
+        it('should read nested components, parameters and folded lines', () => {
+            const [calendar] = parseCalendar(
+                [
+                    'BEGIN:VCALENDAR',
+                    'BEGIN:VEVENT',
+                    'SUMMARY:Team sync\\, weekly',
+                    'DESCRIPTION:First line\\nsecond',
+                    '  line',
+                    'ATTENDEE;CN="Doe, Jane";ROLE=REQ-PARTICIPANT:mailto:jane@example.com',
+                    'BEGIN:VALARM',
+                    'TRIGGER:-PT15M',
+                    'END:VALARM',
+                    'END:VEVENT',
+                    'END:VCALENDAR'
+                ].join('\n')
+            );
+
+            const event = calendar.components[0];
+            expect(event.type).toBe('VEVENT');
+            expect(event.components.map((component) => component.type)).toEqual(
+                ['VALARM']
+            );
+            expect(unescapeText(getProperty(event, 'SUMMARY').value)).toBe(
+                'Team sync, weekly'
+            );
+            expect(unescapeText(getProperty(event, 'DESCRIPTION').value)).toBe(
+                'First line\nsecond line'
+            );
+            expect(getProperty(event, 'ATTENDEE')).toEqual({
+                name: 'ATTENDEE',
+                params: { CN: 'Doe, Jane', ROLE: 'REQ-PARTICIPANT' },
+                value: 'mailto:jane@example.com'
+            });
+        });
+
+        it('should reject components that are not closed', () => {
+            expect(() =>
+                parseCalendar('BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nEND:VCALENDAR')
+            ).toThrow(BadRequestException);
+            expect(() => parseCalendar('BEGIN:VCALENDAR\r\n')).toThrow(
+                'VCALENDAR is not closed'
+            );
+        });
+    });
+
+    describe('parseDateValue', () => {
+        const date = (value: string, params: Record<string, string> = {}) =>
+            parseDateValue({ name: 'DTSTART', params, value }, 'Europe/Paris');
+
+        it('should read dates, UTC times, zoned times and floating times', () => {
+            expect(date('20250603', { VALUE: 'DATE' })).toEqual({
+                date: new Date('2025-06-03T00:00:00.000Z'),
+                allDay: true
+            });
+            expect(date('20250603T093000Z')).toEqual({
+                date: new Date('2025-06-03T09:30:00.000Z'),
+                allDay: false
+            });
+            expect(
+                date('20250603T093000', { TZID: 'America/New_York' })
+            ).toEqual({
+                date: new Date('2025-06-03T13:30:00.000Z'),
+                allDay: false
+            });
+            // Unknown timezone names fall back to the given timezone
+            expect(
+                date('20250603T093000', { TZID: 'W. Europe Standard Time' })
+                    ?.date
+            ).toEqual(new Date('2025-06-03T07:30:00.000Z'));
+            expect(date('20250231')).toBeNull();
+            expect(date('tomorrow')).toBeNull();
+        });
+    });
+});
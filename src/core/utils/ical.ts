@@ -0,0 +1,268 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+    fromLocalDateTime,
+    isValidTimeZone,
+    startOfLocalDay
+} from './timezone';
+
+// Content lines longer than this many bytes are folded (RFC 5545, 3.1)
+const MAX_LINE_BYTES = 75;
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})$/;
+
+const DATE_TIME_VALUE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+
+export interface IcsProperty {
+    // Upper case, e.g. "DTSTART"
+    name: string;
+    // Parameter names in upper case, values without quotes
+    params: Record<string, string>;
+    // As written: text values are still escaped
+    value: string;
+}
+
+export interface IcsComponent {
+    // Upper case, e.g. "VEVENT"
+    type: string;
+    properties: IcsProperty[];
+    components: IcsComponent[];
+}
+
+export interface IcsDate {
+    date: Date;
+    // A DATE value: date is that day's midnight UTC
+    allDay: boolean;
+}
+
+/**
+ * Escapes a TEXT value
+ * @example
+ * escapeText('Call Bob; bring notes, pens') // returns 'Call Bob\; bring notes\, pens'
+ */
+export const escapeText = (text: string): string =>
+    text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+
+/**
+ * Reads a TEXT value
+ * @example
+ * unescapeText('Line one\\nLine two\\, continued') // returns 'Line one\nLine two, continued'
+ */
+export const unescapeText = (value: string): string =>
+    value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+        char.toLowerCase() === 'n' ? '\n' : char
+    );
+
+/**
+ * Writes a moment as a UTC DATE-TIME value
+ * @example
+ * formatDateTime(new Date('2025-06-02T09:30:00.000Z')) // returns '20250602T093000Z'
+ */
+export const formatDateTime = (date: Date): string =>
+    date
+        .toISOString()
+        .replace(/\.\d{3}/, '')
+        .replace(/[-:]/g, '');
+
+/**
+ * Writes a calendar day as a DATE value
+ * @param day - The day as YYYY-MM-DD
+ * @example
+ * formatDate('2025-06-02') // returns '20250602'
+ */
+export const formatDate = (day: string): string => day.replace(/-/g, '');
+
+const formatParamValue = (value: string): string =>
+    /[:;,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// Splits a line into chunks of at most MAX_LINE_BYTES, without cutting a character in two
+const foldLine = (line: string): string => {
+    const chunks: string[] = [];
+    let chunk = '';
+    let bytes = 0;
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        // Continuation lines start with a space, which counts towards their length
+        const limit = chunks.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1;
+        if (bytes + size > limit) {
+            chunks.push(chunk);
+            chunk = '';
+            bytes = 0;
+        }
+        chunk += char;
+        bytes += size;
+    }
+    chunks.push(chunk);
+
+    return chunks.join('\r\n ');
+};
+
+const serializeComponent = (component: IcsComponent): string[] => [
+    `BEGIN:${component.type}`,
+    ...component.properties.map(({ name, params, value }) =>
+        foldLine(
+            [
+                name,
+                ...Object.entries(params).map(
+                    ([param, paramValue]) =>
+                        `${param}=${formatParamValue(paramValue)}`
+                )
+            ].join(';') + `:${value}`
+        )
+    ),
+    ...component.components.flatMap(serializeComponent),
+    `END:${component.type}`
+];
+
+/**
+ * Writes a calendar as an iCalendar (RFC 5545) document
+ * @param calendar - The VCALENDAR component; text values must already be escaped
+ * @returns {string} The document, with CRLF line endings and long lines folded
+ */
+export const serializeCalendar = (calendar: IcsComponent): string =>
+    serializeComponent(calendar).join('\r\n') + '\r\n';
+
+// Index of the first occurrence of a character outside double quotes, or -1
+const indexOutsideQuotes = (line: string, char: string, from = 0): number => {
+    let quoted = false;
+    for (let i = from; i < line.length; i++) {
+        if (line[i] === '"') {
+            quoted = !quoted;
+        } else if (line[i] === char && !quoted) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+const splitOutsideQuotes = (text: string, char: string): string[] => {
+    const parts: string[] = [];
+    let start = 0;
+    let end = indexOutsideQuotes(text, char);
+    while (end !== -1) {
+        parts.push(text.slice(start, end));
+        start = end + 1;
+        end = indexOutsideQuotes(text, char, start);
+    }
+    parts.push(text.slice(start));
+    return parts;
+};
+
+const parseProperty = (line: string): IcsProperty | null => {
+    const colon = indexOutsideQuotes(line, ':');
+    if (colon === -1) {
+        return null;
+    }
+
+    const [name, ...params] = splitOutsideQuotes(line.slice(0, colon), ';');
+    return {
+        name: name.trim().toUpperCase(),
+        params: Object.fromEntries(
+            params.map((param) => {
+                const [paramName, ...value] = param.split('=');
+                return [
+                    paramName.trim().toUpperCase(),
+                    value.join('=').replace(/"/g, '')
+                ];
+            })
+        ),
+        value: line.slice(colon + 1)
+    };
+};
+
+/**
+ * Reads an iCalendar (RFC 5545) document
+ * Lines without a value are skipped; property values are kept as written
+ * @param text - The document
+ * @returns {IcsComponent[]} Its top-level components, usually a single VCALENDAR
+ * @throws BadRequestException if components are not properly nested
+ */
+export const parseCalendar = (text: string): IcsComponent[] => {
+    const root: IcsComponent = { type: '', properties: [], components: [] };
+    const open: IcsComponent[] = [root];
+
+    // Folded lines continue on lines starting with a space or a tab
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    for (const line of lines) {
+        const property = parseProperty(line);
+        if (!property) {
+            continue;
+        }
+
+        const current = open[open.length - 1];
+        const type = property.value.trim().toUpperCase();
+        if (property.name === 'BEGIN') {
+            const component = { type, properties: [], components: [] };
+            current.components.push(component);
+            open.push(component);
+        } else if (property.name === 'END') {
+            if (open.length === 1 || current.type !== type) {
+                throw new BadRequestException(
+                    `Invalid iCalendar file: unexpected END:${type}`
+                );
+            }
+            open.pop();
+        } else {
+            current.properties.push(property);
+        }
+    }
+
+    if (open.length > 1) {
+        throw new BadRequestException(
+            `Invalid iCalendar file: ${open[open.length - 1].type} is not closed`
+        );
+    }
+    return root.components;
+};
+
+/**
+ * Finds the first property of a component with a name
+ */
+export const getProperty = (
+    component: IcsComponent,
+    name: string
+): IcsProperty | undefined =>
+    component.properties.find((property) => property.name === name);
+
+/**
+ * Reads a DATE or DATE-TIME value
+ * UTC times are read as such, times with a TZID in that timezone when the runtime knows it,
+ * and the others (floating times, or Windows timezone names) in the given timezone
+ * @param property - e.g. a DTSTART or DUE property
+ * @param timeZone - The IANA timezone of times without a known timezone
+ * @returns {IcsDate | null} The moment, or null for an invalid value
+ * @example
+ * parseDateValue({ name: 'DUE', params: { TZID: 'Europe/Paris' }, value: '20250603T093000' }, 'UTC')
+ * returns { date: 2025-06-03T07:30:00.000Z, allDay: false }
+ */
+export const parseDateValue = (
+    property: IcsProperty,
+    timeZone: string
+): IcsDate | null => {
+    const value = property.value.trim();
+
+    const day = DATE_VALUE.exec(value);
+    if (day) {
+        const date = startOfLocalDay(`${day[1]}-${day[2]}-${day[3]}`, 'UTC');
+        return isNaN(date.getTime()) ? null : { date, allDay: true };
+    }
+
+    const time = DATE_TIME_VALUE.exec(value);
+    if (!time) {
+        return null;
+    }
+
+    const [, year, month, date, hours, minutes, seconds, utc] = time;
+    const localDateTime = `${year}-${month}-${date}T${hours}:${minutes}:${seconds}`;
+    const tzid = property.params.TZID;
+    const moment = fromLocalDateTime(
+        localDateTime,
+        utc ? 'UTC' : tzid && isValidTimeZone(tzid) ? tzid : timeZone
+    );
+
+    return isNaN(moment.getTime()) ? null : { date: moment, allDay: false };
+};
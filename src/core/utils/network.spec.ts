@@ -0,0 +1,51 @@
+import { isInternalAddress, isInternalHost, publicLookup } from './network';
+
+describe('network utils', () => {
+    describe('isInternalAddress', () => {
+        it('should flag loopback, private, link-local and mapped addresses', () => {
+            expect(
+                [
+                    '127.0.0.1',
+                    '10.1.2.3',
+                    '172.20.0.1',
+                    '192.168.1.10',
+                    '169.254.169.254',
+                    '0.0.0.0',
+                    '::1',
+                    'fd12:3456::1',
+                    'fe80::1',
+                    '::ffff:127.0.0.1'
+                ].filter((address) => !isInternalAddress(address))
+            ).toEqual([]);
+            expect(isInternalAddress('93.184.216.34')).toBe(false);
+            expect(isInternalAddress('2606:4700::1111')).toBe(false);
+            expect(isInternalAddress('example.com')).toBe(false);
+        });
+    });
+
+    describe('isInternalHost', () => {
+        it('should read hostnames as URLs give them', () => {
+            const host = (url: string) => isInternalHost(new URL(url).hostname);
+
+            expect(host('http://localhost:3000/hook')).toBe(true);
+            expect(host('http://api.localhost/hook')).toBe(true);
+            expect(host('http://[::1]/hook')).toBe(true);
+            // Decimal and short forms of 127.0.0.1
+            expect(host('http://2130706433/hook')).toBe(true);
+            expect(host('http://127.1/hook')).toBe(true);
+            expect(host('http://metadata.google.internal/')).toBe(true);
+            expect(host('https://ci.example.com/hook')).toBe(false);
+        });
+    });
+
+    describe('publicLookup', () => {
+        it('should refuse hosts resolving to an internal address', (done) => {
+            publicLookup('localhost', {}, (error) => {
+                expect(error?.message).toMatch(
+                    /^localhost resolves to the internal address/
+                );
+                done();
+            });
+        });
+    });
+});
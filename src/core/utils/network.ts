@@ -0,0 +1,81 @@
+import { lookup } from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3]
+] as const) {
+    INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128],
+    ['::1', 128],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+] as const) {
+    INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check whether an IP address cannot be reached from the internet, e.g. loopback, private or link-local.
+ * IPv4-mapped IPv6 addresses are checked as IPv4
+ */
+export const isInternalAddress = (address: string): boolean => {
+    const family = isIP(address);
+    return (
+        family !== 0 &&
+        INTERNAL_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    );
+};
+
+/**
+ * Check whether the hostname of a URL names this machine or an internal network, without resolving it
+ * @example
+ * isInternalHost(new URL('http://[::1]:3000/').hostname) // returns true
+ */
+export const isInternalHost = (hostname: string): boolean => {
+    const host = hostname
+        .toLowerCase()
+        .replace(/^\[(.*)\]$/, '$1')
+        .replace(/\.$/, '');
+
+    return (
+        host === 'localhost' ||
+        host.endsWith('.localhost') ||
+        host.endsWith('.local') ||
+        host.endsWith('.internal') ||
+        isInternalAddress(host)
+    );
+};
+
+/**
+ * dns.lookup for HTTP agents that must only reach the internet: fails when the host resolves to an internal address
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) =>
+    lookup(hostname, options, (error, address, family) => {
+        const addresses = Array.isArray(address)
+            ? address.map((entry) => entry.address)
+            : [address];
+        const internal = error ? undefined : addresses.find(isInternalAddress);
+
+        callback(
+            internal
+                ? new Error(
+                      `${hostname} resolves to the internal address ${internal}`
+                  )
+                : error,
+            address,
+            family
+        );
+    });
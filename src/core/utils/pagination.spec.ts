@@ -0,0 +1,130 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+    SortKey,
+    cursorFilter,
+    cursorOrderBy,
+    encodeCursor,
+    paginate
+} from './pagination';
+
+describe('pagination utils', () => {
+    const newestFirst: SortKey[] = [{ field: 'createdAt', order: 'desc' }];
+    const createdAt = new Date('2025-06-02T09:00:00.000Z');
+
+    describe('cursorFilter', () => {
+        it('should match the records after the cursor, ties broken by id', () => {
+            const cursor = encodeCursor(newestFirst, { id: 'b', createdAt });
+
+            expect(cursorFilter(newestFirst, cursor)).toEqual({
+                OR: [
+                    { AND: [{ createdAt: { lt: createdAt } }] },
+                    { AND: [{ createdAt }, { id: { lt: 'b' } }] }
+                ]
+            });
+            expect(cursorOrderBy(newestFirst)).toEqual([
+                { createdAt: 'desc' },
+                { id: 'desc' }
+            ]);
+        });
+
+        it('should place unset values first', () => {
+            const keys: SortKey[] = [
+                { field: 'dueDate', order: 'asc', nullable: true }
+            ];
+            const cursor = encodeCursor(keys, { id: 'a', dueDate: null });
+
+            expect(cursorFilter(keys, cursor)).toEqual({
+                OR: [
+                    {
+                        AND: [
+                            {
+                                AND: [
+                                    { dueDate: { not: null } },
+                                    { dueDate: { isSet: true } }
+                                ]
+                            }
+                        ]
+                    },
+                    {
+                        AND: [
+                            {
+                                OR: [
+                                    { dueDate: null },
+                                    { dueDate: { isSet: false } }
+                                ]
+                            },
+                            { id: { gt: 'a' } }
+                        ]
+                    }
+                ]
+            });
+        });
+
+        it('should reject malformed cursors and cursors of another sort', () => {
+            const cursor = encodeCursor(newestFirst, { id: 'b', createdAt });
+
+            expect(() => cursorFilter(newestFirst, 'not-a-cursor')).toThrow(
+                BadRequestException
+            );
+            expect(() =>
+                cursorFilter([{ field: 'createdAt', order: 'asc' }], cursor)
+            ).toThrow('another sort order');
+        });
+    });
+
+    describe('paginate', () => {
+        const records = [
+            { id: 'c', createdAt },
+            { id: 'b', createdAt },
+            { id: 'a', createdAt }
+        ];
+
+        it('should read one more record after a cursor to detect the next page', async () => {
+            const findMany = jest.fn().mockResolvedValue(records);
+            const cursor = encodeCursor(newestFirst, { id: 'd', createdAt });
+
+            const result = await paginate(
+                { limit: 2, cursor },
+                newestFirst,
+                findMany,
+                async () => 4
+            );
+
+            expect(findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ skip: 0, take: 3 })
+            );
+            expect(result.data.map((record) => record.id)).toEqual(['c', 'b']);
+            expect(result.meta).toEqual({
+                limit: 2,
+                total: 4,
+                hasNextPage: true,
+                hasPreviousPage: true,
+                nextCursor: encodeCursor(newestFirst, records[1])
+            });
+        });
+
+        it('should page by number and give the cursor of the next page', async () => {
+            const findMany = jest.fn().mockResolvedValue(records.slice(0, 2));
+
+            const result = await paginate(
+                { page: 1, limit: 2 },
+                newestFirst,
+                findMany,
+                async () => 3
+            );
+
+            expect(findMany).toHaveBeenCalledWith({
+                where: {},
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                skip: 0,
+                take: 2
+            });
+            expect(result.meta).toMatchObject({
+                page: 1,
+                totalPages: 2,
+                hasNextPage: true,
+                nextCursor: encodeCursor(newestFirst, records[1])
+            });
+        });
+    });
+});
@@ -0,0 +1,229 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+    PaginatedResponseDto,
+    PaginationMetaDto,
+    createPaginationMeta
+} from '../common/dto/pagination.dto';
+
+export interface SortKey {
+    field: string;
+    order: 'asc' | 'desc';
+    // Optional fields can be null or unset, which MongoDB sorts before any value
+    nullable?: boolean;
+}
+
+export interface PageRequest {
+    page?: number;
+    limit: number;
+    cursor?: string;
+}
+
+export interface PageQuery {
+    where: Record<string, unknown>;
+    orderBy: Record<string, 'asc' | 'desc'>[];
+    skip: number;
+    take: number;
+}
+
+type CursorValue = string | number | boolean | null;
+
+interface DecodedCursor {
+    sort: string;
+    values: CursorValue[];
+    id: string;
+}
+
+const isNull = (field: string) => ({
+    OR: [{ [field]: null }, { [field]: { isSet: false } }]
+});
+
+// Records placed strictly after `value` on one key; null when nothing can be
+const afterValue = (key: SortKey, value: CursorValue) => {
+    const { field, order } = key;
+    if (value === null) {
+        return order === 'asc'
+            ? {
+                  AND: [
+                      { [field]: { not: null } },
+                      { [field]: { isSet: true } }
+                  ]
+              }
+            : null;
+    }
+
+    const beyond = { [field]: { [order === 'asc' ? 'gt' : 'lt']: value } };
+
+    return key.nullable && order === 'desc'
+        ? { OR: [beyond, isNull(field)] }
+        : beyond;
+};
+
+const equalValue = (key: SortKey, value: CursorValue) =>
+    value === null ? isNull(key.field) : { [key.field]: value };
+
+// Dates are kept apart from strings so they can be compared as dates again
+const toCursorValue = (value: unknown): CursorValue | { date: string } =>
+    value instanceof Date
+        ? { date: value.toISOString() }
+        : ((value ?? null) as CursorValue);
+
+const fromCursorValue = (value: unknown) =>
+    value && typeof value === 'object' && 'date' in value
+        ? new Date((value as { date: string }).date)
+        : value;
+
+// The record ID breaks ties, so every record has its own place in the order
+const withIdKey = (keys: SortKey[]): SortKey[] => [
+    ...keys,
+    { field: 'id', order: keys[keys.length - 1]?.order ?? 'desc' }
+];
+
+const describeSort = (keys: SortKey[]): string =>
+    keys.map((key) => `${key.field}:${key.order}`).join(',');
+
+/**
+ * Encode the position of a record in a sort order as an opaque cursor
+ */
+export const encodeCursor = <T extends { id: string }>(
+    keys: SortKey[],
+    record: T
+): string =>
+    Buffer.from(
+        JSON.stringify({
+            sort: describeSort(keys),
+            values: keys.map((key) =>
+                toCursorValue((record as Record<string, unknown>)[key.field])
+            ),
+            id: record.id
+        })
+    ).toString('base64url');
+
+/**
+ * Decode a cursor into the sort values and ID of the record it was made from
+ * @throws BadRequestException if the cursor is malformed or was made for another sort order
+ */
+export const decodeCursor = (
+    keys: SortKey[],
+    cursor: string
+): { values: unknown[]; id: string } => {
+    let decoded: DecodedCursor;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch {
+        throw new BadRequestException('Invalid cursor');
+    }
+
+    if (
+        !decoded ||
+        typeof decoded.id !== 'string' ||
+        !Array.isArray(decoded.values) ||
+        decoded.values.length !== keys.length
+    ) {
+        throw new BadRequestException('Invalid cursor');
+    }
+    if (decoded.sort !== describeSort(keys)) {
+        throw new BadRequestException(
+            'The cursor was made for another sort order; start again without it'
+        );
+    }
+
+    return {
+        values: decoded.values.map(fromCursorValue),
+        id: decoded.id
+    };
+};
+
+/**
+ * Decode a cursor into a filter matching the records after it
+ * @throws BadRequestException if the cursor is malformed or was made for another sort order
+ */
+export const cursorFilter = (
+    keys: SortKey[],
+    cursor: string
+): Record<string, unknown> => {
+    const decoded = decodeCursor(keys, cursor);
+    const allKeys = withIdKey(keys);
+    const values = [...decoded.values, decoded.id] as CursorValue[];
+
+    // (k1 after) OR (k1 equal AND k2 after) OR ... OR (all keys equal AND id after)
+    return {
+        OR: allKeys.flatMap((key, index) => {
+            const after = afterValue(key, values[index]);
+            return after
+                ? [
+                      {
+                          AND: [
+                              ...allKeys
+                                  .slice(0, index)
+                                  .map((previous, i) =>
+                                      equalValue(previous, values[i])
+                                  ),
+                              after
+                          ]
+                      }
+                  ]
+                : [];
+        })
+    };
+};
+
+/**
+ * Get the orderBy of a sort order, with the record ID as tiebreaker
+ */
+export const cursorOrderBy = (
+    keys: SortKey[]
+): Record<string, 'asc' | 'desc'>[] =>
+    withIdKey(keys).map((key) => ({ [key.field]: key.order }));
+
+/**
+ * Read a page of records, either after a cursor or by page number.
+ * Both return the cursor of the next page, so clients can switch to cursors after the first page
+ * @param request - page and limit, or cursor and limit; the cursor takes precedence
+ * @param keys - The sort order; the record ID is added as tiebreaker
+ * @param findMany - Reads the records; `where` must be combined with the caller's filters
+ * @param count - Counts the records matching the caller's filters
+ */
+export const paginate = async <T extends { id: string }>(
+    { page = 1, limit, cursor }: PageRequest,
+    keys: SortKey[],
+    findMany: (query: PageQuery) => Promise<T[]>,
+    count: () => Promise<number>
+): Promise<PaginatedResponseDto<T>> => {
+    const orderBy = cursorOrderBy(keys);
+
+    if (cursor) {
+        const [records, total] = await Promise.all([
+            findMany({
+                where: cursorFilter(keys, cursor),
+                orderBy,
+                skip: 0,
+                // One more record tells whether there is a next page
+                take: limit + 1
+            }),
+            count()
+        ]);
+        const data = records.slice(0, limit);
+        const hasNextPage = records.length > limit;
+        const meta: PaginationMetaDto = {
+            limit,
+            total,
+            hasNextPage,
+            hasPreviousPage: true,
+            nextCursor: hasNextPage
+                ? encodeCursor(keys, data[data.length - 1])
+                : null
+        };
+        return { data, meta };
+    }
+
+    const [data, total] = await Promise.all([
+        findMany({ where: {}, orderBy, skip: (page - 1) * limit, take: limit }),
+        count()
+    ]);
+    const meta = createPaginationMeta(page, limit, total);
+    meta.nextCursor =
+        meta.hasNextPage && data.length > 0
+            ? encodeCursor(keys, data[data.length - 1])
+            : null;
+    return { data, meta };
+};
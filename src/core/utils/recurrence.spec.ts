@@ -0,0 +1,131 @@
+import {
+    detectRecurrence,
+    formatRRule,
+    getNextOccurrence,
+    parseRRule
+} from './recurrence';
+
+describe('recurrence utils', () => {
+    describe('parseRRule', () => {
+        it('should parse a weekly rule with interval, days and count', () => {
+            expect(
+                parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10')
+            ).toEqual({
+                frequency: 'WEEKLY',
+                interval: 2,
+                byDay: ['MO', 'TH'],
+                byMonthDay: [],
+                until: null,
+                count: 10
+            });
+        });
+
+        it('should parse UNTIL as an end-of-day UTC date', () => {
+            const rule = parseRRule('FREQ=DAILY;UNTIL=20251231');
+            expect(rule.until?.toISOString()).toBe('2025-12-31T23:59:59.000Z');
+        });
+
+        it('should reject unsupported or malformed rules', () => {
+            expect(() => parseRRule('INTERVAL=2')).toThrow();
+            expect(() => parseRRule('FREQ=HOURLY')).toThrow();
+            expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow();
+            expect(() => parseRRule('FREQ=DAILY;BYSETPOS=1')).toThrow();
+            expect(() =>
+                parseRRule('FREQ=DAILY;COUNT=2;UNTIL=20251231')
+            ).toThrow();
+        });
+
+        it('should round-trip through formatRRule', () => {
+            const rule = 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1,-1;COUNT=4';
+            expect(formatRRule(parseRRule(rule))).toBe(rule);
+        });
+    });
+
+    describe('getNextOccurrence', () => {
+        // Monday 6 January 2025, 09:00 UTC
+        const monday = new Date('2025-01-06T09:00:00.000Z');
+
+        it('should step daily rules by their interval', () => {
+            const next = getNextOccurrence(
+                parseRRule('FREQ=DAILY;INTERVAL=3'),
+                monday
+            );
+            expect(next?.toISOString()).toBe('2025-01-09T09:00:00.000Z');
+        });
+
+        it('should pick the next listed weekday', () => {
+            const next = getNextOccurrence(
+                parseRRule('FREQ=WEEKLY;BYDAY=MO,TH'),
+                monday
+            );
+            expect(next?.toISOString()).toBe('2025-01-09T09:00:00.000Z');
+        });
+
+        it('should skip weeks outside the interval', () => {
+            const thursday = new Date('2025-01-09T09:00:00.000Z');
+            const next = getNextOccurrence(
+                parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'),
+                thursday,
+                monday
+            );
+            expect(next?.toISOString()).toBe('2025-01-20T09:00:00.000Z');
+        });
+
+        it('should clamp monthly rules to the end of shorter months', () => {
+            const jan31 = new Date('2025-01-31T09:00:00.000Z');
+            const next = getNextOccurrence(parseRRule('FREQ=MONTHLY'), jan31);
+            expect(next?.toISOString()).toBe('2025-02-28T09:00:00.000Z');
+        });
+
+        it('should support the last day of the month', () => {
+            const next = getNextOccurrence(
+                parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1'),
+                new Date('2025-02-28T09:00:00.000Z')
+            );
+            expect(next?.toISOString()).toBe('2025-03-31T09:00:00.000Z');
+        });
+
+        it('should stop after UNTIL', () => {
+            const next = getNextOccurrence(
+                parseRRule('FREQ=WEEKLY;UNTIL=20250110'),
+                monday
+            );
+            expect(next).toBeNull();
+        });
+    });
+
+    describe('detectRecurrence', () => {
+        it.each([
+            ['Send the weekly report every Monday', ['MO']],
+            ['Réunion chaque lundi', ['MO']],
+            ['Sport tous les mardis et jeudis', ['TU', 'TH']],
+            ['Llamar a mamá cada domingo', ['SU']],
+            ['Müll rausbringen jeden Freitag', ['FR']]
+        ])('should detect weekdays in "%s"', (text, byDay) => {
+            expect(detectRecurrence(text)).toMatchObject({
+                frequency: 'WEEKLY',
+                interval: 1,
+                byDay
+            });
+        });
+
+        it.each([
+            ['Water the plants every day', 'DAILY', 1],
+            ['Backup every other week', 'WEEKLY', 2],
+            ['Payer le loyer tous les mois', 'MONTHLY', 1],
+            ['Revisar el coche cada 6 meses', 'MONTHLY', 6],
+            ['Steuererklärung jährlich', 'YEARLY', 1]
+        ])('should detect "%s"', (text, frequency, interval) => {
+            expect(detectRecurrence(text)).toMatchObject({
+                frequency,
+                interval,
+                byDay: []
+            });
+        });
+
+        it('should return null for one-off tasks', () => {
+            expect(detectRecurrence('Call the bank tomorrow')).toBeNull();
+            expect(detectRecurrence('Finir le rapport lundi')).toBeNull();
+        });
+    });
+});
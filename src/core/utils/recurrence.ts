@@ -0,0 +1,399 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * A recurrence rule, modelled on the subset of RFC 5545 RRULE we support:
+ * FREQ, INTERVAL, BYDAY (plain weekdays), BYMONTHDAY, UNTIL and COUNT
+ */
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number;
+    byDay: Weekday[];
+    byMonthDay: number[];
+    until?: Date | null;
+    count?: number | null;
+}
+
+// Indexed like Date.getUTCDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+    'DAILY',
+    'WEEKLY',
+    'MONTHLY',
+    'YEARLY'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10"
+ * @param rule - The RRULE string, with or without the "RRULE:" prefix
+ * @returns {RecurrenceRule} The parsed rule
+ * @throws Error if the rule is malformed or uses unsupported parts
+ * @example
+ * parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1') // last day of every month
+ */
+export const parseRRule = (rule: string): RecurrenceRule => {
+    const body = rule.trim().replace(/^RRULE:/i, '');
+    const parts = new Map<string, string>();
+
+    for (const part of body.split(';').filter(Boolean)) {
+        const [key, value] = part.split('=');
+        if (!key || value === undefined || value === '') {
+            throw new Error(`Invalid RRULE part "${part}"`);
+        }
+        parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    }
+
+    const frequency = parts.get('FREQ') as RecurrenceFrequency;
+    if (!FREQUENCIES.includes(frequency)) {
+        throw new Error(
+            'RRULE must define FREQ as DAILY, WEEKLY, MONTHLY or YEARLY'
+        );
+    }
+
+    const result: RecurrenceRule = {
+        frequency,
+        interval: 1,
+        byDay: [],
+        byMonthDay: [],
+        until: null,
+        count: null
+    };
+
+    for (const [key, value] of parts) {
+        switch (key) {
+            case 'FREQ':
+                break;
+            case 'INTERVAL':
+                result.interval = parsePositiveInt(value, 'INTERVAL');
+                break;
+            case 'COUNT':
+                result.count = parsePositiveInt(value, 'COUNT');
+                break;
+            case 'UNTIL':
+                result.until = parseRRuleDate(value);
+                break;
+            case 'BYDAY':
+                result.byDay = value.split(',').map((day) => {
+                    if (!WEEKDAYS.includes(day as Weekday)) {
+                        throw new Error(`Unsupported BYDAY value "${day}"`);
+                    }
+                    return day as Weekday;
+                });
+                break;
+            case 'BYMONTHDAY':
+                result.byMonthDay = value.split(',').map((day) => {
+                    const n = Number(day);
+                    if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) {
+                        throw new Error(`Invalid BYMONTHDAY value "${day}"`);
+                    }
+                    return n;
+                });
+                break;
+            default:
+                throw new Error(`Unsupported RRULE part "${key}"`);
+        }
+    }
+
+    if (result.until && result.count) {
+        throw new Error('RRULE cannot define both UNTIL and COUNT');
+    }
+
+    return result;
+};
+
+/**
+ * Serializes a recurrence rule back to an RRULE string
+ * @param rule - The rule to serialize
+ * @returns {string} The RRULE string, without the "RRULE:" prefix
+ * @example
+ * formatRRule({ frequency: 'WEEKLY', interval: 1, byDay: ['MO'], byMonthDay: [] })
+ * returns 'FREQ=WEEKLY;BYDAY=MO'
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.frequency}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+    if (rule.byMonthDay.length) {
+        parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    }
+    if (rule.until) {
+        parts.push(
+            `UNTIL=${rule.until.toISOString().replace(/[-:]|\.\d{3}/g, '')}`
+        );
+    }
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    return parts.join(';');
+};
+
+/**
+ * Computes the first occurrence strictly after a date
+ * Calendar arithmetic is done in UTC and keeps the time of day of `after`
+ * @param rule - The recurrence rule
+ * @param after - The current occurrence
+ * @param start - The first occurrence of the series, used to align intervals
+ * @returns {Date | null} The next occurrence, or null once past UNTIL (COUNT is left to the caller)
+ * @example
+ * getNextOccurrence(parseRRule('FREQ=WEEKLY;BYDAY=MO,TH'), monday, monday) // the Thursday after
+ */
+export const getNextOccurrence = (
+    rule: RecurrenceRule,
+    after: Date,
+    start: Date = after
+): Date | null => {
+    const interval = Math.max(1, rule.interval || 1);
+    let next: Date | null = null;
+
+    switch (rule.frequency) {
+        case 'DAILY':
+            next = new Date(after.getTime() + interval * DAY_MS);
+            break;
+        case 'WEEKLY':
+            next = nextWeekly(rule.byDay, interval, after, start);
+            break;
+        case 'MONTHLY':
+            next = nextMonthly(rule.byMonthDay, interval, after, start);
+            break;
+        case 'YEARLY':
+            next = addMonths(after, 12 * interval, start.getUTCDate());
+            break;
+    }
+
+    if (!next || (rule.until && next.getTime() > rule.until.getTime())) {
+        return null;
+    }
+
+    return next;
+};
+
+const WEEKDAY_NAMES: Record<Weekday, string[]> = {
+    MO: ['monday', 'lundi', 'lunes', 'segunda', 'montag'],
+    TU: ['tuesday', 'mardi', 'martes', 'terça', 'terca', 'dienstag'],
+    WE: [
+        'wednesday',
+        'mercredi',
+        'miércoles',
+        'miercoles',
+        'quarta',
+        'mittwoch'
+    ],
+    TH: ['thursday', 'jeudi', 'jueves', 'quinta', 'donnerstag'],
+    FR: ['friday', 'vendredi', 'viernes', 'sexta', 'freitag'],
+    SA: ['saturday', 'samedi', 'sábado', 'sabado', 'samstag'],
+    SU: ['sunday', 'dimanche', 'domingo', 'sonntag']
+};
+
+// "every", "chaque", "tous les", "cada", "todos os", "jeden"...
+const EVERY =
+    '(?:every|each|chaque|tou(?:te)?s\\s+les|cada|tod[oa]s?(?:\\s+(?:los|las|os|as))?|jede[nrs]?|alle)';
+
+const GERMAN_WEEKDAY_ADVERBS =
+    '(?:montags|dienstags|mittwochs|donnerstags|freitags|samstags|sonntags)';
+
+const WORKDAYS =
+    '(?:every\\s+weekday|weekdays|en\\s+semaine|jours\\s+ouvr[ée]s|werktags)';
+
+const UNIT_FREQUENCIES: Array<[RegExp, RecurrenceFrequency]> = [
+    [/^(?:days?|jours?|d[ií]as?|tage?n?)$/, 'DAILY'],
+    [/^(?:weeks?|semaines?|semanas?|wochen?)$/, 'WEEKLY'],
+    [/^(?:months?|mois|mes(?:es)?|m[eê]s|monate?n?)$/, 'MONTHLY'],
+    [/^(?:years?|ans?|ann[ée]es?|a[ñn]os?|jahre?n?)$/, 'YEARLY']
+];
+
+const ADVERB_FREQUENCIES: Array<[RegExp, RecurrenceFrequency]> = [
+    [
+        /(?:daily|quotidien(?:ne)?(?:ment)?|diari[oa]|diariamente|t[äa]glich)/,
+        'DAILY'
+    ],
+    [
+        /(?:weekly|hebdomadaire(?:ment)?|semanal(?:mente)?|w[öo]chentlich)/,
+        'WEEKLY'
+    ],
+    [
+        /(?:monthly|mensuel(?:le)?(?:ment)?|mensual(?:mente)?|mensal(?:mente)?|monatlich)/,
+        'MONTHLY'
+    ],
+    [
+        /(?:yearly|annually|annuel(?:le)?(?:ment)?|anual(?:mente)?|j[äa]hrlich)/,
+        'YEARLY'
+    ]
+];
+
+const word = (pattern: string) =>
+    new RegExp(`(?<![\\p{L}])${pattern}(?![\\p{L}])`, 'iu');
+
+/**
+ * Detects a recurrence in free text, e.g. "every Monday", "chaque lundi", "tous les mois",
+ * "cada 2 semanas" or "jeden Freitag"
+ * @param text - The user text
+ * @returns {RecurrenceRule | null} The detected rule, or null when the text is not recurring
+ */
+export const detectRecurrence = (text: string): RecurrenceRule | null => {
+    const lower = (text || '').toLowerCase();
+    if (!lower.trim()) return null;
+
+    const rule = (
+        frequency: RecurrenceFrequency,
+        interval = 1,
+        byDay: Weekday[] = []
+    ): RecurrenceRule => ({
+        frequency,
+        interval,
+        byDay,
+        byMonthDay: [],
+        until: null,
+        count: null
+    });
+
+    // Weekdays: "every Monday and Thursday", "tous les lundis", "montags"
+    const anyWeekday = `(?:${Object.values(WEEKDAY_NAMES).flat().join('|')})s?`;
+    if (
+        word(`${EVERY}\\s+(?:(?:the|le|el|o|a)\\s+)?${anyWeekday}`).test(
+            lower
+        ) ||
+        word(GERMAN_WEEKDAY_ADVERBS).test(lower)
+    ) {
+        const days = WEEKDAYS.filter((day) =>
+            word(`(?:${WEEKDAY_NAMES[day].join('|')})s?`).test(lower)
+        );
+        return rule('WEEKLY', 1, days);
+    }
+
+    if (word(WORKDAYS).test(lower)) {
+        return rule('WEEKLY', 1, ['MO', 'TU', 'WE', 'TH', 'FR']);
+    }
+
+    // "every day", "every other week", "toutes les 2 semaines", "alle 3 Monate"
+    const everyUnit = new RegExp(
+        `(?<![\\p{L}])${EVERY}\\s+(?:(other|\\d+)\\s+)?(\\p{L}+)`,
+        'giu'
+    );
+    for (const [, amount, unit] of lower.matchAll(everyUnit)) {
+        const found = UNIT_FREQUENCIES.find(([pattern]) => pattern.test(unit));
+        const interval = amount === 'other' ? 2 : Number(amount ?? 1);
+        if (found && interval > 0) {
+            return rule(found[1], interval);
+        }
+    }
+
+    for (const [pattern, frequency] of ADVERB_FREQUENCIES) {
+        if (word(pattern.source).test(lower)) {
+            return rule(frequency);
+        }
+    }
+
+    return null;
+};
+
+const parsePositiveInt = (value: string, name: string): number => {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1) {
+        throw new Error(`${name} must be a positive integer`);
+    }
+    return n;
+};
+
+const parseRRuleDate = (value: string): Date => {
+    const match = value.match(
+        /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/
+    );
+    if (!match) {
+        throw new Error(`Invalid UNTIL value "${value}"`);
+    }
+    const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+    return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+};
+
+const startOfUtcWeek = (date: Date): number => {
+    const day = Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate()
+    );
+    return day - date.getUTCDay() * DAY_MS;
+};
+
+const nextWeekly = (
+    byDay: Weekday[],
+    interval: number,
+    after: Date,
+    start: Date
+): Date => {
+    if (byDay.length === 0) {
+        return new Date(after.getTime() + 7 * interval * DAY_MS);
+    }
+
+    const startWeek = startOfUtcWeek(start);
+    // Any matching weekday is at most one full interval of weeks away
+    for (let offset = 1; offset <= 7 * (interval + 1); offset++) {
+        const candidate = new Date(after.getTime() + offset * DAY_MS);
+        const weeks = Math.round(
+            (startOfUtcWeek(candidate) - startWeek) / (7 * DAY_MS)
+        );
+        if (
+            weeks % interval === 0 &&
+            byDay.includes(WEEKDAYS[candidate.getUTCDay()])
+        ) {
+            return candidate;
+        }
+    }
+
+    return new Date(after.getTime() + 7 * interval * DAY_MS);
+};
+
+const daysInUtcMonth = (year: number, month: number): number =>
+    new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const addMonths = (date: Date, months: number, dayOfMonth: number): Date => {
+    const target = new Date(date.getTime());
+    target.setUTCDate(1);
+    target.setUTCMonth(target.getUTCMonth() + months);
+    const lastDay = daysInUtcMonth(
+        target.getUTCFullYear(),
+        target.getUTCMonth()
+    );
+    target.setUTCDate(Math.min(dayOfMonth, lastDay));
+    return target;
+};
+
+const nextMonthly = (
+    byMonthDay: number[],
+    interval: number,
+    after: Date,
+    start: Date
+): Date => {
+    if (byMonthDay.length === 0) {
+        return addMonths(after, interval, start.getUTCDate());
+    }
+
+    const monthIndex = (date: Date) =>
+        date.getUTCFullYear() * 12 + date.getUTCMonth();
+    const startMonth = monthIndex(start);
+
+    for (let offset = 0; offset <= interval * 12; offset++) {
+        const month = addMonths(after, offset, 1);
+        if ((monthIndex(month) - startMonth) % interval !== 0) continue;
+
+        const lastDay = daysInUtcMonth(
+            month.getUTCFullYear(),
+            month.getUTCMonth()
+        );
+        const days = byMonthDay
+            .map((day) => (day < 0 ? lastDay + day + 1 : day))
+            .filter((day) => day >= 1 && day <= lastDay)
+            .sort((a, b) => a - b);
+
+        for (const day of days) {
+            const candidate = new Date(month.getTime());
+            candidate.setUTCDate(day);
+            if (candidate.getTime() > after.getTime()) {
+                return candidate;
+            }
+        }
+    }
+
+    return addMonths(after, interval, start.getUTCDate());
+};
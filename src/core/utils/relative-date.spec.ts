@@ -0,0 +1,67 @@
+import { BadRequestException } from '@nestjs/common';
+import { RELATIVE_DUE_RANGE, resolveRelativeDueRange } from './relative-date';
+
+describe('resolveRelativeDueRange', () => {
+    // A Wednesday
+    const now = new Date('2025-06-04T22:30:00.000Z');
+
+    it('should resolve single days and overdue', () => {
+        expect(resolveRelativeDueRange('today', now)).toEqual({
+            dueFrom: '2025-06-04',
+            dueUntil: '2025-06-04'
+        });
+        expect(resolveRelativeDueRange('Tomorrow', now)).toEqual({
+            dueFrom: '2025-06-05',
+            dueUntil: '2025-06-05'
+        });
+        expect(resolveRelativeDueRange('overdue', now)).toEqual({
+            dueUntil: '2025-06-03'
+        });
+    });
+
+    it('should count today as the first of the next or last days', () => {
+        expect(resolveRelativeDueRange('next 7 days', now)).toEqual({
+            dueFrom: '2025-06-04',
+            dueUntil: '2025-06-10'
+        });
+        expect(resolveRelativeDueRange('last  3 days', now)).toEqual({
+            dueFrom: '2025-06-02',
+            dueUntil: '2025-06-04'
+        });
+    });
+
+    it('should resolve weeks from Monday and whole months', () => {
+        expect(resolveRelativeDueRange('this week', now)).toEqual({
+            dueFrom: '2025-06-02',
+            dueUntil: '2025-06-08'
+        });
+        expect(resolveRelativeDueRange('last week', now)).toEqual({
+            dueFrom: '2025-05-26',
+            dueUntil: '2025-06-01'
+        });
+        expect(
+            resolveRelativeDueRange(
+                'next month',
+                new Date('2025-12-15T00:00:00.000Z')
+            )
+        ).toEqual({ dueFrom: '2026-01-01', dueUntil: '2026-01-31' });
+    });
+
+    it("should resolve days in the user's timezone", () => {
+        // Already Thursday in Paris
+        expect(resolveRelativeDueRange('today', now, 'Europe/Paris')).toEqual({
+            dueFrom: '2025-06-05',
+            dueUntil: '2025-06-05'
+        });
+        expect(
+            resolveRelativeDueRange('yesterday', now, 'America/Los_Angeles')
+        ).toEqual({ dueFrom: '2025-06-03', dueUntil: '2025-06-03' });
+    });
+
+    it('should reject unknown ranges', () => {
+        expect(RELATIVE_DUE_RANGE.test('next fortnight')).toBe(false);
+        expect(() => resolveRelativeDueRange('next fortnight', now)).toThrow(
+            BadRequestException
+        );
+    });
+});
@@ -0,0 +1,90 @@
+import { BadRequestException } from '@nestjs/common';
+import { getLocalDay } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// today, tomorrow, yesterday, overdue, this/next/last week or month, next/last N days
+export const RELATIVE_DUE_RANGE =
+    /^\s*(today|tomorrow|yesterday|overdue|(this|next|last)\s+(week|month)|(next|last)\s+\d{1,3}\s+days?)\s*$/i;
+
+export interface DueRange {
+    // Days as YYYY-MM-DD, like the dueFrom/dueUntil filters of GET /tasks
+    dueFrom?: string;
+    dueUntil?: string;
+}
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number): Date =>
+    new Date(date.getTime() + days * DAY_MS);
+
+const toRange = (from: Date, until: Date): DueRange => ({
+    dueFrom: toDay(from),
+    dueUntil: toDay(until)
+});
+
+const PERIOD_SHIFT: Record<string, number> = { last: -1, this: 0, next: 1 };
+
+/**
+ * Resolves a relative due date range into the days it covers today
+ * @param expression - A phrase matching RELATIVE_DUE_RANGE, e.g. "next 7 days"
+ * @param now - The moment the range is resolved at
+ * @param timeZone - The timezone whose calendar days are meant
+ * @returns {DueRange} The first and last due days; overdue has no first day
+ * @throws BadRequestException if the phrase is not a known range
+ * @example
+ * resolveRelativeDueRange('next 7 days', new Date('2025-06-04T10:00:00Z'))
+ * // returns { dueFrom: '2025-06-04', dueUntil: '2025-06-10' }
+ */
+export const resolveRelativeDueRange = (
+    expression: string,
+    now = new Date(),
+    timeZone = 'UTC'
+): DueRange => {
+    // The local day, computed on as a UTC date
+    const today = new Date(`${getLocalDay(now, timeZone)}T00:00:00.000Z`);
+    const phrase = expression.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    const days = /^(next|last) (\d{1,3}) days?$/.exec(phrase);
+    if (days) {
+        // Today counts as the first of the days
+        const span = Math.max(Number(days[2]), 1) - 1;
+        return days[1] === 'next'
+            ? toRange(today, addDays(today, span))
+            : toRange(addDays(today, -span), today);
+    }
+
+    const period = /^(this|next|last) (week|month)$/.exec(phrase);
+    if (period) {
+        const shift = PERIOD_SHIFT[period[1]];
+        if (period[2] === 'week') {
+            // Weeks start on Monday
+            const monday = addDays(
+                today,
+                7 * shift - ((today.getUTCDay() + 6) % 7)
+            );
+            return toRange(monday, addDays(monday, 6));
+        }
+        const year = today.getUTCFullYear();
+        const month = today.getUTCMonth() + shift;
+        return toRange(
+            new Date(Date.UTC(year, month, 1)),
+            new Date(Date.UTC(year, month + 1, 0))
+        );
+    }
+
+    switch (phrase) {
+        case 'today':
+            return toRange(today, today);
+        case 'tomorrow':
+            return toRange(addDays(today, 1), addDays(today, 1));
+        case 'yesterday':
+            return toRange(addDays(today, -1), addDays(today, -1));
+        case 'overdue':
+            return { dueUntil: toDay(addDays(today, -1)) };
+        default:
+            throw new BadRequestException(
+                `Unknown relative date range: ${expression}`
+            );
+    }
+};
@@ -0,0 +1,89 @@
+import { parseSearchQuery, SearchCatalog } from './search-query';
+
+describe('parseSearchQuery', () => {
+    const catalog: SearchCatalog = {
+        projects: [
+            { id: 'project1', name: 'Mobile App' },
+            { id: 'project2', name: 'Mobile App v2' }
+        ],
+        labels: [
+            { id: 'label1', name: 'bug' },
+            { id: 'label2', name: 'Design' }
+        ]
+    };
+
+    it('should read priority, due range and project in English', () => {
+        expect(
+            parseSearchQuery(
+                'high priority tasks due next week in Mobile App',
+                catalog
+            )
+        ).toEqual({
+            filter: {
+                priority: 'HIGH',
+                dueWithin: 'next week',
+                projectId: 'project1'
+            },
+            unmatched: []
+        });
+    });
+
+    it('should read French, Spanish, Portuguese and German searches', () => {
+        expect(
+            parseSearchQuery(
+                'tâches urgentes en cours de cette semaine #bug',
+                catalog
+            ).filter
+        ).toEqual({
+            status: 'IN_PROGRESS',
+            priority: 'URGENT',
+            dueWithin: 'this week',
+            labelIds: ['label1']
+        });
+        expect(
+            parseSearchQuery(
+                'tareas terminadas de los próximos 10 días',
+                catalog
+            ).filter
+        ).toEqual({ status: 'DONE', dueWithin: 'next 10 days' });
+        expect(
+            parseSearchQuery('tarefas a fazer do Mobile App v2', catalog).filter
+        ).toEqual({ status: 'TODO', projectId: 'project2' });
+        expect(
+            parseSearchQuery(
+                'Überfällige Aufgaben mit hoher Priorität',
+                catalog
+            ).filter
+        ).toEqual({ priority: 'HIGH', dueWithin: 'overdue' });
+    });
+
+    it('should search quoted text and report the words it did not understand', () => {
+        expect(
+            parseSearchQuery(
+                'design tasks "quarterly report" for clients',
+                catalog
+            )
+        ).toEqual({
+            filter: { search: 'quarterly report', labelIds: ['label2'] },
+            unmatched: ['clients']
+        });
+    });
+
+    it('should read an explicit date when there is no relative range', () => {
+        const parseDate = jest.fn().mockReturnValue({
+            day: '2025-03-14',
+            text: 'March 14'
+        });
+
+        expect(
+            parseSearchQuery('tasks due March 14', catalog, parseDate)
+        ).toEqual({
+            filter: { dueFrom: '2025-03-14', dueUntil: '2025-03-14' },
+            unmatched: []
+        });
+        expect(
+            parseSearchQuery('tasks due today', catalog, parseDate).filter
+        ).toEqual({ dueWithin: 'today' });
+        expect(parseDate).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,237 @@
+import { TaskPriority, TaskStatus } from '@prisma/client';
+
+export interface SearchCatalogItem {
+    id: string;
+    name: string;
+}
+
+// Projects and labels a search can refer to by name
+export interface SearchCatalog {
+    projects: SearchCatalogItem[];
+    labels: SearchCatalogItem[];
+}
+
+// The filters of GET /tasks a search can be turned into
+export interface TaskSearchFilter {
+    status?: TaskStatus;
+    priority?: TaskPriority;
+    dueWithin?: string;
+    dueFrom?: string;
+    dueUntil?: string;
+    projectId?: string;
+    labelIds?: string[];
+    search?: string;
+}
+
+export interface ParsedSearchQuery {
+    filter: TaskSearchFilter;
+    // Words no rule understood, so they can be shown as ignored
+    unmatched: string[];
+}
+
+// Finds an explicit date in text, e.g. with chrono-node; returns its day (YYYY-MM-DD) and the text it was read from
+export type SearchDateParser = (
+    text: string
+) => { day: string; text: string } | null;
+
+// In order: "in progress" must win over the "progress" of other phrases
+const STATUS_PATTERNS: Array<[string, TaskStatus]> = [
+    [
+        '(?:in\\s+progress|ongoing|en\\s+cours|en\\s+progreso|en\\s+curso|em\\s+andamento|em\\s+progresso|in\\s+bearbeitung|in\\s+arbeit)',
+        TaskStatus.IN_PROGRESS
+    ],
+    [
+        '(?:to\\s*do|not\\s+started|[àa]\\s+faire|por\\s+hacer|pendientes?|a\\s+fazer|pendentes?|offene?n?|zu\\s+erledigen)',
+        TaskStatus.TODO
+    ],
+    [
+        '(?:cancell?ed|annul[ée]e?s?|cancelad[oa]s?|abgebrochene?n?|stornierte?n?)',
+        TaskStatus.CANCELLED
+    ],
+    [
+        '(?:done|completed|finished|termin[ée]e?s?|faite?s?|hech[oa]s?|terminad[oa]s?|completad[oa]s?|conclu[íi]d[oa]s?|feit[oa]s?|erledigte?n?|abgeschlossene?n?)',
+        TaskStatus.DONE
+    ]
+];
+
+const PRIORITY_PATTERNS: Array<[string, TaskPriority]> = [
+    [
+        '(?:urgent(?:e|es|s)?|dringende?n?|critical|critique|cr[íi]tic[oa]s?|kritische?n?|asap)',
+        TaskPriority.URGENT
+    ],
+    [
+        '(?:high(?:\\s+priority)?|important(?:e|es|s)?|haute\\s+priorit[ée]|priorit[ée]\\s+haute|prioritaires?|alta\\s+prioridade?|prioridade?\\s+alta|hohe[rn]?\\s+priorit[äa]t|wichtige?n?)',
+        TaskPriority.HIGH
+    ],
+    [
+        '(?:medium(?:\\s+priority)?|moyenne\\s+priorit[ée]|priorit[ée]\\s+moyenne|m[ée]dia\\s+prioridade?|prioridade?\\s+m[ée]dia|mittlere[rn]?\\s+priorit[äa]t)',
+        TaskPriority.MEDIUM
+    ],
+    [
+        '(?:low(?:\\s+priority)?|(?:basse|faible)\\s+priorit[ée]|priorit[ée]\\s+(?:basse|faible)|baja\\s+prioridad|prioridad\\s+baja|baixa\\s+prioridade|prioridade\\s+baixa|niedrige[rn]?\\s+priorit[äa]t)',
+        TaskPriority.LOW
+    ]
+];
+
+// Relative due ranges, as understood by the dueWithin filter
+const DUE_PATTERNS: Array<[string, string]> = [
+    [
+        '(?:overdue|late|en\\s+retard|atrasad[oa]s?|vencid[oa]s?|[üu]berf[äa]llige?n?)',
+        'overdue'
+    ],
+    ["(?:today|aujourd['’]?\\s*hui|hoy|hoje|heute)", 'today'],
+    ['(?:tomorrow|demain|ma[ñn]ana|amanh[ãa]|morgen)', 'tomorrow'],
+    ['(?:yesterday|ayer|ontem|gestern)', 'yesterday'],
+    [
+        '(?:this\\s+week|cette\\s+semaine|esta\\s+semana|diese[rn]?\\s+woche)',
+        'this week'
+    ],
+    [
+        '(?:next\\s+week|(?:la\\s+)?semaine\\s+prochaine|(?:la\\s+)?pr[óo]xima\\s+semana|(?:la\\s+)?semana\\s+que\\s+(?:viene|vem)|n[äa]chste[rn]?\\s+woche)',
+        'next week'
+    ],
+    [
+        '(?:last\\s+week|(?:la\\s+)?semaine\\s+derni[èe]re|(?:la\\s+)?semana\\s+pasada|(?:a\\s+)?semana\\s+passada|letzte[rn]?\\s+woche)',
+        'last week'
+    ],
+    [
+        '(?:this\\s+month|ce\\s+mois(?:-ci)?|este\\s+m[eê]s|diese[mn]?\\s+monat)',
+        'this month'
+    ],
+    [
+        '(?:next\\s+month|(?:le\\s+)?mois\\s+prochain|(?:el\\s+|o\\s+)?pr[óo]ximo\\s+m[eê]s|n[äa]chste[nr]?\\s+monat)',
+        'next month'
+    ],
+    [
+        '(?:last\\s+month|(?:le\\s+)?mois\\s+dernier|(?:el\\s+)?mes\\s+pasado|(?:o\\s+)?m[eê]s\\s+passado|letzte[nr]?\\s+monat)',
+        'last month'
+    ]
+];
+
+// "next 10 days", "10 prochains jours", "próximos 10 días", "nächsten 10 Tage"
+const NEXT_DAYS_PATTERN =
+    '(?:next\\s+(\\d{1,3})\\s+days|(\\d{1,3})\\s+prochains\\s+jours|prochains\\s+(\\d{1,3})\\s+jours|pr[óo]ximos\\s+(\\d{1,3})\\s+d[íi]as|n[äa]chsten\\s+(\\d{1,3})\\s+tagen?)';
+
+// Words that carry no filter of their own, in the supported languages
+const STOPWORDS = new Set([
+    // English
+    ...'tasks task my me all the a an of in on at for with and or due by before show find list priority project label labels tagged that are is which'.split(
+        ' '
+    ),
+    // French
+    ...'tâches tâche mes les le la des du de d en dans pour avec et ou à au aux échéance priorité projet étiquette étiquettes qui sont prévues prévu'.split(
+        ' '
+    ),
+    // Spanish
+    ...'tareas tarea mis los las el del para con y o que vencen prioridad proyecto etiqueta etiquetas'.split(
+        ' '
+    ),
+    // Portuguese
+    ...'tarefas tarefa minhas meus os as o do da no na em com e ou prioridade projeto'.split(
+        ' '
+    ),
+    // German
+    ...'aufgaben aufgabe meine die der das den dem im für mit und oder fällig bis priorität projekt'.split(
+        ' '
+    )
+]);
+
+const word = (pattern: string) =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, 'iu');
+
+const escapeRegExp = (text: string) =>
+    text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest names first, so "Mobile App v2" wins over "Mobile App"
+const byLongestName = (items: SearchCatalogItem[]) =>
+    [...items].sort((a, b) => b.name.length - a.name.length);
+
+/**
+ * Turns a task search in natural language into filters of GET /tasks, with fixed rules:
+ * status, priority, relative due ranges, project and label names, and quoted text to search for.
+ * Understands English, French, Spanish, Portuguese and German
+ * @param query - The search, e.g. "high priority tasks due next week in Mobile App"
+ * @param catalog - The projects and labels the user can search in
+ * @param parseDate - Reads an explicit date when no relative range is found
+ * @returns {ParsedSearchQuery} The filters, and the words that were not understood
+ * @example
+ * parseSearchQuery('tâches urgentes de cette semaine', { projects: [], labels: [] })
+ * // returns { filter: { priority: 'URGENT', dueWithin: 'this week' }, unmatched: [] }
+ */
+export const parseSearchQuery = (
+    query: string,
+    catalog: SearchCatalog,
+    parseDate?: SearchDateParser
+): ParsedSearchQuery => {
+    let rest = (query || '').toLowerCase();
+    const filter: TaskSearchFilter = {};
+
+    // Blanks out what a rule understood, so later rules and the unmatched words skip it
+    const take = (pattern: RegExp): RegExpExecArray | null => {
+        const match = pattern.exec(rest);
+        if (match) {
+            rest =
+                rest.slice(0, match.index) +
+                ' '.repeat(match[0].length) +
+                rest.slice(match.index + match[0].length);
+        }
+        return match;
+    };
+
+    const quoted = take(/["“«]([^"”»]+)["”»]/u);
+    if (quoted?.[1].trim()) {
+        filter.search = quoted[1].trim();
+    }
+
+    const project = byLongestName(catalog.projects).find((item) =>
+        take(word(escapeRegExp(item.name.toLowerCase())))
+    );
+    if (project) {
+        filter.projectId = project.id;
+    }
+
+    const labelIds = byLongestName(catalog.labels)
+        .filter((item) =>
+            take(word(`#?${escapeRegExp(item.name.toLowerCase())}`))
+        )
+        .map((item) => item.id);
+    if (labelIds.length > 0) {
+        filter.labelIds = labelIds;
+    }
+
+    filter.status = STATUS_PATTERNS.find(([pattern]) =>
+        take(word(pattern))
+    )?.[1];
+    filter.priority = PRIORITY_PATTERNS.find(([pattern]) =>
+        take(word(pattern))
+    )?.[1];
+
+    const nextDays = take(word(NEXT_DAYS_PATTERN));
+    if (nextDays) {
+        filter.dueWithin = `next ${nextDays.slice(1).find(Boolean)} days`;
+    } else {
+        filter.dueWithin = DUE_PATTERNS.find(([pattern]) =>
+            take(word(pattern))
+        )?.[1];
+    }
+
+    if (!filter.dueWithin && parseDate) {
+        const found = parseDate(rest);
+        if (found) {
+            filter.dueFrom = found.day;
+            filter.dueUntil = found.day;
+            take(new RegExp(escapeRegExp(found.text.toLowerCase())));
+        }
+    }
+
+    const unmatched = rest
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term && !STOPWORDS.has(term));
+
+    return {
+        filter: Object.fromEntries(
+            Object.entries(filter).filter(([, value]) => value !== undefined)
+        ) as TaskSearchFilter,
+        unmatched
+    };
+};
@@ -0,0 +1,34 @@
+import { toTaskSortKeys } from './task-sort';
+
+describe('toTaskSortKeys', () => {
+    it('should sort priority by its severity rank', () => {
+        expect(toTaskSortKeys('priority', 'desc')).toEqual([
+            { field: 'priorityRank', order: 'desc', nullable: true }
+        ]);
+    });
+
+    it('should give each field its order, the last one applying to the rest', () => {
+        expect(
+            toTaskSortKeys('priority,dueDate,createdAt', 'desc,asc')
+        ).toEqual([
+            { field: 'priorityRank', order: 'desc', nullable: true },
+            { field: 'dueDate', order: 'asc', nullable: true },
+            { field: 'createdAt', order: 'asc' }
+        ]);
+    });
+
+    it('should skip unknown and repeated fields', () => {
+        expect(toTaskSortKeys('title,dueDate,dueDate', 'asc')).toEqual([
+            { field: 'dueDate', order: 'asc', nullable: true }
+        ]);
+        expect(toTaskSortKeys('title', 'asc')).toEqual([
+            { field: 'createdAt', order: 'desc' }
+        ]);
+        expect(
+            toTaskSortKeys(undefined, undefined, {
+                field: 'updatedAt',
+                order: 'desc'
+            })
+        ).toEqual([{ field: 'updatedAt', order: 'desc' }]);
+    });
+});
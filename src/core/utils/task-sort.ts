@@ -0,0 +1,49 @@
+import { SortKey } from './pagination';
+
+// Fields tasks can be sorted on, and the stored field behind each
+const TASK_SORT_KEYS: Record<string, Omit<SortKey, 'order'>> = {
+    // The severity rank, so URGENT > HIGH > MEDIUM > LOW
+    priority: { field: 'priorityRank', nullable: true },
+    dueDate: { field: 'dueDate', nullable: true },
+    createdAt: { field: 'createdAt' },
+    updatedAt: { field: 'updatedAt' }
+};
+
+export const TASK_SORT_FIELDS = Object.keys(TASK_SORT_KEYS);
+
+// asc or desc, or a comma-separated list of them
+export const SORT_ORDER_LIST = /^(asc|desc)(,(asc|desc))*$/;
+
+const splitList = (value?: string): string[] =>
+    (value ?? '')
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+/**
+ * Turn the sortBy and sortOrder query parameters into sort keys.
+ * Both can be comma-separated lists, e.g. priority,dueDate with desc,asc; the last order applies to the fields after it.
+ * Unknown and repeated fields are skipped, and the fallback is used when none is left
+ */
+export const toTaskSortKeys = (
+    sortBy: string | undefined,
+    sortOrder: string | undefined,
+    fallback: SortKey = { field: 'createdAt', order: 'desc' }
+): SortKey[] => {
+    const orders = splitList(sortOrder);
+    const keys = splitList(sortBy)
+        .map((name, index) => ({
+            name,
+            order: (orders[index] ?? orders[orders.length - 1] ?? 'desc') as
+                | 'asc'
+                | 'desc'
+        }))
+        .filter(
+            ({ name }, index, fields) =>
+                TASK_SORT_FIELDS.includes(name) &&
+                fields.findIndex((field) => field.name === name) === index
+        )
+        .map(({ name, order }) => ({ ...TASK_SORT_KEYS[name], order }));
+
+    return keys.length > 0 ? keys : [fallback];
+};
@@ -0,0 +1,85 @@
+import { foldText, highlight, relevance, tokenize } from './text-search';
+
+describe('text search utils', () => {
+    describe('tokenize', () => {
+        it('should fold accents, drop stopwords and share stems across forms', () => {
+            expect(foldText('Déploiement Œuvre')).toBe('deploiement oeuvre');
+            expect(tokenize("Corriger l'écran des Tâches")).toEqual([
+                'corriger',
+                'ecran',
+                'tach'
+            ]);
+            expect(tokenize('tâche')).toEqual(tokenize('taches'));
+            expect(
+                tokenize('deployed deploying deployments priorities v2')
+            ).toEqual(['deploy', 'deploy', 'deploy', 'priority', 'v2']);
+        });
+    });
+
+    describe('relevance', () => {
+        const statistics = {
+            documents: 10,
+            frequencies: new Map([
+                ['login', 2],
+                ['fix', 8]
+            ]),
+            averageLength: 6
+        };
+
+        it('should rank rare terms and title matches higher', () => {
+            const inTitle = relevance(
+                ['login'],
+                { titleTerms: ['login', 'page'], bodyTerms: ['broken'] },
+                statistics,
+                3
+            );
+            const inBody = relevance(
+                ['login'],
+                { titleTerms: ['page'], bodyTerms: ['login', 'broken'] },
+                statistics,
+                3
+            );
+            const common = relevance(
+                ['fix'],
+                { titleTerms: ['fix', 'page'], bodyTerms: ['broken'] },
+                statistics,
+                3
+            );
+
+            expect(inTitle).toBeGreaterThan(inBody);
+            expect(inBody).toBeGreaterThan(common);
+            expect(
+                relevance(
+                    ['other'],
+                    { titleTerms: ['page'], bodyTerms: [] },
+                    statistics,
+                    3
+                )
+            ).toBe(0);
+        });
+    });
+
+    describe('highlight', () => {
+        it('should mark matched words whatever their accents and form', () => {
+            expect(highlight('Relire les tâches', tokenize('tache'))).toEqual({
+                text: 'Relire les tâches',
+                highlights: [[11, 17]]
+            });
+        });
+
+        it('should cut long texts around the first match', () => {
+            const text = `${'Lorem ipsum dolor sit amet '.repeat(10)}the login page is broken ${'consectetur '.repeat(10)}`;
+
+            const snippet = highlight(text, tokenize('login'), 80);
+
+            expect(snippet.text.startsWith('…')).toBe(true);
+            expect(snippet.text.endsWith('…')).toBe(true);
+            expect(snippet.text.length).toBeLessThanOrEqual(82);
+            expect(
+                snippet.highlights.map(([from, to]) =>
+                    snippet.text.slice(from, to)
+                )
+            ).toEqual(['login']);
+        });
+    });
+});
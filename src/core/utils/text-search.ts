@@ -0,0 +1,209 @@
+// Words too common to tell texts apart, after folding, in English and French
+const STOPWORDS = new Set([
+    // English
+    ...'a an and are as at be but by for from has have he her his i in into is it its me my no not of on or our she so than that the their them then there these they this to too us was we were what when which who will with you your'.split(
+        ' '
+    ),
+    // French
+    ...'au aux avec ce ces dans de des du elle en est et eux il ils je la le les leur lui ma mais me mes moi mon ne nos notre nous on ou par pas pour qu que qui sa se ses son sur ta te tes toi ton tu un une vos votre vous'.split(
+        ' '
+    )
+]);
+
+// Plural, gender and verb endings, longest first; the first that fits is removed
+const SUFFIXES: [string, string][] = [
+    ['ements', ''],
+    ['ement', ''],
+    ['ments', ''],
+    ['ment', ''],
+    ['ations', ''],
+    ['ation', ''],
+    ['ings', ''],
+    ['ing', ''],
+    ['eaux', 'eau'],
+    ['sses', 'ss'],
+    ['uses', 'us'],
+    ['ies', 'y'],
+    ['ied', 'y'],
+    ['aux', 'al'],
+    ['ss', 'ss'],
+    ['us', 'us'],
+    ['ed', ''],
+    ['es', ''],
+    ['s', ''],
+    ['e', '']
+];
+
+const MIN_STEM_LENGTH = 3;
+
+// BM25 parameters: how fast repeated words stop counting, and how much long texts are penalised
+const K1 = 1.2;
+const B = 0.75;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export interface SearchSnippet {
+    text: string;
+    // Start and end offsets of the matched words in text
+    highlights: [number, number][];
+}
+
+export interface IndexedText {
+    titleTerms: string[];
+    bodyTerms: string[];
+}
+
+export interface TermStatistics {
+    // Number of searchable entries
+    documents: number;
+    // Number of entries containing each term
+    frequencies: Map<string, number>;
+    // Average number of terms per entry
+    averageLength: number;
+}
+
+/**
+ * Lowercases a text and removes its accents, so "Tâche" and "tache" compare equal
+ * @param text - The text to fold
+ * @returns {string} The folded text
+ * @example
+ * foldText('Déploiement Œuvre') // returns 'deploiement oeuvre'
+ */
+export const foldText = (text: string): string =>
+    text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .replace(/œ/g, 'oe')
+        .replace(/æ/g, 'ae')
+        .replace(/ß/g, 'ss');
+
+/**
+ * Reduces a folded word to a stem shared by its plural and inflected forms, in English and French.
+ * Stems need not be words; the same word always gets the same stem
+ * @param word - A folded word
+ * @returns {string} The stem
+ * @example
+ * stem('deployments') // returns 'deploy'
+ */
+export const stem = (word: string): string => {
+    if (/\d/.test(word)) {
+        return word;
+    }
+
+    const rule = SUFFIXES.find(
+        ([suffix, replacement]) =>
+            word.endsWith(suffix) &&
+            word.length - suffix.length + replacement.length >= MIN_STEM_LENGTH
+    );
+
+    return rule ? word.slice(0, -rule[0].length) + rule[1] : word;
+};
+
+const toTerm = (word: string): string | null => {
+    const folded = foldText(word);
+    if (STOPWORDS.has(folded) || (folded.length < 2 && !/\d/.test(folded))) {
+        return null;
+    }
+    return stem(folded);
+};
+
+/**
+ * Splits a text into searchable terms: folded, stemmed words without stopwords.
+ * A term occurring several times is repeated
+ * @param text - The text to split
+ * @returns {string[]} The terms, in order
+ * @example
+ * tokenize("Corriger l'écran des tâches") // returns ['corriger', 'ecran', 'tach']
+ */
+export const tokenize = (text: string | null | undefined): string[] =>
+    (text ?? '').match(WORD)?.map(toTerm).filter(Boolean) ?? [];
+
+/**
+ * Scores how well an entry matches search terms with BM25, titles weighing more than bodies
+ * @param terms - The distinct terms searched for
+ * @param text - The terms of the entry
+ * @param statistics - Term frequencies over the entries searched
+ * @param titleWeight - How many body occurrences a title occurrence is worth
+ * @returns {number} The score, 0 when no term matches
+ */
+export const relevance = (
+    terms: string[],
+    { titleTerms, bodyTerms }: IndexedText,
+    { documents, frequencies, averageLength }: TermStatistics,
+    titleWeight: number
+): number => {
+    const length = titleTerms.length + bodyTerms.length;
+    const lengthNorm = 1 - B + (B * length) / (averageLength || 1);
+
+    return terms.reduce((score, term) => {
+        const occurrences =
+            titleWeight * titleTerms.filter((t) => t === term).length +
+            bodyTerms.filter((t) => t === term).length;
+        if (occurrences === 0) {
+            return score;
+        }
+
+        const frequency = frequencies.get(term) ?? 0;
+        const idf = Math.log(
+            1 + (documents - frequency + 0.5) / (frequency + 0.5)
+        );
+        return (
+            score +
+            (idf * occurrences * (K1 + 1)) / (occurrences + K1 * lengthNorm)
+        );
+    }, 0);
+};
+
+/**
+ * Marks the words of a text matching search terms, cut around the first match if it is too long
+ * @param text - The original text
+ * @param terms - The terms searched for
+ * @param maxLength - Characters to keep around the first match; the whole text if unset
+ * @returns {SearchSnippet} The text, with '…' where it was cut, and the offsets of the matches
+ * @example
+ * highlight('Fix the login page', ['login'])
+ * // returns { text: 'Fix the login page', highlights: [[8, 13]] }
+ */
+export const highlight = (
+    text: string,
+    terms: string[],
+    maxLength?: number
+): SearchSnippet => {
+    const wanted = new Set(terms);
+    const matches: [number, number][] = [];
+    for (const match of text.matchAll(WORD)) {
+        const term = toTerm(match[0]);
+        if (term && wanted.has(term)) {
+            matches.push([match.index, match.index + match[0].length]);
+        }
+    }
+
+    if (!maxLength || text.length <= maxLength) {
+        return { text, highlights: matches };
+    }
+
+    // Start a little before the first match, on a word boundary
+    const first = matches[0]?.[0] ?? 0;
+    let start = Math.max(0, first - Math.floor(maxLength / 4));
+    if (start > 0) {
+        const space = text.lastIndexOf(' ', start);
+        start = space >= 0 && space < first ? space + 1 : start;
+    }
+    let end = Math.min(text.length, start + maxLength);
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        end = space > start ? space : end;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const shift = prefix.length - start;
+
+    return {
+        text: prefix + text.slice(start, end).trim() + suffix,
+        highlights: matches
+            .filter(([from, to]) => from >= start && to <= end)
+            .map(([from, to]) => [from + shift, to + shift])
+    };
+};
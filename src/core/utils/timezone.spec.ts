@@ -0,0 +1,136 @@
+import {
+    fromLocalDateTime,
+    getLocalDay,
+    getLocalTime,
+    getNextTimeOfDay,
+    getTimeZoneOffset,
+    isValidTimeZone,
+    isWithinQuietHours,
+    startOfLocalDay
+} from './timezone';
+
+describe('timezone utils', () => {
+    describe('getLocalTime', () => {
+        it('should read the wall-clock time and weekday in the timezone', () => {
+            expect(
+                getLocalTime(new Date('2025-06-02T20:30:00Z'), 'Europe/Paris')
+            ).toEqual({ minutes: 22 * 60 + 30, weekday: 1 });
+            expect(
+                getLocalTime(
+                    new Date('2025-06-02T02:00:00Z'),
+                    'America/New_York'
+                )
+            ).toEqual({ minutes: 22 * 60, weekday: 0 });
+        });
+    });
+
+    describe('isWithinQuietHours', () => {
+        const overnight = { start: '22:00', end: '07:00' };
+
+        it('should handle quiet hours spanning midnight', () => {
+            expect(
+                isWithinQuietHours(
+                    new Date('2025-06-02T23:00:00Z'),
+                    overnight,
+                    'UTC'
+                )
+            ).toBe(true);
+            expect(
+                isWithinQuietHours(
+                    new Date('2025-06-02T06:59:00Z'),
+                    overnight,
+                    'UTC'
+                )
+            ).toBe(true);
+            expect(
+                isWithinQuietHours(
+                    new Date('2025-06-02T07:00:00Z'),
+                    overnight,
+                    'UTC'
+                )
+            ).toBe(false);
+        });
+
+        it('should apply quiet hours in the given timezone', () => {
+            // 21:00 UTC is 23:00 in Paris
+            expect(
+                isWithinQuietHours(
+                    new Date('2025-06-02T21:00:00Z'),
+                    overnight,
+                    'Europe/Paris'
+                )
+            ).toBe(true);
+            expect(
+                isWithinQuietHours(
+                    new Date('2025-06-02T12:00:00Z'),
+                    { start: '09:00', end: '17:00' },
+                    'UTC'
+                )
+            ).toBe(true);
+        });
+    });
+
+    describe('getNextTimeOfDay', () => {
+        it('should find the next occurrence in the timezone', () => {
+            expect(
+                getNextTimeOfDay(
+                    new Date('2025-06-02T21:00:00Z'),
+                    '07:00',
+                    'Europe/Paris'
+                ).toISOString()
+            ).toBe('2025-06-03T05:00:00.000Z');
+        });
+
+        it('should wait a full day when the time of day is now', () => {
+            expect(
+                getNextTimeOfDay(
+                    new Date('2025-06-02T07:00:30Z'),
+                    '07:00',
+                    'UTC'
+                ).toISOString()
+            ).toBe('2025-06-03T07:00:00.000Z');
+        });
+    });
+
+    describe('local days', () => {
+        it('should read the day and offset in the timezone', () => {
+            const moment = new Date('2025-06-02T23:30:00Z');
+
+            expect(getLocalDay(moment, 'Europe/Paris')).toBe('2025-06-03');
+            expect(getLocalDay(moment, 'America/New_York')).toBe('2025-06-02');
+            expect(getTimeZoneOffset(moment, 'America/New_York')).toBe(-240);
+            expect(getTimeZoneOffset(moment, 'Asia/Kolkata')).toBe(330);
+        });
+
+        it('should find local midnight, also on DST change days', () => {
+            expect(startOfLocalDay('2025-06-03', 'Europe/Paris')).toEqual(
+                new Date('2025-06-02T22:00:00.000Z')
+            );
+            // Clocks go forward at 2:00 on March 30 in Paris
+            expect(startOfLocalDay('2025-03-30', 'Europe/Paris')).toEqual(
+                new Date('2025-03-29T23:00:00.000Z')
+            );
+            expect(startOfLocalDay('2025-03-31', 'Europe/Paris')).toEqual(
+                new Date('2025-03-30T22:00:00.000Z')
+            );
+            expect(startOfLocalDay('2025-11-31', 'UTC').getTime()).toBeNaN();
+        });
+
+        it('should find the moment of a local time', () => {
+            expect(
+                fromLocalDateTime('2025-06-03T09:30:00', 'Europe/Paris')
+            ).toEqual(new Date('2025-06-03T07:30:00.000Z'));
+            expect(
+                fromLocalDateTime('2025-03-30T03:30', 'Europe/Paris')
+            ).toEqual(new Date('2025-03-30T01:30:00.000Z'));
+            expect(
+                fromLocalDateTime('2025-01-15T09:00:00', 'America/New_York')
+            ).toEqual(new Date('2025-01-15T14:00:00.000Z'));
+        });
+    });
+
+    it('should only accept known timezones', () => {
+        expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+        expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+});
@@ -0,0 +1,205 @@
+const MINUTE_MS = 60 * 1000;
+
+const DAY_MINUTES = 24 * 60;
+
+const WEEKDAY_INDEX: Record<string, number> = {
+    Sun: 0,
+    Mon: 1,
+    Tue: 2,
+    Wed: 3,
+    Thu: 4,
+    Fri: 5,
+    Sat: 6
+};
+
+export interface LocalTime {
+    // Minutes since local midnight
+    minutes: number;
+    // Indexed like Date.getDay()
+    weekday: number;
+}
+
+/**
+ * Checks that a string is an IANA timezone known to the runtime
+ * @param timeZone - The timezone name
+ * @returns {boolean} Whether the timezone can be used
+ * @example
+ * isValidTimeZone('Europe/Paris') // returns true
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Reads the wall-clock time of a moment in a timezone
+ * @param date - The moment
+ * @param timeZone - An IANA timezone, e.g. "Europe/Paris"
+ * @returns {LocalTime} The local time of day and weekday
+ * @example
+ * getLocalTime(new Date('2025-06-02T20:30:00Z'), 'Europe/Paris')
+ * returns { minutes: 1350, weekday: 1 } (22:30 on a Monday)
+ */
+export const getLocalTime = (date: Date, timeZone: string): LocalTime => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        hour: '2-digit',
+        minute: '2-digit',
+        weekday: 'short'
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+        parts.find((p) => p.type === type)?.value;
+
+    return {
+        minutes: Number(part('hour')) * 60 + Number(part('minute')),
+        weekday: WEEKDAY_INDEX[part('weekday')]
+    };
+};
+
+/**
+ * Converts a time of day to minutes since midnight
+ * @param time - The time as HH:mm
+ * @returns {number} The number of minutes
+ * @example
+ * parseTimeOfDay('07:30') // returns 450
+ */
+export const parseTimeOfDay = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Tells whether a moment falls within daily quiet hours, which may span midnight
+ * @param date - The moment
+ * @param quietHours - Start (inclusive) and end (exclusive) as HH:mm
+ * @param timeZone - The timezone the quiet hours are expressed in
+ * @returns {boolean} Whether the moment is quiet
+ * @example
+ * isWithinQuietHours(new Date('2025-06-02T23:00:00Z'), { start: '22:00', end: '07:00' }, 'UTC') // returns true
+ */
+export const isWithinQuietHours = (
+    date: Date,
+    quietHours: { start: string; end: string },
+    timeZone: string
+): boolean => {
+    const { minutes } = getLocalTime(date, timeZone);
+    const start = parseTimeOfDay(quietHours.start);
+    const end = parseTimeOfDay(quietHours.end);
+
+    return start <= end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+};
+
+/**
+ * Finds the next moment a time of day is reached in a timezone
+ * Precise to the minute; a DST change in between shifts the result by the change
+ * @param date - The moment to start from
+ * @param time - The time of day as HH:mm
+ * @param timeZone - The timezone the time is expressed in
+ * @returns {Date} The next occurrence of the time of day, within 24 hours
+ * @example
+ * getNextTimeOfDay(new Date('2025-06-02T23:00:00Z'), '07:00', 'UTC') // returns 2025-06-03T07:00:00.000Z
+ */
+export const getNextTimeOfDay = (
+    date: Date,
+    time: string,
+    timeZone: string
+): Date => {
+    const { minutes } = getLocalTime(date, timeZone);
+    const wait =
+        (parseTimeOfDay(time) - minutes + DAY_MINUTES) % DAY_MINUTES ||
+        DAY_MINUTES;
+    const start = new Date(date);
+    start.setUTCSeconds(0, 0);
+    return new Date(start.getTime() + wait * MINUTE_MS);
+};
+
+/**
+ * Measures how far a timezone's wall clock is ahead of UTC at a moment
+ * @param date - The moment; the offset changes with DST
+ * @param timeZone - An IANA timezone
+ * @returns {number} The offset in minutes, negative west of Greenwich
+ * @example
+ * getTimeZoneOffset(new Date('2025-06-02T12:00:00Z'), 'Europe/Paris') // returns 120
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit'
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find((p) => p.type === type)?.value);
+
+    const wallClock = Date.UTC(
+        part('year'),
+        part('month') - 1,
+        part('day'),
+        part('hour'),
+        part('minute')
+    );
+    const minute = new Date(date);
+    minute.setUTCSeconds(0, 0);
+    return (wallClock - minute.getTime()) / MINUTE_MS;
+};
+
+/**
+ * Reads the calendar day of a moment in a timezone
+ * @param date - The moment
+ * @param timeZone - An IANA timezone
+ * @returns {string} The day as YYYY-MM-DD
+ * @example
+ * getLocalDay(new Date('2025-06-02T23:30:00Z'), 'Europe/Paris') // returns '2025-06-03'
+ */
+export const getLocalDay = (date: Date, timeZone: string): string =>
+    new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * MINUTE_MS)
+        .toISOString()
+        .slice(0, 10);
+
+/**
+ * Finds the moment a wall-clock date and time is reached in a timezone
+ * @param dateTime - The local date and time as YYYY-MM-DDTHH:mm[:ss], without offset
+ * @param timeZone - An IANA timezone
+ * @returns {Date} The moment, or an invalid date for an invalid date and time
+ * @example
+ * fromLocalDateTime('2025-06-03T09:30:00', 'Europe/Paris') // returns 2025-06-03T07:30:00.000Z
+ */
+export const fromLocalDateTime = (dateTime: string, timeZone: string): Date => {
+    const wallClock = new Date(`${dateTime}Z`);
+    // Days past the end of the month, e.g. 2025-11-31, would roll over to the next month
+    if (
+        isNaN(wallClock.getTime()) ||
+        wallClock.toISOString().slice(0, 10) !== dateTime.slice(0, 10)
+    ) {
+        return new Date(NaN);
+    }
+
+    // The offset at the wall-clock time read as UTC can differ from the local one around DST changes
+    const guess = new Date(
+        wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone) * MINUTE_MS
+    );
+    return new Date(
+        wallClock.getTime() - getTimeZoneOffset(guess, timeZone) * MINUTE_MS
+    );
+};
+
+/**
+ * Finds the moment a calendar day starts in a timezone
+ * @param day - The day as YYYY-MM-DD
+ * @param timeZone - An IANA timezone
+ * @returns {Date} Local midnight, or an invalid date for an invalid day
+ * @example
+ * startOfLocalDay('2025-06-03', 'Europe/Paris') // returns 2025-06-02T22:00:00.000Z
+ */
+export const startOfLocalDay = (day: string, timeZone: string): Date =>
+    fromLocalDateTime(`${day}T00:00:00`, timeZone);
@@ -1,3 +1,6 @@
+import { BadRequestException } from '@nestjs/common';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { isEmpty, isNullOrUndefined } from './helpers';
 
 // Checks if string meets minimum length
@@ -143,3 +146,33 @@ export const isValidEmail = (email: string): boolean => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
 };
+
+// Validates plain data against a DTO like the REST endpoints' ValidationPipe does
+export const toValidDto = async <T extends object>(
+    type: ClassConstructor<T>,
+    data: Record<string, unknown> = {}
+): Promise<T> => {
+    const dto = plainToInstance(type, data, {
+        enableImplicitConversion: true
+    });
+    const errors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true
+    });
+
+    if (errors.length > 0) {
+        throw new BadRequestException(
+            errors
+                .flatMap((error) =>
+                    Object.values(
+                        error.constraints ?? {
+                            invalid: `${error.property} is invalid`
+                        }
+                    )
+                )
+                .join('; ')
+        );
+    }
+
+    return dto;
+};
@@ -5,6 +5,7 @@ import * as compression from 'compression';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
 import setupSwagger from './core/config/swagger.config';
+import { SocketIoAdapter } from './websocket/socket-io.adapter';
 
 // Global error handlers to surface uncaught errors during bootstrap
 process.on('unhandledRejection', (reason) => {
@@ -37,6 +38,9 @@ async function bootstrap() {
         methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
         credentials: true
     });
+    app.useWebSocketAdapter(
+        new SocketIoAdapter(app, configService.get('ALLOWED_ORIGINS', '*'))
+    );
 
     // Compression
     app.use(compression());
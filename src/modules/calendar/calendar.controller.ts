@@ -0,0 +1,157 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    UseInterceptors,
+    UploadedFile,
+    Request,
+    Header,
+    HttpCode,
+    HttpStatus
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+    ApiBody,
+    ApiConsumes,
+    ApiProduces
+} from '@nestjs/swagger';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { IcsFileValidationPipe } from '../../core/common/pipes/ics-file-validation.pipe';
+import {
+    CALENDAR_FEED_PAST_DAYS,
+    MAX_ICS_IMPORT_BYTES
+} from '../../core/constants/calendar.constants';
+import {
+    CalendarFeedWithUrl,
+    CalendarImportResult,
+    CalendarService
+} from './calendar.service';
+import {
+    CalendarFeedQueryDto,
+    CreateCalendarFeedDto,
+    ImportCalendarDto
+} from './dto/calendar.dto';
+
+@ApiTags('Calendar')
+@Controller('/calendar')
+export class CalendarController {
+    constructor(private readonly calendarService: CalendarService) {}
+
+    @Get('feeds')
+    @UseGuards(AuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "List the user's calendar feeds with their URL" })
+    @ApiResponse({ status: 200, description: 'Calendar feeds, newest first' })
+    async findFeeds(@Request() req: any): Promise<CalendarFeedWithUrl[]> {
+        return this.calendarService.findFeeds(req.user.sub);
+    }
+
+    @Post('feeds')
+    @UseGuards(AuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Create a calendar feed',
+        description:
+            "Publishes the user's tasks, or a project's, with a due date at a secret iCalendar URL to subscribe to from Google Calendar, Outlook or Apple Calendar. Creating the feed of the same tasks again changes its URL, and the previous one stops working"
+    })
+    @ApiBody({ type: CreateCalendarFeedDto })
+    @ApiResponse({ status: 201, description: 'Calendar feed with its URL' })
+    @ApiResponse({ status: 403, description: 'Access denied to this project' })
+    @ApiResponse({ status: 404, description: 'Project not found' })
+    async createFeed(
+        @Request() req: any,
+        @Body() createCalendarFeedDto: CreateCalendarFeedDto
+    ): Promise<CalendarFeedWithUrl> {
+        return this.calendarService.createFeed(
+            req.user.sub,
+            createCalendarFeedDto
+        );
+    }
+
+    @Delete('feeds/:feedId')
+    @UseGuards(AuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Delete a calendar feed',
+        description: 'Its URL stops working'
+    })
+    @ApiParam({
+        name: 'feedId',
+        description: 'Calendar feed ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Calendar feed deleted successfully'
+    })
+    @ApiResponse({ status: 404, description: 'Calendar feed not found' })
+    async removeFeed(
+        @Request() req: any,
+        @Param('feedId') feedId: string
+    ): Promise<{ message: string }> {
+        return this.calendarService.removeFeed(req.user.sub, feedId);
+    }
+
+    // No bearer token: calendar apps authenticate with the secret in the URL
+    @Get('feeds/:token.ics')
+    @Header('Content-Type', 'text/calendar; charset=utf-8')
+    @Header('Cache-Control', 'private, no-cache')
+    @ApiProduces('text/calendar')
+    @ApiOperation({
+        summary: 'Read a calendar feed',
+        description: `iCalendar document of the tasks due from ${CALENDAR_FEED_PAST_DAYS} days ago on, with their status, priority and project. Each task is an event (all-day for all-day tasks) and a to-do, unless content says otherwise`
+    })
+    @ApiParam({ name: 'token', description: 'Secret of the feed URL' })
+    @ApiResponse({ status: 200, description: 'iCalendar document' })
+    @ApiResponse({ status: 404, description: 'Calendar feed not found' })
+    async renderFeed(
+        @Param('token') token: string,
+        @Query() query: CalendarFeedQueryDto
+    ): Promise<string> {
+        return this.calendarService.renderFeed(token, query.content);
+    }
+
+    @Post('import')
+    @UseGuards(AuthGuard)
+    @ApiBearerAuth()
+    @UseInterceptors(
+        FileInterceptor('file', { limits: { fileSize: MAX_ICS_IMPORT_BYTES } })
+    )
+    @ApiConsumes('multipart/form-data')
+    @ApiOperation({
+        summary: 'Import tasks from an iCalendar file',
+        description:
+            "Creates a task from each event and to-do, validated like POST /tasks. Title, description, status, priority, due date (all-day for dates) and recurrence are read; times without a timezone are in the user's timezone. Entries that cannot be imported are listed with the reason"
+    })
+    @ApiBody({ type: ImportCalendarDto })
+    @ApiResponse({
+        status: 201,
+        description: 'Created tasks, and the entries that failed'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Not an iCalendar file, or too many entries'
+    })
+    async importCalendar(
+        @Request() req: any,
+        @UploadedFile(new IcsFileValidationPipe()) file: Express.Multer.File,
+        @Body() importCalendarDto: ImportCalendarDto
+    ): Promise<CalendarImportResult> {
+        return this.calendarService.importCalendar(
+            req.user.sub,
+            file.buffer,
+            importCalendarDto.projectId
+        );
+    }
+}
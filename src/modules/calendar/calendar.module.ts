@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { TeamModule } from '../team/team.module';
+import { TaskModule } from '../task/task.module';
+import { CalendarController } from './calendar.controller';
+import { CalendarService } from './calendar.service';
+
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        TeamModule, // Import TeamModule to access TeamAccessService
+        TaskModule // Import TaskModule to create imported tasks through TaskService
+    ],
+    controllers: [CalendarController],
+    providers: [CalendarService, PrismaService, TokenBlacklistService]
+})
+export class CalendarModule {}
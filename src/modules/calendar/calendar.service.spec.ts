@@ -0,0 +1,296 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { CalendarService } from './calendar.service';
+import { TaskService } from '../task/task.service';
+import { TeamAccessService } from '../team/team-access.service';
+import { PrismaService } from '../../core/services/prisma.service';
+import { CalendarFeedContent } from '../../core/constants/calendar.constants';
+
+describe('CalendarService', () => {
+    let service: CalendarService;
+
+    const mockPrismaService = {
+        calendarFeed: {
+            findUnique: jest.fn(),
+            deleteMany: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn()
+        },
+        project: {
+            findFirst: jest.fn()
+        },
+        task: {
+            findMany: jest.fn()
+        }
+    };
+
+    const mockConfigService = {
+        get: jest.fn((key: string, defaultValue?: unknown) =>
+            key === 'BASE_URL' ? 'https://api.example.com/' : defaultValue
+        )
+    };
+
+    const mockTeamAccessService = {
+        isMember: jest.fn()
+    };
+
+    const mockTaskService = {
+        create: jest.fn(),
+        getUserTimeZone: jest.fn()
+    };
+
+    const now = new Date('2025-06-10T12:00:00.000Z');
+
+    const task = {
+        id: 'task1',
+        title: 'Ship release, v2',
+        description: null,
+        status: 'IN_PROGRESS',
+        priority: 'HIGH',
+        dueDate: new Date('2025-06-12T14:00:00.000Z'),
+        allDay: false,
+        version: 3,
+        createdAt: new Date('2025-06-01T08:00:00.000Z'),
+        updatedAt: new Date('2025-06-09T08:00:00.000Z'),
+        project: { name: 'Launch' }
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                CalendarService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService
+                },
+                {
+                    provide: TeamAccessService,
+                    useValue: mockTeamAccessService
+                },
+                {
+                    provide: TaskService,
+                    useValue: mockTaskService
+                }
+            ]
+        }).compile();
+
+        service = module.get<CalendarService>(CalendarService);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('createFeed', () => {
+        it('should replace the feed of the same tasks and give its URL', async () => {
+            mockPrismaService.project.findFirst.mockResolvedValue({
+                id: 'project1',
+                ownerId: 'owner',
+                teamId: 'team1',
+                visibility: 'PRIVATE'
+            });
+            mockTeamAccessService.isMember.mockResolvedValue(true);
+            mockPrismaService.calendarFeed.create.mockImplementation(
+                ({ data }) => ({ id: 'feed1', ...data })
+            );
+
+            const feed = await service.createFeed('user1', {
+                projectId: 'project1'
+            });
+
+            expect(
+                mockPrismaService.calendarFeed.deleteMany
+            ).toHaveBeenCalledWith({
+                where: { userId: 'user1', projectId: 'project1' }
+            });
+            expect(feed.token).toMatch(/^[0-9a-f]{64}$/);
+            expect(feed.url).toBe(
+                `https://api.example.com/api/v1/calendar/feeds/${feed.token}.ics`
+            );
+        });
+
+        it('should refuse projects of other teams, even public ones', async () => {
+            mockPrismaService.project.findFirst.mockResolvedValue({
+                id: 'project1',
+                ownerId: 'owner',
+                teamId: 'team1',
+                visibility: 'PUBLIC'
+            });
+            mockTeamAccessService.isMember.mockResolvedValue(false);
+
+            await expect(
+                service.createFeed('user1', { projectId: 'project1' })
+            ).rejects.toThrow(ForbiddenException);
+            expect(
+                mockPrismaService.calendarFeed.create
+            ).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('renderFeed', () => {
+        it("should publish the user's tasks as events and to-dos", async () => {
+            mockPrismaService.calendarFeed.findUnique.mockResolvedValue({
+                id: 'feed1',
+                userId: 'user1',
+                projectId: null
+            });
+            mockPrismaService.task.findMany.mockResolvedValue([
+                task,
+                {
+                    ...task,
+                    id: 'task2',
+                    status: 'DONE',
+                    dueDate: new Date('2025-06-14T00:00:00.000Z'),
+                    allDay: true,
+                    project: null
+                }
+            ]);
+
+            const document = await service.renderFeed(
+                'secret',
+                CalendarFeedContent.ALL,
+                now
+            );
+            const lines = document.split('\r\n');
+
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        AND: [
+                            { deletedAt: { isSet: false } },
+                            {
+                                OR: [
+                                    { userId: 'user1' },
+                                    { assigneeIds: { has: 'user1' } }
+                                ]
+                            },
+                            {
+                                dueDate: {
+                                    gte: new Date('2025-03-12T12:00:00.000Z')
+                                }
+                            }
+                        ]
+                    }
+                })
+            );
+            expect(lines).toEqual(
+                expect.arrayContaining([
+                    'X-WR-CALNAME:My tasks',
+                    'UID:event-task1@flow-space.dev',
+                    'SUMMARY:Ship release\\, v2',
+                    'CATEGORIES:Launch',
+                    'PRIORITY:3',
+                    'DTSTART:20250612T140000Z',
+                    'DTEND:20250612T143000Z',
+                    'UID:todo-task1@flow-space.dev',
+                    'DUE:20250612T140000Z',
+                    'STATUS:IN-PROCESS',
+                    'DTSTART;VALUE=DATE:20250614',
+                    'DTEND;VALUE=DATE:20250615',
+                    'DUE;VALUE=DATE:20250614',
+                    'STATUS:COMPLETED'
+                ])
+            );
+            expect(mockPrismaService.calendarFeed.update).toHaveBeenCalledWith({
+                where: { id: 'feed1' },
+                data: { lastFetchedAt: now }
+            });
+        });
+
+        it('should stop serving a project feed once its project is gone', async () => {
+            mockPrismaService.calendarFeed.findUnique.mockResolvedValue({
+                id: 'feed1',
+                userId: 'user1',
+                projectId: 'project1'
+            });
+            mockPrismaService.project.findFirst.mockResolvedValue(null);
+
+            await expect(service.renderFeed('secret')).rejects.toThrow(
+                NotFoundException
+            );
+            expect(mockPrismaService.task.findMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('importCalendar', () => {
+        it('should create a task per entry and report the invalid ones', async () => {
+            mockTaskService.getUserTimeZone.mockResolvedValue('Europe/Paris');
+            mockTaskService.create.mockImplementation((userId, dto) => ({
+                id: 'new',
+                ...dto
+            }));
+            const file = Buffer.from(
+                [
+                    'BEGIN:VCALENDAR',
+                    'BEGIN:VTODO',
+                    'UID:a@example.com',
+                    'SUMMARY:Renew passport',
+                    'DUE;VALUE=DATE:20250620',
+                    'PRIORITY:1',
+                    'STATUS:NEEDS-ACTION',
+                    'END:VTODO',
+                    'BEGIN:VEVENT',
+                    'UID:b@example.com',
+                    'SUMMARY:Standup',
+                    'DTSTART:20250616T093000',
+                    'RRULE:FREQ=WEEKLY;BYDAY=MO',
+                    'END:VEVENT',
+                    'BEGIN:VEVENT',
+                    'UID:b@example.com',
+                    'RECURRENCE-ID:20250623T093000',
+                    'SUMMARY:Standup (moved)',
+                    'END:VEVENT',
+                    'BEGIN:VTODO',
+                    'UID:c@example.com',
+                    'DESCRIPTION:No summary',
+                    'END:VTODO',
+                    'END:VCALENDAR'
+                ].join('\r\n')
+            );
+
+            const result = await service.importCalendar(
+                'user1',
+                file,
+                '507f1f77bcf86cd799439011'
+            );
+
+            expect(mockTaskService.create).toHaveBeenCalledTimes(2);
+            expect(mockTaskService.create).toHaveBeenCalledWith(
+                'user1',
+                expect.objectContaining({
+                    title: 'Renew passport',
+                    dueDate: '2025-06-20',
+                    allDay: true,
+                    priority: 'URGENT',
+                    status: 'TODO',
+                    projectId: '507f1f77bcf86cd799439011'
+                })
+            );
+            // Floating times are in the user's timezone
+            expect(mockTaskService.create).toHaveBeenCalledWith(
+                'user1',
+                expect.objectContaining({
+                    title: 'Standup',
+                    dueDate: '2025-06-16T07:30:00.000Z',
+                    allDay: false,
+                    recurrence: expect.objectContaining({
+                        rrule: 'FREQ=WEEKLY;BYDAY=MO'
+                    })
+                })
+            );
+            expect(result.created).toHaveLength(2);
+            expect(result.failed).toEqual([
+                {
+                    uid: 'c@example.com',
+                    title: null,
+                    error: expect.stringContaining('Title')
+                }
+            ]);
+        });
+    });
+});
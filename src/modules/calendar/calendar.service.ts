@@ -0,0 +1,461 @@
+import {
+    BadRequestException,
+    ForbiddenException,
+    HttpException,
+    Injectable,
+    Logger,
+    NotFoundException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+    CalendarFeed,
+    Prisma,
+    Project,
+    Task,
+    TaskPriority,
+    TaskStatus
+} from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import {
+    CALENDAR_EVENT_MINUTES,
+    CALENDAR_FEED_MAX_TASKS,
+    CALENDAR_FEED_PAST_DAYS,
+    CALENDAR_FEED_REFRESH_MINUTES,
+    CALENDAR_PRODUCT_ID,
+    CALENDAR_UID_DOMAIN,
+    CalendarFeedContent,
+    ICS_PRIORITY,
+    ICS_TODO_STATUS,
+    MAX_ICS_IMPORT_TASKS
+} from '../../core/constants/calendar.constants';
+import {
+    IcsComponent,
+    IcsProperty,
+    escapeText,
+    formatDate,
+    formatDateTime,
+    getProperty,
+    parseCalendar,
+    parseDateValue,
+    serializeCalendar,
+    unescapeText
+} from '../../core/utils/ical';
+import { toValidDto } from '../../core/utils/validation';
+import { TeamAccessService } from '../team/team-access.service';
+import { TaskService } from '../task/task.service';
+import { WithBlockedState } from '../task/task-dependency.service';
+import { CreateTaskDto } from '../task/dto/task.dto';
+import { CreateCalendarFeedDto } from './dto/calendar.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+export type CalendarFeedWithUrl = CalendarFeed & { url: string };
+
+export interface CalendarImportFailure {
+    // UID and SUMMARY of the event or to-do, when it has them
+    uid: string | null;
+    title: string | null;
+    error: string;
+}
+
+export interface CalendarImportResult {
+    created: WithBlockedState<Task>[];
+    failed: CalendarImportFailure[];
+}
+
+type FeedTask = Task & { project: { name: string } | null };
+
+const property = (
+    name: string,
+    value: string,
+    params: Record<string, string> = {}
+): IcsProperty => ({ name, params, value });
+
+const textProperty = (name: string, value: string): IcsProperty =>
+    property(name, escapeText(value));
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+// All-day tasks are due on a DATE; timed ones at a UTC DATE-TIME
+const dateProperty = (name: string, date: Date, allDay: boolean) =>
+    allDay
+        ? property(name, formatDate(toDay(date)), { VALUE: 'DATE' })
+        : property(name, formatDateTime(date));
+
+// RFC 5545 priorities: 1 to 4 are high, 5 is normal, 6 to 9 are low, 0 is undefined
+const toTaskPriority = (value?: string): TaskPriority | undefined => {
+    const priority = Number(value);
+    if (!Number.isInteger(priority) || priority < 1 || priority > 9) {
+        return undefined;
+    }
+    if (priority <= 2) return TaskPriority.URGENT;
+    if (priority <= 4) return TaskPriority.HIGH;
+    if (priority === 5) return TaskPriority.MEDIUM;
+    return TaskPriority.LOW;
+};
+
+const toTaskStatus = (value?: string): TaskStatus | undefined =>
+    (Object.keys(ICS_TODO_STATUS) as TaskStatus[]).find(
+        (status) => ICS_TODO_STATUS[status] === value?.trim().toUpperCase()
+    );
+
+@Injectable()
+export class CalendarService {
+    private readonly logger = new Logger(CalendarService.name);
+
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly configService: ConfigService,
+        private readonly teamAccessService: TeamAccessService,
+        private readonly taskService: TaskService
+    ) {}
+
+    /**
+     * Publish the user's tasks, or those of a project they own or whose team they belong to, at a secret URL.
+     * A feed can be created again to change its URL: the previous one stops working
+     */
+    async createFeed(
+        userId: string,
+        { projectId }: CreateCalendarFeedDto
+    ): Promise<CalendarFeedWithUrl> {
+        if (projectId) {
+            const project = await this.prismaService.project.findFirst({
+                where: { id: projectId, ...NOT_TRASHED }
+            });
+            if (!project) {
+                throw new NotFoundException('Project not found');
+            }
+            if (!(await this.canReadProject(userId, project))) {
+                throw new ForbiddenException('Access denied to this project');
+            }
+        }
+
+        await this.prismaService.calendarFeed.deleteMany({
+            where: { userId, projectId: projectId ?? null }
+        });
+        const feed = await this.prismaService.calendarFeed.create({
+            data: {
+                token: randomBytes(32).toString('hex'),
+                userId,
+                projectId: projectId ?? null
+            }
+        });
+
+        return this.withUrl(feed);
+    }
+
+    async findFeeds(userId: string): Promise<CalendarFeedWithUrl[]> {
+        const feeds = await this.prismaService.calendarFeed.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        return feeds.map((feed) => this.withUrl(feed));
+    }
+
+    async removeFeed(
+        userId: string,
+        feedId: string
+    ): Promise<{ message: string }> {
+        const feed = await this.prismaService.calendarFeed.findFirst({
+            where: { id: feedId, userId }
+        });
+        if (!feed) {
+            throw new NotFoundException('Calendar feed not found');
+        }
+
+        await this.prismaService.calendarFeed.delete({ where: { id: feedId } });
+        return { message: 'Calendar feed deleted successfully' };
+    }
+
+    /**
+     * Render a feed as an iCalendar document: the tasks with a due date, from
+     * CALENDAR_FEED_PAST_DAYS ago on, as events, to-dos or both.
+     * Access is checked again on every read, so a project feed stops working for a user who lost access
+     * @throws NotFoundException if the token is unknown or the feed's project cannot be read anymore
+     */
+    async renderFeed(
+        token: string,
+        content = CalendarFeedContent.ALL,
+        now = new Date()
+    ): Promise<string> {
+        const feed = await this.prismaService.calendarFeed.findUnique({
+            where: { token }
+        });
+        if (!feed) {
+            throw new NotFoundException('Calendar feed not found');
+        }
+
+        let name = 'My tasks';
+        let scope: Prisma.TaskWhereInput = {
+            OR: [{ userId: feed.userId }, { assigneeIds: { has: feed.userId } }]
+        };
+        if (feed.projectId) {
+            const project = await this.prismaService.project.findFirst({
+                where: { id: feed.projectId, ...NOT_TRASHED }
+            });
+            if (
+                !project ||
+                !(await this.canReadProject(feed.userId, project))
+            ) {
+                throw new NotFoundException('Calendar feed not found');
+            }
+            name = project.name;
+            scope = { projectId: project.id };
+        }
+
+        const tasks = await this.prismaService.task.findMany({
+            where: {
+                AND: [
+                    NOT_TRASHED,
+                    scope,
+                    {
+                        dueDate: {
+                            gte: new Date(
+                                now.getTime() - CALENDAR_FEED_PAST_DAYS * DAY_MS
+                            )
+                        }
+                    }
+                ]
+            },
+            include: { project: { select: { name: true } } },
+            orderBy: { dueDate: 'asc' },
+            take: CALENDAR_FEED_MAX_TASKS
+        });
+
+        await this.prismaService.calendarFeed.update({
+            where: { id: feed.id },
+            data: { lastFetchedAt: now }
+        });
+
+        const refresh = `PT${CALENDAR_FEED_REFRESH_MINUTES}M`;
+        return serializeCalendar({
+            type: 'VCALENDAR',
+            properties: [
+                property('VERSION', '2.0'),
+                property('PRODID', CALENDAR_PRODUCT_ID),
+                property('CALSCALE', 'GREGORIAN'),
+                property('METHOD', 'PUBLISH'),
+                textProperty('X-WR-CALNAME', name),
+                property('REFRESH-INTERVAL', refresh, { VALUE: 'DURATION' }),
+                property('X-PUBLISHED-TTL', refresh)
+            ],
+            components: tasks.flatMap((task) => [
+                ...(content !== CalendarFeedContent.TODOS
+                    ? [this.toEvent(task, now)]
+                    : []),
+                ...(content !== CalendarFeedContent.EVENTS
+                    ? [this.toTodo(task, now)]
+                    : [])
+            ])
+        });
+    }
+
+    /**
+     * Create a task from each event and to-do of an iCalendar file, validated like POST /tasks.
+     * Times without a known timezone are read in the user's timezone, and dates make all-day tasks.
+     * A failing entry does not stop the next ones; changes to single occurrences of a series are skipped
+     * @throws BadRequestException if the file is not an iCalendar file or has too many entries
+     */
+    async importCalendar(
+        userId: string,
+        file: Buffer,
+        projectId?: string
+    ): Promise<CalendarImportResult> {
+        const calendars = parseCalendar(
+            file.toString('utf8').replace(/^\uFEFF/, '')
+        ).filter((component) => component.type === 'VCALENDAR');
+        if (calendars.length === 0) {
+            throw new BadRequestException('The file is not an iCalendar file');
+        }
+
+        const entries = calendars
+            .flatMap((calendar) => calendar.components)
+            .filter(
+                (component) =>
+                    ['VEVENT', 'VTODO'].includes(component.type) &&
+                    !getProperty(component, 'RECURRENCE-ID')
+            );
+        if (entries.length === 0) {
+            throw new BadRequestException(
+                'The file contains no events or to-dos'
+            );
+        }
+        if (entries.length > MAX_ICS_IMPORT_TASKS) {
+            throw new BadRequestException(
+                `Import at most ${MAX_ICS_IMPORT_TASKS} events and to-dos at a time`
+            );
+        }
+
+        const timeZone = await this.taskService.getUserTimeZone(userId);
+        const result: CalendarImportResult = { created: [], failed: [] };
+
+        for (const entry of entries) {
+            try {
+                const createTaskDto = await toValidDto(
+                    CreateTaskDto,
+                    this.toTaskData(entry, timeZone, projectId)
+                );
+                result.created.push(
+                    await this.taskService.create(userId, createTaskDto)
+                );
+            } catch (error) {
+                result.failed.push(this.toFailure(entry, error));
+            }
+        }
+
+        return result;
+    }
+
+    // The owner and the team's members; public projects do not open their tasks, as with TaskAccessService.canAccess
+    private async canReadProject(
+        userId: string,
+        project: Project
+    ): Promise<boolean> {
+        if (project.ownerId === userId) {
+            return true;
+        }
+
+        return (
+            !!project.teamId &&
+            this.teamAccessService.isMember(userId, project.teamId)
+        );
+    }
+
+    private withUrl(feed: CalendarFeed): CalendarFeedWithUrl {
+        const baseUrl = this.configService
+            .get<string>('BASE_URL', 'http://localhost:3000')
+            .replace(/\/+$/, '');
+
+        return {
+            ...feed,
+            url: `${baseUrl}/api/v1/calendar/feeds/${feed.token}.ics`
+        };
+    }
+
+    // Properties shared by the event and the to-do of a task
+    private describeTask(task: FeedTask, now: Date): IcsProperty[] {
+        const frontendUrl = this.configService.get<string>(
+            'FRONTEND_URL',
+            'http://localhost:3000'
+        );
+
+        return [
+            property('DTSTAMP', formatDateTime(now)),
+            property('CREATED', formatDateTime(task.createdAt)),
+            property('LAST-MODIFIED', formatDateTime(task.updatedAt)),
+            property('SEQUENCE', String(task.version ?? 0)),
+            textProperty('SUMMARY', task.title),
+            ...(task.description
+                ? [textProperty('DESCRIPTION', task.description)]
+                : []),
+            ...(task.project
+                ? [textProperty('CATEGORIES', task.project.name)]
+                : []),
+            property('PRIORITY', String(ICS_PRIORITY[task.priority])),
+            property('URL', `${frontendUrl}/tasks/${task.id}`)
+        ];
+    }
+
+    // An all-day event on the due day, or a short event starting at the due time
+    private toEvent(task: FeedTask, now: Date): IcsComponent {
+        const allDay = !!task.allDay;
+        const end = new Date(
+            task.dueDate.getTime() +
+                (allDay ? DAY_MS : CALENDAR_EVENT_MINUTES * MINUTE_MS)
+        );
+
+        return {
+            type: 'VEVENT',
+            properties: [
+                property('UID', `event-${task.id}@${CALENDAR_UID_DOMAIN}`),
+                ...this.describeTask(task, now),
+                dateProperty('DTSTART', task.dueDate, allDay),
+                dateProperty('DTEND', end, allDay),
+                property(
+                    'STATUS',
+                    task.status === TaskStatus.CANCELLED
+                        ? 'CANCELLED'
+                        : 'CONFIRMED'
+                ),
+                // Tasks do not make the user busy
+                property('TRANSP', 'TRANSPARENT')
+            ],
+            components: []
+        };
+    }
+
+    private toTodo(task: FeedTask, now: Date): IcsComponent {
+        return {
+            type: 'VTODO',
+            properties: [
+                property('UID', `todo-${task.id}@${CALENDAR_UID_DOMAIN}`),
+                ...this.describeTask(task, now),
+                dateProperty('DUE', task.dueDate, !!task.allDay),
+                property('STATUS', ICS_TODO_STATUS[task.status])
+            ],
+            components: []
+        };
+    }
+
+    // Body of POST /tasks for an event or to-do; a to-do is due at its DUE, or its start without one
+    private toTaskData(
+        entry: IcsComponent,
+        timeZone: string,
+        projectId?: string
+    ): Record<string, unknown> {
+        const text = (name: string) => {
+            const found = getProperty(entry, name);
+            return found ? unescapeText(found.value) : undefined;
+        };
+        const due =
+            (entry.type === 'VTODO' && getProperty(entry, 'DUE')) ||
+            getProperty(entry, 'DTSTART');
+        const dueDate = due ? parseDateValue(due, timeZone) : null;
+        const status = toTaskStatus(text('STATUS'));
+        const priority = toTaskPriority(text('PRIORITY'));
+        const rrule = text('RRULE');
+
+        return {
+            title: text('SUMMARY'),
+            ...(text('DESCRIPTION') && { description: text('DESCRIPTION') }),
+            ...(status && { status }),
+            ...(priority && { priority }),
+            ...(dueDate && {
+                dueDate: dueDate.allDay
+                    ? toDay(dueDate.date)
+                    : dueDate.date.toISOString(),
+                allDay: dueDate.allDay
+            }),
+            ...(rrule && { recurrence: { rrule } }),
+            ...(projectId && { projectId })
+        };
+    }
+
+    private toFailure(
+        entry: IcsComponent,
+        error: unknown
+    ): CalendarImportFailure {
+        const uid = getProperty(entry, 'UID')?.value.trim() || null;
+        const title = getProperty(entry, 'SUMMARY');
+
+        if (!(error instanceof HttpException)) {
+            this.logger.error(
+                `Calendar entry ${uid} could not be imported`,
+                (error as Error).stack
+            );
+        }
+        return {
+            uid,
+            title: title ? unescapeText(title.value) : null,
+            error:
+                error instanceof HttpException
+                    ? error.message
+                    : 'The task could not be created'
+        };
+    }
+}
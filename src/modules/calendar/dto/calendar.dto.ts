@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsMongoId, IsOptional } from 'class-validator';
+import {
+    CalendarFeedContent,
+    MAX_ICS_IMPORT_TASKS
+} from '../../../core/constants/calendar.constants';
+
+export class CreateCalendarFeedDto {
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description:
+            "Publish the tasks of this project; omit it to publish the user's own tasks (created by or assigned to them)",
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
+    projectId?: string;
+}
+
+export class CalendarFeedQueryDto {
+    @ApiProperty({
+        enum: CalendarFeedContent,
+        example: CalendarFeedContent.EVENTS,
+        description:
+            'Publish each task as an event (VEVENT), a to-do (VTODO) or both (default)',
+        required: false
+    })
+    @IsOptional()
+    @IsEnum(CalendarFeedContent, {
+        message: 'content must be all, events or todos'
+    })
+    content?: CalendarFeedContent;
+}
+
+export class ImportCalendarDto {
+    @ApiProperty({
+        type: 'string',
+        format: 'binary',
+        description: `iCalendar (.ics) file; each event and to-do becomes a task (at most ${MAX_ICS_IMPORT_TASKS}, 1MB)`,
+        required: true
+    })
+    file: any;
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: 'Project to create the tasks in',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
+    projectId?: string;
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+    IsString,
+    IsOptional,
+    IsMongoId,
+    Matches,
+    MinLength,
+    MaxLength
+} from 'class-validator';
+
+export class CreateLabelDto {
+    @ApiProperty({
+        example: 'Bug',
+        description: 'Label name, unique within its catalog (case-insensitive)'
+    })
+    @IsString({ message: 'Name must be a string' })
+    @MinLength(1, { message: 'Name cannot be empty' })
+    @MaxLength(50, { message: 'Name cannot exceed 50 characters' })
+    @Transform(({ value }) => value?.trim())
+    name: string;
+
+    @ApiProperty({
+        example: '#E11D48',
+        description: 'Label colour as a hex code'
+    })
+    @Matches(/^#[0-9a-f]{6}$/i, {
+        message: 'Color must be a hex code such as #E11D48'
+    })
+    color: string;
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description:
+            'Team whose catalog the label belongs to; omit for a personal label',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Team ID must be a valid MongoDB ObjectId' })
+    teamId?: string;
+}
+
+export class UpdateLabelDto extends PartialType(
+    OmitType(CreateLabelDto, ['teamId'] as const)
+) {}
+
+export class MergeLabelDto {
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439012',
+        description:
+            'Label that replaces this one on every tagged task; both must be in the same catalog'
+    })
+    @IsMongoId({ message: 'Target label ID must be a valid MongoDB ObjectId' })
+    targetLabelId: string;
+}
+
+export class QueryLabelDto {
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: "List a team's catalog instead of the personal one",
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Team ID must be a valid MongoDB ObjectId' })
+    teamId?: string;
+}
@@ -0,0 +1,163 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    Request,
+    HttpCode,
+    HttpStatus
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+    ApiBody
+} from '@nestjs/swagger';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { LabelService, LabelWithCount } from './label.service';
+import {
+    CreateLabelDto,
+    UpdateLabelDto,
+    MergeLabelDto,
+    QueryLabelDto
+} from './dto/label.dto';
+
+@ApiTags('Labels')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('/labels')
+export class LabelController {
+    constructor(private readonly labelService: LabelService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'List a label catalog',
+        description:
+            'Returns the personal labels of the authenticated user, or the labels of a team with teamId, each with its number of tasks'
+    })
+    @ApiResponse({ status: 200, description: 'Labels sorted by name' })
+    @ApiResponse({ status: 403, description: 'Not a team member' })
+    async findAll(
+        @Request() req: any,
+        @Query() queryLabelDto: QueryLabelDto
+    ): Promise<LabelWithCount[]> {
+        return this.labelService.findAll(req.user.sub, queryLabelDto.teamId);
+    }
+
+    @Post()
+    @ApiOperation({ summary: 'Create a personal or team label' })
+    @ApiBody({ type: CreateLabelDto })
+    @ApiResponse({ status: 201, description: 'Label created successfully' })
+    @ApiResponse({ status: 400, description: 'Invalid input data' })
+    @ApiResponse({ status: 403, description: 'Not a team member' })
+    @ApiResponse({
+        status: 409,
+        description: 'A label with this name already exists in the catalog'
+    })
+    async create(
+        @Request() req: any,
+        @Body() createLabelDto: CreateLabelDto
+    ): Promise<LabelWithCount> {
+        return this.labelService.create(req.user.sub, createLabelDto);
+    }
+
+    @Patch(':labelId')
+    @ApiOperation({
+        summary: 'Rename or recolour a label',
+        description: 'Every tagged task shows the new name and colour'
+    })
+    @ApiParam({
+        name: 'labelId',
+        description: 'Label ID',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiBody({ type: UpdateLabelDto })
+    @ApiResponse({ status: 200, description: 'Label updated successfully' })
+    @ApiResponse({
+        status: 403,
+        description: 'Only team owners can change team labels'
+    })
+    @ApiResponse({ status: 404, description: 'Label not found' })
+    @ApiResponse({
+        status: 409,
+        description: 'A label with this name already exists in the catalog'
+    })
+    async update(
+        @Request() req: any,
+        @Param('labelId') labelId: string,
+        @Body() updateLabelDto: UpdateLabelDto
+    ): Promise<LabelWithCount> {
+        return this.labelService.update(req.user.sub, labelId, updateLabelDto);
+    }
+
+    @Post(':labelId/merge')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Merge a label into another one',
+        description:
+            'Retags every task carrying this label with the target label, then deletes this label'
+    })
+    @ApiParam({
+        name: 'labelId',
+        description: 'Label to merge away',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiBody({ type: MergeLabelDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The target label after the merge'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Labels are the same or belong to different catalogs'
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Only team owners can merge team labels'
+    })
+    @ApiResponse({ status: 404, description: 'Label not found' })
+    async merge(
+        @Request() req: any,
+        @Param('labelId') labelId: string,
+        @Body() mergeLabelDto: MergeLabelDto
+    ): Promise<LabelWithCount> {
+        return this.labelService.merge(req.user.sub, labelId, mergeLabelDto);
+    }
+
+    @Delete(':labelId')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Delete a label and untag its tasks' })
+    @ApiParam({
+        name: 'labelId',
+        description: 'Label ID',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Label deleted successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    example: 'Label deleted successfully'
+                }
+            }
+        }
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Only team owners can delete team labels'
+    })
+    @ApiResponse({ status: 404, description: 'Label not found' })
+    async remove(@Request() req: any, @Param('labelId') labelId: string) {
+        return this.labelService.remove(req.user.sub, labelId);
+    }
+}
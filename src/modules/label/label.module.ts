@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { TeamModule } from '../team/team.module';
+import { LabelController } from './label.controller';
+import { LabelService } from './label.service';
+
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        TeamModule // Import TeamModule to access TeamAccessService
+    ],
+    controllers: [LabelController],
+    providers: [LabelService, PrismaService, TokenBlacklistService],
+    exports: [LabelService]
+})
+export class LabelModule {}
@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    BadRequestException,
+    ConflictException,
+    NotFoundException
+} from '@nestjs/common';
+import { LabelService } from './label.service';
+import { TeamAccessService } from '../team/team-access.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('LabelService', () => {
+    let service: LabelService;
+
+    const mockPrismaService = {
+        label: {
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
+            findUnique: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn()
+        },
+        task: {
+            findMany: jest.fn(),
+            update: jest.fn()
+        }
+    };
+
+    const mockTeamAccessService = {
+        assertMember: jest.fn(),
+        assertAdmin: jest.fn(),
+        isMember: jest.fn()
+    };
+
+    const personalLabel = (id: string, name = 'Bug') => ({
+        id,
+        name,
+        color: '#E11D48',
+        ownerId: 'user1',
+        teamId: null,
+        taskIds: []
+    });
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                LabelService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TeamAccessService,
+                    useValue: mockTeamAccessService
+                }
+            ]
+        }).compile();
+
+        service = module.get<LabelService>(LabelService);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('create', () => {
+        it('should reject a name already used in the catalog, ignoring case', async () => {
+            mockPrismaService.label.findFirst.mockResolvedValue({
+                id: 'label1'
+            });
+
+            await expect(
+                service.create('user1', { name: 'bug', color: '#E11D48' })
+            ).rejects.toThrow(ConflictException);
+            expect(mockPrismaService.label.findFirst).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        ownerId: 'user1',
+                        name: { equals: 'bug', mode: 'insensitive' }
+                    }
+                })
+            );
+        });
+
+        it('should add the label to the team catalog for members', async () => {
+            mockPrismaService.label.findFirst.mockResolvedValue(null);
+            mockPrismaService.label.create.mockResolvedValue({
+                id: 'label1',
+                name: 'Bug',
+                color: '#E11D48',
+                teamId: 'team1',
+                _count: { tasks: 0 }
+            });
+
+            const result = await service.create('user1', {
+                name: 'Bug',
+                color: '#E11D48',
+                teamId: 'team1'
+            });
+
+            expect(mockTeamAccessService.assertMember).toHaveBeenCalledWith(
+                'user1',
+                'team1'
+            );
+            expect(mockPrismaService.label.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: { name: 'Bug', color: '#E11D48', teamId: 'team1' }
+                })
+            );
+            expect(result.taskCount).toBe(0);
+        });
+    });
+
+    describe('update', () => {
+        it('should hide personal labels of other users', async () => {
+            mockPrismaService.label.findUnique.mockResolvedValue({
+                ...personalLabel('label1'),
+                ownerId: 'user2'
+            });
+
+            await expect(
+                service.update('user1', 'label1', { name: 'Defect' })
+            ).rejects.toThrow(NotFoundException);
+        });
+
+        it('should require a team owner for team labels', async () => {
+            mockPrismaService.label.findUnique.mockResolvedValue({
+                ...personalLabel('label1'),
+                ownerId: null,
+                teamId: 'team1'
+            });
+            mockTeamAccessService.isMember.mockResolvedValue(true);
+            mockPrismaService.label.update.mockResolvedValue({
+                ...personalLabel('label1'),
+                _count: { tasks: 2 }
+            });
+
+            await service.update('user1', 'label1', { color: '#2563EB' });
+
+            expect(mockTeamAccessService.assertAdmin).toHaveBeenCalledWith(
+                'user1',
+                'team1'
+            );
+        });
+    });
+
+    describe('merge', () => {
+        it('should refuse to merge a label into itself', async () => {
+            await expect(
+                service.merge('user1', 'label1', { targetLabelId: 'label1' })
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should retag tasks with the target and delete the source', async () => {
+            mockPrismaService.label.findUnique
+                .mockResolvedValueOnce(personalLabel('label1'))
+                .mockResolvedValueOnce(personalLabel('label2', 'Defect'))
+                .mockResolvedValueOnce({
+                    ...personalLabel('label2', 'Defect'),
+                    _count: { tasks: 2 }
+                });
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { id: 'task1', labelIds: ['label1'] },
+                { id: 'task2', labelIds: ['label1', 'label2'] }
+            ]);
+
+            const result = await service.merge('user1', 'label1', {
+                targetLabelId: 'label2'
+            });
+
+            expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+                where: { id: 'task1' },
+                data: {
+                    labels: {
+                        disconnect: { id: 'label1' },
+                        connect: { id: 'label2' }
+                    },
+                    version: { increment: 1 }
+                }
+            });
+            expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+                where: { id: 'task2' },
+                data: {
+                    labels: { disconnect: { id: 'label1' } },
+                    version: { increment: 1 }
+                }
+            });
+            expect(mockPrismaService.label.delete).toHaveBeenCalledWith({
+                where: { id: 'label1' }
+            });
+            expect(result.taskCount).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,249 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException
+} from '@nestjs/common';
+import { Label, Prisma } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { TeamAccessService } from '../team/team-access.service';
+import { CreateLabelDto, MergeLabelDto, UpdateLabelDto } from './dto/label.dto';
+
+const labelSelect = {
+    id: true,
+    name: true,
+    color: true,
+    ownerId: true,
+    teamId: true,
+    createdAt: true,
+    updatedAt: true,
+    _count: {
+        select: { tasks: { where: NOT_TRASHED } }
+    }
+} satisfies Prisma.LabelSelect;
+
+type SelectedLabel = Prisma.LabelGetPayload<{ select: typeof labelSelect }>;
+
+export type LabelWithCount = Omit<Label, 'taskIds'> & { taskCount: number };
+
+const toLabelWithCount = ({ _count, ...label }: SelectedLabel) => ({
+    ...label,
+    taskCount: _count.tasks
+});
+
+@Injectable()
+export class LabelService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly teamAccessService: TeamAccessService
+    ) {}
+
+    /**
+     * List a catalog: the user's personal labels, or a team's labels
+     */
+    async findAll(userId: string, teamId?: string): Promise<LabelWithCount[]> {
+        if (teamId) {
+            await this.teamAccessService.assertMember(userId, teamId);
+        }
+
+        const labels = await this.prismaService.label.findMany({
+            where: teamId ? { teamId } : { ownerId: userId },
+            orderBy: { name: 'asc' },
+            select: labelSelect
+        });
+
+        return labels.map(toLabelWithCount);
+    }
+
+    /**
+     * Create a label; any team member can add to a team catalog
+     */
+    async create(
+        userId: string,
+        createLabelDto: CreateLabelDto
+    ): Promise<LabelWithCount> {
+        const { teamId, name, color } = createLabelDto;
+        if (teamId) {
+            await this.teamAccessService.assertMember(userId, teamId);
+        }
+
+        const catalog = teamId ? { teamId } : { ownerId: userId };
+        await this.assertNameAvailable(catalog, name);
+
+        const label = await this.prismaService.label.create({
+            data: { name, color, ...catalog },
+            select: labelSelect
+        });
+
+        return toLabelWithCount(label);
+    }
+
+    /**
+     * Rename or recolour a label; tagged tasks reference it by ID and follow along
+     */
+    async update(
+        userId: string,
+        labelId: string,
+        updateLabelDto: UpdateLabelDto
+    ): Promise<LabelWithCount> {
+        const label = await this.getEditableLabel(userId, labelId);
+
+        if (
+            updateLabelDto.name !== undefined &&
+            updateLabelDto.name.toLowerCase() !== label.name.toLowerCase()
+        ) {
+            await this.assertNameAvailable(
+                this.getCatalog(label),
+                updateLabelDto.name
+            );
+        }
+
+        const updated = await this.prismaService.label.update({
+            where: { id: labelId },
+            data: {
+                ...(updateLabelDto.name !== undefined && {
+                    name: updateLabelDto.name
+                }),
+                ...(updateLabelDto.color !== undefined && {
+                    color: updateLabelDto.color
+                })
+            },
+            select: labelSelect
+        });
+
+        return toLabelWithCount(updated);
+    }
+
+    /**
+     * Merge a label into another one of the same catalog
+     * Every task tagged with the source is tagged with the target instead, then the source is deleted
+     */
+    async merge(
+        userId: string,
+        labelId: string,
+        mergeLabelDto: MergeLabelDto
+    ): Promise<LabelWithCount> {
+        const { targetLabelId } = mergeLabelDto;
+        if (labelId === targetLabelId) {
+            throw new BadRequestException(
+                'A label cannot be merged into itself'
+            );
+        }
+
+        const [source, target] = await Promise.all([
+            this.getEditableLabel(userId, labelId),
+            this.getEditableLabel(userId, targetLabelId)
+        ]);
+
+        if (
+            source.teamId !== target.teamId ||
+            source.ownerId !== target.ownerId
+        ) {
+            throw new BadRequestException(
+                'Only labels of the same catalog can be merged'
+            );
+        }
+
+        const tagged = await this.prismaService.task.findMany({
+            where: { labelIds: { has: labelId } },
+            select: { id: true, labelIds: true }
+        });
+
+        for (const task of tagged) {
+            await this.prismaService.task.update({
+                where: { id: task.id },
+                data: {
+                    labels: {
+                        disconnect: { id: labelId },
+                        ...(!task.labelIds.includes(targetLabelId) && {
+                            connect: { id: targetLabelId }
+                        })
+                    },
+                    version: { increment: 1 }
+                }
+            });
+        }
+
+        await this.prismaService.label.delete({ where: { id: labelId } });
+
+        const merged = await this.prismaService.label.findUnique({
+            where: { id: targetLabelId },
+            select: labelSelect
+        });
+        return toLabelWithCount(merged);
+    }
+
+    /**
+     * Delete a label and untag every task that carried it
+     */
+    async remove(
+        userId: string,
+        labelId: string
+    ): Promise<{ message: string }> {
+        await this.getEditableLabel(userId, labelId);
+
+        await this.prismaService.label.update({
+            where: { id: labelId },
+            data: { tasks: { set: [] } }
+        });
+        await this.prismaService.label.delete({ where: { id: labelId } });
+
+        return { message: 'Label deleted successfully' };
+    }
+
+    /**
+     * Load a label the user may change: their own personal labels, or team labels for team owners
+     * @throws NotFoundException if the label does not exist or is not visible to the user
+     */
+    private async getEditableLabel(
+        userId: string,
+        labelId: string
+    ): Promise<Label> {
+        const label = await this.prismaService.label.findUnique({
+            where: { id: labelId }
+        });
+
+        if (label?.teamId) {
+            if (
+                !(await this.teamAccessService.isMember(userId, label.teamId))
+            ) {
+                throw new NotFoundException('Label not found');
+            }
+            // Renames and merges retag every task of the team
+            await this.teamAccessService.assertAdmin(userId, label.teamId);
+            return label;
+        }
+
+        if (!label || label.ownerId !== userId) {
+            throw new NotFoundException('Label not found');
+        }
+
+        return label;
+    }
+
+    private getCatalog(label: Label): Prisma.LabelWhereInput {
+        return label.teamId
+            ? { teamId: label.teamId }
+            : { ownerId: label.ownerId };
+    }
+
+    private async assertNameAvailable(
+        catalog: Prisma.LabelWhereInput,
+        name: string
+    ): Promise<void> {
+        const existing = await this.prismaService.label.findFirst({
+            where: {
+                ...catalog,
+                name: { equals: name, mode: 'insensitive' }
+            },
+            select: { id: true }
+        });
+
+        if (existing) {
+            throw new ConflictException(
+                'A label with this name already exists in this catalog'
+            );
+        }
+    }
+}
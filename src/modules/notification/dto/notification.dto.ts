@@ -0,0 +1,99 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    IsArray,
+    IsBoolean,
+    IsEnum,
+    IsOptional,
+    Matches,
+    ValidateNested
+} from 'class-validator';
+import {
+    DigestFrequency,
+    NotificationChannel,
+    NotificationType
+} from '@prisma/client';
+import { CursorPaginationDto } from '../../../core/common/dto/pagination.dto';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class QueryNotificationDto extends CursorPaginationDto {
+    @ApiProperty({
+        example: 'true',
+        description: 'Only return unread notifications',
+        required: false
+    })
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true')
+    @IsBoolean({ message: 'unreadOnly must be a boolean' })
+    unreadOnly?: boolean;
+}
+
+export class NotificationChannelSettingDto {
+    @ApiProperty({
+        enum: NotificationType,
+        example: NotificationType.TASK_ASSIGNED
+    })
+    @IsEnum(NotificationType, {
+        message: 'Type must be a valid notification type'
+    })
+    type: NotificationType;
+
+    @ApiProperty({
+        enum: NotificationChannel,
+        example: NotificationChannel.EMAIL,
+        description:
+            'EMAIL (email and notification center), IN_APP (notification center only) or NONE'
+    })
+    @IsEnum(NotificationChannel, {
+        message: 'Channel must be EMAIL, IN_APP or NONE'
+    })
+    channel: NotificationChannel;
+}
+
+export class QuietHoursDto {
+    @ApiProperty({ example: '22:00', description: 'Start, as HH:mm' })
+    @Matches(TIME_OF_DAY, { message: 'Start must be a time such as 22:00' })
+    start: string;
+
+    @ApiProperty({ example: '07:00', description: 'End, as HH:mm' })
+    @Matches(TIME_OF_DAY, { message: 'End must be a time such as 07:00' })
+    end: string;
+}
+
+export class UpdateNotificationPreferenceDto {
+    @ApiProperty({
+        type: [NotificationChannelSettingDto],
+        description:
+            'Channels to change; notification types not listed keep their current channel',
+        required: false
+    })
+    @IsOptional()
+    @IsArray({ message: 'channels must be an array' })
+    @ValidateNested({ each: true })
+    @Type(() => NotificationChannelSettingDto)
+    channels?: NotificationChannelSettingDto[];
+
+    @ApiProperty({
+        type: QuietHoursDto,
+        description:
+            'Daily range in your timezone during which emails are held back; send null to remove',
+        required: false
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => QuietHoursDto)
+    quietHours?: QuietHoursDto | null;
+
+    @ApiProperty({
+        enum: DigestFrequency,
+        example: DigestFrequency.DAILY,
+        description: 'How often to email a summary of unread notifications',
+        required: false
+    })
+    @IsOptional()
+    @IsEnum(DigestFrequency, {
+        message: 'Digest frequency must be NEVER, DAILY or WEEKLY'
+    })
+    digestFrequency?: DigestFrequency;
+}
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import {
+    DigestFrequency,
+    NotificationChannel,
+    NotificationType
+} from '@prisma/client';
+import {
+    NotificationPreferenceService,
+    NotificationRecipient
+} from './notification-preference.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('NotificationPreferenceService', () => {
+    let service: NotificationPreferenceService;
+
+    const mockPrismaService = {
+        user: {
+            findMany: jest.fn()
+        },
+        notificationPreference: {
+            findUnique: jest.fn(),
+            upsert: jest.fn()
+        }
+    };
+
+    const preference = {
+        id: 'pref1',
+        userId: 'user1',
+        channels: [
+            {
+                type: NotificationType.TASK_COMMENTED,
+                channel: NotificationChannel.NONE
+            }
+        ],
+        quietHours: { start: '22:00', end: '07:00' },
+        digestFrequency: DigestFrequency.DAILY,
+        lastDigestAt: null,
+        updatedAt: new Date()
+    };
+
+    const recipient = (
+        overrides: Partial<NotificationRecipient> = {}
+    ): NotificationRecipient => ({
+        id: 'user1',
+        name: 'Alice',
+        email: 'alice@x.io',
+        timezone: 'Europe/Paris',
+        preference,
+        ...overrides
+    });
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                NotificationPreferenceService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                }
+            ]
+        }).compile();
+
+        service = module.get<NotificationPreferenceService>(
+            NotificationPreferenceService
+        );
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('get', () => {
+        it('should throw NotFoundException for an unknown user', async () => {
+            mockPrismaService.user.findMany.mockResolvedValue([]);
+
+            await expect(service.get('missing')).rejects.toThrow(
+                NotFoundException
+            );
+        });
+    });
+
+    describe('getChannel', () => {
+        it('should use the chosen channel, or the default of the type', () => {
+            expect(
+                service.getChannel(recipient(), NotificationType.TASK_COMMENTED)
+            ).toBe(NotificationChannel.NONE);
+            expect(
+                service.getChannel(
+                    recipient(),
+                    NotificationType.TEAM_INVITATION
+                )
+            ).toBe(NotificationChannel.EMAIL);
+            expect(
+                service.getChannel(
+                    recipient({ preference: null }),
+                    NotificationType.TASK_ASSIGNED
+                )
+            ).toBe(NotificationChannel.IN_APP);
+        });
+    });
+
+    describe('getQuietHoursEnd', () => {
+        it("should return the end of quiet hours in the recipient's timezone", () => {
+            // 23:00 in Paris
+            const end = service.getQuietHoursEnd(
+                recipient(),
+                new Date('2025-06-02T21:00:00Z')
+            );
+            expect(end?.toISOString()).toBe('2025-06-03T05:00:00.000Z');
+        });
+
+        it('should return null outside quiet hours or without any', () => {
+            expect(
+                service.getQuietHoursEnd(
+                    recipient(),
+                    new Date('2025-06-02T12:00:00Z')
+                )
+            ).toBeNull();
+            expect(
+                service.getQuietHoursEnd(
+                    recipient({
+                        preference: { ...preference, quietHours: null }
+                    }),
+                    new Date('2025-06-02T21:00:00Z')
+                )
+            ).toBeNull();
+        });
+    });
+
+    describe('update', () => {
+        it('should merge channels and remove quiet hours sent as null', async () => {
+            mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+                preference
+            );
+            mockPrismaService.user.findMany.mockResolvedValue([
+                {
+                    id: 'user1',
+                    name: 'Alice',
+                    email: 'alice@x.io',
+                    timezone: null,
+                    notificationPreference: preference
+                }
+            ]);
+
+            const result = await service.update('user1', {
+                channels: [
+                    {
+                        type: NotificationType.TASK_ASSIGNED,
+                        channel: NotificationChannel.EMAIL
+                    }
+                ],
+                quietHours: null
+            });
+
+            expect(
+                mockPrismaService.notificationPreference.upsert
+            ).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    update: {
+                        channels: [
+                            {
+                                type: NotificationType.TASK_COMMENTED,
+                                channel: NotificationChannel.NONE
+                            },
+                            {
+                                type: NotificationType.TASK_ASSIGNED,
+                                channel: NotificationChannel.EMAIL
+                            }
+                        ],
+                        quietHours: { unset: true }
+                    }
+                })
+            );
+            expect(result.timezone).toBe('UTC');
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+    DigestFrequency,
+    NotificationChannel,
+    NotificationPreference,
+    NotificationType,
+    QuietHours
+} from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import {
+    DEFAULT_NOTIFICATION_CHANNELS,
+    DEFAULT_TIMEZONE
+} from '../../core/constants/notification.constants';
+import {
+    getNextTimeOfDay,
+    isWithinQuietHours
+} from '../../core/utils/timezone';
+import { UpdateNotificationPreferenceDto } from './dto/notification.dto';
+
+export interface NotificationPreferences {
+    channels: { type: NotificationType; channel: NotificationChannel }[];
+    quietHours: QuietHours | null;
+    digestFrequency: DigestFrequency;
+    timezone: string;
+}
+
+// A user about to be notified, with what is needed to deliver to them
+export interface NotificationRecipient {
+    id: string;
+    name: string;
+    email: string;
+    timezone: string;
+    preference: NotificationPreference | null;
+}
+
+@Injectable()
+export class NotificationPreferenceService {
+    constructor(private readonly prismaService: PrismaService) {}
+
+    async get(userId: string): Promise<NotificationPreferences> {
+        const [recipient] = await this.findRecipients([userId]);
+        if (!recipient) {
+            throw new NotFoundException('User not found');
+        }
+        return this.describe(recipient);
+    }
+
+    /**
+     * Change some of the user's preferences; channels are merged by notification type
+     */
+    async update(
+        userId: string,
+        updateDto: UpdateNotificationPreferenceDto
+    ): Promise<NotificationPreferences> {
+        const current =
+            await this.prismaService.notificationPreference.findUnique({
+                where: { userId }
+            });
+
+        const channels = new Map(
+            (current?.channels ?? []).map((setting) => [
+                setting.type,
+                setting.channel
+            ])
+        );
+        for (const setting of updateDto.channels ?? []) {
+            channels.set(setting.type, setting.channel);
+        }
+
+        const data = {
+            channels: [...channels].map(([type, channel]) => ({
+                type,
+                channel
+            })),
+            ...(updateDto.quietHours && { quietHours: updateDto.quietHours }),
+            ...(updateDto.digestFrequency && {
+                digestFrequency: updateDto.digestFrequency
+            })
+        };
+
+        await this.prismaService.notificationPreference.upsert({
+            where: { userId },
+            create: { ...data, userId },
+            update: {
+                ...data,
+                ...(updateDto.quietHours === null && {
+                    quietHours: { unset: true }
+                })
+            }
+        });
+
+        return this.get(userId);
+    }
+
+    async findRecipients(userIds: string[]): Promise<NotificationRecipient[]> {
+        const users = await this.prismaService.user.findMany({
+            where: { id: { in: userIds } },
+            select: {
+                id: true,
+                name: true,
+                email: true,
+                timezone: true,
+                notificationPreference: true
+            }
+        });
+
+        return users.map(({ notificationPreference, timezone, ...user }) => ({
+            ...user,
+            timezone: timezone ?? DEFAULT_TIMEZONE,
+            preference: notificationPreference
+        }));
+    }
+
+    getChannel(
+        recipient: NotificationRecipient,
+        type: NotificationType
+    ): NotificationChannel {
+        return (
+            recipient.preference?.channels.find(
+                (setting) => setting.type === type
+            )?.channel ?? DEFAULT_NOTIFICATION_CHANNELS[type]
+        );
+    }
+
+    /**
+     * When the recipient's quiet hours end, if they are in them
+     * @returns null outside quiet hours
+     */
+    getQuietHoursEnd(
+        recipient: NotificationRecipient,
+        date: Date
+    ): Date | null {
+        const quietHours = recipient.preference?.quietHours;
+        if (
+            !quietHours ||
+            !isWithinQuietHours(date, quietHours, recipient.timezone)
+        ) {
+            return null;
+        }
+        return getNextTimeOfDay(date, quietHours.end, recipient.timezone);
+    }
+
+    private describe(
+        recipient: NotificationRecipient
+    ): NotificationPreferences {
+        return {
+            channels: Object.values(NotificationType).map((type) => ({
+                type,
+                channel: this.getChannel(recipient, type)
+            })),
+            quietHours: recipient.preference?.quietHours ?? null,
+            digestFrequency:
+                recipient.preference?.digestFrequency ?? DigestFrequency.NEVER,
+            timezone: recipient.timezone
+        };
+    }
+}
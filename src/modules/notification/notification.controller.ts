@@ -0,0 +1,132 @@
+import {
+    Controller,
+    Get,
+    Patch,
+    Param,
+    Body,
+    Query,
+    UseGuards,
+    Request
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam
+} from '@nestjs/swagger';
+import { Notification } from '@prisma/client';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+import {
+    NotificationService,
+    NotificationWithActor
+} from './notification.service';
+import {
+    NotificationPreferenceService,
+    NotificationPreferences
+} from './notification-preference.service';
+import {
+    QueryNotificationDto,
+    UpdateNotificationPreferenceDto
+} from './dto/notification.dto';
+
+@ApiTags('Notifications')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('/notifications')
+export class NotificationController {
+    constructor(
+        private readonly notificationService: NotificationService,
+        private readonly notificationPreferenceService: NotificationPreferenceService
+    ) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'List my notifications',
+        description:
+            'Returns the notifications of the authenticated user, newest first, with the user who triggered each one'
+    })
+    @ApiResponse({
+        status: 200,
+        description:
+            'Paginated notifications; meta.nextCursor gives the next page'
+    })
+    @ApiResponse({ status: 400, description: 'Invalid cursor' })
+    async findAll(
+        @Request() req: any,
+        @Query() queryNotificationDto: QueryNotificationDto
+    ): Promise<PaginatedResponseDto<NotificationWithActor>> {
+        return this.notificationService.findAll(
+            req.user.sub,
+            queryNotificationDto
+        );
+    }
+
+    @Get('unread-count')
+    @ApiOperation({ summary: 'Count my unread notifications' })
+    @ApiResponse({ status: 200, description: 'Number of unread notifications' })
+    async getUnreadCount(@Request() req: any): Promise<{ count: number }> {
+        return this.notificationService.getUnreadCount(req.user.sub);
+    }
+
+    @Get('preferences')
+    @ApiOperation({
+        summary: 'Get my notification preferences',
+        description:
+            'Returns the channel of every notification type, quiet hours, digest frequency and the timezone they apply in'
+    })
+    @ApiResponse({ status: 200, description: 'Notification preferences' })
+    async getPreferences(
+        @Request() req: any
+    ): Promise<NotificationPreferences> {
+        return this.notificationPreferenceService.get(req.user.sub);
+    }
+
+    @Patch('preferences')
+    @ApiOperation({
+        summary: 'Update my notification preferences',
+        description:
+            'Changes the channels of the listed notification types, quiet hours and digest frequency; the timezone is set on the user profile'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Notification preferences updated'
+    })
+    @ApiResponse({ status: 400, description: 'Validation error' })
+    async updatePreferences(
+        @Request() req: any,
+        @Body() updateDto: UpdateNotificationPreferenceDto
+    ): Promise<NotificationPreferences> {
+        return this.notificationPreferenceService.update(
+            req.user.sub,
+            updateDto
+        );
+    }
+
+    @Patch('read-all')
+    @ApiOperation({ summary: 'Mark all my notifications as read' })
+    @ApiResponse({
+        status: 200,
+        description: 'Number of notifications marked as read'
+    })
+    async markAllRead(@Request() req: any): Promise<{ count: number }> {
+        return this.notificationService.markAllRead(req.user.sub);
+    }
+
+    @Patch(':notificationId/read')
+    @ApiOperation({ summary: 'Mark a notification as read' })
+    @ApiParam({
+        name: 'notificationId',
+        description: 'Notification ID',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiResponse({ status: 200, description: 'Notification marked as read' })
+    @ApiResponse({ status: 404, description: 'Notification not found' })
+    async markRead(
+        @Request() req: any,
+        @Param('notificationId') notificationId: string
+    ): Promise<Notification> {
+        return this.notificationService.markRead(req.user.sub, notificationId);
+    }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { WebsocketModule } from '../../websocket/websocket.module';
+import { NotificationController } from './notification.controller';
+import { NotificationService } from './notification.service';
+import { NotificationPreferenceService } from './notification-preference.service';
+
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        WebsocketModule
+    ],
+    controllers: [NotificationController],
+    providers: [
+        NotificationService,
+        NotificationPreferenceService,
+        PrismaService,
+        TokenBlacklistService
+    ],
+    exports: [NotificationService, NotificationPreferenceService]
+})
+export class NotificationModule {}
@@ -0,0 +1,343 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailerService } from '@nestjs-modules/mailer';
+import { NotificationChannel, NotificationType } from '@prisma/client';
+import { NotificationService } from './notification.service';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { TasksGateway } from '../task/tasks.gateway';
+import { PrismaService } from '../../core/services/prisma.service';
+import { EmailTemplate } from '../../core/constants/email.constants';
+
+describe('NotificationService', () => {
+    let service: NotificationService;
+
+    const mockPrismaService = {
+        notification: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
+            count: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn()
+        },
+        user: {
+            findUnique: jest.fn(),
+            findMany: jest.fn()
+        }
+    };
+
+    const mockTasksGateway = {
+        emitToUsers: jest.fn()
+    };
+
+    const mockMailerService = {
+        sendMail: jest.fn()
+    };
+
+    const mockNotificationPreferenceService = {
+        findRecipients: jest.fn(),
+        getChannel: jest.fn(),
+        getQuietHoursEnd: jest.fn()
+    };
+
+    const alice = { id: 'user1', name: 'Alice', email: 'alice@x.io' };
+    const bob = {
+        id: 'user2',
+        name: 'Bob',
+        email: 'bob@x.io',
+        timezone: 'UTC',
+        preference: null
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                NotificationService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TasksGateway,
+                    useValue: mockTasksGateway
+                },
+                {
+                    provide: MailerService,
+                    useValue: mockMailerService
+                },
+                {
+                    provide: ConfigService,
+                    useValue: {
+                        get: (_key: string, fallback: string) => fallback
+                    }
+                },
+                {
+                    provide: NotificationPreferenceService,
+                    useValue: mockNotificationPreferenceService
+                }
+            ]
+        }).compile();
+
+        service = module.get<NotificationService>(NotificationService);
+        mockPrismaService.user.findUnique.mockResolvedValue(alice);
+        mockPrismaService.user.findMany.mockResolvedValue([alice]);
+        mockPrismaService.notification.create.mockImplementation(
+            ({ data }) => ({
+                id: `n-${data.userId}`,
+                createdAt: new Date('2025-06-02T10:00:00.000Z'),
+                ...data
+            })
+        );
+        mockNotificationPreferenceService.findRecipients.mockResolvedValue([
+            bob
+        ]);
+        mockNotificationPreferenceService.getChannel.mockReturnValue(
+            NotificationChannel.IN_APP
+        );
+        mockNotificationPreferenceService.getQuietHoursEnd.mockReturnValue(
+            null
+        );
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('notify', () => {
+        it('should store and push one notification per recipient, skipping the actor', async () => {
+            await service.notify(['user2', 'user1', 'user2'], {
+                type: NotificationType.TASK_ASSIGNED,
+                message: 'assigned you to "Ship release"',
+                actorId: 'user1',
+                taskId: 'task1'
+            });
+
+            expect(mockPrismaService.notification.create).toHaveBeenCalledTimes(
+                1
+            );
+            expect(mockPrismaService.notification.create).toHaveBeenCalledWith({
+                data: {
+                    type: NotificationType.TASK_ASSIGNED,
+                    message: 'assigned you to "Ship release"',
+                    actorId: 'user1',
+                    taskId: 'task1',
+                    userId: 'user2'
+                }
+            });
+            expect(mockTasksGateway.emitToUsers).toHaveBeenCalledWith(
+                ['user2'],
+                'notification',
+                expect.objectContaining({ id: 'n-user2', actor: alice })
+            );
+            expect(
+                mockNotificationPreferenceService.findRecipients
+            ).toHaveBeenCalledWith(['user2']);
+            expect(mockMailerService.sendMail).not.toHaveBeenCalled();
+        });
+
+        it('should drop notifications of a type the recipient turned off', async () => {
+            mockNotificationPreferenceService.getChannel.mockReturnValue(
+                NotificationChannel.NONE
+            );
+
+            await service.notify(['user2'], {
+                type: NotificationType.TASK_COMMENTED,
+                message: 'commented on "Ship release"',
+                actorId: 'user1'
+            });
+
+            expect(
+                mockPrismaService.notification.create
+            ).not.toHaveBeenCalled();
+            expect(mockTasksGateway.emitToUsers).not.toHaveBeenCalled();
+        });
+
+        it('should email on the EMAIL channel, with the dedicated email when given', async () => {
+            mockNotificationPreferenceService.getChannel.mockReturnValue(
+                NotificationChannel.EMAIL
+            );
+
+            await service.notify(
+                ['user2'],
+                {
+                    type: NotificationType.TASK_REMINDER,
+                    message: '"Ship release" is due now',
+                    actorId: null,
+                    taskId: 'task1'
+                },
+                {
+                    subject: 'Task reminder',
+                    template: EmailTemplate.TASK_REMINDER,
+                    context: (recipient) => ({ name: recipient.name })
+                }
+            );
+
+            expect(mockMailerService.sendMail).toHaveBeenCalledWith({
+                to: 'bob@x.io',
+                subject: 'Task reminder',
+                template: EmailTemplate.TASK_REMINDER,
+                context: { name: 'Bob' }
+            });
+        });
+
+        it('should hold the email back until the end of quiet hours', async () => {
+            const quietUntil = new Date('2025-06-03T07:00:00.000Z');
+            mockNotificationPreferenceService.getChannel.mockReturnValue(
+                NotificationChannel.EMAIL
+            );
+            mockNotificationPreferenceService.getQuietHoursEnd.mockReturnValue(
+                quietUntil
+            );
+
+            await service.notify(
+                ['user2'],
+                {
+                    type: NotificationType.TASK_REMINDER,
+                    message: '"Ship release" is due now',
+                    actorId: null,
+                    taskId: 'task1'
+                },
+                {
+                    subject: 'Task reminder',
+                    template: EmailTemplate.TASK_REMINDER,
+                    context: (recipient) => ({ name: recipient.name })
+                }
+            );
+
+            expect(mockPrismaService.notification.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    userId: 'user2',
+                    emailDueAt: quietUntil,
+                    deferredEmail: {
+                        subject: 'Task reminder',
+                        template: EmailTemplate.TASK_REMINDER,
+                        context: { name: 'Bob' }
+                    }
+                })
+            });
+            expect(mockTasksGateway.emitToUsers).toHaveBeenCalled();
+            expect(mockMailerService.sendMail).not.toHaveBeenCalled();
+        });
+
+        it('should do nothing when the actor is the only recipient', async () => {
+            await service.notify(['user1'], {
+                type: NotificationType.TASK_COMMENTED,
+                message: 'commented on "Ship release"',
+                actorId: 'user1'
+            });
+
+            expect(
+                mockPrismaService.notification.create
+            ).not.toHaveBeenCalled();
+            expect(mockTasksGateway.emitToUsers).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sendDeferredEmails', () => {
+        it('should send the held-back emails of unread notifications only', async () => {
+            const notification = {
+                type: NotificationType.TASK_ASSIGNED,
+                message: 'assigned you to "Ship release"',
+                actorId: 'user1',
+                taskId: 'task1',
+                userId: 'user2',
+                createdAt: new Date('2025-06-02T23:00:00.000Z')
+            };
+            mockPrismaService.notification.findMany.mockResolvedValue([
+                { ...notification, id: 'n1', readAt: null },
+                { ...notification, id: 'n2', readAt: new Date() }
+            ]);
+
+            await service.sendDeferredEmails();
+
+            expect(mockPrismaService.notification.update).toHaveBeenCalledWith({
+                where: { id: 'n2' },
+                data: { emailDueAt: { unset: true } }
+            });
+            expect(mockMailerService.sendMail).toHaveBeenCalledTimes(1);
+            expect(mockMailerService.sendMail).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    to: 'bob@x.io',
+                    subject: 'Alice assigned you to "Ship release"',
+                    template: EmailTemplate.NOTIFICATION,
+                    context: expect.objectContaining({
+                        url: 'http://localhost:3000/tasks/task1'
+                    })
+                })
+            );
+        });
+
+        it('should send the dedicated email a notification was held back with', async () => {
+            mockPrismaService.notification.findMany.mockResolvedValue([
+                {
+                    id: 'n1',
+                    type: NotificationType.TASK_REMINDER,
+                    message: '"Ship release" is due now',
+                    actorId: null,
+                    userId: 'user2',
+                    readAt: null,
+                    createdAt: new Date('2025-06-02T23:00:00.000Z'),
+                    deferredEmail: {
+                        subject: 'Task reminder',
+                        template: EmailTemplate.TASK_REMINDER,
+                        context: {
+                            name: 'Bob',
+                            headline: 'Your task is due now'
+                        }
+                    }
+                }
+            ]);
+
+            await service.sendDeferredEmails();
+
+            expect(mockPrismaService.notification.update).toHaveBeenCalledWith({
+                where: { id: 'n1' },
+                data: {
+                    emailDueAt: { unset: true },
+                    deferredEmail: { unset: true }
+                }
+            });
+            expect(mockMailerService.sendMail).toHaveBeenCalledWith({
+                to: 'bob@x.io',
+                subject: 'Task reminder',
+                template: EmailTemplate.TASK_REMINDER,
+                context: { name: 'Bob', headline: 'Your task is due now' }
+            });
+        });
+    });
+
+    describe('findAll', () => {
+        it('should only count unread notifications when asked to', async () => {
+            mockPrismaService.notification.findMany.mockResolvedValue([
+                { id: 'n1', userId: 'user2', actorId: 'user1' }
+            ]);
+            mockPrismaService.notification.count.mockResolvedValue(1);
+
+            const result = await service.findAll('user2', {
+                page: 1,
+                limit: 5,
+                unreadOnly: true
+            });
+
+            expect(mockPrismaService.notification.count).toHaveBeenCalledWith({
+                where: { userId: 'user2', readAt: { isSet: false } }
+            });
+            expect(result.data[0].actor).toEqual(alice);
+            expect(result.meta.total).toBe(1);
+        });
+    });
+
+    describe('markRead', () => {
+        it("should throw NotFoundException for another user's notification", async () => {
+            mockPrismaService.notification.findFirst.mockResolvedValue(null);
+
+            await expect(service.markRead('user2', 'n1')).rejects.toThrow(
+                NotFoundException
+            );
+            expect(
+                mockPrismaService.notification.update
+            ).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,470 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { MailerService } from '@nestjs-modules/mailer';
+import {
+    DigestFrequency,
+    Notification,
+    NotificationChannel,
+    NotificationType,
+    Prisma
+} from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+import { paginate } from '../../core/utils/pagination';
+import {
+    EmailSubject,
+    EmailTemplate
+} from '../../core/constants/email.constants';
+import {
+    DEFAULT_TIMEZONE,
+    DIGEST_HOUR
+} from '../../core/constants/notification.constants';
+import { getLocalTime } from '../../core/utils/timezone';
+import { TasksGateway } from '../task/tasks.gateway';
+import { QueryNotificationDto } from './dto/notification.dto';
+import {
+    NotificationPreferenceService,
+    NotificationRecipient
+} from './notification-preference.service';
+
+export interface NotificationInput {
+    type: NotificationType;
+    message: string;
+    // null for notifications sent by the system
+    actorId: string | null;
+    taskId?: string;
+    teamId?: string;
+    data?: Prisma.InputJsonValue;
+}
+
+// A dedicated email for a notification; without one, the generic notification email is used
+export interface NotificationEmail {
+    subject: string;
+    template: EmailTemplate;
+    context: (recipient: NotificationRecipient) => Record<string, unknown>;
+}
+
+type Actor = { id: string; name: string; email: string };
+
+export interface NotificationWithActor extends Notification {
+    actor: Actor | null;
+}
+
+const UNREAD = { readAt: { isSet: false } } as const;
+
+const HOUR = 60 * 60 * 1000;
+
+// Upper bound of held-back emails sent per scheduler run
+const DEFERRED_BATCH_SIZE = 200;
+
+// Notifications listed in a digest email; the rest are only counted
+const DIGEST_MAX_NOTIFICATIONS = 20;
+
+const DIGEST_PERIODS: Record<DigestFrequency, number> = {
+    NEVER: 0,
+    DAILY: 24 * HOUR,
+    WEEKLY: 7 * 24 * HOUR
+};
+
+@Injectable()
+export class NotificationService {
+    private readonly logger = new Logger(NotificationService.name);
+
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly tasksGateway: TasksGateway,
+        private readonly mailerService: MailerService,
+        private readonly configService: ConfigService,
+        private readonly notificationPreferenceService: NotificationPreferenceService
+    ) {}
+
+    /**
+     * Deliver a notification to each recipient on the channel they chose for its type:
+     * stored and pushed to their socket room, and emailed for the EMAIL channel.
+     * Emails are held back until the end of the recipient's quiet hours.
+     * The actor is never notified of their own action
+     */
+    async notify(
+        userIds: string[],
+        input: NotificationInput,
+        email?: NotificationEmail
+    ): Promise<void> {
+        const recipientIds = [...new Set(userIds)].filter(
+            (id) => id && id !== input.actorId
+        );
+        if (recipientIds.length === 0) {
+            return;
+        }
+
+        const [recipients, actor] = await Promise.all([
+            this.notificationPreferenceService.findRecipients(recipientIds),
+            input.actorId
+                ? this.prismaService.user.findUnique({
+                      where: { id: input.actorId },
+                      select: { id: true, name: true, email: true }
+                  })
+                : null
+        ]);
+        const now = new Date();
+
+        for (const recipient of recipients) {
+            const channel = this.notificationPreferenceService.getChannel(
+                recipient,
+                input.type
+            );
+            if (channel === NotificationChannel.NONE) {
+                continue;
+            }
+
+            const byEmail = channel === NotificationChannel.EMAIL;
+            const quietUntil = byEmail
+                ? this.notificationPreferenceService.getQuietHoursEnd(
+                      recipient,
+                      now
+                  )
+                : null;
+
+            const notification = {
+                ...(await this.prismaService.notification.create({
+                    data: {
+                        ...input,
+                        userId: recipient.id,
+                        ...(quietUntil && {
+                            emailDueAt: quietUntil,
+                            ...(email && {
+                                deferredEmail: {
+                                    subject: email.subject,
+                                    template: email.template,
+                                    context: email.context(
+                                        recipient
+                                    ) as Prisma.InputJsonValue
+                                }
+                            })
+                        })
+                    }
+                })),
+                actor
+            };
+            this.tasksGateway.emitToUsers(
+                [recipient.id],
+                'notification',
+                notification
+            );
+
+            if (byEmail && !quietUntil) {
+                await this.sendEmail(recipient, notification, email);
+            }
+        }
+    }
+
+    /**
+     * List the user's notifications, newest first
+     */
+    async findAll(
+        userId: string,
+        queryNotificationDto: QueryNotificationDto
+    ): Promise<PaginatedResponseDto<NotificationWithActor>> {
+        const {
+            page = 1,
+            limit = 5,
+            cursor,
+            unreadOnly
+        } = queryNotificationDto;
+        const where: Prisma.NotificationWhereInput = {
+            userId,
+            ...(unreadOnly && UNREAD)
+        };
+
+        const { data: notifications, meta } = await paginate(
+            { page, limit, cursor },
+            [{ field: 'createdAt', order: 'desc' }],
+            (query) =>
+                this.prismaService.notification.findMany({
+                    where: { AND: [where, query.where] },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take
+                }),
+            () => this.prismaService.notification.count({ where })
+        );
+
+        return { data: await this.withActors(notifications), meta };
+    }
+
+    async getUnreadCount(userId: string): Promise<{ count: number }> {
+        const count = await this.prismaService.notification.count({
+            where: { userId, ...UNREAD }
+        });
+        return { count };
+    }
+
+    /**
+     * Mark one of the user's notifications as read
+     * @throws NotFoundException if the notification does not belong to the user
+     */
+    async markRead(
+        userId: string,
+        notificationId: string
+    ): Promise<Notification> {
+        const notification = await this.prismaService.notification.findFirst({
+            where: { id: notificationId, userId }
+        });
+
+        if (!notification) {
+            throw new NotFoundException('Notification not found');
+        }
+
+        if (notification.readAt) {
+            return notification;
+        }
+
+        return this.prismaService.notification.update({
+            where: { id: notificationId },
+            data: { readAt: new Date() }
+        });
+    }
+
+    async markAllRead(userId: string): Promise<{ count: number }> {
+        const { count } = await this.prismaService.notification.updateMany({
+            where: { userId, ...UNREAD },
+            data: { readAt: new Date() }
+        });
+        return { count };
+    }
+
+    /**
+     * Send the emails held back by quiet hours that have ended, with the dedicated email they were held back with;
+     * notifications read in the meantime are not emailed
+     */
+    @Cron(CronExpression.EVERY_5_MINUTES)
+    async sendDeferredEmails(): Promise<void> {
+        const due = await this.prismaService.notification.findMany({
+            where: { emailDueAt: { lte: new Date() } },
+            orderBy: { emailDueAt: 'asc' },
+            take: DEFERRED_BATCH_SIZE
+        });
+        if (due.length === 0) {
+            return;
+        }
+
+        const recipients = new Map(
+            (
+                await this.notificationPreferenceService.findRecipients([
+                    ...new Set(due.map((notification) => notification.userId))
+                ])
+            ).map((recipient) => [recipient.id, recipient])
+        );
+
+        for (const notification of await this.withActors(due)) {
+            await this.prismaService.notification.update({
+                where: { id: notification.id },
+                data: {
+                    emailDueAt: { unset: true },
+                    ...(notification.deferredEmail && {
+                        deferredEmail: { unset: true }
+                    })
+                }
+            });
+
+            const recipient = recipients.get(notification.userId);
+            const { deferredEmail } = notification;
+            if (recipient && !notification.readAt) {
+                await this.sendEmail(
+                    recipient,
+                    notification,
+                    deferredEmail && {
+                        subject: deferredEmail.subject,
+                        template: deferredEmail.template as EmailTemplate,
+                        context: () =>
+                            deferredEmail.context as Record<string, unknown>
+                    }
+                );
+            }
+        }
+    }
+
+    /**
+     * Email users who turned digests on a summary of their unread notifications, at DIGEST_HOUR in their timezone
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async sendDigests(): Promise<void> {
+        const now = new Date();
+        const preferences =
+            await this.prismaService.notificationPreference.findMany({
+                where: { digestFrequency: { not: DigestFrequency.NEVER } },
+                include: {
+                    user: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true,
+                            timezone: true
+                        }
+                    }
+                }
+            });
+
+        for (const { user, ...preference } of preferences) {
+            const period = DIGEST_PERIODS[preference.digestFrequency];
+            const local = getLocalTime(now, user.timezone ?? DEFAULT_TIMEZONE);
+            if (
+                Math.floor(local.minutes / 60) !== DIGEST_HOUR ||
+                (preference.digestFrequency === DigestFrequency.WEEKLY &&
+                    local.weekday !== 1) ||
+                // Already sent during this digest hour
+                (preference.lastDigestAt &&
+                    now.getTime() - preference.lastDigestAt.getTime() <
+                        2 * HOUR)
+            ) {
+                continue;
+            }
+
+            try {
+                await this.sendDigest(
+                    user,
+                    preference.lastDigestAt ?? new Date(now.getTime() - period)
+                );
+                await this.prismaService.notificationPreference.update({
+                    where: { id: preference.id },
+                    data: { lastDigestAt: now }
+                });
+            } catch (error) {
+                this.logger.error(
+                    `Failed to send the notification digest of user ${user.id}`,
+                    (error as Error).stack
+                );
+            }
+        }
+    }
+
+    private async sendDigest(user: Actor, since: Date): Promise<void> {
+        const where = {
+            userId: user.id,
+            ...UNREAD,
+            createdAt: { gt: since }
+        };
+        const [notifications, count] = await Promise.all([
+            this.prismaService.notification.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                take: DIGEST_MAX_NOTIFICATIONS
+            }),
+            this.prismaService.notification.count({ where })
+        ]);
+        if (count === 0) {
+            return;
+        }
+
+        await this.mailerService.sendMail({
+            to: user.email,
+            subject: EmailSubject.NOTIFICATION_DIGEST,
+            template: EmailTemplate.NOTIFICATION_DIGEST,
+            context: {
+                name: user.name,
+                count,
+                notifications: (await this.withActors(notifications)).map(
+                    (notification) => ({
+                        headline: this.headline(notification),
+                        url: this.notificationUrl(notification),
+                        date: notification.createdAt.toUTCString()
+                    })
+                ),
+                more: Math.max(0, count - DIGEST_MAX_NOTIFICATIONS)
+            }
+        });
+    }
+
+    private async sendEmail(
+        recipient: NotificationRecipient,
+        notification: NotificationWithActor,
+        email?: NotificationEmail
+    ): Promise<void> {
+        const headline = this.headline(notification);
+
+        try {
+            await this.mailerService.sendMail({
+                to: recipient.email,
+                ...(email
+                    ? {
+                          subject: email.subject,
+                          template: email.template,
+                          context: email.context(recipient)
+                      }
+                    : {
+                          subject: headline,
+                          template: EmailTemplate.NOTIFICATION,
+                          context: {
+                              name: recipient.name,
+                              headline,
+                              url: this.notificationUrl(notification),
+                              date: notification.createdAt.toUTCString()
+                          }
+                      })
+            });
+        } catch (error) {
+            this.logger.error(
+                `Failed to email notification ${notification.id} to user ${recipient.id}`,
+                (error as Error).stack
+            );
+        }
+    }
+
+    /**
+     * e.g. 'Jane assigned you to "Ship release"', or the bare message for system notifications
+     */
+    private headline(notification: NotificationWithActor): string {
+        return notification.actor
+            ? `${notification.actor.name} ${notification.message}`
+            : notification.message;
+    }
+
+    private notificationUrl(notification: Notification): string {
+        const frontendUrl = this.configService.get<string>(
+            'FRONTEND_URL',
+            'http://localhost:3000'
+        );
+        const data = notification.data as { token?: string } | null;
+
+        if (
+            notification.type === NotificationType.TEAM_INVITATION &&
+            data?.token
+        ) {
+            return `${frontendUrl}/teams/invite/accept/${data.token}`;
+        }
+        if (notification.taskId) {
+            return `${frontendUrl}/tasks/${notification.taskId}`;
+        }
+        if (notification.teamId) {
+            return `${frontendUrl}/teams/${notification.teamId}`;
+        }
+        return `${frontendUrl}/notifications`;
+    }
+
+    private async withActors(
+        notifications: Notification[]
+    ): Promise<NotificationWithActor[]> {
+        const actorIds = [
+            ...new Set(
+                notifications
+                    .map((notification) => notification.actorId)
+                    .filter(Boolean)
+            )
+        ];
+        const actors = actorIds.length
+            ? await this.prismaService.user.findMany({
+                  where: { id: { in: actorIds } },
+                  select: { id: true, name: true, email: true }
+              })
+            : [];
+        const actorsById = new Map(actors.map((actor) => [actor.id, actor]));
+
+        return notifications.map((notification) => ({
+            ...notification,
+            actor:
+                (notification.actorId &&
+                    actorsById.get(notification.actorId)) ||
+                null
+        }));
+    }
+}
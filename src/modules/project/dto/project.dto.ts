@@ -101,6 +101,22 @@ export class ProjectResponseDto {
     @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
     createdAt: Date;
 
+    @ApiProperty({
+        description:
+            'Incremented by every change; also sent as the ETag of single-project responses',
+        example: 3,
+        required: false
+    })
+    version?: number;
+
+    @ApiProperty({
+        description:
+            'When the project was moved to the trash (trash listing only)',
+        example: '2023-01-02T00:00:00.000Z',
+        required: false
+    })
+    deletedAt?: Date;
+
     @ApiProperty({
         description: 'Project owner information',
         type: 'object',
@@ -11,8 +11,11 @@ import {
     UseGuards,
     Request,
     HttpCode,
-    HttpStatus
+    HttpStatus,
+    Headers,
+    Res
 } from '@nestjs/common';
+import { Response } from 'express';
 import {
     ApiTags,
     ApiOperation,
@@ -20,12 +23,24 @@ import {
     ApiBearerAuth,
     ApiParam,
     ApiBody,
-    ApiQuery
+    ApiQuery,
+    ApiHeader
 } from '@nestjs/swagger';
 import { AuthGuard } from '../../core/common/guards/auth.guard';
-import { ProjectService } from './project.service';
+import { PaginatedProjects, ProjectService } from './project.service';
 import { CreateProjectDto, ProjectResponseDto, UpdateProjectSettingsDto } from './dto/project.dto';
-import { PaginationDto, PaginatedResponseDto, createPaginationMeta } from '../../core/common/dto/pagination.dto';
+import { CursorPaginationDto } from '../../core/common/dto/pagination.dto';
+import { UpdateWorkflowDto } from '../task/dto/workflow.dto';
+import { ProjectWorkflow } from '../task/task-workflow.service';
+import { DateRangeDto } from '../../core/common/dto/date-range.dto';
+import { parseIfMatch, toETag } from '../../core/utils/concurrency';
+
+const IF_MATCH_HEADER = {
+    name: 'If-Match',
+    description:
+        'ETag of the project version the update is based on, e.g. "3"; the update is refused with 409 if the project changed since',
+    required: false
+};
 
 @ApiTags('Projects')
 @ApiBearerAuth()
@@ -89,10 +104,31 @@ export class ProjectController {
         return this.projectService.getPersonalProjects(req.user.sub);
     }
 
+    @Get('trash')
+    @ApiOperation({
+        summary: 'Get the trashed projects the authenticated user can restore'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'List of trashed projects, most recently deleted first',
+        type: [ProjectResponseDto]
+    })
+    async getTrashedProjects(
+        @Request() req: any
+    ): Promise<ProjectResponseDto[]> {
+        return this.projectService.getTrashedProjects(req.user.sub);
+    }
+
     @Get('public')
     @ApiOperation({ summary: 'Get all public projects (paginated)' })
     @ApiQuery({ name: 'page', required: false, description: 'Page number (default: 1)', example: 1 })
     @ApiQuery({ name: 'limit', required: false, description: 'Items per page (default: 5, max: 100)', example: 5 })
+    @ApiQuery({
+        name: 'cursor',
+        required: false,
+        description:
+            'Cursor from meta.nextCursor of the previous page; takes precedence over page'
+    })
     @ApiResponse({
         status: 200,
         description: 'List of public projects with pagination metadata',
@@ -111,27 +147,24 @@ export class ProjectController {
                         total: { type: 'number', example: 42 },
                         totalPages: { type: 'number', example: 9 },
                         hasNextPage: { type: 'boolean', example: true },
-                        hasPreviousPage: { type: 'boolean', example: false }
+                        hasPreviousPage: { type: 'boolean', example: false },
+                        nextCursor: { type: 'string', nullable: true }
                     }
+                },
+                total: {
+                    type: 'number',
+                    example: 42,
+                    description:
+                        'Same as meta.total; only when paging by page number'
                 }
             }
         }
     })
-    async getPublicProjects(@Query() paginationDto: PaginationDto) {
-        try {
-            console.log('DEBUG - Controller getPublicProjects: Starting with pagination', paginationDto);
-            const { page = 1, limit = 5 } = paginationDto;
-            const { data, total } = await this.projectService.getPublicProjects(page, limit);
-            console.log('DEBUG - Controller getPublicProjects: Success, returning', data.length, 'of', total, 'projects');
-            
-            return {
-                data,
-                meta: createPaginationMeta(page, limit, total)
-            };
-        } catch (error) {
-            console.error('DEBUG - Controller getPublicProjects error:', error);
-            throw error;
-        }
+    @ApiResponse({ status: 400, description: 'Invalid cursor' })
+    async getPublicProjects(
+        @Query() paginationDto: CursorPaginationDto
+    ): Promise<PaginatedProjects> {
+        return this.projectService.getPublicProjects(paginationDto);
     }
 
     @Get(':projectId')
@@ -139,16 +172,22 @@ export class ProjectController {
     @ApiParam({ name: 'projectId', description: 'Project ID', example: '507f1f77bcf86cd799439012' })
     @ApiResponse({
         status: 200,
-        description: 'Project details',
+        description: 'Project details; the ETag header carries its version',
         type: ProjectResponseDto
     })
     @ApiResponse({ status: 403, description: 'Not a team member' })
     @ApiResponse({ status: 404, description: 'Project not found' })
     async getProjectById(
         @Request() req: any,
-        @Param('projectId') projectId: string
+        @Param('projectId') projectId: string,
+        @Res({ passthrough: true }) res: Response
     ): Promise<ProjectResponseDto> {
-        return this.projectService.getProjectById(req.user.sub, projectId);
+        const project = await this.projectService.getProjectById(
+            req.user.sub,
+            projectId
+        );
+        res.setHeader('ETag', toETag(project.version));
+        return project;
     }
 
     @Put(':projectId')
@@ -163,39 +202,72 @@ export class ProjectController {
             }
         }
     })
+    @ApiHeader(IF_MATCH_HEADER)
     @ApiResponse({
         status: 200,
-        description: 'Project updated successfully',
+        description:
+            'Project updated successfully; the ETag header carries its new version',
         type: ProjectResponseDto
     })
+    @ApiResponse({ status: 400, description: 'Invalid If-Match header' })
     @ApiResponse({ status: 403, description: 'Insufficient privileges (ADMIN/OWNER required)' })
     @ApiResponse({ status: 404, description: 'Project not found' })
-    @ApiResponse({ status: 409, description: 'Project name already exists in team' })
+    @ApiResponse({
+        status: 409,
+        description:
+            'Project name already exists in team, or the project changed since the If-Match version (the current project and its ETag are returned)'
+    })
     async updateProject(
         @Request() req: any,
         @Param('projectId') projectId: string,
-        @Body() updateData: Partial<Pick<CreateProjectDto, 'name' | 'description'>>
+        @Body()
+        updateData: Partial<Pick<CreateProjectDto, 'name' | 'description'>>,
+        @Headers('if-match') ifMatch: string | undefined,
+        @Res({ passthrough: true }) res: Response
     ) {
-        return this.projectService.updateProject(req.user.sub, projectId, updateData);
+        const project = await this.projectService.updateProject(
+            req.user.sub,
+            projectId,
+            updateData,
+            parseIfMatch(ifMatch)
+        );
+        res.setHeader('ETag', toETag(project.version));
+        return project;
     }
 
     @Patch(':projectId/settings')
     @ApiOperation({ summary: 'Update project settings (visibility, team attachment)' })
     @ApiParam({ name: 'projectId', description: 'Project ID', example: '507f1f77bcf86cd799439012' })
     @ApiBody({ type: UpdateProjectSettingsDto })
+    @ApiHeader(IF_MATCH_HEADER)
     @ApiResponse({
         status: 200,
-        description: 'Project settings updated successfully',
+        description:
+            'Project settings updated successfully; the ETag header carries its new version',
         type: ProjectResponseDto
     })
+    @ApiResponse({ status: 400, description: 'Invalid If-Match header' })
     @ApiResponse({ status: 403, description: 'Insufficient privileges (Owner or team admin required)' })
     @ApiResponse({ status: 404, description: 'Project not found' })
+    @ApiResponse({
+        status: 409,
+        description:
+            'The project changed since the If-Match version (the current project and its ETag are returned)'
+    })
     async updateProjectSettings(
         @Request() req: any,
         @Param('projectId') projectId: string,
-        @Body() updateData: UpdateProjectSettingsDto
+        @Body() updateData: UpdateProjectSettingsDto,
+        @Headers('if-match') ifMatch: string | undefined,
+        @Res({ passthrough: true }) res: Response
     ) {
-        const project = await this.projectService.updateProjectSettings(req.user.sub, projectId, updateData);
+        const project = await this.projectService.updateProjectSettings(
+            req.user.sub,
+            projectId,
+            updateData,
+            parseIfMatch(ifMatch)
+        );
+        res.setHeader('ETag', toETag(project.version));
         return {
             id: project.id,
             ownerId: project.ownerId,
@@ -203,10 +275,93 @@ export class ProjectController {
             name: project.name,
             description: project.description,
             visibility: project.visibility as any,
-            createdAt: project.createdAt
+            createdAt: project.createdAt,
+            version: project.version
         };
     }
 
+    @Get(':projectId/workflow')
+    @ApiOperation({
+        summary: 'Get the workflow of a project',
+        description:
+            'Ordered states with their status category and task count, plus the allowed transitions. Projects without a custom workflow return the default one (isDefault: true)'
+    })
+    @ApiParam({
+        name: 'projectId',
+        description: 'Project ID',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiResponse({ status: 200, description: 'Project workflow' })
+    @ApiResponse({ status: 403, description: 'Access denied to this project' })
+    @ApiResponse({ status: 404, description: 'Project not found' })
+    async getWorkflow(
+        @Request() req: any,
+        @Param('projectId') projectId: string
+    ): Promise<ProjectWorkflow> {
+        return this.projectService.getWorkflow(req.user.sub, projectId);
+    }
+
+    @Put(':projectId/workflow')
+    @ApiOperation({
+        summary: 'Replace the workflow of a project',
+        description:
+            'Tasks follow the category of their state; tasks in a removed state move to the first state of their category'
+    })
+    @ApiParam({
+        name: 'projectId',
+        description: 'Project ID',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiBody({ type: UpdateWorkflowDto })
+    @ApiResponse({ status: 200, description: 'Workflow updated successfully' })
+    @ApiResponse({
+        status: 400,
+        description:
+            'Duplicate keys, a category without state or a transition to an unknown state'
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Only project owner or team owner can change the workflow'
+    })
+    @ApiResponse({ status: 404, description: 'Project not found' })
+    async updateWorkflow(
+        @Request() req: any,
+        @Param('projectId') projectId: string,
+        @Body() updateWorkflowDto: UpdateWorkflowDto
+    ): Promise<ProjectWorkflow> {
+        return this.projectService.updateWorkflow(
+            req.user.sub,
+            projectId,
+            updateWorkflowDto
+        );
+    }
+
+    @Get(':projectId/time')
+    @ApiOperation({
+        summary: 'Get the time logged on a project',
+        description:
+            'Totals over a period (last 30 days by default) per member and per task, with the sum of task estimates'
+    })
+    @ApiParam({
+        name: 'projectId',
+        description: 'Project ID',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiResponse({ status: 200, description: 'Project time totals' })
+    @ApiResponse({ status: 403, description: 'Access denied to this project' })
+    @ApiResponse({ status: 404, description: 'Project not found' })
+    async getProjectTime(
+        @Request() req: any,
+        @Param('projectId') projectId: string,
+        @Query() dateRangeDto: DateRangeDto
+    ) {
+        return this.projectService.getProjectTime(
+            req.user.sub,
+            projectId,
+            dateRangeDto
+        );
+    }
+
     @Post(':projectId/invite')
     @ApiOperation({ summary: 'Invite member to project (delegates to team invitation if project has team)' })
     @ApiParam({ name: 'projectId', description: 'Project ID', example: '507f1f77bcf86cd799439012' })
@@ -237,15 +392,15 @@ export class ProjectController {
 
     @Delete(':projectId')
     @HttpCode(HttpStatus.OK)
-    @ApiOperation({ summary: 'Delete a project' })
+    @ApiOperation({ summary: 'Move a project and its tasks to the trash' })
     @ApiParam({ name: 'projectId', description: 'Project ID', example: '507f1f77bcf86cd799439012' })
     @ApiResponse({
         status: 200,
-        description: 'Project deleted successfully',
+        description: 'Project moved to trash successfully',
         schema: {
             type: 'object',
             properties: {
-                message: { type: 'string', example: 'Project deleted successfully' }
+                message: { type: 'string', example: 'Project moved to trash' }
             }
         }
     })
@@ -257,4 +412,39 @@ export class ProjectController {
     ) {
         return this.projectService.deleteProject(req.user.sub, projectId);
     }
+
+    @Post(':projectId/restore')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Restore a trashed project and the tasks trashed with it'
+    })
+    @ApiParam({
+        name: 'projectId',
+        description: 'Project ID',
+        example: '507f1f77bcf86cd799439012'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Project restored successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    example: 'Project restored successfully'
+                }
+            }
+        }
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Insufficient privileges (Owner or team admin required)'
+    })
+    @ApiResponse({ status: 404, description: 'Project not found in trash' })
+    async restoreProject(
+        @Request() req: any,
+        @Param('projectId') projectId: string
+    ) {
+        return this.projectService.restoreProject(req.user.sub, projectId);
+    }
 }
\ No newline at end of file
@@ -4,6 +4,8 @@ import { JwtModule } from '@nestjs/jwt';
 import { PrismaService } from '../../core/services/prisma.service';
 import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
 import { TeamModule } from '../team/team.module';
+import { TaskModule } from '../task/task.module';
+import { WebhookDeliveryModule } from '../webhook/webhook-delivery.module';
 import { ProjectController } from './project.controller';
 import { ProjectService } from './project.service';
 
@@ -11,7 +13,9 @@ import { ProjectService } from './project.service';
     imports: [
         ConfigModule,
         JwtModule.register({}), // Empty register for AuthGuard dependency
-        TeamModule // Import TeamModule to access TeamAccessService
+        TeamModule, // Import TeamModule to access TeamAccessService
+        TaskModule, // Import TaskModule to trash and restore project tasks
+        WebhookDeliveryModule
     ],
     controllers: [ProjectController],
     providers: [
@@ -1,14 +1,62 @@
-import { Injectable, NotFoundException, ConflictException, ForbiddenException } from '@nestjs/common';
-import { Project, ProjectVisibility as PrismaProjectVisibility } from '@prisma/client';
+import {
+    Injectable,
+    Logger,
+    NotFoundException,
+    ConflictException,
+    ForbiddenException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+    Project,
+    ProjectVisibility as PrismaProjectVisibility,
+    TeamRole
+} from '@prisma/client';
 import { PrismaService } from '../../core/services/prisma.service';
+import {
+    DEFAULT_TRASH_RETENTION_DAYS,
+    IN_TRASH,
+    NOT_TRASHED
+} from '../../core/constants/trash.constants';
 import { TeamAccessService } from '../team/team-access.service';
+import { TaskTrashService } from '../task/task-trash.service';
+import {
+    ProjectWorkflow,
+    TaskWorkflowService
+} from '../task/task-workflow.service';
+import { UpdateWorkflowDto } from '../task/dto/workflow.dto';
+import { TaskTimeService, TimeReport } from '../task/task-time.service';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+import { DateRangeDto } from '../../core/common/dto/date-range.dto';
+import {
+    assertVersion,
+    rethrowVersionConflict,
+    versionFilter
+} from '../../core/utils/concurrency';
+import { paginate } from '../../core/utils/pagination';
+import {
+    CursorPaginationDto,
+    PaginatedResponseDto
+} from '../../core/common/dto/pagination.dto';
 import { CreateProjectDto, ProjectResponseDto, UpdateProjectSettingsDto, ProjectVisibility } from './dto/project.dto';
 
+export interface PaginatedProjects
+    extends PaginatedResponseDto<ProjectResponseDto> {
+    total?: number;
+}
+
 @Injectable()
 export class ProjectService {
+    private readonly logger = new Logger(ProjectService.name);
+
     constructor(
         private readonly prismaService: PrismaService,
-        private readonly teamAccessService: TeamAccessService
+        private readonly configService: ConfigService,
+        private readonly teamAccessService: TeamAccessService,
+        private readonly taskTrashService: TaskTrashService,
+        private readonly taskWorkflowService: TaskWorkflowService,
+        private readonly taskTimeService: TaskTimeService,
+        private readonly webhookDeliveryService: WebhookDeliveryService
     ) {}
 
     /**
@@ -39,6 +87,12 @@ export class ProjectService {
             }
         });
 
+        if (existingProject?.deletedAt) {
+            throw new ConflictException(
+                'A project with this name is in the trash; restore it instead'
+            );
+        }
+
         if (existingProject) {
             throw new ConflictException('A project with this name already exists');
         }
@@ -92,7 +146,8 @@ export class ProjectService {
         // Get projects with task counts
         const projects = await this.prismaService.project.findMany({
             where: {
-                teamId: teamId
+                teamId: teamId,
+                ...NOT_TRASHED
             },
             include: {
                 owner: {
@@ -111,7 +166,7 @@ export class ProjectService {
                 },
                 _count: {
                     select: {
-                        tasks: true
+                        tasks: { where: NOT_TRASHED }
                     }
                 }
             },
@@ -145,7 +200,8 @@ export class ProjectService {
         const projects = await this.prismaService.project.findMany({
             where: {
                 ownerId: userId,
-                teamId: null // Personal projects have no team
+                teamId: null, // Personal projects have no team
+                ...NOT_TRASHED
             },
             include: {
                 owner: {
@@ -157,7 +213,7 @@ export class ProjectService {
                 },
                 _count: {
                     select: {
-                        tasks: true
+                        tasks: { where: NOT_TRASHED }
                     }
                 }
             },
@@ -189,8 +245,8 @@ export class ProjectService {
      */
     async getProjectById(userId: string, projectId: string): Promise<ProjectResponseDto> {
         // First get the project to check access
-        const project = await this.prismaService.project.findUnique({
-            where: { id: projectId },
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED },
             include: {
                 owner: {
                     select: {
@@ -214,7 +270,7 @@ export class ProjectService {
                 },
                 _count: {
                     select: {
-                        tasks: true
+                        tasks: { where: NOT_TRASHED }
                     }
                 }
             }
@@ -241,6 +297,7 @@ export class ProjectService {
             description: project.description,
             visibility: project.visibility as ProjectVisibility,
             createdAt: project.createdAt,
+            version: project.version ?? 0,
             owner: project.owner ? {
                 id: project.owner.id,
                 name: project.owner.name,
@@ -256,16 +313,17 @@ export class ProjectService {
     }
 
     /**
-     * Update a project (admin only)
+     * Update a project (admin only); with an expected version (from If-Match), the update is refused if the project changed since
      */
     async updateProject(
         userId: string,
         projectId: string,
-        updateData: Partial<Pick<CreateProjectDto, 'name' | 'description'>>
+        updateData: Partial<Pick<CreateProjectDto, 'name' | 'description'>>,
+        expectedVersion?: number
     ): Promise<Project> {
         // First get the project to check which team it belongs to
-        const project = await this.prismaService.project.findUnique({
-            where: { id: projectId }
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED }
         });
 
         if (!project) {
@@ -274,6 +332,11 @@ export class ProjectService {
 
         // Check if user has admin privileges in the team
         await this.teamAccessService.assertAdmin(userId, project.teamId);
+        const version = assertVersion(
+            project,
+            expectedVersion,
+            'The project was changed since you loaded it'
+        );
 
         // If name is being updated, check for conflicts
         if (updateData.name && updateData.name !== project.name) {
@@ -291,29 +354,36 @@ export class ProjectService {
             }
         }
 
-        // Update the project
-        return this.prismaService.project.update({
-            where: { id: projectId },
-            data: updateData,
-            include: {
-                team: {
-                    select: {
-                        id: true,
-                        name: true,
-                        description: true
+        // Update the project, unless it changed while this update was prepared
+        return this.prismaService.project
+            .update({
+                where: { id: projectId, ...versionFilter(version) },
+                data: { ...updateData, version: version + 1 },
+                include: {
+                    team: {
+                        select: {
+                            id: true,
+                            name: true,
+                            description: true
+                        }
                     }
                 }
-            }
-        });
+            })
+            .catch(this.rethrowProjectConflict(projectId));
     }
 
     /**
-     * Update project settings (owner or team admin only)
+     * Update project settings (owner or team admin only); If-Match is honoured as in updateProject
      */
-    async updateProjectSettings(userId: string, projectId: string, updateData: UpdateProjectSettingsDto): Promise<Project> {
+    async updateProjectSettings(
+        userId: string,
+        projectId: string,
+        updateData: UpdateProjectSettingsDto,
+        expectedVersion?: number
+    ): Promise<Project> {
         // First get the project to check permissions
-        const project = await this.prismaService.project.findUnique({
-            where: { id: projectId },
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED },
             include: {
                 team: {
                     include: {
@@ -337,6 +407,11 @@ export class ProjectService {
         if (!isOwner && !isTeamOwner) {
             throw new ForbiddenException('Only project owner or team owner can update settings');
         }
+        const version = assertVersion(
+            project,
+            expectedVersion,
+            'The project was changed since you loaded it'
+        );
 
         // If changing team attachment, validate
         if (updateData.teamId !== undefined) {
@@ -348,29 +423,133 @@ export class ProjectService {
         }
 
         // Update the project
-        return this.prismaService.project.update({
-            where: { id: projectId },
-            data: {
-                ...(updateData.visibility && { visibility: updateData.visibility }),
-                ...(updateData.teamId !== undefined && { teamId: updateData.teamId })
-            },
-            include: {
-                owner: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true
-                    }
+        const updated = await this.prismaService.project
+            .update({
+                where: { id: projectId, ...versionFilter(version) },
+                data: {
+                    ...(updateData.visibility && {
+                        visibility: updateData.visibility
+                    }),
+                    ...(updateData.teamId !== undefined && {
+                        teamId: updateData.teamId
+                    }),
+                    version: version + 1
                 },
-                team: updateData.teamId ? {
-                    select: {
-                        id: true,
-                        name: true,
-                        description: true
+                include: {
+                    owner: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true
+                        }
+                    },
+                    team: updateData.teamId
+                        ? {
+                              select: {
+                                  id: true,
+                                  name: true,
+                                  description: true
+                              }
+                          }
+                        : false
+                }
+            })
+            .catch(this.rethrowProjectConflict(projectId));
+
+        // The tasks now reach another team: touch them so its members' offline clients pull them
+        if (
+            updateData.teamId !== undefined &&
+            updateData.teamId !== project.teamId
+        ) {
+            await this.prismaService.task.updateMany({
+                where: { projectId, ...NOT_TRASHED },
+                data: { updatedAt: new Date() }
+            });
+        }
+
+        return updated;
+    }
+
+    // A project missing from a compare-and-set update was changed or trashed meanwhile
+    private rethrowProjectConflict(projectId: string) {
+        return rethrowVersionConflict(
+            'The project was changed during the update',
+            async () => {
+                const current = await this.prismaService.project.findFirst({
+                    where: { id: projectId, ...NOT_TRASHED }
+                });
+                if (!current) {
+                    throw new NotFoundException('Project not found');
+                }
+                return current;
+            }
+        );
+    }
+
+    /**
+     * Get the workflow of a project with the number of tasks in each state
+     */
+    async getWorkflow(
+        userId: string,
+        projectId: string
+    ): Promise<ProjectWorkflow> {
+        // Same visibility rules as the project itself
+        await this.getProjectById(userId, projectId);
+
+        return this.taskWorkflowService.describe(projectId);
+    }
+
+    /**
+     * Replace the workflow of a project (owner or team owner only)
+     */
+    async updateWorkflow(
+        userId: string,
+        projectId: string,
+        updateWorkflowDto: UpdateWorkflowDto
+    ): Promise<ProjectWorkflow> {
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED },
+            include: {
+                team: {
+                    include: {
+                        members: {
+                            where: { userId: userId },
+                            select: { role: true }
+                        }
                     }
-                } : false
+                }
             }
         });
+
+        if (!project) {
+            throw new NotFoundException('Project not found');
+        }
+
+        // Check permissions: owner or team owner
+        const isOwner = project.ownerId === userId;
+        const isTeamOwner = project.team?.members?.[0]?.role === 'OWNER';
+
+        if (!isOwner && !isTeamOwner) {
+            throw new ForbiddenException(
+                'Only project owner or team owner can change the workflow'
+            );
+        }
+
+        return this.taskWorkflowService.replace(projectId, updateWorkflowDto);
+    }
+
+    /**
+     * Get the time logged on a project's tasks over a period, per member and per task
+     */
+    async getProjectTime(
+        userId: string,
+        projectId: string,
+        dateRangeDto: DateRangeDto
+    ): Promise<TimeReport & { estimateMinutes: number }> {
+        // Same visibility rules as the project itself
+        await this.getProjectById(userId, projectId);
+
+        return this.taskTimeService.getProjectTime(projectId, dateRangeDto);
     }
 
     /**
@@ -378,8 +557,8 @@ export class ProjectService {
      */
     async inviteProjectMember(userId: string, projectId: string, inviteData: { email: string; role?: string }): Promise<any> {
         // Get the project
-        const project = await this.prismaService.project.findUnique({
-            where: { id: projectId },
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED },
             include: {
                 team: {
                     include: {
@@ -438,8 +617,8 @@ export class ProjectService {
      */
     async deleteProject(userId: string, projectId: string): Promise<{ message: string }> {
         // First get the project to check permissions
-        const project = await this.prismaService.project.findUnique({
-            where: { id: projectId },
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED },
             include: {
                 team: {
                     include: {
@@ -464,94 +643,245 @@ export class ProjectService {
             throw new ForbiddenException('Only project owner or team owner can delete project');
         }
 
-        // Delete the project (tasks will be set to null due to onDelete: SetNull)
-        await this.prismaService.project.delete({
-            where: { id: projectId }
+        // Move the project to the trash; its tasks follow with the same deletion time
+        const deletedAt = new Date();
+        await this.prismaService.project.update({
+            where: { id: projectId },
+            data: { deletedAt, version: { increment: 1 } }
         });
+        await this.taskTrashService.trashProjectTasks(
+            userId,
+            projectId,
+            deletedAt
+        );
+
+        await this.webhookDeliveryService.publish(
+            'project.deleted',
+            { teamId: project.teamId, projectId },
+            {
+                id: project.id,
+                name: project.name,
+                ownerId: project.ownerId,
+                teamId: project.teamId,
+                deletedAt
+            }
+        );
 
-        return { message: 'Project deleted successfully' };
+        return { message: 'Project moved to trash' };
     }
 
     /**
-     * Get all public projects across all teams with pagination
+     * Get the trashed projects a user can restore (their own and those of teams they own)
      */
-    async getPublicProjects(page: number = 1, limit: number = 5): Promise<{ data: ProjectResponseDto[], total: number }> {
-        try {
-            console.log('DEBUG - getPublicProjects: Starting query for public projects with pagination', { page, limit });
-            
-            // Calculate skip value for pagination
-            const skip = (page - 1) * limit;
-            
-            // Get total count of public projects
-            const total = await this.prismaService.project.count({
-                where: {
-                    visibility: PrismaProjectVisibility.PUBLIC
-                }
-            });
-            
-            console.log('DEBUG - Total public projects:', total);
-            
-            const publicProjects = await this.prismaService.project.findMany({
-                where: {
-                    visibility: PrismaProjectVisibility.PUBLIC
-                },
-                include: {
-                    owner: {
-                        select: {
-                            id: true,
-                            name: true,
-                            email: true
-                        }
-                    },
-                    team: {
-                        select: {
-                            id: true,
-                            name: true,
-                            description: true
-                        }
-                    },
-                    _count: {
-                        select: {
-                            tasks: true
+    async getTrashedProjects(userId: string): Promise<ProjectResponseDto[]> {
+        const ownedTeams = await this.prismaService.teamMember.findMany({
+            where: { userId, role: TeamRole.OWNER },
+            select: { teamId: true }
+        });
+
+        const projects = await this.prismaService.project.findMany({
+            where: {
+                ...IN_TRASH,
+                OR: [
+                    { ownerId: userId },
+                    {
+                        teamId: {
+                            in: ownedTeams.map((member) => member.teamId)
                         }
                     }
+                ]
+            },
+            include: {
+                owner: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true
+                    }
                 },
-                orderBy: {
-                    createdAt: 'desc'
+                team: {
+                    select: {
+                        id: true,
+                        name: true,
+                        description: true
+                    }
                 },
-                skip,
-                take: limit
-            });
+                _count: {
+                    select: {
+                        tasks: true
+                    }
+                }
+            },
+            orderBy: {
+                deletedAt: 'desc'
+            }
+        });
 
-            console.log('DEBUG - getPublicProjects: Found', publicProjects.length, 'public projects on page', page);
-            
-            const data = publicProjects.map(project => ({
-                id: project.id,
-                ownerId: project.ownerId,
-                teamId: project.teamId,
-                name: project.name,
-                description: project.description,
-                visibility: project.visibility as ProjectVisibility,
-                createdAt: project.createdAt,
-                owner: project.owner ? {
-                    id: project.owner.id,
-                    name: project.owner.name,
-                    email: project.owner.email
-                } : undefined,
-                team: project.team ? {
-                    id: project.team.id,
-                    name: project.team.name,
-                    description: project.team.description
-                } : null,
-                taskCount: project._count.tasks
-            }));
-            
-            return { data, total };
-            
-        } catch (error) {
-            console.error('DEBUG - getPublicProjects error:', error);
-            console.error('DEBUG - Error stack:', error.stack);
-            throw error;
+        return projects.map((project) => ({
+            id: project.id,
+            ownerId: project.ownerId,
+            teamId: project.teamId,
+            name: project.name,
+            description: project.description,
+            visibility: project.visibility as ProjectVisibility,
+            createdAt: project.createdAt,
+            deletedAt: project.deletedAt,
+            owner: project.owner
+                ? {
+                      id: project.owner.id,
+                      name: project.owner.name,
+                      email: project.owner.email
+                  }
+                : undefined,
+            team: project.team,
+            taskCount: project._count.tasks
+        }));
+    }
+
+    /**
+     * Restore a trashed project and the tasks trashed with it (owner or team owner only)
+     */
+    async restoreProject(
+        userId: string,
+        projectId: string
+    ): Promise<{ message: string }> {
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...IN_TRASH },
+            include: {
+                team: {
+                    include: {
+                        members: {
+                            where: { userId: userId },
+                            select: { role: true }
+                        }
+                    }
+                }
+            }
+        });
+
+        if (!project) {
+            throw new NotFoundException('Project not found in trash');
+        }
+
+        // Check permissions: owner or team owner
+        const isOwner = project.ownerId === userId;
+        const isTeamOwner = project.team?.members?.[0]?.role === 'OWNER';
+
+        if (!isOwner && !isTeamOwner) {
+            throw new ForbiddenException(
+                'Only project owner or team owner can restore project'
+            );
+        }
+
+        await this.prismaService.project.update({
+            where: { id: projectId },
+            data: { deletedAt: { unset: true }, version: { increment: 1 } }
+        });
+        await this.taskTrashService.restoreProjectTasks(
+            userId,
+            projectId,
+            project.deletedAt
+        );
+
+        return { message: 'Project restored successfully' };
+    }
+
+    /**
+     * Permanently delete projects that have been in the trash longer than the retention period
+     * Their tasks share the project's deletion time and are purged by the task trash job
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_3AM)
+    async purgeExpiredProjects(): Promise<void> {
+        const retentionDays = Number(
+            this.configService.get(
+                'TRASH_RETENTION_DAYS',
+                DEFAULT_TRASH_RETENTION_DAYS
+            )
+        );
+        const cutoff = new Date(Date.now() - retentionDays * 86_400_000);
+
+        const { count } = await this.prismaService.project.deleteMany({
+            where: { deletedAt: { lt: cutoff } }
+        });
+
+        if (count > 0) {
+            this.logger.log(`Purged ${count} projects from the trash`);
         }
     }
+
+    /**
+     * Get all public projects across all teams with pagination
+     * Without a cursor, the total is also given at the top level for existing clients
+     */
+    async getPublicProjects(
+        paginationDto: CursorPaginationDto = {}
+    ): Promise<PaginatedProjects> {
+        const { page = 1, limit = 5, cursor } = paginationDto;
+        const where = {
+            visibility: PrismaProjectVisibility.PUBLIC,
+            ...NOT_TRASHED
+        };
+
+        // Newest first; paged by cursor or by page number
+        const { data: publicProjects, meta } = await paginate(
+            { page, limit, cursor },
+            [{ field: 'createdAt', order: 'desc' }],
+            (query) =>
+                this.prismaService.project.findMany({
+                    where: { AND: [where, query.where] },
+                    include: {
+                        owner: {
+                            select: {
+                                id: true,
+                                name: true,
+                                email: true
+                            }
+                        },
+                        team: {
+                            select: {
+                                id: true,
+                                name: true,
+                                description: true
+                            }
+                        },
+                        _count: {
+                            select: {
+                                tasks: { where: NOT_TRASHED }
+                            }
+                        }
+                    },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take
+                }),
+            () => this.prismaService.project.count({ where })
+        );
+
+        const data = publicProjects.map((project) => ({
+            id: project.id,
+            ownerId: project.ownerId,
+            teamId: project.teamId,
+            name: project.name,
+            description: project.description,
+            visibility: project.visibility as ProjectVisibility,
+            createdAt: project.createdAt,
+            owner: project.owner
+                ? {
+                      id: project.owner.id,
+                      name: project.owner.name,
+                      email: project.owner.email
+                  }
+                : undefined,
+            team: project.team
+                ? {
+                      id: project.team.id,
+                      name: project.team.name,
+                      description: project.team.description
+                  }
+                : null,
+            taskCount: project._count.tasks
+        }));
+
+        return { data, meta, ...(!cursor && { total: meta.total }) };
+    }
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    IsEnum,
+    IsMongoId,
+    IsObject,
+    IsOptional,
+    IsString,
+    Matches,
+    MaxLength,
+    MinLength,
+    ValidateNested
+} from 'class-validator';
+import { QueryTaskDto } from '../../task/dto/task.dto';
+import { SORT_ORDER_LIST } from '../../../core/utils/task-sort';
+import { ViewGroupBy } from '../../../core/constants/view.constants';
+
+export class TaskViewFiltersDto extends OmitType(QueryTaskDto, [
+    'page',
+    'limit',
+    'cursor',
+    'sortBy',
+    'sortOrder'
+] as const) {}
+
+export class CreateSavedViewDto {
+    @ApiProperty({
+        example: 'My urgent tasks this week',
+        description: 'View name'
+    })
+    @IsString({ message: 'Name must be a string' })
+    @MinLength(1, { message: 'Name cannot be empty' })
+    @MaxLength(100, { message: 'Name cannot exceed 100 characters' })
+    @Transform(({ value }) => value?.trim())
+    name: string;
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: 'Team the view is shared with; omit for a personal view',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Team ID must be a valid MongoDB ObjectId' })
+    teamId?: string;
+
+    @ApiProperty({
+        type: TaskViewFiltersDto,
+        example: {
+            priority: 'URGENT',
+            assignedToMe: true,
+            dueWithin: 'this week'
+        },
+        description:
+            'Filters of GET /tasks; prefer dueWithin to fixed dates so the view stays current',
+        required: false
+    })
+    @IsOptional()
+    @IsObject({ message: 'Filters must be an object' })
+    @ValidateNested()
+    @Type(() => TaskViewFiltersDto)
+    filters?: TaskViewFiltersDto;
+
+    @ApiProperty({
+        example: 'priority,dueDate',
+        description:
+            'Sort of GET /tasks: createdAt, updatedAt, dueDate or priority, or several comma-separated fields',
+        required: false
+    })
+    @IsOptional()
+    @IsString()
+    sortBy?: string;
+
+    @ApiProperty({
+        example: 'desc,asc',
+        description: 'Sort order (asc, desc), or one per sort field',
+        required: false
+    })
+    @IsOptional()
+    @Matches(SORT_ORDER_LIST, {
+        message:
+            'Sort order must be asc or desc, or a comma-separated list of them'
+    })
+    sortOrder?: string;
+
+    @ApiProperty({
+        enum: ViewGroupBy,
+        description: 'Group the tasks of each page by this field',
+        required: false
+    })
+    @IsOptional()
+    @IsEnum(ViewGroupBy, {
+        message: 'groupBy must be status, priority, project or dueDate'
+    })
+    groupBy?: ViewGroupBy;
+}
+
+export class UpdateSavedViewDto extends PartialType(
+    OmitType(CreateSavedViewDto, ['teamId'] as const)
+) {}
+
+export class QuerySavedViewDto {
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: "List a team's shared views instead of the personal ones",
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Team ID must be a valid MongoDB ObjectId' })
+    teamId?: string;
+}
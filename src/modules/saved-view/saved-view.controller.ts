@@ -0,0 +1,162 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    Request,
+    HttpCode,
+    HttpStatus
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+    ApiBody
+} from '@nestjs/swagger';
+import { SavedView } from '@prisma/client';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { CursorPaginationDto } from '../../core/common/dto/pagination.dto';
+import { SavedViewService, SavedViewTasks } from './saved-view.service';
+import {
+    CreateSavedViewDto,
+    QuerySavedViewDto,
+    UpdateSavedViewDto
+} from './dto/saved-view.dto';
+
+@ApiTags('Saved Views')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('/views')
+export class SavedViewController {
+    constructor(private readonly savedViewService: SavedViewService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'List saved views',
+        description:
+            'Returns the personal views of the authenticated user, or the views shared with a team with teamId'
+    })
+    @ApiResponse({ status: 200, description: 'Views sorted by name' })
+    @ApiResponse({ status: 403, description: 'Not a team member' })
+    async findAll(
+        @Request() req: any,
+        @Query() querySavedViewDto: QuerySavedViewDto
+    ): Promise<SavedView[]> {
+        return this.savedViewService.findAll(
+            req.user.sub,
+            querySavedViewDto.teamId
+        );
+    }
+
+    @Post()
+    @ApiOperation({
+        summary: 'Save a personal view or share one with a team',
+        description:
+            'Stores task filters, a sort and a grouping; relative due ranges such as "next 7 days" are resolved each time the view runs'
+    })
+    @ApiBody({ type: CreateSavedViewDto })
+    @ApiResponse({ status: 201, description: 'View saved successfully' })
+    @ApiResponse({ status: 400, description: 'Invalid input data' })
+    @ApiResponse({
+        status: 403,
+        description: 'Not a member of the team or of the filtered project'
+    })
+    async create(
+        @Request() req: any,
+        @Body() createSavedViewDto: CreateSavedViewDto
+    ): Promise<SavedView> {
+        return this.savedViewService.create(req.user.sub, createSavedViewDto);
+    }
+
+    @Get(':viewId/tasks')
+    @ApiOperation({
+        summary: 'Run a saved view',
+        description:
+            'Lists the tasks matching the view now, paged like GET /tasks, with groups of task IDs when the view groups them'
+    })
+    @ApiParam({
+        name: 'viewId',
+        description: 'View ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'The view, and its tasks in data with paging in meta'
+    })
+    @ApiResponse({ status: 404, description: 'View not found' })
+    async run(
+        @Request() req: any,
+        @Param('viewId') viewId: string,
+        @Query() paginationDto: CursorPaginationDto
+    ): Promise<SavedViewTasks> {
+        return this.savedViewService.run(req.user.sub, viewId, paginationDto);
+    }
+
+    @Patch(':viewId')
+    @ApiOperation({
+        summary: 'Change a saved view',
+        description: 'New filters replace the saved ones as a whole'
+    })
+    @ApiParam({
+        name: 'viewId',
+        description: 'View ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiBody({ type: UpdateSavedViewDto })
+    @ApiResponse({ status: 200, description: 'View updated successfully' })
+    @ApiResponse({
+        status: 403,
+        description:
+            'Only the creator of a team view or a team owner can change it'
+    })
+    @ApiResponse({ status: 404, description: 'View not found' })
+    async update(
+        @Request() req: any,
+        @Param('viewId') viewId: string,
+        @Body() updateSavedViewDto: UpdateSavedViewDto
+    ): Promise<SavedView> {
+        return this.savedViewService.update(
+            req.user.sub,
+            viewId,
+            updateSavedViewDto
+        );
+    }
+
+    @Delete(':viewId')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Delete a saved view' })
+    @ApiParam({
+        name: 'viewId',
+        description: 'View ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'View deleted successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    example: 'View deleted successfully'
+                }
+            }
+        }
+    })
+    @ApiResponse({
+        status: 403,
+        description:
+            'Only the creator of a team view or a team owner can delete it'
+    })
+    @ApiResponse({ status: 404, description: 'View not found' })
+    async remove(@Request() req: any, @Param('viewId') viewId: string) {
+        return this.savedViewService.remove(req.user.sub, viewId);
+    }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { TeamModule } from '../team/team.module';
+import { TaskModule } from '../task/task.module';
+import { SavedViewController } from './saved-view.controller';
+import { SavedViewService } from './saved-view.service';
+
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        TeamModule, // Import TeamModule to access TeamAccessService
+        TaskModule // Import TaskModule to run views through TaskService
+    ],
+    controllers: [SavedViewController],
+    providers: [SavedViewService, PrismaService, TokenBlacklistService]
+})
+export class SavedViewModule {}
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    BadRequestException,
+    ForbiddenException,
+    NotFoundException
+} from '@nestjs/common';
+import { SavedViewService } from './saved-view.service';
+import { TeamAccessService } from '../team/team-access.service';
+import { TaskService } from '../task/task.service';
+import { PrismaService } from '../../core/services/prisma.service';
+import { ViewGroupBy } from '../../core/constants/view.constants';
+import { TaskPriority } from '../task/dto/task.dto';
+
+describe('SavedViewService', () => {
+    let service: SavedViewService;
+
+    const mockPrismaService = {
+        savedView: {
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn()
+        }
+    };
+
+    const mockTeamAccessService = {
+        assertMember: jest.fn(),
+        assertAdmin: jest.fn(),
+        isMember: jest.fn(),
+        getTeamIdFromProject: jest.fn()
+    };
+
+    const mockTaskService = {
+        findAll: jest.fn()
+    };
+
+    const teamView = {
+        id: 'view1',
+        name: 'Urgent this week',
+        filters: {
+            status: null,
+            priority: 'URGENT',
+            search: null,
+            dueFrom: null,
+            dueUntil: null,
+            dueWithin: 'this week',
+            projectId: null,
+            assignedToMe: true,
+            assigneeId: null,
+            labelIds: [],
+            labelMatch: null,
+            workflowState: null
+        },
+        sortBy: 'dueDate',
+        sortOrder: 'asc',
+        groupBy: ViewGroupBy.PRIORITY,
+        ownerId: null,
+        teamId: 'team1',
+        createdById: 'user2'
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SavedViewService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TeamAccessService,
+                    useValue: mockTeamAccessService
+                },
+                {
+                    provide: TaskService,
+                    useValue: mockTaskService
+                }
+            ]
+        }).compile();
+
+        service = module.get<SavedViewService>(SavedViewService);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('create', () => {
+        it('should save a personal view for its creator', async () => {
+            await service.create('user1', {
+                name: 'Mine',
+                filters: {
+                    priority: TaskPriority.URGENT,
+                    dueWithin: 'next 7 days'
+                },
+                sortBy: 'priority,dueDate'
+            });
+
+            expect(mockPrismaService.savedView.create).toHaveBeenCalledWith({
+                data: {
+                    name: 'Mine',
+                    filters: {
+                        priority: TaskPriority.URGENT,
+                        dueWithin: 'next 7 days',
+                        labelIds: []
+                    },
+                    sortBy: 'priority,dueDate',
+                    sortOrder: undefined,
+                    groupBy: undefined,
+                    createdById: 'user1',
+                    ownerId: 'user1'
+                }
+            });
+        });
+
+        it('should keep team views to the projects of the team', async () => {
+            mockTeamAccessService.getTeamIdFromProject.mockResolvedValue(
+                'team2'
+            );
+
+            await expect(
+                service.create('user1', {
+                    name: 'Launch',
+                    teamId: 'team1',
+                    filters: { projectId: '507f1f77bcf86cd799439011' }
+                })
+            ).rejects.toThrow(BadRequestException);
+            expect(mockPrismaService.savedView.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('run', () => {
+        it('should list the tasks of the view for the user running it, grouped', async () => {
+            mockPrismaService.savedView.findUnique.mockResolvedValue(teamView);
+            mockTeamAccessService.isMember.mockResolvedValue(true);
+            const tasks = [
+                { id: 'task1', priority: 'URGENT' },
+                { id: 'task2', priority: 'HIGH' },
+                { id: 'task3', priority: 'URGENT' }
+            ];
+            const meta = { limit: 10, total: 3, hasNextPage: false };
+            mockTaskService.findAll.mockResolvedValue({ data: tasks, meta });
+
+            const result = await service.run('user1', 'view1', {
+                page: 1,
+                limit: 10
+            });
+
+            expect(mockTaskService.findAll).toHaveBeenCalledWith('user1', {
+                priority: 'URGENT',
+                dueWithin: 'this week',
+                assignedToMe: true,
+                sortBy: 'dueDate',
+                sortOrder: 'asc',
+                page: 1,
+                limit: 10,
+                cursor: undefined
+            });
+            expect(result.meta).toBe(meta);
+            expect(result.groups).toEqual([
+                { key: 'URGENT', taskIds: ['task1', 'task3'] },
+                { key: 'HIGH', taskIds: ['task2'] }
+            ]);
+        });
+
+        it('should hide the views of other users and teams', async () => {
+            mockPrismaService.savedView.findUnique.mockResolvedValue(teamView);
+            mockTeamAccessService.isMember.mockResolvedValue(false);
+
+            await expect(service.run('user3', 'view1', {})).rejects.toThrow(
+                NotFoundException
+            );
+            expect(mockTaskService.findAll).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('remove', () => {
+        it('should let only the creator or a team owner delete a team view', async () => {
+            mockPrismaService.savedView.findUnique.mockResolvedValue(teamView);
+            mockTeamAccessService.isMember.mockResolvedValue(true);
+            mockTeamAccessService.assertAdmin.mockRejectedValue(
+                new ForbiddenException(
+                    'Only team owners can perform this action'
+                )
+            );
+
+            await expect(service.remove('user1', 'view1')).rejects.toThrow(
+                ForbiddenException
+            );
+            await expect(service.remove('user2', 'view1')).resolves.toEqual({
+                message: 'View deleted successfully'
+            });
+            expect(mockPrismaService.savedView.delete).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,248 @@
+import {
+    BadRequestException,
+    Injectable,
+    NotFoundException
+} from '@nestjs/common';
+import { SavedView, Task } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import {
+    CursorPaginationDto,
+    PaginatedResponseDto
+} from '../../core/common/dto/pagination.dto';
+import { ViewGroupBy } from '../../core/constants/view.constants';
+import { removeEmptyProperties } from '../../core/utils/helpers';
+import { TeamAccessService } from '../team/team-access.service';
+import { TaskService } from '../task/task.service';
+import { QueryTaskDto } from '../task/dto/task.dto';
+import {
+    CreateSavedViewDto,
+    TaskViewFiltersDto,
+    UpdateSavedViewDto
+} from './dto/saved-view.dto';
+
+export interface TaskGroup {
+    key: string | null;
+    taskIds: string[];
+}
+
+export interface SavedViewTasks extends PaginatedResponseDto<Task> {
+    view: SavedView;
+    // In the order of their first task, when the view groups its tasks
+    groups?: TaskGroup[];
+}
+
+const toGroupKey = (task: Task, groupBy: ViewGroupBy): string | null => {
+    switch (groupBy) {
+        case ViewGroupBy.STATUS:
+            return task.status;
+        case ViewGroupBy.PRIORITY:
+            return task.priority;
+        case ViewGroupBy.PROJECT:
+            return task.projectId;
+        case ViewGroupBy.DUE_DATE:
+            return task.dueDate?.toISOString().slice(0, 10) ?? null;
+    }
+};
+
+const groupTasks = (tasks: Task[], groupBy: ViewGroupBy): TaskGroup[] => {
+    const groups = new Map<string | null, string[]>();
+    for (const task of tasks) {
+        const key = toGroupKey(task, groupBy);
+        groups.set(key, [...(groups.get(key) ?? []), task.id]);
+    }
+    return [...groups].map(([key, taskIds]) => ({ key, taskIds }));
+};
+
+// Null clears the filters of a view
+const toViewFilters = (filters: TaskViewFiltersDto | null = {}) => ({
+    ...filters,
+    labelIds: filters?.labelIds ?? []
+});
+
+@Injectable()
+export class SavedViewService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly teamAccessService: TeamAccessService,
+        private readonly taskService: TaskService
+    ) {}
+
+    /**
+     * List the user's personal views, or the views shared with a team
+     */
+    async findAll(userId: string, teamId?: string): Promise<SavedView[]> {
+        if (teamId) {
+            await this.teamAccessService.assertMember(userId, teamId);
+        }
+
+        return this.prismaService.savedView.findMany({
+            where: teamId ? { teamId } : { ownerId: userId },
+            orderBy: { name: 'asc' }
+        });
+    }
+
+    /**
+     * Save a personal view, or share one with a team; any team member can share
+     */
+    async create(
+        userId: string,
+        createSavedViewDto: CreateSavedViewDto
+    ): Promise<SavedView> {
+        const { teamId, name, filters, sortBy, sortOrder, groupBy } =
+            createSavedViewDto;
+        if (teamId) {
+            await this.teamAccessService.assertMember(userId, teamId);
+        }
+        await this.assertFiltersUsable(userId, teamId, filters);
+
+        return this.prismaService.savedView.create({
+            data: {
+                name,
+                filters: toViewFilters(filters),
+                sortBy,
+                sortOrder,
+                groupBy,
+                createdById: userId,
+                ...(teamId ? { teamId } : { ownerId: userId })
+            }
+        });
+    }
+
+    /**
+     * Change a view; new filters replace the saved ones as a whole
+     */
+    async update(
+        userId: string,
+        viewId: string,
+        updateSavedViewDto: UpdateSavedViewDto
+    ): Promise<SavedView> {
+        const view = await this.getEditableView(userId, viewId);
+        const { name, filters, sortBy, sortOrder, groupBy } =
+            updateSavedViewDto;
+        if (filters !== undefined) {
+            await this.assertFiltersUsable(userId, view.teamId, filters ?? {});
+        }
+
+        return this.prismaService.savedView.update({
+            where: { id: viewId },
+            data: {
+                ...(name !== undefined && { name }),
+                ...(filters !== undefined && {
+                    filters: toViewFilters(filters)
+                }),
+                ...(sortBy !== undefined && { sortBy }),
+                ...(sortOrder !== undefined && { sortOrder }),
+                ...(groupBy !== undefined && { groupBy })
+            }
+        });
+    }
+
+    async remove(userId: string, viewId: string): Promise<{ message: string }> {
+        await this.getEditableView(userId, viewId);
+        await this.prismaService.savedView.delete({ where: { id: viewId } });
+
+        return { message: 'View deleted successfully' };
+    }
+
+    /**
+     * Run a view: list the tasks matching its filters now, in its sort, grouped if it groups them.
+     * Filters such as assignedToMe apply to the user running the view
+     */
+    async run(
+        userId: string,
+        viewId: string,
+        { page, limit, cursor }: CursorPaginationDto
+    ): Promise<SavedViewTasks> {
+        const view = await this.getVisibleView(userId, viewId);
+
+        const { data, meta } = await this.taskService.findAll(userId, {
+            ...(removeEmptyProperties(view.filters) as QueryTaskDto),
+            sortBy: view.sortBy ?? undefined,
+            sortOrder: view.sortOrder ?? undefined,
+            page,
+            limit,
+            cursor
+        });
+
+        return {
+            view,
+            data,
+            meta,
+            ...(view.groupBy && {
+                groups: groupTasks(data, view.groupBy as ViewGroupBy)
+            })
+        };
+    }
+
+    /**
+     * Load a view the user can run: their personal views, or the views of their teams
+     * @throws NotFoundException if the view does not exist or is not visible to the user
+     */
+    private async getVisibleView(
+        userId: string,
+        viewId: string
+    ): Promise<SavedView> {
+        const view = await this.prismaService.savedView.findUnique({
+            where: { id: viewId }
+        });
+
+        const visible = view?.teamId
+            ? await this.teamAccessService.isMember(userId, view.teamId)
+            : view?.ownerId === userId;
+        if (!view || !visible) {
+            throw new NotFoundException('View not found');
+        }
+
+        return view;
+    }
+
+    /**
+     * Load a view the user may change: their personal views, and team views they created or,
+     * for team owners, any team view
+     */
+    private async getEditableView(
+        userId: string,
+        viewId: string
+    ): Promise<SavedView> {
+        const view = await this.getVisibleView(userId, viewId);
+
+        if (view.teamId && view.createdById !== userId) {
+            await this.teamAccessService.assertAdmin(userId, view.teamId);
+        }
+
+        return view;
+    }
+
+    /**
+     * Reject filters the view could not run with, as GET /tasks would, and projects outside a team view's team
+     */
+    private async assertFiltersUsable(
+        userId: string,
+        teamId: string | null | undefined,
+        filters: TaskViewFiltersDto = {}
+    ): Promise<void> {
+        if (filters.workflowState && !filters.projectId) {
+            throw new BadRequestException(
+                'Filtering by workflow state requires a projectId'
+            );
+        }
+        if (filters.dueWithin && (filters.dueFrom || filters.dueUntil)) {
+            throw new BadRequestException(
+                'Filter by dueWithin or by dueFrom/dueUntil, not both'
+            );
+        }
+
+        if (filters.projectId) {
+            const projectTeamId =
+                await this.teamAccessService.getTeamIdFromProject(
+                    filters.projectId
+                );
+            await this.teamAccessService.assertMember(userId, projectTeamId);
+            if (teamId && projectTeamId !== teamId) {
+                throw new BadRequestException(
+                    'A team view can only filter on a project of the team'
+                );
+            }
+        }
+    }
+}
@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SearchEntryType } from '@prisma/client';
+import { Transform } from 'class-transformer';
+import {
+    IsArray,
+    IsEnum,
+    IsMongoId,
+    IsOptional,
+    IsString,
+    MaxLength,
+    MinLength
+} from 'class-validator';
+import { CursorPaginationDto } from '../../../core/common/dto/pagination.dto';
+
+export class SearchDto extends CursorPaginationDto {
+    @ApiProperty({
+        example: 'déploiement mobile',
+        description:
+            'Words to look for; accents, case and plural or verb endings are ignored'
+    })
+    @IsString({ message: 'Query must be a string' })
+    @Transform(({ value }) => value?.trim())
+    @MinLength(1, { message: 'Query cannot be empty' })
+    @MaxLength(200, { message: 'Query cannot exceed 200 characters' })
+    q: string;
+
+    @ApiProperty({
+        enum: SearchEntryType,
+        isArray: true,
+        example: 'TASK,COMMENT',
+        description:
+            'Only search these kinds of entries (comma-separated or repeated)',
+        required: false
+    })
+    @IsOptional()
+    @Transform(({ value }) =>
+        typeof value === 'string'
+            ? value.split(',').map((type) => type.trim().toUpperCase())
+            : value
+    )
+    @IsArray({ message: 'types must be an array' })
+    @IsEnum(SearchEntryType, {
+        each: true,
+        message: 'Each type must be TASK, PROJECT or COMMENT'
+    })
+    types?: SearchEntryType[];
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: 'Only search a project, its tasks and their comments',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
+    projectId?: string;
+}
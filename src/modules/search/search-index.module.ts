@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../core/services/prisma.service';
+import { SearchIndexService } from './search-index.service';
+
+/**
+ * Keeps the search index up to date; kept apart from SearchModule so that the reindex command can run it alone
+ */
+@Module({
+    providers: [SearchIndexService, PrismaService],
+    exports: [SearchIndexService]
+})
+export class SearchIndexModule {}
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchEntryType } from '@prisma/client';
+import { SearchIndexService } from './search-index.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('SearchIndexService', () => {
+    let service: SearchIndexService;
+
+    const mockPrismaService = {
+        task: {
+            findMany: jest.fn()
+        },
+        project: {
+            findMany: jest.fn()
+        },
+        taskComment: {
+            findMany: jest.fn()
+        },
+        searchEntry: {
+            findFirst: jest.fn(),
+            upsert: jest.fn(),
+            updateMany: jest.fn(),
+            deleteMany: jest.fn()
+        }
+    };
+
+    const updatedAt = new Date('2025-06-02T09:00:00.000Z');
+    const task = {
+        id: 'task1',
+        title: 'Préparer le déploiement',
+        description: 'Mobile releases',
+        checklist: [{ title: 'Write notes' }],
+        userId: 'user1',
+        assigneeIds: ['user2', 'user1'],
+        projectId: 'project1',
+        deletedAt: null,
+        updatedAt
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SearchIndexService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                }
+            ]
+        }).compile();
+
+        service = module.get<SearchIndexService>(SearchIndexService);
+        mockPrismaService.task.findMany.mockResolvedValue([]);
+        mockPrismaService.project.findMany.mockResolvedValue([]);
+        mockPrismaService.taskComment.findMany.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should index the entities changed since the latest entry', async () => {
+        mockPrismaService.searchEntry.findFirst.mockResolvedValue({
+            changedAt: updatedAt
+        });
+        mockPrismaService.task.findMany.mockResolvedValue([task]);
+
+        await service.catchUp();
+
+        expect(mockPrismaService.task.findMany).toHaveBeenCalledWith({
+            where: { updatedAt: { gte: updatedAt } },
+            orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+            take: 500
+        });
+        expect(mockPrismaService.searchEntry.upsert).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: {
+                    type_entityId: {
+                        type: SearchEntryType.TASK,
+                        entityId: 'task1'
+                    }
+                },
+                create: expect.objectContaining({
+                    titleTerms: ['preparer', 'deploi'],
+                    bodyTerms: ['mobil', 'releas', 'writ', 'not'],
+                    userIds: ['user1', 'user2'],
+                    projectId: 'project1',
+                    trashed: false,
+                    changedAt: updatedAt
+                })
+            })
+        );
+        // The task's comments follow its visibility
+        expect(mockPrismaService.searchEntry.updateMany).toHaveBeenCalledWith({
+            where: { type: SearchEntryType.COMMENT, taskId: 'task1' },
+            data: {
+                title: task.title,
+                userIds: ['user1', 'user2'],
+                projectId: 'project1',
+                trashed: false
+            }
+        });
+    });
+
+    it('should rebuild everything and remove the stale entries', async () => {
+        mockPrismaService.project.findMany.mockResolvedValue([
+            {
+                id: 'project1',
+                name: 'Mobile',
+                description: null,
+                ownerId: 'user1',
+                visibility: 'PUBLIC',
+                deletedAt: null,
+                updatedAt: null,
+                createdAt: updatedAt
+            }
+        ]);
+        mockPrismaService.searchEntry.deleteMany.mockResolvedValue({
+            count: 2
+        });
+
+        const counts = await service.reindex();
+
+        expect(counts).toEqual({ TASK: 0, PROJECT: 1, COMMENT: 0 });
+        expect(mockPrismaService.project.findMany).toHaveBeenCalledWith({
+            where: {},
+            orderBy: [{ id: 'asc' }],
+            take: 500
+        });
+        expect(mockPrismaService.searchEntry.upsert).toHaveBeenCalledWith(
+            expect.objectContaining({
+                create: expect.objectContaining({
+                    public: true,
+                    changedAt: updatedAt
+                })
+            })
+        );
+        expect(mockPrismaService.searchEntry.deleteMany).toHaveBeenCalledWith({
+            where: { indexedAt: { lt: expect.any(Date) } }
+        });
+    });
+});
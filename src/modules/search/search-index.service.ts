@@ -0,0 +1,291 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+    Prisma,
+    Project,
+    SearchEntryType,
+    Task,
+    TaskComment
+} from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { SEARCH_INDEX_BATCH_SIZE } from '../../core/constants/search.constants';
+import { tokenize } from '../../core/utils/text-search';
+
+type SearchEntryData = Omit<Prisma.SearchEntryCreateInput, 'indexedAt'>;
+
+// Last entity indexed in a pass: changes are read by date then ID, full passes by ID
+interface IndexPosition {
+    changedAt: Date;
+    id: string;
+}
+
+type CommentWithTask = TaskComment & {
+    task: Pick<
+        Task,
+        'title' | 'userId' | 'assigneeIds' | 'projectId' | 'deletedAt'
+    >;
+};
+
+// Entities of a pass after the last one indexed
+const nextBatchFilter = (
+    since: Date | undefined,
+    position: IndexPosition | null
+): Record<string, unknown> => {
+    if (!position) {
+        return since ? { updatedAt: { gte: since } } : {};
+    }
+
+    return since
+        ? {
+              OR: [
+                  { updatedAt: { gt: position.changedAt } },
+                  { updatedAt: position.changedAt, id: { gt: position.id } }
+              ]
+          }
+        : { id: { gt: position.id } };
+};
+
+const distinct = (terms: string[]) => [...new Set(terms)];
+
+const taskAccess = (
+    task: Pick<Task, 'userId' | 'assigneeIds' | 'projectId' | 'deletedAt'>
+) => ({
+    userIds: distinct([task.userId, ...task.assigneeIds]),
+    projectId: task.projectId,
+    trashed: !!task.deletedAt
+});
+
+const toTaskEntry = (task: Task): SearchEntryData => {
+    const body =
+        [task.description, ...task.checklist.map((item) => item.title)]
+            .filter(Boolean)
+            .join('\n') || null;
+    const titleTerms = tokenize(task.title);
+    const bodyTerms = tokenize(body);
+
+    return {
+        type: SearchEntryType.TASK,
+        entityId: task.id,
+        taskId: task.id,
+        title: task.title,
+        body,
+        titleTerms,
+        bodyTerms,
+        terms: distinct([...titleTerms, ...bodyTerms]),
+        ...taskAccess(task),
+        public: false,
+        changedAt: task.updatedAt
+    };
+};
+
+const toProjectEntry = (project: Project): SearchEntryData => {
+    const titleTerms = tokenize(project.name);
+    const bodyTerms = tokenize(project.description);
+
+    return {
+        type: SearchEntryType.PROJECT,
+        entityId: project.id,
+        taskId: null,
+        title: project.name,
+        body: project.description,
+        titleTerms,
+        bodyTerms,
+        terms: distinct([...titleTerms, ...bodyTerms]),
+        userIds: [project.ownerId],
+        projectId: project.id,
+        public: project.visibility === 'PUBLIC',
+        trashed: !!project.deletedAt,
+        changedAt: project.updatedAt ?? project.createdAt
+    };
+};
+
+const toCommentEntry = (comment: CommentWithTask): SearchEntryData => {
+    const bodyTerms = tokenize(comment.content);
+
+    return {
+        type: SearchEntryType.COMMENT,
+        entityId: comment.id,
+        taskId: comment.taskId,
+        title: comment.task.title,
+        body: comment.content,
+        titleTerms: [],
+        bodyTerms,
+        terms: distinct(bodyTerms),
+        ...taskAccess(comment.task),
+        public: false,
+        changedAt: comment.updatedAt
+    };
+};
+
+@Injectable()
+export class SearchIndexService {
+    private readonly logger = new Logger(SearchIndexService.name);
+    private catchingUp = false;
+
+    constructor(private readonly prismaService: PrismaService) {}
+
+    /**
+     * Index the tasks, projects and comments changed since the last run.
+     * Entities changed before the index existed, e.g. projects without updatedAt, need a reindex
+     */
+    @Cron(CronExpression.EVERY_MINUTE)
+    async catchUp(): Promise<void> {
+        // A long first run must not be overlapped by the next one
+        if (this.catchingUp) {
+            return;
+        }
+        this.catchingUp = true;
+
+        try {
+            for (const type of Object.values(SearchEntryType)) {
+                const latest = await this.prismaService.searchEntry.findFirst({
+                    where: { type },
+                    orderBy: { changedAt: 'desc' },
+                    select: { changedAt: true }
+                });
+                const count = await this.indexChanged(type, latest?.changedAt);
+                if (count > 0) {
+                    this.logger.log(`Indexed ${count} changed ${type} entries`);
+                }
+            }
+        } catch (error) {
+            this.logger.error(
+                'Failed to update the search index',
+                (error as Error).stack
+            );
+        } finally {
+            this.catchingUp = false;
+        }
+    }
+
+    /**
+     * Rebuild the whole index: every entity is indexed again, and the entries of entities
+     * that no longer exist are removed
+     * @returns the number of entries indexed per type
+     */
+    async reindex(): Promise<Record<SearchEntryType, number>> {
+        const startedAt = new Date();
+        const counts = {} as Record<SearchEntryType, number>;
+
+        for (const type of Object.values(SearchEntryType)) {
+            counts[type] = await this.indexChanged(type);
+            this.logger.log(`Reindexed ${counts[type]} ${type} entries`);
+        }
+
+        const { count } = await this.prismaService.searchEntry.deleteMany({
+            where: { indexedAt: { lt: startedAt } }
+        });
+        this.logger.log(`Removed ${count} stale entries`);
+
+        return counts;
+    }
+
+    /**
+     * Remove the entries of entities found to be deleted for good
+     */
+    async prune(type: SearchEntryType, entityIds: string[]): Promise<void> {
+        await this.prismaService.searchEntry.deleteMany({
+            where: { type, entityId: { in: entityIds } }
+        });
+    }
+
+    // Index the entities of a type changed since a date (all of them without one), batch by batch
+    private async indexChanged(
+        type: SearchEntryType,
+        since?: Date
+    ): Promise<number> {
+        const orderBy = since
+            ? [{ updatedAt: 'asc' as const }, { id: 'asc' as const }]
+            : [{ id: 'asc' as const }];
+        let position: IndexPosition | null = null;
+        let count = 0;
+
+        for (;;) {
+            const entries = await this.load(
+                type,
+                nextBatchFilter(since, position),
+                orderBy
+            );
+
+            for (const entry of entries) {
+                await this.save(entry);
+            }
+            count += entries.length;
+
+            if (entries.length < SEARCH_INDEX_BATCH_SIZE) {
+                return count;
+            }
+            const last = entries[entries.length - 1];
+            position = { changedAt: last.changedAt as Date, id: last.entityId };
+        }
+    }
+
+    private async load(
+        type: SearchEntryType,
+        where: Record<string, unknown>,
+        orderBy: Record<string, 'asc' | 'desc'>[]
+    ): Promise<SearchEntryData[]> {
+        const query = { orderBy, take: SEARCH_INDEX_BATCH_SIZE };
+
+        switch (type) {
+            case SearchEntryType.TASK:
+                return (
+                    await this.prismaService.task.findMany({
+                        ...query,
+                        where: where as Prisma.TaskWhereInput
+                    })
+                ).map(toTaskEntry);
+            case SearchEntryType.PROJECT:
+                return (
+                    await this.prismaService.project.findMany({
+                        ...query,
+                        where: where as Prisma.ProjectWhereInput
+                    })
+                ).map(toProjectEntry);
+            case SearchEntryType.COMMENT:
+                return (
+                    await this.prismaService.taskComment.findMany({
+                        ...query,
+                        where: where as Prisma.TaskCommentWhereInput,
+                        include: {
+                            task: {
+                                select: {
+                                    title: true,
+                                    userId: true,
+                                    assigneeIds: true,
+                                    projectId: true,
+                                    deletedAt: true
+                                }
+                            }
+                        }
+                    })
+                ).map(toCommentEntry);
+        }
+    }
+
+    private async save(entry: SearchEntryData): Promise<void> {
+        await this.prismaService.searchEntry.upsert({
+            where: {
+                type_entityId: { type: entry.type, entityId: entry.entityId }
+            },
+            create: entry,
+            update: { ...entry, indexedAt: new Date() }
+        });
+
+        // Comments are seen by whoever sees their task
+        if (entry.type === SearchEntryType.TASK) {
+            await this.prismaService.searchEntry.updateMany({
+                where: {
+                    type: SearchEntryType.COMMENT,
+                    taskId: entry.entityId
+                },
+                data: {
+                    title: entry.title,
+                    userIds: entry.userIds,
+                    projectId: entry.projectId,
+                    trashed: entry.trashed
+                }
+            });
+        }
+    }
+}
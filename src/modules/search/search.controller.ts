@@ -0,0 +1,43 @@
+import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth
+} from '@nestjs/swagger';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+import { SearchHit, SearchService } from './search.service';
+import { SearchDto } from './dto/search.dto';
+
+@ApiTags('Search')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('/search')
+export class SearchController {
+    constructor(private readonly searchService: SearchService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'Search tasks, projects and comments',
+        description:
+            'Full-text search, best matches first, over what the authenticated user can see. Accents, case and plural or verb endings (English and French) are ignored; matched words are highlighted by offset'
+    })
+    @ApiResponse({
+        status: 200,
+        description:
+            'Hits in data, each with its score, highlighted title and snippet; meta.nextCursor gives the next page'
+    })
+    @ApiResponse({
+        status: 400,
+        description:
+            'Empty query, only words too common to search, or invalid cursor'
+    })
+    @ApiResponse({ status: 401, description: 'Unauthorized' })
+    async search(
+        @Request() req: any,
+        @Query() searchDto: SearchDto
+    ): Promise<PaginatedResponseDto<SearchHit>> {
+        return this.searchService.search(req.user.sub, searchDto);
+    }
+}
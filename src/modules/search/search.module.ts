@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { SearchIndexModule } from './search-index.module';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        SearchIndexModule
+    ],
+    controllers: [SearchController],
+    providers: [SearchService, PrismaService, TokenBlacklistService]
+})
+export class SearchModule {}
@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { SearchEntryType } from '@prisma/client';
+import { SearchService } from './search.service';
+import { SearchIndexService } from './search-index.service';
+import { PrismaService } from '../../core/services/prisma.service';
+import { tokenize } from '../../core/utils/text-search';
+
+describe('SearchService', () => {
+    let service: SearchService;
+
+    const mockPrismaService = {
+        teamMember: {
+            findMany: jest.fn()
+        },
+        project: {
+            findMany: jest.fn()
+        },
+        task: {
+            findMany: jest.fn()
+        },
+        taskComment: {
+            findMany: jest.fn()
+        },
+        searchEntry: {
+            findMany: jest.fn(),
+            count: jest.fn()
+        }
+    };
+
+    const mockSearchIndexService = {
+        prune: jest.fn()
+    };
+
+    const changedAt = new Date('2025-06-02T09:00:00.000Z');
+    const entry = (
+        type: SearchEntryType,
+        entityId: string,
+        title: string,
+        body: string | null = null
+    ) => ({
+        type,
+        entityId,
+        taskId: type === SearchEntryType.PROJECT ? null : 'task1',
+        projectId: 'project1',
+        title,
+        body,
+        titleTerms: type === SearchEntryType.COMMENT ? [] : tokenize(title),
+        bodyTerms: tokenize(body),
+        changedAt
+    });
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SearchService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: SearchIndexService,
+                    useValue: mockSearchIndexService
+                }
+            ]
+        }).compile();
+
+        service = module.get<SearchService>(SearchService);
+        mockPrismaService.teamMember.findMany.mockResolvedValue([
+            { teamId: 'team1' }
+        ]);
+        mockPrismaService.searchEntry.count.mockResolvedValue(10);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should rank title matches first and highlight the matched words', async () => {
+        mockPrismaService.project.findMany
+            .mockResolvedValueOnce([{ id: 'project1' }])
+            .mockResolvedValueOnce([]);
+        mockPrismaService.searchEntry.findMany.mockResolvedValue([
+            entry(
+                SearchEntryType.COMMENT,
+                'comment1',
+                'Release notes',
+                'The déploiement failed again'
+            ),
+            entry(
+                SearchEntryType.TASK,
+                'task1',
+                'Préparer le déploiement',
+                'Mobile app'
+            )
+        ]);
+        mockPrismaService.task.findMany.mockResolvedValue([{ id: 'task1' }]);
+        mockPrismaService.taskComment.findMany.mockResolvedValue([
+            { id: 'comment1' }
+        ]);
+
+        const result = await service.search('user1', {
+            q: 'deploiements',
+            types: [SearchEntryType.TASK, SearchEntryType.COMMENT],
+            page: 1,
+            limit: 5
+        });
+
+        expect(result.data.map((hit) => hit.id)).toEqual(['task1', 'comment1']);
+        expect(result.data[0].title).toEqual({
+            text: 'Préparer le déploiement',
+            highlights: [[12, 23]]
+        });
+        expect(result.data[1].title.highlights).toEqual([]);
+        expect(result.data[1].snippet.highlights).toEqual([[4, 15]]);
+        expect(result.meta).toMatchObject({ total: 2, page: 1 });
+        expect(mockPrismaService.searchEntry.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: {
+                    AND: [
+                        { terms: { hasSome: ['deploi'] }, trashed: false },
+                        {
+                            OR: [
+                                { userIds: { has: 'user1' } },
+                                { projectId: { in: ['project1'] } },
+                                { type: SearchEntryType.PROJECT, public: true }
+                            ]
+                        },
+                        {
+                            type: {
+                                in: [
+                                    SearchEntryType.TASK,
+                                    SearchEntryType.COMMENT
+                                ]
+                            }
+                        }
+                    ]
+                }
+            })
+        );
+        expect(mockSearchIndexService.prune).not.toHaveBeenCalled();
+    });
+
+    it('should drop and prune the entries of deleted entities', async () => {
+        mockPrismaService.project.findMany.mockResolvedValue([]);
+        mockPrismaService.searchEntry.findMany.mockResolvedValue([
+            entry(SearchEntryType.TASK, 'task1', 'Fix login'),
+            entry(SearchEntryType.TASK, 'task2', 'Login page')
+        ]);
+        mockPrismaService.task.findMany.mockResolvedValue([{ id: 'task2' }]);
+        mockPrismaService.taskComment.findMany.mockResolvedValue([]);
+
+        const result = await service.search('user1', {
+            q: 'login',
+            page: 1,
+            limit: 5
+        });
+
+        expect(result.data.map((hit) => hit.id)).toEqual(['task2']);
+        expect(result.meta.total).toBe(1);
+        expect(mockSearchIndexService.prune).toHaveBeenCalledWith(
+            SearchEntryType.TASK,
+            ['task1']
+        );
+    });
+
+    it('should continue after the cursor of the previous page', async () => {
+        mockPrismaService.project.findMany.mockResolvedValue([]);
+        mockPrismaService.searchEntry.findMany.mockResolvedValue([
+            entry(SearchEntryType.TASK, 'task1', 'Fix login'),
+            entry(SearchEntryType.TASK, 'task2', 'Fix login'),
+            entry(SearchEntryType.TASK, 'task3', 'Fix login')
+        ]);
+        mockPrismaService.task.findMany.mockImplementation(({ where }) =>
+            where.id.in.map((id: string) => ({ id }))
+        );
+        mockPrismaService.taskComment.findMany.mockResolvedValue([]);
+
+        const first = await service.search('user1', { q: 'login', limit: 2 });
+        const second = await service.search('user1', {
+            q: 'login',
+            limit: 2,
+            cursor: first.meta.nextCursor
+        });
+
+        // Equal scores and dates: the entity ID breaks the tie
+        expect(first.data.map((hit) => hit.id)).toEqual(['task3', 'task2']);
+        expect(first.meta).toMatchObject({ total: 3, hasNextPage: true });
+        expect(second.data.map((hit) => hit.id)).toEqual(['task1']);
+        expect(second.meta).toMatchObject({
+            total: 3,
+            hasNextPage: false,
+            nextCursor: null
+        });
+    });
+
+    it('should reject queries made only of stopwords', async () => {
+        await expect(
+            service.search('user1', { q: 'the and les', page: 1, limit: 5 })
+        ).rejects.toThrow(BadRequestException);
+    });
+});
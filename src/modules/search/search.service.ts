@@ -0,0 +1,314 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma, SearchEntry, SearchEntryType } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import {
+    PaginatedResponseDto,
+    PaginationMetaDto,
+    createPaginationMeta
+} from '../../core/common/dto/pagination.dto';
+import {
+    SortKey,
+    decodeCursor,
+    encodeCursor
+} from '../../core/utils/pagination';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import {
+    SEARCH_MAX_CANDIDATES,
+    SEARCH_SNIPPET_LENGTH,
+    SEARCH_TITLE_WEIGHT
+} from '../../core/constants/search.constants';
+import {
+    SearchSnippet,
+    TermStatistics,
+    highlight,
+    relevance,
+    tokenize
+} from '../../core/utils/text-search';
+import { SearchIndexService } from './search-index.service';
+import { SearchDto } from './dto/search.dto';
+
+export interface SearchHit {
+    type: SearchEntryType;
+    // ID of the task, project or comment
+    id: string;
+    // Task of a comment; the task itself for a task
+    taskId: string | null;
+    projectId: string | null;
+    score: number;
+    // A comment's title is its task's, without highlights
+    title: SearchSnippet;
+    // Body text around the first match; null when there is no body
+    snippet: SearchSnippet | null;
+    changedAt: Date;
+}
+
+type Candidate = Pick<
+    SearchEntry,
+    | 'type'
+    | 'entityId'
+    | 'taskId'
+    | 'projectId'
+    | 'title'
+    | 'body'
+    | 'titleTerms'
+    | 'bodyTerms'
+    | 'changedAt'
+>;
+
+interface RankedCandidate {
+    candidate: Candidate;
+    score: number;
+}
+
+// Best matches first, then the most recently changed; the entity ID breaks ties
+const SEARCH_SORT: SortKey[] = [
+    { field: 'score', order: 'desc' },
+    { field: 'changedAt', order: 'desc' }
+];
+
+// Negative when a comes before b in SEARCH_SORT
+const compareRanked = (a: RankedCandidate, b: RankedCandidate): number =>
+    b.score - a.score ||
+    b.candidate.changedAt.getTime() - a.candidate.changedAt.getTime() ||
+    b.candidate.entityId.localeCompare(a.candidate.entityId);
+
+const rankedCursor = ({ candidate, score }: RankedCandidate): string =>
+    encodeCursor(SEARCH_SORT, {
+        id: candidate.entityId,
+        score,
+        changedAt: candidate.changedAt
+    });
+
+@Injectable()
+export class SearchService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly searchIndexService: SearchIndexService
+    ) {}
+
+    /**
+     * Search the tasks, projects and comments a user can see, best matches first.
+     * Tasks and comments follow the task rules (creator, assignees and the project's team),
+     * projects the project rules (owner, team members, or public)
+     * @throws BadRequestException if the query only holds words too common to search, or the cursor is invalid
+     */
+    async search(
+        userId: string,
+        { q, types, projectId, page = 1, limit = 5, cursor }: SearchDto
+    ): Promise<PaginatedResponseDto<SearchHit>> {
+        const terms = [...new Set(tokenize(q))];
+        if (terms.length === 0) {
+            throw new BadRequestException(
+                'Search for at least one word that is not too common'
+            );
+        }
+
+        const where: Prisma.SearchEntryWhereInput = {
+            AND: [
+                { terms: { hasSome: terms }, trashed: false },
+                await this.visibleTo(userId),
+                ...(types?.length ? [{ type: { in: types } }] : []),
+                ...(projectId ? [{ projectId }] : [])
+            ]
+        };
+
+        const candidates = await this.prismaService.searchEntry.findMany({
+            where,
+            orderBy: { changedAt: 'desc' },
+            take: SEARCH_MAX_CANDIDATES,
+            select: {
+                type: true,
+                entityId: true,
+                taskId: true,
+                projectId: true,
+                title: true,
+                body: true,
+                titleTerms: true,
+                bodyTerms: true,
+                changedAt: true
+            }
+        });
+
+        const statistics = await this.getStatistics(terms, candidates);
+        const ranked = candidates
+            .map((candidate) => ({
+                candidate,
+                score: relevance(
+                    terms,
+                    candidate,
+                    statistics,
+                    SEARCH_TITLE_WEIGHT
+                )
+            }))
+            .sort(compareRanked);
+
+        const start = cursor
+            ? this.positionAfter(ranked, cursor)
+            : (page - 1) * limit;
+        const pageHits = ranked.slice(start, start + limit);
+        const missing = await this.findMissing(
+            pageHits.map((hit) => hit.candidate)
+        );
+
+        const total = ranked.length - missing.size;
+        const hasNextPage = start + limit < ranked.length;
+        const meta: PaginationMetaDto = cursor
+            ? { limit, total, hasNextPage, hasPreviousPage: true }
+            : createPaginationMeta(page, limit, total);
+        meta.nextCursor = hasNextPage
+            ? rankedCursor(pageHits[pageHits.length - 1])
+            : null;
+
+        return {
+            data: pageHits
+                .filter(({ candidate }) => !missing.has(candidate.entityId))
+                .map(({ candidate, score }) =>
+                    this.toHit(candidate, score, terms)
+                ),
+            meta
+        };
+    }
+
+    /**
+     * Index of the first ranked candidate after a cursor; the candidate it was made from may have changed since
+     * @throws BadRequestException if the cursor is invalid
+     */
+    private positionAfter(ranked: RankedCandidate[], cursor: string): number {
+        const {
+            values: [score, changedAt],
+            id
+        } = decodeCursor(SEARCH_SORT, cursor);
+        if (typeof score !== 'number' || !(changedAt instanceof Date)) {
+            throw new BadRequestException('Invalid cursor');
+        }
+
+        const position = {
+            candidate: { entityId: id, changedAt } as Candidate,
+            score
+        };
+        const index = ranked.findIndex(
+            (hit) => compareRanked(hit, position) > 0
+        );
+        return index === -1 ? ranked.length : index;
+    }
+
+    // Entries of the user, of the projects of their teams, and of public projects
+    private async visibleTo(
+        userId: string
+    ): Promise<Prisma.SearchEntryWhereInput> {
+        const memberships = await this.prismaService.teamMember.findMany({
+            where: { userId },
+            select: { teamId: true }
+        });
+        const projects = await this.prismaService.project.findMany({
+            where: {
+                teamId: {
+                    in: memberships.map((membership) => membership.teamId)
+                }
+            },
+            select: { id: true }
+        });
+
+        return {
+            OR: [
+                { userIds: { has: userId } },
+                { projectId: { in: projects.map((project) => project.id) } },
+                { type: SearchEntryType.PROJECT, public: true }
+            ]
+        };
+    }
+
+    // Term frequencies over the whole index; the average length is the candidates'
+    private async getStatistics(
+        terms: string[],
+        candidates: Candidate[]
+    ): Promise<TermStatistics> {
+        const [documents, ...counts] = await Promise.all([
+            this.prismaService.searchEntry.count({ where: { trashed: false } }),
+            ...terms.map((term) =>
+                this.prismaService.searchEntry.count({
+                    where: { terms: { has: term }, trashed: false }
+                })
+            )
+        ]);
+        const totalLength = candidates.reduce(
+            (sum, candidate) =>
+                sum + candidate.titleTerms.length + candidate.bodyTerms.length,
+            0
+        );
+
+        return {
+            documents,
+            frequencies: new Map(
+                terms.map((term, index) => [term, counts[index]])
+            ),
+            averageLength: candidates.length
+                ? totalLength / candidates.length
+                : 0
+        };
+    }
+
+    // Entities deleted for good since they were indexed; their entries are removed
+    private async findMissing(candidates: Candidate[]): Promise<Set<string>> {
+        const idsOf = (type: SearchEntryType) =>
+            candidates
+                .filter((candidate) => candidate.type === type)
+                .map((candidate) => candidate.entityId);
+        const select = { id: true };
+
+        const found = await Promise.all([
+            this.prismaService.task.findMany({
+                where: {
+                    id: { in: idsOf(SearchEntryType.TASK) },
+                    ...NOT_TRASHED
+                },
+                select
+            }),
+            this.prismaService.project.findMany({
+                where: {
+                    id: { in: idsOf(SearchEntryType.PROJECT) },
+                    ...NOT_TRASHED
+                },
+                select
+            }),
+            this.prismaService.taskComment.findMany({
+                where: { id: { in: idsOf(SearchEntryType.COMMENT) } },
+                select
+            })
+        ]);
+        const foundIds = new Set(found.flat().map((entity) => entity.id));
+
+        const missing = new Set<string>();
+        for (const type of Object.values(SearchEntryType)) {
+            const gone = idsOf(type).filter((id) => !foundIds.has(id));
+            if (gone.length > 0) {
+                gone.forEach((id) => missing.add(id));
+                await this.searchIndexService.prune(type, gone);
+            }
+        }
+
+        return missing;
+    }
+
+    private toHit(
+        candidate: Candidate,
+        score: number,
+        terms: string[]
+    ): SearchHit {
+        return {
+            type: candidate.type,
+            id: candidate.entityId,
+            taskId: candidate.taskId,
+            projectId: candidate.projectId,
+            score: Math.round(score * 1000) / 1000,
+            title: highlight(
+                candidate.title,
+                candidate.type === SearchEntryType.COMMENT ? [] : terms
+            ),
+            snippet: candidate.body
+                ? highlight(candidate.body, terms, SEARCH_SNIPPET_LENGTH)
+                : null,
+            changedAt: candidate.changedAt
+        };
+    }
+}
@@ -0,0 +1,109 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    ArrayNotEmpty,
+    IsArray,
+    IsDateString,
+    IsEnum,
+    IsInt,
+    IsNotEmpty,
+    IsObject,
+    IsOptional,
+    IsString,
+    MaxLength,
+    Min,
+    ValidateIf,
+    ValidateNested
+} from 'class-validator';
+import {
+    MAX_SYNC_MUTATIONS,
+    SyncMutationType
+} from '../../../core/constants/sync.constants';
+
+export class SyncPullQueryDto {
+    @ApiProperty({
+        description:
+            'Cursor returned by the previous pull, or any ISO timestamp; omit it for a full download',
+        example: '2025-06-02T09:00:00.000Z',
+        required: false
+    })
+    @IsOptional()
+    @IsDateString({}, { message: 'since must be a cursor or a valid date' })
+    since?: string;
+
+    @ApiProperty({
+        description:
+            'nextPage of the previous pull, sent with the same since, to get the tasks that did not fit in it',
+        required: false
+    })
+    @IsOptional()
+    @IsString()
+    page?: string;
+}
+
+export class SyncMutationDto {
+    @ApiProperty({
+        description:
+            'ID chosen by the client, echoed in the result; a CREATE ID can stand for the new task in later mutations of the batch, and a CREATE pushed again with the same ID returns the result of the first push',
+        example: 'local-42'
+    })
+    @IsString()
+    @IsNotEmpty({ message: 'Mutation ID is required' })
+    @MaxLength(100)
+    id: string;
+
+    @ApiProperty({ enum: SyncMutationType, example: SyncMutationType.UPDATE })
+    @IsEnum(SyncMutationType, {
+        message: 'type must be CREATE, UPDATE or DELETE'
+    })
+    type: SyncMutationType;
+
+    @ApiProperty({
+        description: 'Task to update or delete',
+        example: '507f1f77bcf86cd799439011',
+        required: false
+    })
+    @ValidateIf((mutation) => mutation.type !== SyncMutationType.CREATE)
+    @IsString()
+    @IsNotEmpty({ message: 'taskId is required to update or delete a task' })
+    taskId?: string;
+
+    @ApiProperty({
+        description:
+            'Version of the task the change was made on (its ETag); the mutation is a conflict if the task changed since. Omit it to overwrite',
+        example: 3,
+        required: false
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    baseVersion?: number;
+
+    @ApiProperty({
+        description:
+            'Body of POST /tasks for CREATE, of PATCH /tasks/:id for UPDATE',
+        type: 'object',
+        additionalProperties: true,
+        example: { status: 'DONE' },
+        required: false
+    })
+    @ValidateIf((mutation) => mutation.type !== SyncMutationType.DELETE)
+    @IsObject({ message: 'data is required to create or update a task' })
+    data?: Record<string, unknown>;
+}
+
+export class SyncPushDto {
+    @ApiProperty({
+        type: [SyncMutationDto],
+        description: `Mutations made offline, applied in order (at most ${MAX_SYNC_MUTATIONS})`
+    })
+    @IsArray()
+    @ArrayNotEmpty({ message: 'Push at least one mutation' })
+    @ArrayMaxSize(MAX_SYNC_MUTATIONS, {
+        message: `Push at most ${MAX_SYNC_MUTATIONS} mutations at a time`
+    })
+    @ValidateNested({ each: true })
+    @Type(() => SyncMutationDto)
+    mutations: SyncMutationDto[];
+}
@@ -0,0 +1,64 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Query,
+    UseGuards,
+    Request,
+    HttpCode,
+    HttpStatus
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiBody
+} from '@nestjs/swagger';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { SyncChanges, SyncMutationResult, SyncService } from './sync.service';
+import { SyncPullQueryDto, SyncPushDto } from './dto/sync.dto';
+
+@ApiTags('Sync')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('/sync')
+export class SyncController {
+    constructor(private readonly syncService: SyncService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'Pull the changes since a cursor',
+        description:
+            "Returns the user's teams and project IDs, the projects and tasks created or changed since the cursor, and the IDs of tasks moved to the trash or out of the user's reach. Without a cursor, or with one older than the trash retention, everything is returned with reset set. Tasks are paged: while nextPage is set, pull again with the same since and that page"
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Changes, with the cursor for the next pull'
+    })
+    @ApiResponse({ status: 400, description: 'Invalid cursor or page' })
+    async pull(
+        @Request() req: any,
+        @Query() query: SyncPullQueryDto
+    ): Promise<SyncChanges> {
+        return this.syncService.pull(req.user.sub, query);
+    }
+
+    @Post('push')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Push task mutations made offline',
+        description:
+            'Creates, updates and deletes tasks in order. Each mutation gets its own result: APPLIED, CONFLICT (with the current task), NOT_FOUND, REJECTED or FAILED (retry later)'
+    })
+    @ApiBody({ type: SyncPushDto })
+    @ApiResponse({ status: 200, description: 'One result per mutation' })
+    @ApiResponse({ status: 400, description: 'Invalid batch' })
+    async push(
+        @Request() req: any,
+        @Body() syncPushDto: SyncPushDto
+    ): Promise<SyncMutationResult[]> {
+        return this.syncService.push(req.user.sub, syncPushDto.mutations);
+    }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { TaskModule } from '../task/task.module';
+import { SyncController } from './sync.controller';
+import { SyncService } from './sync.service';
+
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        TaskModule // Import TaskModule to apply pushed mutations through TaskService
+    ],
+    controllers: [SyncController],
+    providers: [SyncService, PrismaService, TokenBlacklistService]
+})
+export class SyncModule {}
@@ -0,0 +1,590 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+    BadRequestException,
+    ForbiddenException,
+    NotFoundException
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SyncService } from './sync.service';
+import { TaskService } from '../task/task.service';
+import { PrismaService } from '../../core/services/prisma.service';
+import { versionConflict } from '../../core/utils/concurrency';
+import {
+    SyncMutationStatus,
+    SyncMutationType
+} from '../../core/constants/sync.constants';
+
+describe('SyncService', () => {
+    let service: SyncService;
+
+    const mockPrismaService = {
+        teamMember: {
+            findMany: jest.fn()
+        },
+        project: {
+            findMany: jest.fn()
+        },
+        task: {
+            findMany: jest.fn(),
+            findFirst: jest.fn()
+        },
+        taskActivity: {
+            findMany: jest.fn()
+        },
+        syncMutation: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            delete: jest.fn()
+        }
+    };
+
+    const mockConfigService = {
+        get: jest.fn((key: string, defaultValue?: unknown) => defaultValue)
+    };
+
+    const mockTaskService = {
+        create: jest.fn(),
+        findOne: jest.fn(),
+        update: jest.fn(),
+        remove: jest.fn()
+    };
+
+    const now = new Date('2025-06-10T12:00:00.000Z');
+    const since = '2025-06-09T12:00:00.000Z';
+
+    const team = { id: 'team1', name: 'Core', description: null };
+    const membership = {
+        teamId: 'team1',
+        role: 'MEMBER',
+        joinedAt: new Date('2025-01-01T00:00:00.000Z'),
+        team
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SyncService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService
+                },
+                {
+                    provide: TaskService,
+                    useValue: mockTaskService
+                }
+            ]
+        }).compile();
+
+        service = module.get<SyncService>(SyncService);
+        mockPrismaService.task.findMany.mockResolvedValue([]);
+        mockPrismaService.taskActivity.findMany.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('pull', () => {
+        it('should send everything without a cursor', async () => {
+            mockPrismaService.teamMember.findMany.mockResolvedValue([
+                membership
+            ]);
+            mockPrismaService.project.findMany.mockResolvedValue([
+                { id: 'project1', teamId: 'team1', updatedAt: null }
+            ]);
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { id: 'task1' }
+            ]);
+
+            const changes = await service.pull('user1', {}, now);
+
+            expect(changes.reset).toBe(true);
+            expect(changes.cursor).toBe('2025-06-10T11:59:55.000Z');
+            expect(changes.teams).toEqual([
+                { ...team, role: 'MEMBER', joinedAt: membership.joinedAt }
+            ]);
+            expect(changes.projects.map((project) => project.id)).toEqual([
+                'project1'
+            ]);
+            expect(changes.tasks).toEqual([{ id: 'task1' }]);
+            expect(changes.deletedTaskIds).toEqual([]);
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledTimes(1);
+        });
+
+        it('should send the changes and tombstones since the cursor', async () => {
+            mockPrismaService.teamMember.findMany.mockResolvedValue([
+                membership,
+                {
+                    teamId: 'team2',
+                    role: 'ADMIN',
+                    joinedAt: new Date('2025-06-10T08:00:00.000Z'),
+                    team: { id: 'team2', name: 'New', description: null }
+                }
+            ]);
+            mockPrismaService.project.findMany.mockResolvedValue([
+                {
+                    id: 'unchanged',
+                    teamId: 'team1',
+                    updatedAt: new Date('2025-06-01T00:00:00.000Z')
+                },
+                {
+                    id: 'changed',
+                    teamId: 'team1',
+                    updatedAt: new Date('2025-06-10T09:00:00.000Z')
+                },
+                {
+                    id: 'joined',
+                    teamId: 'team2',
+                    updatedAt: new Date('2025-05-01T00:00:00.000Z')
+                }
+            ]);
+            mockPrismaService.task.findMany
+                .mockResolvedValueOnce([{ id: 'task1' }])
+                .mockResolvedValueOnce([{ id: 'trashed' }]);
+
+            const changes = await service.pull('user1', { since }, now);
+
+            expect(changes.reset).toBe(false);
+            expect(changes.projectIds).toEqual([
+                'unchanged',
+                'changed',
+                'joined'
+            ]);
+            expect(changes.projects.map((project) => project.id)).toEqual([
+                'changed',
+                'joined'
+            ]);
+            expect(changes.deletedTaskIds).toEqual(['trashed']);
+
+            const taskScope = {
+                OR: [
+                    { userId: 'user1' },
+                    { assigneeIds: { has: 'user1' } },
+                    {
+                        projectId: {
+                            in: ['unchanged', 'changed', 'joined']
+                        }
+                    }
+                ]
+            };
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledWith({
+                where: {
+                    AND: [
+                        { deletedAt: { isSet: false } },
+                        taskScope,
+                        {
+                            OR: [
+                                { updatedAt: { gte: new Date(since) } },
+                                { projectId: { in: ['joined'] } }
+                            ]
+                        }
+                    ]
+                },
+                orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+                take: 501
+            });
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledWith({
+                where: {
+                    AND: [taskScope, { deletedAt: { gte: new Date(since) } }]
+                },
+                select: { id: true }
+            });
+        });
+
+        it('should send tombstones for tasks the user can no longer see', async () => {
+            mockPrismaService.teamMember.findMany.mockResolvedValue([
+                membership
+            ]);
+            mockPrismaService.project.findMany.mockResolvedValue([
+                { id: 'project1', teamId: 'team1', updatedAt: null }
+            ]);
+            mockPrismaService.taskActivity.findMany.mockResolvedValue([
+                {
+                    taskId: 'unassigned',
+                    changes: [
+                        {
+                            field: 'assigneeIds',
+                            oldValue: ['user1', 'user2'],
+                            newValue: ['user2']
+                        }
+                    ]
+                },
+                {
+                    taskId: 'moved',
+                    changes: [
+                        {
+                            field: 'projectId',
+                            oldValue: 'project1',
+                            newValue: 'project9'
+                        }
+                    ]
+                },
+                {
+                    taskId: 'unrelated',
+                    changes: [
+                        {
+                            field: 'assigneeIds',
+                            oldValue: ['user3'],
+                            newValue: []
+                        }
+                    ]
+                }
+            ]);
+            mockPrismaService.task.findMany
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([{ id: 'unassigned' }]);
+
+            const changes = await service.pull('user1', { since }, now);
+
+            expect(changes.deletedTaskIds).toEqual(['unassigned']);
+            expect(mockPrismaService.task.findMany).toHaveBeenLastCalledWith({
+                where: {
+                    AND: [
+                        { id: { in: ['unassigned', 'moved'] } },
+                        { deletedAt: { isSet: false } },
+                        {
+                            NOT: {
+                                OR: [
+                                    { userId: 'user1' },
+                                    { assigneeIds: { has: 'user1' } },
+                                    { projectId: { in: ['project1'] } }
+                                ]
+                            }
+                        }
+                    ]
+                },
+                select: { id: true }
+            });
+        });
+
+        it('should send everything when the cursor is older than the trash', async () => {
+            mockPrismaService.teamMember.findMany.mockResolvedValue([]);
+            mockPrismaService.project.findMany.mockResolvedValue([]);
+
+            const changes = await service.pull(
+                'user1',
+                { since: '2025-04-01T00:00:00.000Z' },
+                now
+            );
+
+            expect(changes.reset).toBe(true);
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledTimes(1);
+        });
+
+        it('should page the tasks and keep the cursor of the first page', async () => {
+            mockPrismaService.teamMember.findMany.mockResolvedValue([]);
+            mockPrismaService.project.findMany.mockResolvedValue([
+                { id: 'project1', teamId: null, updatedAt: null }
+            ]);
+            mockPrismaService.task.findMany.mockResolvedValueOnce(
+                Array.from({ length: 501 }, (_, index) => ({
+                    id: `task${index}`,
+                    updatedAt: new Date(Date.UTC(2025, 5, 1, 0, index))
+                }))
+            );
+
+            const first = await service.pull('user1', {}, now);
+
+            expect(first.tasks).toHaveLength(500);
+            expect(first.nextPage).toEqual(expect.any(String));
+
+            mockPrismaService.task.findMany.mockResolvedValueOnce([
+                { id: 'task500' }
+            ]);
+            const second = await service.pull(
+                'user1',
+                { page: first.nextPage },
+                new Date('2025-06-10T12:05:00.000Z')
+            );
+
+            expect(second).toMatchObject({
+                reset: true,
+                cursor: first.cursor,
+                projectIds: ['project1'],
+                projects: [],
+                tasks: [{ id: 'task500' }],
+                nextPage: null
+            });
+            const [, [{ where }]] = mockPrismaService.task.findMany.mock.calls;
+            expect(where.AND[2]).toEqual({
+                OR: expect.arrayContaining([
+                    {
+                        AND: [
+                            {
+                                updatedAt: new Date(
+                                    Date.UTC(2025, 5, 1, 0, 499)
+                                )
+                            },
+                            { id: { gt: 'task499' } }
+                        ]
+                    }
+                ])
+            });
+        });
+
+        it('should reject an invalid page', async () => {
+            mockPrismaService.teamMember.findMany.mockResolvedValue([]);
+            mockPrismaService.project.findMany.mockResolvedValue([]);
+
+            await expect(
+                service.pull('user1', { page: 'not-a-page' }, now)
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('push', () => {
+        it('should let later mutations refer to a task created by the batch', async () => {
+            mockTaskService.create.mockResolvedValue({
+                id: '507f1f77bcf86cd799439011',
+                version: 0
+            });
+            mockTaskService.update.mockResolvedValue({
+                id: '507f1f77bcf86cd799439011',
+                version: 1
+            });
+
+            const results = await service.push('user1', [
+                {
+                    id: 'local-1',
+                    type: SyncMutationType.CREATE,
+                    data: { title: 'Written offline' }
+                },
+                {
+                    id: 'local-2',
+                    type: SyncMutationType.UPDATE,
+                    taskId: 'local-1',
+                    data: { priority: 'HIGH' }
+                }
+            ]);
+
+            expect(results.map((result) => result.status)).toEqual([
+                SyncMutationStatus.APPLIED,
+                SyncMutationStatus.APPLIED
+            ]);
+            expect(mockTaskService.update).toHaveBeenCalledWith(
+                'user1',
+                '507f1f77bcf86cd799439011',
+                expect.objectContaining({ priority: 'HIGH' }),
+                undefined
+            );
+            expect(mockPrismaService.syncMutation.update).toHaveBeenCalledWith({
+                where: {
+                    userId_mutationId: {
+                        userId: 'user1',
+                        mutationId: 'local-1'
+                    }
+                },
+                data: {
+                    taskId: '507f1f77bcf86cd799439011',
+                    result: {
+                        id: 'local-1',
+                        status: SyncMutationStatus.APPLIED,
+                        task: { id: '507f1f77bcf86cd799439011', version: 0 }
+                    }
+                }
+            });
+        });
+
+        it('should not create the task of a mutation pushed again', async () => {
+            const applied = {
+                id: 'local-1',
+                status: SyncMutationStatus.APPLIED,
+                task: { id: '507f1f77bcf86cd799439011', version: 0 }
+            };
+            mockPrismaService.syncMutation.create.mockRejectedValueOnce(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+                    code: 'P2002',
+                    clientVersion: 'test'
+                })
+            );
+            mockPrismaService.syncMutation.findUnique.mockResolvedValueOnce({
+                taskId: '507f1f77bcf86cd799439011',
+                result: applied
+            });
+            mockTaskService.remove.mockResolvedValue({
+                id: '507f1f77bcf86cd799439011'
+            });
+
+            const results = await service.push('user1', [
+                {
+                    id: 'local-1',
+                    type: SyncMutationType.CREATE,
+                    data: { title: 'Written offline' }
+                },
+                {
+                    id: 'local-2',
+                    type: SyncMutationType.DELETE,
+                    taskId: 'local-1'
+                }
+            ]);
+
+            expect(results[0]).toEqual(applied);
+            expect(mockTaskService.create).not.toHaveBeenCalled();
+            expect(mockTaskService.remove).toHaveBeenCalledWith(
+                'user1',
+                '507f1f77bcf86cd799439011',
+                undefined
+            );
+        });
+
+        it('should record the task of a push that died before recording it', async () => {
+            const task = { id: '507f1f77bcf86cd799439011', version: 0 };
+            mockPrismaService.syncMutation.create.mockRejectedValueOnce(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+                    code: 'P2002',
+                    clientVersion: 'test'
+                })
+            );
+            mockPrismaService.syncMutation.findUnique.mockResolvedValueOnce({
+                taskId: null,
+                result: null
+            });
+            mockPrismaService.task.findFirst.mockResolvedValueOnce({
+                id: task.id
+            });
+            mockTaskService.findOne.mockResolvedValue(task);
+
+            const results = await service.push('user1', [
+                {
+                    id: 'local-1',
+                    type: SyncMutationType.CREATE,
+                    data: { title: 'Written offline' }
+                }
+            ]);
+
+            expect(results[0]).toEqual({
+                id: 'local-1',
+                status: SyncMutationStatus.APPLIED,
+                task
+            });
+            expect(mockPrismaService.task.findFirst).toHaveBeenCalledWith({
+                where: { userId: 'user1', syncMutationId: 'local-1' },
+                select: { id: true }
+            });
+            expect(mockPrismaService.syncMutation.update).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ taskId: task.id })
+                })
+            );
+            expect(mockTaskService.create).not.toHaveBeenCalled();
+        });
+
+        it('should take over a claim abandoned without a task', async () => {
+            mockPrismaService.syncMutation.create.mockRejectedValue(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+                    code: 'P2002',
+                    clientVersion: 'test'
+                })
+            );
+            mockPrismaService.syncMutation.findUnique.mockResolvedValue({
+                taskId: null,
+                result: null
+            });
+            mockPrismaService.task.findFirst.mockResolvedValue(null);
+            mockPrismaService.syncMutation.updateMany
+                .mockResolvedValueOnce({ count: 1 })
+                .mockResolvedValueOnce({ count: 0 });
+            mockTaskService.create.mockResolvedValue({
+                id: '507f1f77bcf86cd799439011',
+                version: 0
+            });
+
+            const results = await service.push('user1', [
+                {
+                    id: 'stale',
+                    type: SyncMutationType.CREATE,
+                    data: { title: 'Written offline' }
+                },
+                {
+                    id: 'in-progress',
+                    type: SyncMutationType.CREATE,
+                    data: { title: 'Written offline' }
+                }
+            ]);
+
+            expect(results.map((result) => result.status)).toEqual([
+                SyncMutationStatus.APPLIED,
+                SyncMutationStatus.FAILED
+            ]);
+            expect(mockTaskService.create).toHaveBeenCalledTimes(1);
+            expect(mockTaskService.create).toHaveBeenCalledWith(
+                'user1',
+                expect.objectContaining({ title: 'Written offline' }),
+                { syncMutationId: 'stale' }
+            );
+            expect(
+                mockPrismaService.syncMutation.updateMany
+            ).toHaveBeenCalledWith({
+                where: {
+                    userId: 'user1',
+                    mutationId: 'stale',
+                    taskId: { isSet: false },
+                    claimedAt: { lt: expect.any(Date) }
+                },
+                data: { claimedAt: expect.any(Date) }
+            });
+        });
+
+        it('should report each failure without stopping the batch', async () => {
+            const current = { id: '507f1f77bcf86cd799439012', version: 4 };
+            mockTaskService.update.mockRejectedValue(
+                versionConflict('The task was changed', current)
+            );
+            mockTaskService.remove
+                .mockRejectedValueOnce(new NotFoundException('Task not found'))
+                .mockRejectedValueOnce(
+                    new ForbiddenException('Only the task creator can delete')
+                )
+                .mockRejectedValueOnce(new Error('connection lost'));
+
+            const results = await service.push('user1', [
+                {
+                    id: 'conflict',
+                    type: SyncMutationType.UPDATE,
+                    taskId: '507f1f77bcf86cd799439012',
+                    baseVersion: 3,
+                    data: { title: 'Renamed offline' }
+                },
+                { id: 'invalid', type: SyncMutationType.CREATE, data: {} },
+                {
+                    id: 'gone',
+                    type: SyncMutationType.DELETE,
+                    taskId: '507f1f77bcf86cd799439013'
+                },
+                {
+                    id: 'forbidden',
+                    type: SyncMutationType.DELETE,
+                    taskId: '507f1f77bcf86cd799439014'
+                },
+                {
+                    id: 'failed',
+                    type: SyncMutationType.DELETE,
+                    taskId: '507f1f77bcf86cd799439015'
+                }
+            ]);
+
+            expect(results[0]).toEqual({
+                id: 'conflict',
+                status: SyncMutationStatus.CONFLICT,
+                current,
+                etag: '"4"',
+                error: 'The task was changed'
+            });
+            expect(results.slice(1).map((result) => result.status)).toEqual([
+                SyncMutationStatus.REJECTED,
+                SyncMutationStatus.NOT_FOUND,
+                SyncMutationStatus.REJECTED,
+                SyncMutationStatus.FAILED
+            ]);
+            expect(mockTaskService.create).not.toHaveBeenCalled();
+        });
+    });
+});
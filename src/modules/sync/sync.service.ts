@@ -0,0 +1,538 @@
+import {
+    BadRequestException,
+    ConflictException,
+    HttpException,
+    Injectable,
+    Logger,
+    NotFoundException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+    Prisma,
+    Project,
+    Task,
+    TaskFieldChange,
+    TeamRole
+} from '@prisma/client';
+import { isMongoId } from 'class-validator';
+import { PrismaService } from '../../core/services/prisma.service';
+import {
+    DEFAULT_TRASH_RETENTION_DAYS,
+    NOT_TRASHED
+} from '../../core/constants/trash.constants';
+import {
+    SYNC_CLAIM_TIMEOUT_MS,
+    SYNC_CURSOR_OVERLAP_MS,
+    SYNC_PAGE_SIZE,
+    SyncMutationStatus,
+    SyncMutationType
+} from '../../core/constants/sync.constants';
+import { toValidDto } from '../../core/utils/validation';
+import {
+    SortKey,
+    cursorFilter,
+    cursorOrderBy,
+    encodeCursor
+} from '../../core/utils/pagination';
+import { TaskService } from '../task/task.service';
+import { CreateTaskDto, UpdateTaskDto } from '../task/dto/task.dto';
+import { SyncMutationDto, SyncPullQueryDto } from './dto/sync.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tasks are paged in the order they changed, so a task changed while paging comes again on a later page
+const TASK_SORT: SortKey[] = [{ field: 'updatedAt', order: 'asc' }];
+
+interface SyncPage {
+    // Cursor of the first page, so that what changes while paging is pulled next time
+    cursor: string;
+    // Position of the last task sent
+    after: string;
+}
+
+const encodePage = (page: SyncPage): string =>
+    Buffer.from(JSON.stringify(page)).toString('base64url');
+
+const decodePage = (page: string): SyncPage => {
+    let decoded: Partial<SyncPage>;
+    try {
+        decoded = JSON.parse(Buffer.from(page, 'base64url').toString());
+    } catch {
+        throw new BadRequestException('Invalid page');
+    }
+
+    if (
+        !decoded ||
+        typeof decoded.cursor !== 'string' ||
+        typeof decoded.after !== 'string'
+    ) {
+        throw new BadRequestException('Invalid page');
+    }
+    return decoded as SyncPage;
+};
+
+export interface SyncTeam {
+    id: string;
+    name: string;
+    description: string | null;
+    role: TeamRole;
+    joinedAt: Date;
+}
+
+export interface SyncChanges {
+    // Send it as `since` on the next pull
+    cursor: string;
+    // The changes are a full download: replace the local data instead of merging
+    reset: boolean;
+    // Every team the user belongs to; drop the others
+    teams: SyncTeam[];
+    // Every project the user can sync; drop the others
+    projectIds: string[];
+    projects: Project[];
+    tasks: Task[];
+    // Tasks moved to the trash since the cursor, or that the user can no longer see
+    deletedTaskIds: string[];
+    // Set when more tasks are to be pulled: pull again with the same `since` and this as `page`
+    nextPage: string | null;
+}
+
+export interface SyncMutationResult {
+    id: string;
+    status: SyncMutationStatus;
+    task?: Task;
+    // On conflict, the task as it is now and its ETag
+    current?: unknown;
+    etag?: string;
+    error?: string;
+}
+
+@Injectable()
+export class SyncService {
+    private readonly logger = new Logger(SyncService.name);
+
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly configService: ConfigService,
+        private readonly taskService: TaskService
+    ) {}
+
+    /**
+     * Get what changed for a user since a cursor: their teams, the projects and tasks created
+     * or changed, and tombstones for the tasks moved to the trash or out of the user's reach.
+     * Projects and tasks of teams joined since the cursor are sent whole.
+     * Without a cursor, or with one older than the trash retention (tombstones would be missing),
+     * everything is sent and `reset` is set.
+     * Tasks come SYNC_PAGE_SIZE at a time; the pages after the first only hold tasks, teams and project IDs
+     * @throws BadRequestException if the page is invalid
+     */
+    async pull(
+        userId: string,
+        { since, page }: SyncPullQueryDto,
+        now = new Date()
+    ): Promise<SyncChanges> {
+        const retentionDays = Number(
+            this.configService.get(
+                'TRASH_RETENTION_DAYS',
+                DEFAULT_TRASH_RETENTION_DAYS
+            )
+        );
+        const sinceDate = since ? new Date(since) : null;
+        const reset =
+            !sinceDate ||
+            sinceDate.getTime() < now.getTime() - retentionDays * DAY_MS;
+        const current = page ? decodePage(page) : null;
+        const cursor =
+            current?.cursor ??
+            new Date(now.getTime() - SYNC_CURSOR_OVERLAP_MS).toISOString();
+
+        const memberships = await this.prismaService.teamMember.findMany({
+            where: { userId },
+            include: {
+                team: { select: { id: true, name: true, description: true } }
+            },
+            orderBy: { joinedAt: 'asc' }
+        });
+        const teamIds = memberships.map((membership) => membership.teamId);
+        const joinedTeamIds = memberships
+            .filter((membership) => !reset && membership.joinedAt >= sinceDate)
+            .map((membership) => membership.teamId);
+
+        const projects = await this.prismaService.project.findMany({
+            where: {
+                ...NOT_TRASHED,
+                OR: [{ ownerId: userId }, { teamId: { in: teamIds } }]
+            },
+            orderBy: { createdAt: 'asc' }
+        });
+        const isJoined = (project: Project) =>
+            !!project.teamId && joinedTeamIds.includes(project.teamId);
+
+        const teamProjectIds = projects
+            .filter(
+                (project) =>
+                    !!project.teamId && teamIds.includes(project.teamId)
+            )
+            .map((project) => project.id);
+        // Same rule as TaskAccessService.canAccess: creator, assignees and the project's team
+        const taskScope: Prisma.TaskWhereInput = {
+            OR: [
+                { userId },
+                { assigneeIds: { has: userId } },
+                { projectId: { in: teamProjectIds } }
+            ]
+        };
+
+        const tasks = await this.prismaService.task.findMany({
+            where: {
+                AND: [
+                    NOT_TRASHED,
+                    taskScope,
+                    ...(current
+                        ? [cursorFilter(TASK_SORT, current.after)]
+                        : []),
+                    ...(reset
+                        ? []
+                        : [
+                              {
+                                  OR: [
+                                      { updatedAt: { gte: sinceDate } },
+                                      {
+                                          projectId: {
+                                              in: projects
+                                                  .filter(isJoined)
+                                                  .map((project) => project.id)
+                                          }
+                                      }
+                                  ]
+                              }
+                          ])
+                ]
+            },
+            orderBy: cursorOrderBy(TASK_SORT),
+            // One more task tells whether there is a next page
+            take: SYNC_PAGE_SIZE + 1
+        });
+        const pageTasks = tasks.slice(0, SYNC_PAGE_SIZE);
+
+        const deletedTaskIds =
+            reset || current
+                ? []
+                : await this.findDeletedTaskIds(
+                      userId,
+                      taskScope,
+                      teamProjectIds,
+                      sinceDate
+                  );
+
+        return {
+            cursor,
+            reset,
+            teams: memberships.map((membership) => ({
+                id: membership.team.id,
+                name: membership.team.name,
+                description: membership.team.description,
+                role: membership.role,
+                joinedAt: membership.joinedAt
+            })),
+            projectIds: projects.map((project) => project.id),
+            projects: current
+                ? []
+                : projects.filter(
+                      (project) =>
+                          reset ||
+                          isJoined(project) ||
+                          (!!project.updatedAt &&
+                              project.updatedAt >= sinceDate)
+                  ),
+            tasks: pageTasks,
+            deletedTaskIds,
+            nextPage:
+                tasks.length > SYNC_PAGE_SIZE
+                    ? encodePage({
+                          cursor,
+                          after: encodeCursor(
+                              TASK_SORT,
+                              pageTasks[pageTasks.length - 1]
+                          )
+                      })
+                    : null
+        };
+    }
+
+    /**
+     * Get the tombstones since a date: the tasks moved to the trash, and those the user no longer sees
+     * after being unassigned or the task moving out of their teams' projects.
+     * Tasks of teams the user left are not included, clients drop them with the team's projects
+     */
+    private async findDeletedTaskIds(
+        userId: string,
+        taskScope: Prisma.TaskWhereInput,
+        teamProjectIds: string[],
+        since: Date
+    ): Promise<string[]> {
+        const [trashed, activities] = await Promise.all([
+            this.prismaService.task.findMany({
+                where: { AND: [taskScope, { deletedAt: { gte: since } }] },
+                select: { id: true }
+            }),
+            this.prismaService.taskActivity.findMany({
+                where: {
+                    createdAt: { gte: since },
+                    changes: {
+                        some: { field: { in: ['assigneeIds', 'projectId'] } }
+                    }
+                },
+                select: { taskId: true, changes: true }
+            })
+        ]);
+
+        // Changes that took a task the user could see away from them, unless it is still in reach another way
+        const tookAway = (change: TaskFieldChange) =>
+            (change.field === 'assigneeIds' &&
+                Array.isArray(change.oldValue) &&
+                change.oldValue.includes(userId)) ||
+            (change.field === 'projectId' &&
+                teamProjectIds.includes(change.oldValue as string));
+        const leftIds = [
+            ...new Set(
+                activities
+                    .filter((activity) => activity.changes.some(tookAway))
+                    .map((activity) => activity.taskId)
+            )
+        ];
+        const left = leftIds.length
+            ? await this.prismaService.task.findMany({
+                  where: {
+                      AND: [
+                          { id: { in: leftIds } },
+                          NOT_TRASHED,
+                          { NOT: taskScope }
+                      ]
+                  },
+                  select: { id: true }
+              })
+            : [];
+
+        return [...trashed, ...left].map((task) => task.id);
+    }
+
+    /**
+     * Apply task mutations made offline, in order, each with its own result.
+     * A failing mutation does not stop the next ones
+     */
+    async push(
+        userId: string,
+        mutations: SyncMutationDto[]
+    ): Promise<SyncMutationResult[]> {
+        // Tasks created by the batch, by mutation ID, for the mutations that follow
+        const createdTaskIds = new Map<string, string>();
+        const results: SyncMutationResult[] = [];
+
+        for (const mutation of mutations) {
+            results.push(await this.apply(userId, mutation, createdTaskIds));
+        }
+
+        return results;
+    }
+
+    private async apply(
+        userId: string,
+        mutation: SyncMutationDto,
+        createdTaskIds: Map<string, string>
+    ): Promise<SyncMutationResult> {
+        const { id, type, baseVersion } = mutation;
+
+        try {
+            if (type === SyncMutationType.CREATE) {
+                return await this.applyCreate(userId, mutation, createdTaskIds);
+            }
+
+            const taskId =
+                createdTaskIds.get(mutation.taskId) ?? mutation.taskId;
+            if (!isMongoId(taskId)) {
+                throw new NotFoundException('Task not found');
+            }
+
+            const task =
+                type === SyncMutationType.UPDATE
+                    ? await this.taskService.update(
+                          userId,
+                          taskId,
+                          await toValidDto(UpdateTaskDto, mutation.data),
+                          baseVersion
+                      )
+                    : await this.taskService.remove(
+                          userId,
+                          taskId,
+                          baseVersion
+                      );
+            return { id, status: SyncMutationStatus.APPLIED, task };
+        } catch (error) {
+            return this.toFailedResult(id, error);
+        }
+    }
+
+    /**
+     * Create the task of a CREATE mutation once per mutation ID: pushing it again,
+     * e.g. after the response was lost, returns the result of the first push
+     */
+    private async applyCreate(
+        userId: string,
+        mutation: SyncMutationDto,
+        createdTaskIds: Map<string, string>
+    ): Promise<SyncMutationResult> {
+        const { id } = mutation;
+        const createTaskDto = await toValidDto(CreateTaskDto, mutation.data);
+        const where = {
+            userId_mutationId: { userId, mutationId: id }
+        };
+
+        if (!(await this.claim(userId, id))) {
+            const applied = await this.prismaService.syncMutation.findUnique({
+                where
+            });
+            if (applied?.taskId) {
+                createdTaskIds.set(id, applied.taskId);
+                return applied.result as unknown as SyncMutationResult;
+            }
+
+            // The push that claimed the mutation may have created the task without recording it
+            const created = await this.prismaService.task.findFirst({
+                where: { userId, syncMutationId: id },
+                select: { id: true }
+            });
+            if (created) {
+                return this.recordCreated(
+                    userId,
+                    id,
+                    await this.taskService.findOne(userId, created.id),
+                    createdTaskIds
+                );
+            }
+
+            if (!(await this.reclaim(userId, id))) {
+                return {
+                    id,
+                    status: SyncMutationStatus.FAILED,
+                    error: 'The mutation is being applied by another push; retry it later'
+                };
+            }
+        }
+
+        let task: Task;
+        try {
+            task = await this.taskService.create(userId, createTaskDto, {
+                syncMutationId: id
+            });
+        } catch (error) {
+            // Nothing was created, so the mutation can be pushed again
+            await this.prismaService.syncMutation.delete({ where });
+            throw error;
+        }
+
+        return this.recordCreated(userId, id, task, createdTaskIds);
+    }
+
+    private async recordCreated(
+        userId: string,
+        mutationId: string,
+        task: Task,
+        createdTaskIds: Map<string, string>
+    ): Promise<SyncMutationResult> {
+        const result = {
+            id: mutationId,
+            status: SyncMutationStatus.APPLIED,
+            task
+        };
+        await this.prismaService.syncMutation.update({
+            where: { userId_mutationId: { userId, mutationId } },
+            data: {
+                taskId: task.id,
+                result: JSON.parse(JSON.stringify(result))
+            }
+        });
+        createdTaskIds.set(mutationId, task.id);
+        return result;
+    }
+
+    // Whether this push is the first to apply the mutation
+    private async claim(userId: string, mutationId: string): Promise<boolean> {
+        try {
+            await this.prismaService.syncMutation.create({
+                data: { userId, mutationId }
+            });
+            return true;
+        } catch (error) {
+            if (
+                error instanceof Prisma.PrismaClientKnownRequestError &&
+                error.code === 'P2002'
+            ) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    // Take over a claim abandoned without a task; only one push can, as the claim is renewed
+    private async reclaim(
+        userId: string,
+        mutationId: string
+    ): Promise<boolean> {
+        const now = Date.now();
+        const { count } = await this.prismaService.syncMutation.updateMany({
+            where: {
+                userId,
+                mutationId,
+                taskId: { isSet: false },
+                claimedAt: { lt: new Date(now - SYNC_CLAIM_TIMEOUT_MS) }
+            },
+            data: { claimedAt: new Date(now) }
+        });
+        return count === 1;
+    }
+
+    private toFailedResult(id: string, error: unknown): SyncMutationResult {
+        if (error instanceof ConflictException) {
+            const body = error.getResponse();
+            // Version conflicts carry the current task; other conflicts (e.g. a blocked task) are refusals
+            if (typeof body === 'object' && 'current' in body) {
+                const { current, etag } = body as {
+                    current: unknown;
+                    etag: string;
+                };
+                return {
+                    id,
+                    status: SyncMutationStatus.CONFLICT,
+                    current,
+                    etag,
+                    error: error.message
+                };
+            }
+        }
+
+        if (error instanceof NotFoundException) {
+            return {
+                id,
+                status: SyncMutationStatus.NOT_FOUND,
+                error: error.message
+            };
+        }
+
+        if (error instanceof HttpException) {
+            return {
+                id,
+                status: SyncMutationStatus.REJECTED,
+                error: error.message
+            };
+        }
+
+        this.logger.error(
+            `Sync mutation ${id} failed: ${error instanceof Error ? error.message : error}`
+        );
+        return {
+            id,
+            status: SyncMutationStatus.FAILED,
+            error: 'The mutation could not be applied; retry it later'
+        };
+    }
+}
@@ -1,14 +1,30 @@
-import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { IsMongoId, IsNotEmpty, IsOptional, IsString } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class ParseTaskDto {
     @IsString()
     @IsNotEmpty()
-    @ApiProperty({ description: 'Text to parse into a task', example: 'Tomorrow at 10am buy milk urgent' })
+    @ApiProperty({
+        description: 'Text to parse into a task',
+        example: 'Tomorrow at 10am buy milk urgent'
+    })
     input: string;
 
     @IsOptional()
     @IsString()
-    @ApiPropertyOptional({ description: 'Optional language code (ignored by server, kept for backward compatibility)', example: 'en' })
+    @ApiPropertyOptional({
+        description:
+            'Optional language code (ignored by server, kept for backward compatibility)',
+        example: 'en'
+    })
     lang?: string;
+
+    @IsOptional()
+    @IsMongoId()
+    @ApiPropertyOptional({
+        description:
+            "Project the task is for; the status is matched against the project's workflow states",
+        example: '507f1f77bcf86cd799439011'
+    })
+    projectId?: string;
 }
@@ -822,6 +822,44 @@ The status MUST be exactly one of: "To Do", "In Progress", "Done", "Cancelled".`
         }
     }
 
+    /**
+     * Interpret a task search in natural language as filters of GET /tasks.
+     * Errors are not mapped: the caller falls back to rule-based parsing
+     */
+    async interpretTaskSearch(
+        query: string,
+        context: { today: string; projects: string[]; labels: string[] }
+    ): Promise<Record<string, unknown>> {
+        const prompt = `Turn this task search into filters: "${query}"
+
+The search may be in English, French, Spanish, Portuguese or German. Today is ${context.today}.
+Projects: ${JSON.stringify(context.projects)}
+Labels: ${JSON.stringify(context.labels)}
+
+Return ONLY a JSON object (no explanation) with these optional fields, leaving out what the search does not ask for:
+{"status": "<TODO|IN_PROGRESS|DONE|CANCELLED>", "priority": "<LOW|MEDIUM|HIGH|URGENT>", "dueFrom": "<YYYY-MM-DD>", "dueUntil": "<YYYY-MM-DD>", "project": "<a project name from the list>", "labels": ["<label names from the list>"], "search": "<words to look for in titles and descriptions>"}
+
+Weeks start on Monday: "next week" is next Monday to Sunday. "overdue" means dueUntil yesterday.`;
+
+        const response = await this.client.chat.completions.create(
+            {
+                model: 'gpt-4o-mini',
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0
+            },
+            { timeout: 10000 }
+        );
+
+        const content = response.choices[0].message?.content
+            ?.replace(/```json|```/g, '')
+            .trim();
+        const parsed = JSON.parse(content || 'null');
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('The search was not interpreted as filters');
+        }
+        return parsed;
+    }
+
     // Test method to debug priority parsing - remove in production
     testPriorityNormalization(testValue: string) {
         this.logger.log(`Testing priority normalization for: "${testValue}"`);
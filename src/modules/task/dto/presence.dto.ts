@@ -0,0 +1,13 @@
+import { IsMongoId } from 'class-validator';
+
+// Socket message payloads; they are not part of the REST API
+
+export class ProjectChannelDto {
+    @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
+    projectId: string;
+}
+
+export class TaskChannelDto {
+    @IsMongoId({ message: 'Task ID must be a valid MongoDB ObjectId' })
+    taskId: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsString, MinLength, MaxLength } from 'class-validator';
+
+export class CreateTaskCommentDto {
+    @ApiProperty({
+        example: 'Looks good, @[Jane Doe] can you review the API part?',
+        description:
+            'Comment text; mention teammates with @name, @email or @[Full Name]'
+    })
+    @IsString({ message: 'Content must be a string' })
+    @Transform(({ value }) => value?.trim())
+    @MinLength(1, { message: 'Content cannot be empty' })
+    @MaxLength(5000, { message: 'Content cannot exceed 5000 characters' })
+    content: string;
+}
+
+export class UpdateTaskCommentDto extends CreateTaskCommentDto {}
@@ -1,4 +1,4 @@
-import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { ApiProperty, OmitType, PartialType, PickType } from '@nestjs/swagger';
 import { Transform, Type } from 'class-transformer';
 import {
     IsString,
@@ -9,8 +9,24 @@ import {
     MaxLength,
     IsArray,
     ArrayNotEmpty,
-    IsMongoId
+    ArrayMaxSize,
+    ArrayUnique,
+    IsMongoId,
+    IsBoolean,
+    IsIn,
+    IsInt,
+    Min,
+    Max,
+    Matches,
+    ValidateNested
 } from 'class-validator';
+import { WEEKDAYS } from '../../../core/utils/recurrence';
+import { SORT_ORDER_LIST } from '../../../core/utils/task-sort';
+import { RELATIVE_DUE_RANGE } from '../../../core/utils/relative-date';
+import {
+    MAX_REMINDER_OFFSET_MINUTES,
+    MAX_REMINDERS_PER_TASK
+} from '../../../core/constants/reminder.constants';
 
 export enum TaskStatus {
     TODO = 'TODO',
@@ -26,6 +42,93 @@ export enum TaskPriority {
     URGENT = 'URGENT'
 }
 
+export enum RecurrenceFrequency {
+    DAILY = 'DAILY',
+    WEEKLY = 'WEEKLY',
+    MONTHLY = 'MONTHLY',
+    YEARLY = 'YEARLY'
+}
+
+export class RecurrenceDto {
+    @ApiProperty({
+        example: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10',
+        description:
+            'RRULE subset (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT); takes precedence over the other fields',
+        required: false
+    })
+    @IsOptional()
+    @IsString({ message: 'rrule must be a string' })
+    rrule?: string;
+
+    @ApiProperty({
+        enum: RecurrenceFrequency,
+        example: RecurrenceFrequency.WEEKLY,
+        description: 'How often the task repeats (required without rrule)',
+        required: false
+    })
+    @IsOptional()
+    @IsEnum(RecurrenceFrequency, {
+        message: 'Frequency must be DAILY, WEEKLY, MONTHLY or YEARLY'
+    })
+    frequency?: RecurrenceFrequency;
+
+    @ApiProperty({
+        example: 1,
+        description: 'Repeat every N days/weeks/months/years (default: 1)',
+        required: false
+    })
+    @IsOptional()
+    @IsInt({ message: 'Interval must be an integer' })
+    @Min(1, { message: 'Interval must be at least 1' })
+    interval?: number;
+
+    @ApiProperty({
+        example: ['MO', 'TH'],
+        description: 'Weekdays for weekly rules (SU, MO, TU, WE, TH, FR, SA)',
+        required: false,
+        type: [String]
+    })
+    @IsOptional()
+    @IsArray({ message: 'byDay must be an array' })
+    @IsIn(WEEKDAYS, {
+        each: true,
+        message: 'Each day must be one of SU, MO, TU, WE, TH, FR, SA'
+    })
+    byDay?: string[];
+
+    @ApiProperty({
+        example: [1, -1],
+        description: 'Days of the month for monthly rules (-1 is the last day)',
+        required: false,
+        type: [Number]
+    })
+    @IsOptional()
+    @IsArray({ message: 'byMonthDay must be an array' })
+    @IsInt({ each: true, message: 'Each month day must be an integer' })
+    @Min(-31, { each: true, message: 'Month days range from -31 to 31' })
+    @Max(31, { each: true, message: 'Month days range from -31 to 31' })
+    byMonthDay?: number[];
+
+    @ApiProperty({
+        example: '2026-12-31T23:59:59.000Z',
+        description: 'Last date an occurrence may fall on',
+        required: false
+    })
+    @IsOptional()
+    @IsDateString({}, { message: 'Until must be a valid ISO date string' })
+    until?: string;
+
+    @ApiProperty({
+        example: 10,
+        description: 'Total number of occurrences',
+        required: false
+    })
+    @IsOptional()
+    @IsInt({ message: 'Count must be an integer' })
+    @Min(1, { message: 'Count must be at least 1' })
+    count?: number;
+}
+
 export class CreateTaskDto {
     @ApiProperty({
         example: 'Complete project documentation',
@@ -52,13 +155,24 @@ export class CreateTaskDto {
     @ApiProperty({
         enum: TaskStatus,
         example: TaskStatus.TODO,
-        description: 'Task status',
+        description:
+            "Task status; with a custom project workflow it is the category of the task's state",
         required: false
     })
     @IsOptional()
     @IsEnum(TaskStatus, { message: 'Status must be a valid task status' })
     status?: TaskStatus;
 
+    @ApiProperty({
+        example: 'in_review',
+        description:
+            "Key of a state of the project's workflow; sets the status to its category. With only a status, the task moves to the first state of that category",
+        required: false
+    })
+    @IsOptional()
+    @IsString({ message: 'Workflow state must be a string' })
+    workflowState?: string;
+
     @ApiProperty({
         enum: TaskPriority,
         example: TaskPriority.MEDIUM,
@@ -78,6 +192,51 @@ export class CreateTaskDto {
     @IsDateString({}, { message: 'Due date must be a valid ISO date string' })
     dueDate?: string;
 
+    @ApiProperty({
+        example: false,
+        description:
+            'Due on the day of dueDate rather than at its time; the date part of dueDate is kept as written',
+        required: false
+    })
+    @IsOptional()
+    @IsBoolean({ message: 'allDay must be a boolean' })
+    allDay?: boolean;
+
+    @ApiProperty({
+        example: 120,
+        description:
+            'Estimated effort in minutes, compared with the logged time. Send null on update to clear it',
+        required: false
+    })
+    @IsOptional()
+    @IsInt({ message: 'Estimate must be a whole number of minutes' })
+    @Min(1, { message: 'Estimate must be at least 1 minute' })
+    estimateMinutes?: number | null;
+
+    @ApiProperty({
+        example: [1440, 0],
+        description:
+            "Reminders in minutes before the due date (0 = at due time, up to a week). Defaults to the creator's reminder settings; send [] to turn them off",
+        required: false,
+        type: [Number]
+    })
+    @IsOptional()
+    @IsArray({ message: 'reminderOffsets must be an array' })
+    @ArrayMaxSize(MAX_REMINDERS_PER_TASK, {
+        message: `A task cannot have more than ${MAX_REMINDERS_PER_TASK} reminders`
+    })
+    @ArrayUnique({ message: 'Reminders must be different' })
+    @IsInt({
+        each: true,
+        message: 'Each reminder must be a whole number of minutes'
+    })
+    @Min(0, { each: true, message: 'Reminders cannot be after the due date' })
+    @Max(MAX_REMINDER_OFFSET_MINUTES, {
+        each: true,
+        message: 'Reminders cannot be more than a week before the due date'
+    })
+    reminderOffsets?: number[];
+
     @ApiProperty({
         example: '507f1f77bcf86cd799439011',
         description: 'Project ID (optional - assigns task to a project)',
@@ -87,9 +246,49 @@ export class CreateTaskDto {
     @IsString({ message: 'Project ID must be a string' })
     @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
     projectId?: string;
+
+    @ApiProperty({
+        example: ['507f1f77bcf86cd799439011', 'Write the API section'],
+        description:
+            'IDs or titles of tasks that must be finished first (e.g. from an AI suggestion); unknown references are ignored',
+        required: false,
+        type: [String]
+    })
+    @IsOptional()
+    @IsArray({ message: 'dependsOn must be an array' })
+    @IsString({ each: true, message: 'Each dependency must be a string' })
+    dependsOn?: string[];
+
+    @ApiProperty({
+        example: ['507f1f77bcf86cd799439011'],
+        description:
+            "Labels of the task: team labels for tasks in a team project, the creator's personal labels otherwise. Replaces the current labels on update",
+        required: false,
+        type: [String]
+    })
+    @IsOptional()
+    @IsArray({ message: 'labelIds must be an array' })
+    @IsMongoId({
+        each: true,
+        message: 'Each label ID must be a valid MongoDB ObjectId'
+    })
+    labelIds?: string[];
+
+    @ApiProperty({
+        type: RecurrenceDto,
+        description:
+            'Makes the task recurring; the next occurrence is created when this one is done or due. Send null on update to stop the series',
+        required: false
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => RecurrenceDto)
+    recurrence?: RecurrenceDto | null;
 }
 
-export class UpdateTaskDto extends PartialType(CreateTaskDto) {
+export class UpdateTaskDto extends PartialType(
+    OmitType(CreateTaskDto, ['dependsOn'] as const)
+) {
     // completed field removed - use status field instead
 }
 
@@ -140,6 +339,19 @@ export class QueryTaskDto {
     @IsDateString({}, { message: 'Due until must be a valid date' })
     dueUntil?: string;
 
+    @ApiProperty({
+        example: 'next 7 days',
+        description:
+            'Filter tasks due in a range relative to today, resolved when the query runs: today, tomorrow, yesterday, overdue, this/next/last week or month, next/last N days. Use instead of dueFrom/dueUntil',
+        required: false
+    })
+    @IsOptional()
+    @Matches(RELATIVE_DUE_RANGE, {
+        message:
+            'Due within must be a range such as today, overdue, this week or next 7 days'
+    })
+    dueWithin?: string;
+
     @ApiProperty({
         example: '507f1f77bcf86cd799439011',
         description: 'Filter tasks by project ID',
@@ -150,6 +362,64 @@ export class QueryTaskDto {
     @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
     projectId?: string;
 
+    @ApiProperty({
+        example: 'true',
+        description: 'Only return tasks assigned to the authenticated user',
+        required: false
+    })
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true')
+    @IsBoolean({ message: 'assignedToMe must be a boolean' })
+    assignedToMe?: boolean;
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: 'Filter tasks assigned to a specific user',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Assignee ID must be a valid MongoDB ObjectId' })
+    assigneeId?: string;
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011,507f1f77bcf86cd799439012',
+        description: 'Filter by label IDs (comma-separated or repeated)',
+        required: false,
+        type: [String]
+    })
+    @IsOptional()
+    @Transform(({ value }) =>
+        typeof value === 'string'
+            ? value.split(',').map((id) => id.trim())
+            : value
+    )
+    @IsArray({ message: 'labelIds must be an array' })
+    @IsMongoId({
+        each: true,
+        message: 'Each label ID must be a valid MongoDB ObjectId'
+    })
+    labelIds?: string[];
+
+    @ApiProperty({
+        enum: ['any', 'all'],
+        description:
+            'With several labelIds, match tasks carrying any of them (default) or all of them',
+        required: false
+    })
+    @IsOptional()
+    @IsIn(['any', 'all'], { message: 'labelMatch must be any or all' })
+    labelMatch?: 'any' | 'all' = 'any';
+
+    @ApiProperty({
+        example: 'in_review',
+        description:
+            "Filter by a state of the project's workflow (requires projectId)",
+        required: false
+    })
+    @IsOptional()
+    @IsString({ message: 'Workflow state must be a string' })
+    workflowState?: string;
+
     @ApiProperty({
         example: '1',
         description: 'Page number (default: 1)',
@@ -169,22 +439,53 @@ export class QueryTaskDto {
     limit?: number = 10;
 
     @ApiProperty({
-        example: 'createdAt',
-        description: 'Sort by field (createdAt, updatedAt, dueDate, priority)',
+        description:
+            'Opaque cursor from meta.nextCursor of the previous page; takes precedence over page. Keep the same filters and sort',
         required: false
     })
     @IsOptional()
     @IsString()
-    sortBy?: string = 'createdAt';
+    cursor?: string;
 
     @ApiProperty({
-        example: 'desc',
-        description: 'Sort order (asc, desc)',
+        example: 'priority,dueDate,createdAt',
+        description:
+            'Sort by field (createdAt, updatedAt, dueDate, priority), or by several comma-separated fields; priority sorts by severity',
         required: false
     })
     @IsOptional()
     @IsString()
-    sortOrder?: 'asc' | 'desc' = 'desc';
+    sortBy?: string = 'createdAt';
+
+    @ApiProperty({
+        example: 'desc,asc,desc',
+        description:
+            'Sort order (asc, desc), or one per sort field; the last one applies to the fields after it',
+        required: false
+    })
+    @IsOptional()
+    @Matches(SORT_ORDER_LIST, {
+        message:
+            'Sort order must be asc or desc, or a comma-separated list of them'
+    })
+    sortOrder?: string = 'desc';
+}
+
+export class SearchTaskDto extends PickType(QueryTaskDto, [
+    'page',
+    'limit',
+    'cursor'
+] as const) {
+    @ApiProperty({
+        example: 'high priority tasks due next week in Mobile App',
+        description:
+            'What to look for, in English, French, Spanish, Portuguese or German: status, priority, due dates, project and label names; quote words to search them in titles and descriptions'
+    })
+    @IsString({ message: 'Query must be a string' })
+    @Transform(({ value }) => value?.trim())
+    @MinLength(1, { message: 'Query cannot be empty' })
+    @MaxLength(300, { message: 'Query cannot exceed 300 characters' })
+    q: string;
 }
 
 export class BulkUpdateStatusDto {
@@ -206,3 +507,52 @@ export class BulkUpdateStatusDto {
     @IsEnum(TaskStatus, { message: 'Status must be a valid task status' })
     status: TaskStatus;
 }
+
+export class AssignTaskDto {
+    @ApiProperty({
+        example: ['507f1f77bcf86cd799439011'],
+        description: 'IDs of the users to assign to the task',
+        type: [String]
+    })
+    @IsArray({ message: 'userIds must be an array' })
+    @ArrayNotEmpty({ message: 'userIds cannot be empty' })
+    @IsMongoId({
+        each: true,
+        message: 'Each user ID must be a valid MongoDB ObjectId'
+    })
+    userIds: string[];
+}
+
+export class CreateChecklistItemDto {
+    @ApiProperty({
+        example: 'Write the API section',
+        description: 'Checklist item title'
+    })
+    @IsString({ message: 'Title must be a string' })
+    @MinLength(1, { message: 'Title cannot be empty' })
+    @MaxLength(200, { message: 'Title cannot exceed 200 characters' })
+    @Transform(({ value }) => value?.trim())
+    title: string;
+}
+
+export class UpdateChecklistItemDto extends PartialType(
+    CreateChecklistItemDto
+) {
+    @ApiProperty({
+        example: true,
+        description: 'Whether the checklist item is done',
+        required: false
+    })
+    @IsOptional()
+    @IsBoolean({ message: 'done must be a boolean' })
+    done?: boolean;
+}
+
+export class AddDependencyDto {
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: 'ID of the task that must be finished first'
+    })
+    @IsMongoId({ message: 'Task ID must be a valid MongoDB ObjectId' })
+    blockedByTaskId: string;
+}
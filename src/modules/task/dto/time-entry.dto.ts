@@ -0,0 +1,48 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    IsDateString,
+    IsInt,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min
+} from 'class-validator';
+
+export class StartTimerDto {
+    @ApiProperty({
+        example: 'Client call',
+        description: 'What the time is spent on',
+        required: false
+    })
+    @IsOptional()
+    @IsString({ message: 'Note must be a string' })
+    @MaxLength(500, { message: 'Note cannot exceed 500 characters' })
+    @Transform(({ value }) => value?.trim())
+    note?: string;
+}
+
+export class CreateTimeEntryDto extends StartTimerDto {
+    @ApiProperty({
+        example: 90,
+        description: 'Time spent, in minutes'
+    })
+    @Type(() => Number)
+    @IsInt({ message: 'Minutes must be a whole number' })
+    @Min(1, { message: 'Minutes must be at least 1' })
+    @Max(1440, { message: 'A single entry cannot exceed 24 hours' })
+    minutes: number;
+
+    @ApiProperty({
+        example: '2025-06-02T09:00:00.000Z',
+        description:
+            'When the work started; defaults to the given number of minutes before now',
+        required: false
+    })
+    @IsOptional()
+    @IsDateString({}, { message: 'startedAt must be a valid date' })
+    startedAt?: string;
+}
+
+export class UpdateTimeEntryDto extends PartialType(CreateTimeEntryDto) {}
@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    IsArray,
+    IsEnum,
+    IsOptional,
+    IsString,
+    Matches,
+    MaxLength,
+    MinLength,
+    ArrayMinSize,
+    ArrayMaxSize,
+    ValidateNested
+} from 'class-validator';
+import { TaskStatus } from './task.dto';
+
+export class WorkflowStateDto {
+    @ApiProperty({
+        example: 'in_review',
+        description:
+            'Stable identifier used by tasks and transitions (lowercase letters, digits, - and _)'
+    })
+    @Matches(/^[a-z0-9_-]{1,30}$/, {
+        message:
+            'State key must be 1 to 30 lowercase letters, digits, dashes or underscores'
+    })
+    key: string;
+
+    @ApiProperty({ example: 'In Review', description: 'Column name' })
+    @IsString({ message: 'State name must be a string' })
+    @MinLength(1, { message: 'State name cannot be empty' })
+    @MaxLength(50, { message: 'State name cannot exceed 50 characters' })
+    @Transform(({ value }) => value?.trim())
+    name: string;
+
+    @ApiProperty({
+        enum: TaskStatus,
+        example: TaskStatus.IN_PROGRESS,
+        description:
+            'Status category of the state: TODO, IN_PROGRESS (active), DONE or CANCELLED'
+    })
+    @IsEnum(TaskStatus, { message: 'Category must be a valid task status' })
+    category: TaskStatus;
+}
+
+export class WorkflowTransitionDto {
+    @ApiProperty({
+        example: 'in_progress',
+        description: 'State key to move from'
+    })
+    @IsString({ message: 'Transition source must be a state key' })
+    from: string;
+
+    @ApiProperty({ example: 'in_review', description: 'State key to move to' })
+    @IsString({ message: 'Transition target must be a state key' })
+    to: string;
+}
+
+export class UpdateWorkflowDto {
+    @ApiProperty({
+        type: [WorkflowStateDto],
+        description:
+            'States in board order; every category needs at least one state, and new tasks start in the first TODO state'
+    })
+    @IsArray({ message: 'states must be an array' })
+    @ArrayMinSize(4, { message: 'A workflow needs a state for each category' })
+    @ArrayMaxSize(20, { message: 'A workflow cannot have more than 20 states' })
+    @ValidateNested({ each: true })
+    @Type(() => WorkflowStateDto)
+    states: WorkflowStateDto[];
+
+    @ApiProperty({
+        type: [WorkflowTransitionDto],
+        description:
+            'Allowed moves between states; leave empty to allow any move',
+        required: false
+    })
+    @IsOptional()
+    @IsArray({ message: 'transitions must be an array' })
+    @ValidateNested({ each: true })
+    @Type(() => WorkflowTransitionDto)
+    transitions?: WorkflowTransitionDto[];
+}
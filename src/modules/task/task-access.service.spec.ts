@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { TaskAccessService } from './task-access.service';
+import { TeamAccessService } from '../team/team-access.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('TaskAccessService', () => {
+    let service: TaskAccessService;
+
+    const mockPrismaService = {
+        task: {
+            findFirst: jest.fn()
+        }
+    };
+
+    const mockTeamAccessService = {
+        isMember: jest.fn(),
+        getTeamIdFromProject: jest.fn()
+    };
+
+    const baseTask = {
+        id: 'task1',
+        userId: 'creator',
+        assigneeIds: ['assignee'],
+        projectId: null,
+        project: null
+    } as any;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskAccessService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TeamAccessService,
+                    useValue: mockTeamAccessService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskAccessService>(TaskAccessService);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('canAccess', () => {
+        it('should return true for the task creator', async () => {
+            const result = await service.canAccess('creator', baseTask);
+            expect(result).toBe(true);
+            expect(mockTeamAccessService.isMember).not.toHaveBeenCalled();
+        });
+
+        it('should return true for an assignee', async () => {
+            const result = await service.canAccess('assignee', baseTask);
+            expect(result).toBe(true);
+        });
+
+        it('should return false for other users on a personal task', async () => {
+            const result = await service.canAccess('stranger', baseTask);
+            expect(result).toBe(false);
+        });
+
+        it('should check team membership for team project tasks', async () => {
+            mockTeamAccessService.isMember.mockResolvedValue(true);
+
+            const result = await service.canAccess('teammate', {
+                ...baseTask,
+                projectId: 'project1',
+                project: { teamId: 'team1' }
+            });
+
+            expect(result).toBe(true);
+            expect(mockTeamAccessService.isMember).toHaveBeenCalledWith(
+                'teammate',
+                'team1'
+            );
+        });
+    });
+
+    describe('getAccessibleTask', () => {
+        it('should throw NotFoundException when task does not exist', async () => {
+            mockPrismaService.task.findFirst.mockResolvedValue(null);
+
+            await expect(
+                service.getAccessibleTask('creator', 'task1')
+            ).rejects.toThrow(NotFoundException);
+        });
+
+        it('should throw NotFoundException when user has no access', async () => {
+            mockPrismaService.task.findFirst.mockResolvedValue(baseTask);
+
+            await expect(
+                service.getAccessibleTask('stranger', 'task1')
+            ).rejects.toThrow(NotFoundException);
+        });
+
+        it('should return the task when user has access', async () => {
+            mockPrismaService.task.findFirst.mockResolvedValue(baseTask);
+
+            const result = await service.getAccessibleTask('assignee', 'task1');
+            expect(result).toBe(baseTask);
+        });
+    });
+
+    describe('getAudienceRooms', () => {
+        it('should reach creators, assignees and project teams once each', async () => {
+            const rooms = await service.getAudienceRooms([
+                {
+                    ...baseTask,
+                    projectId: 'project1',
+                    project: { teamId: 'team1' }
+                },
+                { ...baseTask, id: 'task2', assigneeIds: ['assignee', 'other'] }
+            ]);
+
+            expect(rooms).toEqual([
+                'user:creator',
+                'user:assignee',
+                'team:team1',
+                'user:other'
+            ]);
+        });
+    });
+});
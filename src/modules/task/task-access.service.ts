@@ -0,0 +1,183 @@
+import {
+    ForbiddenException,
+    Injectable,
+    NotFoundException
+} from '@nestjs/common';
+import { Task } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { TeamAccessService } from '../team/team-access.service';
+import { teamRoom, userRoom } from './tasks.gateway';
+
+export type TaskWithProjectTeam = Task & {
+    project?: { teamId: string | null } | null;
+};
+
+@Injectable()
+export class TaskAccessService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly teamAccessService: TeamAccessService
+    ) {}
+
+    /**
+     * Check if a user can see and work on a task
+     * The creator, any assignee and every member of the project's team have access
+     * @param userId - The user ID to check
+     * @param task - The task, including its project's teamId when it belongs to a project
+     * @returns true if the user has access, false otherwise
+     */
+    async canAccess(
+        userId: string,
+        task: TaskWithProjectTeam
+    ): Promise<boolean> {
+        if (task.userId === userId) {
+            return true;
+        }
+
+        if (task.assigneeIds?.includes(userId)) {
+            return true;
+        }
+
+        const teamId = await this.getTeamId(task);
+        if (!teamId) {
+            return false;
+        }
+
+        return this.teamAccessService.isMember(userId, teamId);
+    }
+
+    /**
+     * Assert that a user can see and work on a task
+     * @param userId - The user ID to check
+     * @param task - The task, including its project's teamId when it belongs to a project
+     * @throws NotFoundException if the user has no access (the task is not disclosed)
+     */
+    async assertCanAccess(
+        userId: string,
+        task: TaskWithProjectTeam
+    ): Promise<void> {
+        if (!(await this.canAccess(userId, task))) {
+            throw new NotFoundException('Task not found');
+        }
+    }
+
+    /**
+     * Assert that a user can move a task to the trash or restore it
+     * Only the creator or an owner of the project's team can; assignees can only work on it
+     * @param userId - The user ID to check
+     * @param task - The task, including its project's teamId when it belongs to a project
+     * @throws ForbiddenException if the user is neither
+     */
+    async assertCanDelete(
+        userId: string,
+        task: TaskWithProjectTeam
+    ): Promise<void> {
+        if (task.userId === userId) {
+            return;
+        }
+
+        const teamId = await this.getTeamId(task);
+        if (
+            !teamId ||
+            !(await this.teamAccessService.isAdmin(userId, teamId))
+        ) {
+            throw new ForbiddenException(
+                'Only the task creator or a team owner can delete or restore this task'
+            );
+        }
+    }
+
+    /**
+     * Load a task by ID and check that the user can access it
+     * @param userId - The user ID to check
+     * @param taskId - The task ID to load
+     * @returns The task with its project's teamId
+     * @throws NotFoundException if the task does not exist, is in the trash or is not accessible
+     */
+    async getAccessibleTask(
+        userId: string,
+        taskId: string
+    ): Promise<TaskWithProjectTeam> {
+        const task = await this.prismaService.task.findFirst({
+            where: { id: taskId, ...NOT_TRASHED },
+            include: {
+                project: {
+                    select: { teamId: true }
+                }
+            }
+        });
+
+        if (!task) {
+            throw new NotFoundException('Task not found');
+        }
+
+        await this.assertCanAccess(userId, task);
+
+        return task;
+    }
+
+    /**
+     * List the users who can see a task
+     * @param task - The task, optionally including its project's teamId
+     * @returns The IDs of the creator, the assignees and the project's team members
+     */
+    async getAudienceIds(task: TaskWithProjectTeam): Promise<string[]> {
+        const teamId = await this.getTeamId(task);
+        const members = teamId
+            ? await this.prismaService.teamMember.findMany({
+                  where: { teamId },
+                  select: { userId: true }
+              })
+            : [];
+
+        return [
+            ...new Set([
+                task.userId,
+                ...(task.assigneeIds ?? []),
+                ...members.map((member) => member.userId)
+            ])
+        ];
+    }
+
+    /**
+     * List the socket rooms an event about tasks should reach
+     * Team members are reached through their team's room, so a project room is not needed
+     * @param tasks - The tasks, optionally including their project's teamId
+     * @returns The rooms of the creators and assignees and of the projects' teams
+     */
+    async getAudienceRooms(tasks: TaskWithProjectTeam[]): Promise<string[]> {
+        const rooms = new Set<string>();
+
+        for (const task of tasks) {
+            rooms.add(userRoom(task.userId));
+            (task.assigneeIds ?? []).forEach((id) => rooms.add(userRoom(id)));
+
+            const teamId = await this.getTeamId(task);
+            if (teamId) {
+                rooms.add(teamRoom(teamId));
+            }
+        }
+
+        return [...rooms];
+    }
+
+    /**
+     * Get the team ID a task belongs to through its project
+     * @param task - The task, optionally including its project's teamId
+     * @returns The team ID or null for personal tasks
+     */
+    async getTeamId(
+        task: Pick<TaskWithProjectTeam, 'projectId' | 'project'>
+    ): Promise<string | null> {
+        if (!task.projectId) {
+            return null;
+        }
+
+        if (task.project !== undefined) {
+            return task.project?.teamId ?? null;
+        }
+
+        return this.teamAccessService.getTeamIdFromProject(task.projectId);
+    }
+}
@@ -0,0 +1,124 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    Request
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam
+} from '@nestjs/swagger';
+import { TaskComment } from '@prisma/client';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import {
+    CursorPaginationDto,
+    PaginatedResponseDto
+} from '../../core/common/dto/pagination.dto';
+import { TaskCommentService } from './task-comment.service';
+import {
+    CreateTaskCommentDto,
+    UpdateTaskCommentDto
+} from './dto/task-comment.dto';
+
+@ApiTags('Task Comments')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('tasks/:id/comments')
+export class TaskCommentController {
+    constructor(private readonly taskCommentService: TaskCommentService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'List task comments',
+        description:
+            'Retrieves the comments of a task, oldest first. Page with page and limit, or with the cursor from meta.nextCursor'
+    })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiResponse({
+        status: 200,
+        description: 'Comments retrieved successfully'
+    })
+    @ApiResponse({ status: 400, description: 'Invalid cursor' })
+    @ApiResponse({ status: 404, description: 'Task not found' })
+    findAll(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Query() paginationDto: CursorPaginationDto
+    ): Promise<PaginatedResponseDto<TaskComment>> {
+        const { page = 1, limit = 5, cursor } = paginationDto;
+        return this.taskCommentService.findAll(
+            req.user.sub,
+            taskId,
+            page,
+            limit,
+            cursor
+        );
+    }
+
+    @Post()
+    @ApiOperation({
+        summary: 'Comment on a task',
+        description:
+            'Adds a comment; @mentions are resolved against the people who can see the task'
+    })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiResponse({ status: 201, description: 'Comment created successfully' })
+    @ApiResponse({ status: 400, description: 'Invalid comment' })
+    @ApiResponse({ status: 404, description: 'Task not found' })
+    create(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Body() createCommentDto: CreateTaskCommentDto
+    ): Promise<TaskComment> {
+        return this.taskCommentService.create(
+            req.user.sub,
+            taskId,
+            createCommentDto
+        );
+    }
+
+    @Patch(':commentId')
+    @ApiOperation({ summary: 'Edit a comment (author only)' })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiParam({ name: 'commentId', description: 'Comment ID' })
+    @ApiResponse({ status: 200, description: 'Comment updated successfully' })
+    @ApiResponse({ status: 403, description: 'Only the author can edit' })
+    @ApiResponse({ status: 404, description: 'Task or comment not found' })
+    update(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Param('commentId') commentId: string,
+        @Body() updateCommentDto: UpdateTaskCommentDto
+    ): Promise<TaskComment> {
+        return this.taskCommentService.update(
+            req.user.sub,
+            taskId,
+            commentId,
+            updateCommentDto
+        );
+    }
+
+    @Delete(':commentId')
+    @ApiOperation({ summary: 'Delete a comment (author only)' })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiParam({ name: 'commentId', description: 'Comment ID' })
+    @ApiResponse({ status: 200, description: 'Comment deleted successfully' })
+    @ApiResponse({ status: 403, description: 'Only the author can delete' })
+    @ApiResponse({ status: 404, description: 'Task or comment not found' })
+    remove(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Param('commentId') commentId: string
+    ): Promise<TaskComment> {
+        return this.taskCommentService.remove(req.user.sub, taskId, commentId);
+    }
+}
@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { resolveMentions, TaskCommentService } from './task-comment.service';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import { NotificationService } from '../notification/notification.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('resolveMentions', () => {
+    const candidates = [
+        { id: 'u1', name: 'Jane Doe', email: 'jane.doe@example.com' },
+        { id: 'u2', name: 'John Smith', email: 'jsmith@example.com' },
+        { id: 'u3', name: 'John Appleseed', email: 'apple@example.com' }
+    ];
+
+    it('should resolve email, local part, full name and bracket mentions', () => {
+        expect(
+            resolveMentions('@jane.doe@example.com please check', candidates)
+        ).toEqual(['u1']);
+        expect(resolveMentions('ping @jsmith.', candidates)).toEqual(['u2']);
+        expect(resolveMentions('cc @JohnAppleseed', candidates)).toEqual([
+            'u3'
+        ]);
+        expect(resolveMentions('thanks @[Jane Doe]!', candidates)).toEqual([
+            'u1'
+        ]);
+    });
+
+    it('should only resolve first names that are unambiguous', () => {
+        expect(resolveMentions('@jane and @john', candidates)).toEqual(['u1']);
+    });
+
+    it('should ignore emails in plain text and unknown mentions', () => {
+        expect(
+            resolveMentions('mail jane.doe@example.com or @nobody', candidates)
+        ).toEqual([]);
+    });
+
+    it('should not return duplicates', () => {
+        expect(resolveMentions('@jane @[Jane Doe]', candidates)).toEqual([
+            'u1'
+        ]);
+    });
+});
+
+describe('TaskCommentService', () => {
+    let service: TaskCommentService;
+
+    const mockPrismaService = {
+        taskComment: {
+            findFirst: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn()
+        },
+        user: {
+            findMany: jest.fn()
+        }
+    };
+
+    const mockTaskAccessService = {
+        getAccessibleTask: jest.fn(),
+        getAudienceIds: jest.fn()
+    };
+
+    const mockTasksGateway = {
+        emitToUsers: jest.fn()
+    };
+
+    const mockNotificationService = {
+        notify: jest.fn()
+    };
+
+    const task = {
+        id: 'task1',
+        title: 'Write docs',
+        userId: 'author',
+        assigneeIds: ['teammate', 'assignee']
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskCommentService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TaskAccessService,
+                    useValue: mockTaskAccessService
+                },
+                {
+                    provide: TasksGateway,
+                    useValue: mockTasksGateway
+                },
+                {
+                    provide: NotificationService,
+                    useValue: mockNotificationService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskCommentService>(TaskCommentService);
+        mockTaskAccessService.getAccessibleTask.mockResolvedValue(task);
+        mockTaskAccessService.getAudienceIds.mockResolvedValue([
+            'author',
+            'teammate'
+        ]);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('create', () => {
+        it('should store resolved mentions and notify the task audience', async () => {
+            mockPrismaService.user.findMany.mockResolvedValue([
+                { id: 'teammate', name: 'Team Mate', email: 'mate@example.com' }
+            ]);
+            const comment = {
+                id: 'c1',
+                content: 'hi @mate',
+                mentionedUserIds: ['teammate']
+            };
+            mockPrismaService.taskComment.create.mockResolvedValue(comment);
+
+            const result = await service.create('author', 'task1', {
+                content: 'hi @mate'
+            });
+
+            expect(result).toBe(comment);
+            expect(mockPrismaService.taskComment.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: {
+                        content: 'hi @mate',
+                        mentionedUserIds: ['teammate'],
+                        taskId: 'task1',
+                        authorId: 'author'
+                    }
+                })
+            );
+            expect(mockTasksGateway.emitToUsers).toHaveBeenCalledWith(
+                ['author', 'teammate'],
+                'commentAdded',
+                comment
+            );
+        });
+
+        it('should notify mentioned users once and the other participants of the comment', async () => {
+            mockPrismaService.user.findMany.mockResolvedValue([
+                { id: 'teammate', name: 'Team Mate', email: 'mate@example.com' }
+            ]);
+            mockPrismaService.taskComment.create.mockResolvedValue({
+                id: 'c1',
+                content: 'hi @mate',
+                mentionedUserIds: ['teammate']
+            });
+
+            await service.create('author', 'task1', { content: 'hi @mate' });
+
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['teammate'],
+                expect.objectContaining({
+                    type: 'TASK_MENTIONED',
+                    actorId: 'author',
+                    taskId: 'task1'
+                })
+            );
+            // The author is filtered out by the notification service
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['author', 'assignee'],
+                expect.objectContaining({
+                    type: 'TASK_COMMENTED',
+                    message: 'commented on "Write docs"'
+                })
+            );
+        });
+    });
+
+    describe('update', () => {
+        it('should throw NotFoundException for a comment of another task', async () => {
+            mockPrismaService.taskComment.findFirst.mockResolvedValue(null);
+
+            await expect(
+                service.update('author', 'task1', 'c1', { content: 'edit' })
+            ).rejects.toThrow(NotFoundException);
+        });
+
+        it('should throw ForbiddenException when the user is not the author', async () => {
+            mockPrismaService.taskComment.findFirst.mockResolvedValue({
+                id: 'c1',
+                taskId: 'task1',
+                authorId: 'author'
+            });
+
+            await expect(
+                service.update('teammate', 'task1', 'c1', { content: 'edit' })
+            ).rejects.toThrow(ForbiddenException);
+            expect(mockPrismaService.taskComment.update).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,279 @@
+import {
+    ForbiddenException,
+    Injectable,
+    NotFoundException
+} from '@nestjs/common';
+import { NotificationType, Prisma, Task, TaskComment } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+import { paginate } from '../../core/utils/pagination';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import { NotificationService } from '../notification/notification.service';
+import {
+    CreateTaskCommentDto,
+    UpdateTaskCommentDto
+} from './dto/task-comment.dto';
+
+const commentInclude = {
+    author: {
+        select: {
+            id: true,
+            name: true,
+            email: true,
+            profilePicture: true
+        }
+    }
+} satisfies Prisma.TaskCommentInclude;
+
+export interface MentionCandidate {
+    id: string;
+    name: string;
+    email: string;
+}
+
+// @[Full Name], or @token where token may be a name, an email or its local part
+const MENTION_PATTERN =
+    /(?<![\p{L}\p{N}._%+-])@(?:\[([^\]\n]+)\]|([\p{L}\p{N}._%+-]+(?:@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+)?))/gu;
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Resolve @mentions in a comment to user IDs
+ * A mention matches a candidate by full email, email local part, name without spaces,
+ * or first name when no other candidate shares it
+ * @param content - The comment text
+ * @param candidates - The users who can be mentioned
+ * @returns The IDs of the mentioned users, without duplicates
+ */
+export const resolveMentions = (
+    content: string,
+    candidates: MentionCandidate[]
+): string[] => {
+    const firstNameCounts = new Map<string, number>();
+    for (const candidate of candidates) {
+        const firstName = normalize(candidate.name.split(/\s+/)[0] ?? '');
+        firstNameCounts.set(
+            firstName,
+            (firstNameCounts.get(firstName) ?? 0) + 1
+        );
+    }
+
+    const mentioned = new Set<string>();
+    for (const match of content.matchAll(MENTION_PATTERN)) {
+        // A sentence may end right after a mention: "thanks @jane."
+        const token = normalize(match[1] ?? match[2]).replace(/[._-]+$/, '');
+
+        const found = candidates.find((candidate) => {
+            const email = candidate.email.toLowerCase();
+            const firstName = normalize(candidate.name.split(/\s+/)[0] ?? '');
+            return (
+                token === email ||
+                token === email.split('@')[0] ||
+                token === normalize(candidate.name) ||
+                (token === firstName && firstNameCounts.get(firstName) === 1)
+            );
+        });
+        if (found) {
+            mentioned.add(found.id);
+        }
+    }
+
+    return [...mentioned];
+};
+
+@Injectable()
+export class TaskCommentService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly taskAccessService: TaskAccessService,
+        private readonly tasksGateway: TasksGateway,
+        private readonly notificationService: NotificationService
+    ) {}
+
+    /**
+     * List the comments of a task, oldest first
+     */
+    async findAll(
+        userId: string,
+        taskId: string,
+        page: number = 1,
+        limit: number = 5,
+        cursor?: string
+    ): Promise<PaginatedResponseDto<TaskComment>> {
+        await this.taskAccessService.getAccessibleTask(userId, taskId);
+
+        return paginate(
+            { page, limit, cursor },
+            [{ field: 'createdAt', order: 'asc' }],
+            (query) =>
+                this.prismaService.taskComment.findMany({
+                    where: { AND: [{ taskId }, query.where] },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take,
+                    include: commentInclude
+                }),
+            () => this.prismaService.taskComment.count({ where: { taskId } })
+        );
+    }
+
+    async create(
+        userId: string,
+        taskId: string,
+        createCommentDto: CreateTaskCommentDto
+    ): Promise<TaskComment> {
+        const task = await this.taskAccessService.getAccessibleTask(
+            userId,
+            taskId
+        );
+        const audienceIds = await this.taskAccessService.getAudienceIds(task);
+
+        const comment = await this.prismaService.taskComment.create({
+            data: {
+                content: createCommentDto.content,
+                mentionedUserIds: await this.findMentions(
+                    createCommentDto.content,
+                    audienceIds
+                ),
+                taskId,
+                authorId: userId
+            },
+            include: commentInclude
+        });
+
+        this.tasksGateway.emitToUsers(audienceIds, 'commentAdded', comment);
+        await this.notifyMentions(userId, task, comment.mentionedUserIds);
+        // The task's creator and assignees follow its comments
+        await this.notificationService.notify(
+            [task.userId, ...task.assigneeIds].filter(
+                (id) => !comment.mentionedUserIds.includes(id)
+            ),
+            {
+                type: NotificationType.TASK_COMMENTED,
+                message: `commented on "${task.title}"`,
+                actorId: userId,
+                taskId
+            }
+        );
+        return comment;
+    }
+
+    /**
+     * Edit a comment; only its author can do so
+     */
+    async update(
+        userId: string,
+        taskId: string,
+        commentId: string,
+        updateCommentDto: UpdateTaskCommentDto
+    ): Promise<TaskComment> {
+        const task = await this.taskAccessService.getAccessibleTask(
+            userId,
+            taskId
+        );
+        const previous = await this.findOwnComment(userId, taskId, commentId);
+        const audienceIds = await this.taskAccessService.getAudienceIds(task);
+
+        const comment = await this.prismaService.taskComment.update({
+            where: { id: commentId },
+            data: {
+                content: updateCommentDto.content,
+                mentionedUserIds: await this.findMentions(
+                    updateCommentDto.content,
+                    audienceIds
+                )
+            },
+            include: commentInclude
+        });
+
+        this.tasksGateway.emitToUsers(audienceIds, 'commentUpdated', comment);
+        // Only users mentioned by the edit are notified
+        await this.notifyMentions(
+            userId,
+            task,
+            comment.mentionedUserIds.filter(
+                (id) => !previous.mentionedUserIds.includes(id)
+            )
+        );
+        return comment;
+    }
+
+    /**
+     * Delete a comment; only its author can do so
+     */
+    async remove(
+        userId: string,
+        taskId: string,
+        commentId: string
+    ): Promise<TaskComment> {
+        const task = await this.taskAccessService.getAccessibleTask(
+            userId,
+            taskId
+        );
+        await this.findOwnComment(userId, taskId, commentId);
+
+        const comment = await this.prismaService.taskComment.delete({
+            where: { id: commentId },
+            include: commentInclude
+        });
+
+        this.tasksGateway.emitToUsers(
+            await this.taskAccessService.getAudienceIds(task),
+            'commentDeleted',
+            { id: comment.id, taskId }
+        );
+        return comment;
+    }
+
+    private async notifyMentions(
+        authorId: string,
+        task: Task,
+        mentionedUserIds: string[]
+    ): Promise<void> {
+        await this.notificationService.notify(mentionedUserIds, {
+            type: NotificationType.TASK_MENTIONED,
+            message: `mentioned you on "${task.title}"`,
+            actorId: authorId,
+            taskId: task.id
+        });
+    }
+
+    private async findOwnComment(
+        userId: string,
+        taskId: string,
+        commentId: string
+    ): Promise<TaskComment> {
+        const comment = await this.prismaService.taskComment.findFirst({
+            where: { id: commentId, taskId }
+        });
+
+        if (!comment) {
+            throw new NotFoundException('Comment not found');
+        }
+
+        if (comment.authorId !== userId) {
+            throw new ForbiddenException(
+                'Only the author can edit or delete this comment'
+            );
+        }
+
+        return comment;
+    }
+
+    private async findMentions(
+        content: string,
+        audienceIds: string[]
+    ): Promise<string[]> {
+        if (!content.includes('@')) {
+            return [];
+        }
+
+        const candidates = await this.prismaService.user.findMany({
+            where: { id: { in: audienceIds } },
+            select: { id: true, name: true, email: true }
+        });
+
+        return resolveMentions(content, candidates);
+    }
+}
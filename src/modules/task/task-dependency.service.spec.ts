@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { TaskDependencyService } from './task-dependency.service';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+import { TaskHistoryService } from './task-history.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('TaskDependencyService', () => {
+    let service: TaskDependencyService;
+
+    const mockPrismaService = {
+        task: {
+            findMany: jest.fn(),
+            update: jest.fn()
+        }
+    };
+
+    const mockTaskAccessService = {
+        getAccessibleTask: jest.fn(),
+        getAudienceRooms: jest.fn().mockResolvedValue([])
+    };
+
+    const mockTasksGateway = {
+        emitToRooms: jest.fn()
+    };
+
+    const mockWebhookDeliveryService = {
+        publishTasks: jest.fn()
+    };
+
+    const mockTaskHistoryService = {
+        recordUpdated: jest.fn()
+    };
+
+    const makeTask = (id: string, overrides: Record<string, unknown> = {}) =>
+        ({
+            id,
+            title: `Task ${id}`,
+            userId: 'user1',
+            projectId: 'project1',
+            blockedByIds: [],
+            ...overrides
+        }) as any;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskDependencyService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TaskAccessService,
+                    useValue: mockTaskAccessService
+                },
+                {
+                    provide: TasksGateway,
+                    useValue: mockTasksGateway
+                },
+                {
+                    provide: WebhookDeliveryService,
+                    useValue: mockWebhookDeliveryService
+                },
+                {
+                    provide: TaskHistoryService,
+                    useValue: mockTaskHistoryService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskDependencyService>(TaskDependencyService);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('addDependency', () => {
+        it('should reject a task depending on itself', async () => {
+            await expect(
+                service.addDependency('user1', 'a', 'a')
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should reject tasks from different projects', async () => {
+            mockTaskAccessService.getAccessibleTask
+                .mockResolvedValueOnce(makeTask('a'))
+                .mockResolvedValueOnce(
+                    makeTask('b', { projectId: 'project2' })
+                );
+
+            await expect(
+                service.addDependency('user1', 'a', 'b')
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should reject a dependency that closes a cycle', async () => {
+            // c is blocked by b, which is blocked by a: a -> c would loop
+            mockTaskAccessService.getAccessibleTask
+                .mockResolvedValueOnce(makeTask('a'))
+                .mockResolvedValueOnce(makeTask('c', { blockedByIds: ['b'] }));
+            mockPrismaService.task.findMany
+                .mockResolvedValueOnce([{ id: 'c', blockedByIds: ['b'] }])
+                .mockResolvedValueOnce([{ id: 'b', blockedByIds: ['a'] }]);
+
+            await expect(
+                service.addDependency('user1', 'a', 'c')
+            ).rejects.toThrow('This dependency would create a cycle');
+            expect(mockPrismaService.task.update).not.toHaveBeenCalled();
+        });
+
+        it('should add the dependency and report the task as blocked', async () => {
+            mockTaskAccessService.getAccessibleTask
+                .mockResolvedValueOnce(makeTask('a'))
+                .mockResolvedValueOnce(makeTask('b'));
+            mockPrismaService.task.findMany
+                // Cycle check: b has no blockers
+                .mockResolvedValueOnce([{ id: 'b', blockedByIds: [] }])
+                // Blocked state: b is still open
+                .mockResolvedValueOnce([{ id: 'b' }]);
+            mockPrismaService.task.update.mockResolvedValue(
+                makeTask('a', { blockedByIds: ['b'] })
+            );
+
+            const result = await service.addDependency('user1', 'a', 'b');
+
+            expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+                where: { id: 'a' },
+                data: {
+                    blockedByIds: { push: 'b' },
+                    version: { increment: 1 }
+                }
+            });
+            expect(result.isBlocked).toBe(true);
+        });
+    });
+
+    describe('assertCanStart', () => {
+        it('should throw ConflictException when a blocker is unfinished', async () => {
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { id: 'b', title: 'Write specs' }
+            ]);
+
+            await expect(
+                service.assertCanStart([makeTask('a', { blockedByIds: ['b'] })])
+            ).rejects.toThrow(ConflictException);
+        });
+
+        it('should not query when tasks have no blockers', async () => {
+            await service.assertCanStart([makeTask('a')]);
+
+            expect(mockPrismaService.task.findMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resolveReferences', () => {
+        it('should resolve IDs and titles within the project and drop unknown ones', async () => {
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { id: '507f1f77bcf86cd799439011', title: 'Write specs' },
+                { id: '507f1f77bcf86cd799439012', title: 'Deploy' }
+            ]);
+
+            const result = await service.resolveReferences(
+                'user1',
+                'project1',
+                ['507f1f77bcf86cd799439011', 'deploy', 'Unknown task']
+            );
+
+            expect(result).toEqual([
+                '507f1f77bcf86cd799439011',
+                '507f1f77bcf86cd799439012'
+            ]);
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledWith({
+                where: { projectId: 'project1', deletedAt: { isSet: false } },
+                select: { id: true, title: true }
+            });
+        });
+    });
+});
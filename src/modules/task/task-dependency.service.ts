@@ -0,0 +1,330 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException
+} from '@nestjs/common';
+import { Task } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import { TaskHistoryService } from './task-history.service';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+import { TaskStatus } from './dto/task.dto';
+
+const OBJECT_ID_PATTERN = /^[a-f\d]{24}$/i;
+
+// A blocker stops blocking once it is finished either way, or moved to the trash
+const OPEN_STATUSES = [TaskStatus.TODO, TaskStatus.IN_PROGRESS];
+
+type DependencyNode = Pick<Task, 'id' | 'blockedByIds'>;
+
+export type WithBlockedState<T> = T & { isBlocked: boolean };
+
+export interface TaskDependencies {
+    blockedBy: WithBlockedState<Task>[];
+    blocks: WithBlockedState<Task>[];
+}
+
+@Injectable()
+export class TaskDependencyService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly taskAccessService: TaskAccessService,
+        private readonly tasksGateway: TasksGateway,
+        private readonly taskHistoryService: TaskHistoryService,
+        private readonly webhookDeliveryService: WebhookDeliveryService
+    ) {}
+
+    /**
+     * List the tasks blocking a task and the tasks it blocks
+     */
+    async getDependencies(
+        userId: string,
+        taskId: string
+    ): Promise<TaskDependencies> {
+        const task = await this.taskAccessService.getAccessibleTask(
+            userId,
+            taskId
+        );
+
+        const [blockedBy, blocks] = await Promise.all([
+            this.prismaService.task.findMany({
+                where: { id: { in: task.blockedByIds }, ...NOT_TRASHED },
+                orderBy: { createdAt: 'asc' }
+            }),
+            this.prismaService.task.findMany({
+                where: { blockedByIds: { has: task.id }, ...NOT_TRASHED },
+                orderBy: { createdAt: 'asc' }
+            })
+        ]);
+
+        return {
+            blockedBy: await this.attachBlockedState(blockedBy),
+            blocks: await this.attachBlockedState(blocks)
+        };
+    }
+
+    /**
+     * Mark a task as blocked by another task of the same project
+     * @throws BadRequestException if the link is invalid or would create a cycle
+     */
+    async addDependency(
+        userId: string,
+        taskId: string,
+        blockerId: string
+    ): Promise<WithBlockedState<Task>> {
+        if (taskId === blockerId) {
+            throw new BadRequestException('A task cannot depend on itself');
+        }
+
+        const [task, blocker] = await Promise.all([
+            this.taskAccessService.getAccessibleTask(userId, taskId),
+            this.taskAccessService.getAccessibleTask(userId, blockerId)
+        ]);
+
+        if (!this.inSameScope(task, blocker)) {
+            throw new BadRequestException(
+                'Dependencies can only link tasks of the same project'
+            );
+        }
+
+        if (task.blockedByIds.includes(blockerId)) {
+            return this.withBlockedState(task);
+        }
+
+        if (await this.dependsOn(blockerId, taskId)) {
+            throw new BadRequestException(
+                'This dependency would create a cycle'
+            );
+        }
+
+        const updated = await this.prismaService.task.update({
+            where: { id: taskId },
+            data: {
+                blockedByIds: { push: blockerId },
+                version: { increment: 1 }
+            }
+        });
+        await this.taskHistoryService.recordUpdated(userId, task, updated);
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([task]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+
+        return this.withBlockedState(updated);
+    }
+
+    /**
+     * Remove a "blocked by" link from a task
+     */
+    async removeDependency(
+        userId: string,
+        taskId: string,
+        blockerId: string
+    ): Promise<WithBlockedState<Task>> {
+        const task = await this.taskAccessService.getAccessibleTask(
+            userId,
+            taskId
+        );
+
+        if (!task.blockedByIds.includes(blockerId)) {
+            throw new NotFoundException('Dependency not found');
+        }
+
+        const updated = await this.prismaService.task.update({
+            where: { id: taskId },
+            data: {
+                blockedByIds: {
+                    set: task.blockedByIds.filter((id) => id !== blockerId)
+                },
+                version: { increment: 1 }
+            }
+        });
+        await this.taskHistoryService.recordUpdated(userId, task, updated);
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([task]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+
+        return this.withBlockedState(updated);
+    }
+
+    /**
+     * Resolve "depends on" references (task IDs or titles) to task IDs
+     * Only tasks in the same scope as the new task are considered; unknown references are dropped
+     * @param userId - The creator of the new task
+     * @param projectId - The project of the new task, or null for a personal task
+     * @param references - Task IDs or titles, as returned by AI suggestions
+     */
+    async resolveReferences(
+        userId: string,
+        projectId: string | null,
+        references: string[]
+    ): Promise<string[]> {
+        const wanted = references.map((ref) => ref.trim()).filter(Boolean);
+        if (wanted.length === 0) {
+            return [];
+        }
+
+        const candidates = await this.prismaService.task.findMany({
+            where: {
+                ...(projectId ? { projectId } : { userId, projectId: null }),
+                ...NOT_TRASHED
+            },
+            select: { id: true, title: true }
+        });
+
+        const resolved = new Set<string>();
+        for (const ref of wanted) {
+            const match = OBJECT_ID_PATTERN.test(ref)
+                ? candidates.find((candidate) => candidate.id === ref)
+                : candidates.find(
+                      (candidate) =>
+                          candidate.title.toLowerCase() === ref.toLowerCase()
+                  );
+            if (match) {
+                resolved.add(match.id);
+            }
+        }
+
+        return [...resolved];
+    }
+
+    /**
+     * Refuse to start tasks that still wait on unfinished blockers
+     * @throws ConflictException listing the blocking tasks
+     */
+    async assertCanStart(tasks: DependencyNode[]): Promise<void> {
+        const blockerIds = [...new Set(tasks.flatMap((t) => t.blockedByIds))];
+        if (blockerIds.length === 0) {
+            return;
+        }
+
+        const openBlockers = await this.prismaService.task.findMany({
+            where: {
+                id: { in: blockerIds },
+                status: { in: OPEN_STATUSES },
+                ...NOT_TRASHED
+            },
+            select: { id: true, title: true }
+        });
+
+        if (openBlockers.length > 0) {
+            const titles = openBlockers.map((blocker) => `"${blocker.title}"`);
+            throw new ConflictException(
+                `Task is blocked by unfinished tasks: ${titles.join(', ')}`
+            );
+        }
+    }
+
+    /**
+     * Add the computed isBlocked flag to a list of tasks in one query
+     */
+    async attachBlockedState<T extends DependencyNode>(
+        tasks: T[]
+    ): Promise<WithBlockedState<T>[]> {
+        const blockerIds = [...new Set(tasks.flatMap((t) => t.blockedByIds))];
+        const openBlockers =
+            blockerIds.length === 0
+                ? []
+                : await this.prismaService.task.findMany({
+                      where: {
+                          id: { in: blockerIds },
+                          status: { in: OPEN_STATUSES },
+                          ...NOT_TRASHED
+                      },
+                      select: { id: true }
+                  });
+        const openIds = new Set(openBlockers.map((blocker) => blocker.id));
+
+        return tasks.map((task) => ({
+            ...task,
+            isBlocked: task.blockedByIds.some((id) => openIds.has(id))
+        }));
+    }
+
+    async withBlockedState<T extends DependencyNode>(
+        task: T
+    ): Promise<WithBlockedState<T>> {
+        const [result] = await this.attachBlockedState([task]);
+        return result;
+    }
+
+    /**
+     * Drop a task from the "blocked by" lists of the tasks it blocks
+     */
+    async detachDependents(taskIds: string[]): Promise<void> {
+        const dependents = await this.prismaService.task.findMany({
+            where: { blockedByIds: { hasSome: taskIds } },
+            select: { id: true, blockedByIds: true }
+        });
+
+        await Promise.all(
+            dependents.map((dependent) =>
+                this.prismaService.task.update({
+                    where: { id: dependent.id },
+                    data: {
+                        blockedByIds: {
+                            set: dependent.blockedByIds.filter(
+                                (id) => !taskIds.includes(id)
+                            )
+                        },
+                        version: { increment: 1 }
+                    }
+                })
+            )
+        );
+    }
+
+    /**
+     * Check whether a task transitively depends on another one
+     * Walks the "blocked by" graph breadth-first, one query per level
+     */
+    private async dependsOn(
+        fromId: string,
+        targetId: string
+    ): Promise<boolean> {
+        const visited = new Set<string>([fromId]);
+        let frontier = [fromId];
+
+        while (frontier.length > 0) {
+            const nodes = await this.prismaService.task.findMany({
+                where: { id: { in: frontier } },
+                select: { id: true, blockedByIds: true }
+            });
+
+            const next: string[] = [];
+            for (const id of nodes.flatMap((node) => node.blockedByIds)) {
+                if (id === targetId) {
+                    return true;
+                }
+                if (!visited.has(id)) {
+                    visited.add(id);
+                    next.push(id);
+                }
+            }
+            frontier = next;
+        }
+
+        return false;
+    }
+
+    private inSameScope(a: Task, b: Task): boolean {
+        if (a.projectId || b.projectId) {
+            return a.projectId === b.projectId;
+        }
+
+        // Personal tasks can only be linked to tasks of the same owner
+        return a.userId === b.userId;
+    }
+}
@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaskActivityAction } from '@prisma/client';
+import { diffTask, TaskHistoryService } from './task-history.service';
+import { TaskAccessService } from './task-access.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('diffTask', () => {
+    it('should only report tracked fields that changed', () => {
+        const changes = diffTask(
+            {
+                title: 'Old',
+                status: 'TODO',
+                dueDate: new Date('2025-01-01T00:00:00.000Z'),
+                assigneeIds: ['u1']
+            },
+            {
+                title: 'Old',
+                status: 'DONE',
+                dueDate: new Date('2025-01-01T00:00:00.000Z'),
+                assigneeIds: ['u1', 'u2']
+            }
+        );
+
+        expect(changes).toEqual([
+            { field: 'status', oldValue: 'TODO', newValue: 'DONE' },
+            { field: 'assigneeIds', oldValue: ['u1'], newValue: ['u1', 'u2'] }
+        ]);
+    });
+
+    it('should store dates as ISO strings and missing values as null', () => {
+        expect(
+            diffTask(
+                { description: undefined },
+                {
+                    description: 'Details',
+                    dueDate: new Date('2025-01-01T00:00:00.000Z')
+                }
+            )
+        ).toEqual([
+            { field: 'description', oldValue: null, newValue: 'Details' },
+            {
+                field: 'dueDate',
+                oldValue: null,
+                newValue: '2025-01-01T00:00:00.000Z'
+            }
+        ]);
+    });
+});
+
+describe('TaskHistoryService', () => {
+    let service: TaskHistoryService;
+
+    const mockPrismaService = {
+        taskActivity: {
+            create: jest.fn(),
+            createMany: jest.fn()
+        }
+    };
+
+    const mockTaskAccessService = {
+        getTeamId: jest.fn()
+    };
+
+    const task = {
+        id: 'task1',
+        title: 'Write docs',
+        status: 'TODO',
+        projectId: 'project1',
+        project: { teamId: 'team1' }
+    } as any;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskHistoryService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TaskAccessService,
+                    useValue: mockTaskAccessService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskHistoryService>(TaskHistoryService);
+        mockTaskAccessService.getTeamId.mockResolvedValue('team1');
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('recordUpdated', () => {
+        it('should not write an entry when nothing changed', async () => {
+            await service.recordUpdated('user1', task, { ...task });
+
+            expect(
+                mockPrismaService.taskActivity.create
+            ).not.toHaveBeenCalled();
+        });
+
+        it('should log a project change as a move', async () => {
+            await service.recordUpdated('user1', task, {
+                ...task,
+                title: 'Write the docs',
+                projectId: 'project2'
+            });
+
+            expect(mockPrismaService.taskActivity.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    taskId: 'task1',
+                    teamId: 'team1',
+                    actorId: 'user1',
+                    action: TaskActivityAction.MOVED
+                })
+            });
+        });
+
+        it('should log a status-only change as a status change', async () => {
+            await service.recordUpdated('user1', task, {
+                ...task,
+                status: 'IN_PROGRESS'
+            });
+
+            expect(mockPrismaService.taskActivity.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    action: TaskActivityAction.STATUS_CHANGED,
+                    changes: [
+                        {
+                            field: 'status',
+                            oldValue: 'TODO',
+                            newValue: 'IN_PROGRESS'
+                        }
+                    ]
+                })
+            });
+        });
+    });
+
+    describe('recordStatusChanges', () => {
+        it('should skip tasks that already have the status', async () => {
+            await service.recordStatusChanges(
+                'user1',
+                [task, { ...task, id: 'task2', status: 'DONE' }],
+                'DONE'
+            );
+
+            const { data } =
+                mockPrismaService.taskActivity.createMany.mock.calls[0][0];
+            expect(data).toHaveLength(1);
+            expect(data[0]).toMatchObject({
+                taskId: 'task1',
+                action: TaskActivityAction.STATUS_CHANGED
+            });
+        });
+    });
+});
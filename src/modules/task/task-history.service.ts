@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Task, TaskActivity, TaskActivityAction } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+import { paginate } from '../../core/utils/pagination';
+import { TaskAccessService, TaskWithProjectTeam } from './task-access.service';
+
+// Fields worth showing in a task's history
+const TRACKED_FIELDS = [
+    'title',
+    'description',
+    'status',
+    'workflowState',
+    'priority',
+    'dueDate',
+    'allDay',
+    'estimateMinutes',
+    'projectId',
+    'parentTaskId',
+    'assigneeIds',
+    'blockedByIds',
+    'labelIds',
+    'recurrence'
+] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+type TrackedTask = Pick<Task, 'id' | 'title' | 'projectId'> &
+    Partial<Pick<Task, TrackedField>> &
+    Pick<TaskWithProjectTeam, 'project'>;
+
+export interface TaskActivityWithActor extends TaskActivity {
+    actor: { id: string; name: string; email: string } | null;
+}
+
+// Dates become ISO strings and missing values null, so old/new values compare and store as JSON
+const toJsonValue = (value: unknown): Prisma.InputJsonValue | null =>
+    value === undefined || value === null
+        ? null
+        : JSON.parse(JSON.stringify(value));
+
+/**
+ * Compute the tracked fields that differ between two versions of a task
+ */
+export const diffTask = (
+    before: Partial<Record<TrackedField, unknown>>,
+    after: Partial<Record<TrackedField, unknown>>
+): Prisma.TaskFieldChangeCreateInput[] =>
+    TRACKED_FIELDS.filter((field) => field in after).flatMap((field) => {
+        const oldValue = toJsonValue(before[field]);
+        const newValue = toJsonValue(after[field]);
+        return JSON.stringify(oldValue) === JSON.stringify(newValue)
+            ? []
+            : [{ field, oldValue, newValue }];
+    });
+
+@Injectable()
+export class TaskHistoryService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly taskAccessService: TaskAccessService
+    ) {}
+
+    /**
+     * Get the change log of a task, newest first
+     */
+    async getHistory(
+        userId: string,
+        taskId: string,
+        page: number = 1,
+        limit: number = 5,
+        cursor?: string
+    ): Promise<PaginatedResponseDto<TaskActivityWithActor>> {
+        await this.taskAccessService.getAccessibleTask(userId, taskId);
+
+        const { data: entries, meta } = await paginate(
+            { page, limit, cursor },
+            [{ field: 'createdAt', order: 'desc' }],
+            (query) =>
+                this.prismaService.taskActivity.findMany({
+                    where: { AND: [{ taskId }, query.where] },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take
+                }),
+            () => this.prismaService.taskActivity.count({ where: { taskId } })
+        );
+
+        return { data: await this.withActors(entries), meta };
+    }
+
+    async recordCreated(actorId: string | null, task: TrackedTask) {
+        await this.record(
+            actorId,
+            task,
+            TaskActivityAction.CREATED,
+            diffTask({}, task)
+        );
+    }
+
+    /**
+     * Record the fields that changed between two versions of a task
+     * A project change is logged as a move, a status or workflow state change as a status change
+     */
+    async recordUpdated(
+        actorId: string,
+        before: TrackedTask,
+        after: TrackedTask
+    ) {
+        const changes = diffTask(before, after);
+        if (changes.length === 0) {
+            return;
+        }
+
+        const fields = changes.map((change) => change.field);
+        const action = fields.includes('projectId')
+            ? TaskActivityAction.MOVED
+            : fields.every(
+                    (field) => field === 'status' || field === 'workflowState'
+                )
+              ? TaskActivityAction.STATUS_CHANGED
+              : TaskActivityAction.UPDATED;
+
+        await this.record(actorId, after, action, changes);
+    }
+
+    /**
+     * Record a status change applied to several tasks at once
+     */
+    async recordStatusChanges(
+        actorId: string,
+        tasks: TrackedTask[],
+        status: Task['status']
+    ) {
+        const changed = tasks.filter((task) => task.status !== status);
+        if (changed.length === 0) {
+            return;
+        }
+
+        await this.prismaService.taskActivity.createMany({
+            data: await Promise.all(
+                changed.map(async (task) => ({
+                    ...(await this.entryBase(actorId, task)),
+                    action: TaskActivityAction.STATUS_CHANGED,
+                    changes: [
+                        {
+                            field: 'status',
+                            oldValue: task.status,
+                            newValue: status
+                        }
+                    ]
+                }))
+            )
+        });
+    }
+
+    async recordDeleted(actorId: string, task: TrackedTask) {
+        await this.record(actorId, task, TaskActivityAction.DELETED, []);
+    }
+
+    async recordRestored(actorId: string, task: TrackedTask) {
+        await this.record(actorId, task, TaskActivityAction.RESTORED, []);
+    }
+
+    /**
+     * Attach the acting user to activity entries
+     */
+    private async withActors(
+        entries: TaskActivity[]
+    ): Promise<TaskActivityWithActor[]> {
+        const actorIds = [
+            ...new Set(entries.map((entry) => entry.actorId).filter(Boolean))
+        ];
+        const actors = await this.prismaService.user.findMany({
+            where: { id: { in: actorIds } },
+            select: { id: true, name: true, email: true }
+        });
+        const actorsById = new Map(actors.map((actor) => [actor.id, actor]));
+
+        return entries.map((entry) => ({
+            ...entry,
+            actor: (entry.actorId && actorsById.get(entry.actorId)) || null
+        }));
+    }
+
+    private async record(
+        actorId: string | null,
+        task: TrackedTask,
+        action: TaskActivityAction,
+        changes: Prisma.TaskFieldChangeCreateInput[]
+    ) {
+        await this.prismaService.taskActivity.create({
+            data: {
+                ...(await this.entryBase(actorId, task)),
+                action,
+                changes
+            }
+        });
+    }
+
+    private async entryBase(actorId: string | null, task: TrackedTask) {
+        return {
+            taskId: task.id,
+            taskTitle: task.title,
+            projectId: task.projectId ?? null,
+            teamId: await this.taskAccessService.getTeamId(task),
+            actorId
+        };
+    }
+}
@@ -0,0 +1,177 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { TaskPresenceGateway } from './task-presence.gateway';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import { TeamAccessService } from '../team/team-access.service';
+import { PresenceService } from '../../websocket/presence.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('TaskPresenceGateway', () => {
+    let gateway: TaskPresenceGateway;
+    let presenceService: PresenceService;
+
+    const mockPrismaService = {
+        project: {
+            findFirst: jest.fn()
+        }
+    };
+
+    const mockTeamAccessService = {
+        isMember: jest.fn()
+    };
+
+    const mockTaskAccessService = {
+        getAccessibleTask: jest.fn()
+    };
+
+    const mockTasksGateway = {
+        emitPresence: jest.fn(),
+        emitLock: jest.fn()
+    };
+
+    const makeClient = (id: string, userId: string, name: string) => {
+        presenceService.connect(id, { id: userId, name });
+        return {
+            id,
+            data: { userId },
+            join: jest.fn(),
+            leave: jest.fn()
+        } as any;
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskPresenceGateway,
+                PresenceService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TeamAccessService,
+                    useValue: mockTeamAccessService
+                },
+                {
+                    provide: TaskAccessService,
+                    useValue: mockTaskAccessService
+                },
+                {
+                    provide: TasksGateway,
+                    useValue: mockTasksGateway
+                }
+            ]
+        }).compile();
+
+        gateway = module.get<TaskPresenceGateway>(TaskPresenceGateway);
+        presenceService = module.get<PresenceService>(PresenceService);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('joinProject', () => {
+        it('should refuse users outside the project team', async () => {
+            mockPrismaService.project.findFirst.mockResolvedValue({
+                ownerId: 'owner',
+                teamId: 'team1'
+            });
+            mockTeamAccessService.isMember.mockResolvedValue(false);
+            const client = makeClient('socket1', 'stranger', 'Sam');
+
+            await expect(
+                gateway.joinProject(client, { projectId: 'project1' })
+            ).rejects.toThrow(WsException);
+            expect(client.join).not.toHaveBeenCalled();
+        });
+
+        it('should join the channel and broadcast its members', async () => {
+            mockPrismaService.project.findFirst.mockResolvedValue({
+                ownerId: 'owner',
+                teamId: 'team1'
+            });
+            mockTeamAccessService.isMember.mockResolvedValue(true);
+            const client = makeClient('socket1', 'user1', 'Ann');
+
+            const result = await gateway.joinProject(client, {
+                projectId: 'project1'
+            });
+
+            expect(client.join).toHaveBeenCalledWith('project:project1');
+            expect(mockTasksGateway.emitPresence).toHaveBeenCalledWith(
+                'project:project1'
+            );
+            expect(result.members).toEqual([
+                { userId: 'user1', name: 'Ann', state: 'VIEWING' }
+            ]);
+        });
+    });
+
+    describe('joinTask', () => {
+        it('should turn access errors into socket errors', async () => {
+            mockTaskAccessService.getAccessibleTask.mockRejectedValue(
+                new NotFoundException('Task not found')
+            );
+            const client = makeClient('socket1', 'stranger', 'Sam');
+
+            await expect(
+                gateway.joinTask(client, { taskId: 'task1' })
+            ).rejects.toThrow(new WsException('Task not found'));
+        });
+    });
+
+    describe('startEditing', () => {
+        beforeEach(() => {
+            mockTaskAccessService.getAccessibleTask.mockResolvedValue({
+                id: 'task1',
+                projectId: 'project1'
+            });
+        });
+
+        it('should announce a new lock to the task and project channels', async () => {
+            const client = makeClient('socket1', 'user1', 'Ann');
+
+            const result = await gateway.startEditing(client, {
+                taskId: 'task1'
+            });
+
+            expect(result.acquired).toBe(true);
+            expect(mockTasksGateway.emitLock).toHaveBeenCalledWith(
+                'task1',
+                'project1',
+                result.lock
+            );
+        });
+
+        it('should return the lock held by someone else without taking it', async () => {
+            const ann = makeClient('socket1', 'user1', 'Ann');
+            const bob = makeClient('socket2', 'user2', 'Bob');
+            await gateway.startEditing(ann, { taskId: 'task1' });
+            jest.clearAllMocks();
+
+            const result = await gateway.startEditing(bob, { taskId: 'task1' });
+
+            expect(result.acquired).toBe(false);
+            expect(result.lock.userId).toBe('user1');
+            expect(mockTasksGateway.emitLock).not.toHaveBeenCalled();
+        });
+
+        it('should release the lock when the editor leaves the task', async () => {
+            const client = makeClient('socket1', 'user1', 'Ann');
+            await gateway.startEditing(client, { taskId: 'task1' });
+
+            gateway.leaveTask(client, { taskId: 'task1' });
+
+            expect(mockTasksGateway.emitLock).toHaveBeenLastCalledWith(
+                'task1',
+                'project1',
+                null
+            );
+            expect(presenceService.getLock('task1')).toBeNull();
+            expect(client.leave).toHaveBeenCalledWith('task:task1');
+        });
+    });
+});
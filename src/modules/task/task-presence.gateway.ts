@@ -0,0 +1,211 @@
+import { HttpException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+    ConnectedSocket,
+    MessageBody,
+    SubscribeMessage,
+    WebSocketGateway,
+    WsException
+} from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import {
+    projectChannel,
+    taskChannel
+} from '../../core/constants/presence.constants';
+import {
+    ChannelMember,
+    EditLock,
+    PresenceService
+} from '../../websocket/presence.service';
+import { TeamAccessService } from '../team/team-access.service';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import { ProjectChannelDto, TaskChannelDto } from './dto/presence.dto';
+
+interface ChannelSnapshot {
+    channel: string;
+    members: ChannelMember[];
+}
+
+/**
+ * Presence on the `/tasks` socket: who has a project or task open, who is editing a task,
+ * and the soft edit locks that warn others before they overwrite each other.
+ * Locks are advisory; the REST API does not check them
+ */
+@WebSocketGateway({
+    transports: ['websocket'],
+    namespace: '/tasks'
+})
+export class TaskPresenceGateway {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly teamAccessService: TeamAccessService,
+        private readonly taskAccessService: TaskAccessService,
+        private readonly presenceService: PresenceService,
+        private readonly tasksGateway: TasksGateway
+    ) {}
+
+    /**
+     * Open a project, e.g. its board; open to the project owner and the members of its team
+     * @returns who has it open and the locks held on its tasks
+     */
+    @SubscribeMessage('joinProject')
+    async joinProject(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() { projectId }: ProjectChannelDto
+    ): Promise<ChannelSnapshot & { locks: EditLock[] }> {
+        const userId = this.getUserId(client);
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED },
+            select: { ownerId: true, teamId: true }
+        });
+
+        const isOwner = project?.ownerId === userId;
+        const isTeamMember =
+            !!project?.teamId &&
+            (await this.teamAccessService.isMember(userId, project.teamId));
+        if (!isOwner && !isTeamMember) {
+            throw new WsException('Project not found');
+        }
+
+        const channel = projectChannel(projectId);
+        client.join(channel);
+        this.presenceService.joinChannel(client.id, channel);
+        this.tasksGateway.emitPresence(channel);
+
+        return {
+            channel,
+            members: this.presenceService.getChannelMembers(channel),
+            locks: this.presenceService.getProjectLocks(projectId)
+        };
+    }
+
+    @SubscribeMessage('leaveProject')
+    leaveProject(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() { projectId }: ProjectChannelDto
+    ): void {
+        this.leaveChannel(client, projectChannel(projectId));
+    }
+
+    /**
+     * Open a task; open to whoever can see it
+     * @returns who has it open and its edit lock
+     */
+    @SubscribeMessage('joinTask')
+    async joinTask(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() { taskId }: TaskChannelDto
+    ): Promise<ChannelSnapshot & { lock: EditLock | null }> {
+        await this.getAccessibleTask(client, taskId);
+
+        const channel = taskChannel(taskId);
+        client.join(channel);
+        this.presenceService.joinChannel(client.id, channel);
+        this.tasksGateway.emitPresence(channel);
+
+        return {
+            channel,
+            members: this.presenceService.getChannelMembers(channel),
+            lock: this.presenceService.getLock(taskId)
+        };
+    }
+
+    @SubscribeMessage('leaveTask')
+    leaveTask(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() { taskId }: TaskChannelDto
+    ): void {
+        this.releaseLock(client, taskId);
+        this.leaveChannel(client, taskChannel(taskId));
+    }
+
+    /**
+     * Take the edit lock of a task, or renew it; clients renew it while the editor is open.
+     * The task is opened if it was not already
+     * @returns whether the lock was taken, and the lock held by someone else otherwise
+     */
+    @SubscribeMessage('startEditing')
+    async startEditing(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() { taskId }: TaskChannelDto
+    ): Promise<{ acquired: boolean; lock: EditLock | null }> {
+        const task = await this.getAccessibleTask(client, taskId);
+
+        const channel = taskChannel(taskId);
+        client.join(channel);
+        const previous = this.presenceService.getLock(taskId);
+        const result = this.presenceService.acquireLock(
+            client.id,
+            taskId,
+            task.projectId
+        );
+
+        if (result.acquired && previous?.userId !== result.lock.userId) {
+            this.tasksGateway.emitPresence(channel);
+            this.tasksGateway.emitLock(taskId, task.projectId, result.lock);
+        }
+
+        return result;
+    }
+
+    @SubscribeMessage('stopEditing')
+    stopEditing(
+        @ConnectedSocket() client: Socket,
+        @MessageBody() { taskId }: TaskChannelDto
+    ): void {
+        this.releaseLock(client, taskId);
+    }
+
+    /**
+     * Release the locks whose holder stopped renewing them
+     */
+    @Cron(CronExpression.EVERY_10_SECONDS)
+    expireEditLocks(): void {
+        for (const lock of this.presenceService.expireLocks()) {
+            this.tasksGateway.emitPresence(taskChannel(lock.taskId));
+            this.tasksGateway.emitLock(lock.taskId, lock.projectId, null);
+        }
+    }
+
+    private releaseLock(client: Socket, taskId: string): void {
+        const released = this.presenceService.releaseLock(client.id, taskId);
+        if (released) {
+            this.tasksGateway.emitPresence(taskChannel(taskId));
+            this.tasksGateway.emitLock(taskId, released.projectId, null);
+        }
+    }
+
+    private leaveChannel(client: Socket, channel: string): void {
+        client.leave(channel);
+        if (this.presenceService.leaveChannel(client.id, channel)) {
+            this.tasksGateway.emitPresence(channel);
+        }
+    }
+
+    private async getAccessibleTask(client: Socket, taskId: string) {
+        const userId = this.getUserId(client);
+        try {
+            return await this.taskAccessService.getAccessibleTask(
+                userId,
+                taskId
+            );
+        } catch (error) {
+            // Socket clients get the message instead of a generic server error
+            if (error instanceof HttpException) {
+                throw new WsException(error.message);
+            }
+            throw error;
+        }
+    }
+
+    // Messages can arrive before the handshake is verified
+    private getUserId(client: Socket): string {
+        if (!client.data.userId) {
+            throw new WsException('Unauthorized');
+        }
+        return client.data.userId;
+    }
+}
@@ -0,0 +1,241 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, Recurrence, Task } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { PRIORITY_RANK } from '../../core/constants/priority.constants';
+import {
+    getNextOccurrence,
+    parseRRule,
+    RecurrenceRule,
+    Weekday
+} from '../../core/utils/recurrence';
+import { RecurrenceDto, TaskStatus } from './dto/task.dto';
+import { TasksGateway } from './tasks.gateway';
+import { TaskAccessService } from './task-access.service';
+import { TaskHistoryService } from './task-history.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+
+// Upper bound of occurrences generated per scheduler run
+const GENERATION_BATCH_SIZE = 200;
+
+const newObjectId = () => randomBytes(12).toString('hex');
+
+@Injectable()
+export class TaskRecurrenceService {
+    private readonly logger = new Logger(TaskRecurrenceService.name);
+
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly tasksGateway: TasksGateway,
+        private readonly taskAccessService: TaskAccessService,
+        private readonly taskHistoryService: TaskHistoryService,
+        private readonly taskWorkflowService: TaskWorkflowService,
+        private readonly webhookDeliveryService: WebhookDeliveryService
+    ) {}
+
+    /**
+     * Build the stored recurrence from a DTO
+     * @param recurrenceDto - An rrule string or explicit fields
+     * @param startsAt - The first occurrence of the series
+     * @throws BadRequestException if the rule is invalid
+     */
+    toRecurrence(
+        recurrenceDto: RecurrenceDto,
+        startsAt: Date
+    ): Prisma.RecurrenceCreateInput {
+        let rule: RecurrenceRule;
+
+        if (recurrenceDto.rrule) {
+            try {
+                rule = parseRRule(recurrenceDto.rrule);
+            } catch (error) {
+                throw new BadRequestException(
+                    `Invalid recurrence rule: ${(error as Error).message}`
+                );
+            }
+        } else {
+            if (!recurrenceDto.frequency) {
+                throw new BadRequestException(
+                    'Recurrence needs a frequency or an rrule'
+                );
+            }
+            rule = {
+                frequency: recurrenceDto.frequency,
+                interval: recurrenceDto.interval ?? 1,
+                byDay: (recurrenceDto.byDay ?? []) as Weekday[],
+                byMonthDay: recurrenceDto.byMonthDay ?? [],
+                until: recurrenceDto.until
+                    ? new Date(recurrenceDto.until)
+                    : null,
+                count: recurrenceDto.count ?? null
+            };
+        }
+
+        if (rule.until && rule.count) {
+            throw new BadRequestException(
+                'Recurrence cannot define both until and count'
+            );
+        }
+
+        return {
+            frequency: rule.frequency,
+            interval: rule.interval,
+            byDay: rule.byDay,
+            byMonthDay: rule.byMonthDay,
+            until: rule.until ?? null,
+            count: rule.count ?? null,
+            startsAt
+        };
+    }
+
+    /**
+     * Create the next occurrence of a recurring task
+     * Generation is claimed atomically, so each occurrence spawns at most one successor.
+     * Occurrences missed while nobody completed the task are skipped rather than backfilled.
+     * @param task - The current occurrence
+     * @returns The new occurrence, or null if the task is not recurring, already has a successor or the series ended
+     */
+    async createNextOccurrence(task: Task): Promise<Task | null> {
+        if (!task.recurrence || task.nextOccurrenceId) {
+            return null;
+        }
+
+        const rule = this.toRule(task.recurrence);
+        const now = new Date();
+        let index = task.recurrenceIndex ?? 1;
+        let dueDate: Date | null = task.dueDate ?? task.createdAt;
+
+        do {
+            if (rule.count && index >= rule.count) {
+                return this.endSeries(task);
+            }
+            dueDate = getNextOccurrence(
+                rule,
+                dueDate,
+                task.recurrence.startsAt
+            );
+            index++;
+        } while (dueDate && dueDate <= now);
+
+        if (!dueDate) {
+            return this.endSeries(task);
+        }
+
+        const { workflowState } =
+            await this.taskWorkflowService.resolveRepeat(task);
+
+        const nextId = newObjectId();
+        const claimed = await this.prismaService.task.updateMany({
+            where: { id: task.id, nextOccurrenceId: { isSet: false } },
+            data: { nextOccurrenceId: nextId }
+        });
+        if (claimed.count === 0) {
+            return null;
+        }
+
+        let next: Task;
+        try {
+            next = await this.prismaService.task.create({
+                data: {
+                    id: nextId,
+                    title: task.title,
+                    description: task.description,
+                    status: TaskStatus.TODO,
+                    workflowState,
+                    priority: task.priority,
+                    priorityRank: PRIORITY_RANK[task.priority],
+                    dueDate,
+                    allDay: task.allDay,
+                    estimateMinutes: task.estimateMinutes,
+                    reminderOffsets: task.reminderOffsets,
+                    userId: task.userId,
+                    projectId: task.projectId,
+                    assignees: {
+                        connect: task.assigneeIds.map((id) => ({ id }))
+                    },
+                    labels: {
+                        connect: task.labelIds.map((id) => ({ id }))
+                    },
+                    checklist: task.checklist.map((item) => ({
+                        id: newObjectId(),
+                        title: item.title,
+                        done: false,
+                        createdAt: now
+                    })),
+                    recurrence: task.recurrence,
+                    recurrenceSeriesId: task.recurrenceSeriesId ?? task.id,
+                    recurrenceIndex: index
+                }
+            });
+        } catch (error) {
+            // Release the claim, or the series would point at a task that does not exist and stop
+            await this.prismaService.task.updateMany({
+                where: { id: task.id, nextOccurrenceId: nextId },
+                data: { nextOccurrenceId: { unset: true } }
+            });
+            throw error;
+        }
+        // Generated by the series, not by a user
+        await this.taskHistoryService.recordCreated(null, next);
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([next]),
+            'taskAdded',
+            next
+        );
+        await this.webhookDeliveryService.publishTasks('task.created', [next]);
+
+        return next;
+    }
+
+    /**
+     * Create the next occurrence of recurring tasks whose scheduled date has arrived
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async generateDueOccurrences(): Promise<void> {
+        const due = await this.prismaService.task.findMany({
+            where: {
+                recurrence: { isSet: true },
+                nextOccurrenceId: { isSet: false },
+                dueDate: { lte: new Date() },
+                ...NOT_TRASHED
+            },
+            take: GENERATION_BATCH_SIZE
+        });
+
+        for (const task of due) {
+            try {
+                await this.createNextOccurrence(task);
+            } catch (error) {
+                this.logger.error(
+                    `Failed to create the next occurrence of task ${task.id}`,
+                    (error as Error).stack
+                );
+            }
+        }
+    }
+
+    /**
+     * The last occurrence of a finished series stops repeating, so the scheduler skips it from now on
+     */
+    private async endSeries(task: Task): Promise<null> {
+        await this.prismaService.task.update({
+            where: { id: task.id },
+            data: { recurrence: { unset: true }, version: { increment: 1 } }
+        });
+        return null;
+    }
+
+    private toRule(recurrence: Recurrence): RecurrenceRule {
+        return {
+            frequency: recurrence.frequency,
+            interval: recurrence.interval,
+            byDay: recurrence.byDay as Weekday[],
+            byMonthDay: recurrence.byMonthDay,
+            until: recurrence.until,
+            count: recurrence.count
+        };
+    }
+}
@@ -0,0 +1,275 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotificationType, Prisma } from '@prisma/client';
+import { TaskReminderService } from './task-reminder.service';
+import { NotificationService } from '../notification/notification.service';
+import { PrismaService } from '../../core/services/prisma.service';
+import { EmailTemplate } from '../../core/constants/email.constants';
+
+describe('TaskReminderService', () => {
+    let service: TaskReminderService;
+
+    const mockPrismaService = {
+        task: {
+            findMany: jest.fn()
+        },
+        reminderDelivery: {
+            findMany: jest.fn(),
+            create: jest.fn()
+        },
+        user: {
+            findMany: jest.fn()
+        }
+    };
+
+    const mockNotificationService = {
+        notify: jest.fn()
+    };
+
+    const now = new Date('2025-06-02T10:00:00.000Z');
+    const bob = { id: 'user2', name: 'Bob', email: 'bob@x.io' };
+
+    const task = (overrides = {}) => ({
+        id: 'task1',
+        title: 'Ship release',
+        priority: 'HIGH',
+        dueDate: new Date('2025-06-03T10:00:00.000Z'),
+        reminderOffsets: [1440],
+        userId: 'user1',
+        assigneeIds: ['user1', 'user2'],
+        project: { name: 'Launch' },
+        ...overrides
+    });
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskReminderService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: ConfigService,
+                    useValue: {
+                        get: (_key: string, fallback: string) => fallback
+                    }
+                },
+                {
+                    provide: NotificationService,
+                    useValue: mockNotificationService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskReminderService>(TaskReminderService);
+        jest.useFakeTimers({ now });
+        mockPrismaService.reminderDelivery.findMany.mockResolvedValue([]);
+        mockPrismaService.user.findMany.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.resetAllMocks();
+    });
+
+    describe('sendDueReminders', () => {
+        it('should notify the creator and assignees of the reminder', async () => {
+            mockPrismaService.task.findMany.mockResolvedValue([task()]);
+
+            await service.sendDueReminders();
+
+            expect(
+                mockPrismaService.reminderDelivery.create
+            ).toHaveBeenCalledWith({
+                data: {
+                    taskId: 'task1',
+                    offsetMinutes: 1440,
+                    dueDate: new Date('2025-06-03T10:00:00.000Z')
+                }
+            });
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['user1', 'user1', 'user2'],
+                {
+                    type: NotificationType.TASK_REMINDER,
+                    message: '"Ship release" is due in 1 day',
+                    actorId: null,
+                    taskId: 'task1',
+                    data: { offsetMinutes: 1440 }
+                },
+                expect.objectContaining({
+                    template: EmailTemplate.TASK_REMINDER
+                })
+            );
+
+            const [, , email] = mockNotificationService.notify.mock.calls[0];
+            expect(email.context(bob)).toEqual(
+                expect.objectContaining({
+                    name: 'Bob',
+                    headline: 'Your task is due in 1 day',
+                    projectName: 'Launch'
+                })
+            );
+        });
+
+        it('should skip reminders that are not due, already sent or too late', async () => {
+            mockPrismaService.task.findMany.mockResolvedValue([
+                // Due in 2 hours: the 1 hour reminder is not due yet, the 1 day one is long past
+                task({
+                    id: 'task1',
+                    dueDate: new Date('2025-06-02T12:00:00.000Z'),
+                    reminderOffsets: [60, 1440]
+                }),
+                task({ id: 'task2' })
+            ]);
+            mockPrismaService.reminderDelivery.findMany.mockResolvedValue([
+                {
+                    taskId: 'task2',
+                    offsetMinutes: 1440,
+                    dueDate: new Date('2025-06-03T10:00:00.000Z')
+                }
+            ]);
+
+            await service.sendDueReminders();
+
+            expect(
+                mockPrismaService.reminderDelivery.create
+            ).not.toHaveBeenCalled();
+            expect(mockNotificationService.notify).not.toHaveBeenCalled();
+        });
+
+        it("should remind all-day tasks from each recipient's local midnight", async () => {
+            // 18 hours before June 3 starts in New York (04:00 UTC) is now; in Paris it was 6 hours ago
+            mockPrismaService.task.findMany.mockResolvedValue([
+                task({
+                    dueDate: new Date('2025-06-03T00:00:00.000Z'),
+                    allDay: true,
+                    reminderOffsets: [1080]
+                })
+            ]);
+            mockPrismaService.user.findMany.mockResolvedValue([
+                { id: 'user1', timezone: 'America/New_York' },
+                { id: 'user2', timezone: 'Europe/Paris' }
+            ]);
+
+            await service.sendDueReminders();
+
+            expect(
+                mockPrismaService.reminderDelivery.create
+            ).toHaveBeenCalledTimes(1);
+            expect(
+                mockPrismaService.reminderDelivery.create
+            ).toHaveBeenCalledWith({
+                data: {
+                    taskId: 'task1',
+                    offsetMinutes: 1080,
+                    dueDate: new Date('2025-06-03T00:00:00.000Z'),
+                    userId: 'user1'
+                }
+            });
+            expect(mockNotificationService.notify).toHaveBeenCalledTimes(1);
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['user1'],
+                expect.objectContaining({ taskId: 'task1' }),
+                expect.anything()
+            );
+        });
+
+        it('should not send a reminder claimed by a concurrent run', async () => {
+            mockPrismaService.task.findMany.mockResolvedValue([task()]);
+            mockPrismaService.reminderDelivery.create.mockRejectedValue(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+                    code: 'P2002',
+                    clientVersion: 'test'
+                })
+            );
+
+            await service.sendDueReminders();
+
+            expect(mockNotificationService.notify).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sendOverdueDigests', () => {
+        it('should notify each user once of all their overdue tasks', async () => {
+            const overdue = {
+                title: 'Late',
+                dueDate: new Date('2025-06-01T10:00:00.000Z'),
+                priority: 'MEDIUM',
+                project: null
+            };
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { ...overdue, id: 'task1', userId: 'user1', assigneeIds: [] },
+                {
+                    ...overdue,
+                    id: 'task2',
+                    userId: 'user1',
+                    assigneeIds: ['user1', 'user2']
+                }
+            ]);
+
+            await service.sendOverdueDigests();
+
+            expect(mockNotificationService.notify).toHaveBeenCalledTimes(2);
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['user1'],
+                expect.objectContaining({
+                    type: NotificationType.OVERDUE_TASKS,
+                    message: 'You have 2 overdue tasks',
+                    data: { taskIds: ['task1', 'task2'] }
+                }),
+                expect.objectContaining({
+                    template: EmailTemplate.OVERDUE_DIGEST
+                })
+            );
+
+            const [, , email] = mockNotificationService.notify.mock.calls[1];
+            expect(email.context(bob)).toEqual(
+                expect.objectContaining({ name: 'Bob', count: 1, more: 0 })
+            );
+        });
+
+        it("should count all-day tasks as overdue once their day is over in the user's timezone", async () => {
+            const allDay = {
+                title: 'Late',
+                allDay: true,
+                priority: 'MEDIUM',
+                project: null
+            };
+            mockPrismaService.task.findMany.mockResolvedValue([
+                {
+                    ...allDay,
+                    id: 'task1',
+                    dueDate: new Date('2025-06-01T00:00:00.000Z'),
+                    userId: 'user1',
+                    assigneeIds: []
+                },
+                {
+                    ...allDay,
+                    id: 'task2',
+                    dueDate: new Date('2025-06-02T00:00:00.000Z'),
+                    userId: 'user1',
+                    assigneeIds: ['user2']
+                }
+            ]);
+            // It is still June 2 in New York, and already June 3 in Kiritimati
+            mockPrismaService.user.findMany.mockResolvedValue([
+                { id: 'user1', timezone: 'America/New_York' },
+                { id: 'user2', timezone: 'Pacific/Kiritimati' }
+            ]);
+
+            await service.sendOverdueDigests();
+
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['user1'],
+                expect.objectContaining({ data: { taskIds: ['task1'] } }),
+                expect.anything()
+            );
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['user2'],
+                expect.objectContaining({ data: { taskIds: ['task2'] } }),
+                expect.anything()
+            );
+        });
+    });
+});
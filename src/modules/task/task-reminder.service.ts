@@ -0,0 +1,396 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { MAX_REMINDER_OFFSET_MINUTES } from '../../core/constants/reminder.constants';
+import { NOT_ALL_DAY } from '../../core/constants/due-date.constants';
+import { DEFAULT_TIMEZONE } from '../../core/constants/notification.constants';
+import { getLocalDay, startOfLocalDay } from '../../core/utils/timezone';
+import {
+    EmailSubject,
+    EmailTemplate
+} from '../../core/constants/email.constants';
+import { NotificationService } from '../notification/notification.service';
+import { TaskStatus } from './dto/task.dto';
+
+const MINUTE = 60 * 1000;
+
+const DAY = 24 * 60 * MINUTE;
+
+// Reminders missed by more than this (downtime, due date set too late) are skipped rather than sent late
+const REMINDER_GRACE_MINUTES = 60;
+
+// Tasks listed in a digest email; the rest are only counted
+const DIGEST_MAX_TASKS = 20;
+
+// Same definition as the overdue count of the task stats
+const OPEN = {
+    status: { in: [TaskStatus.TODO, TaskStatus.IN_PROGRESS] }
+};
+
+const reminderInclude = {
+    project: { select: { name: true } }
+} satisfies Prisma.TaskInclude;
+
+type TaskWithProject = Prisma.TaskGetPayload<{
+    include: typeof reminderInclude;
+}>;
+
+interface Reminder {
+    // Set when the reminder is sent to a single recipient, from their local midnight
+    userId: string | null;
+    recipientIds: string[];
+    // The moment the offset counts back from
+    dueAt: Date;
+}
+
+/**
+ * Describe a reminder offset, e.g. "1 day", "2 hours" or "15 minutes"
+ */
+const formatOffset = (minutes: number): string => {
+    const [value, unit] =
+        minutes % (24 * 60) === 0
+            ? [minutes / (24 * 60), 'day']
+            : minutes % 60 === 0
+              ? [minutes / 60, 'hour']
+              : [minutes, 'minute'];
+    return `${value} ${unit}${value > 1 ? 's' : ''}`;
+};
+
+const formatDate = (date: Date): string =>
+    date.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+
+@Injectable()
+export class TaskReminderService {
+    private readonly logger = new Logger(TaskReminderService.name);
+
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly configService: ConfigService,
+        private readonly notificationService: NotificationService
+    ) {}
+
+    /**
+     * Send the reminders whose time has come to the creator and assignees of open tasks
+     */
+    @Cron(CronExpression.EVERY_5_MINUTES)
+    async sendDueReminders(): Promise<void> {
+        const now = Date.now();
+        const tasks = await this.prismaService.task.findMany({
+            where: {
+                ...NOT_TRASHED,
+                ...OPEN,
+                reminderOffsets: { isEmpty: false },
+                // All-day tasks are due at local midnights, which are within a day of the UTC midnight they are saved at
+                dueDate: {
+                    gt: new Date(now - REMINDER_GRACE_MINUTES * MINUTE - DAY),
+                    lte: new Date(
+                        now + MAX_REMINDER_OFFSET_MINUTES * MINUTE + DAY
+                    )
+                }
+            },
+            include: reminderInclude
+        });
+        if (tasks.length === 0) {
+            return;
+        }
+
+        const deliveries = await this.prismaService.reminderDelivery.findMany({
+            where: { taskId: { in: tasks.map((task) => task.id) } }
+        });
+        const sent = new Set(
+            deliveries.map((delivery) =>
+                this.deliveryKey(
+                    delivery.taskId,
+                    delivery.offsetMinutes,
+                    delivery.dueDate,
+                    delivery.userId
+                )
+            )
+        );
+        const timeZones = await this.getTimeZones(
+            tasks
+                .filter((task) => task.allDay)
+                .flatMap((task) => [task.userId, ...task.assigneeIds])
+        );
+
+        for (const task of tasks) {
+            for (const reminder of this.toReminders(task, timeZones)) {
+                for (const offsetMinutes of task.reminderOffsets) {
+                    const remindAt =
+                        reminder.dueAt.getTime() - offsetMinutes * MINUTE;
+                    if (
+                        remindAt > now ||
+                        remindAt <= now - REMINDER_GRACE_MINUTES * MINUTE ||
+                        sent.has(
+                            this.deliveryKey(
+                                task.id,
+                                offsetMinutes,
+                                task.dueDate,
+                                reminder.userId
+                            )
+                        )
+                    ) {
+                        continue;
+                    }
+
+                    try {
+                        if (
+                            await this.claim(
+                                task,
+                                offsetMinutes,
+                                reminder.userId
+                            )
+                        ) {
+                            await this.remind(
+                                task,
+                                offsetMinutes,
+                                reminder.recipientIds
+                            );
+                        }
+                    } catch (error) {
+                        this.logger.error(
+                            `Failed to send the reminder of task ${task.id}`,
+                            (error as Error).stack
+                        );
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Send each user a daily list of the open tasks they created or are assigned to that are past due
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_8AM)
+    async sendOverdueDigests(): Promise<void> {
+        const now = new Date();
+        const overdue = await this.prismaService.task.findMany({
+            where: {
+                ...NOT_TRASHED,
+                ...OPEN,
+                OR: [
+                    // Overdue once their day is over for the user, at most a day after it is over in UTC
+                    {
+                        allDay: true,
+                        dueDate: {
+                            lt: new Date(
+                                startOfLocalDay(
+                                    getLocalDay(now, 'UTC'),
+                                    'UTC'
+                                ).getTime() + DAY
+                            )
+                        }
+                    },
+                    { AND: [NOT_ALL_DAY, { dueDate: { lt: now } }] }
+                ]
+            },
+            select: {
+                id: true,
+                title: true,
+                dueDate: true,
+                allDay: true,
+                priority: true,
+                userId: true,
+                assigneeIds: true,
+                project: { select: { name: true } }
+            },
+            orderBy: { dueDate: 'asc' }
+        });
+
+        const byUser = new Map<string, typeof overdue>();
+        for (const task of overdue) {
+            for (const userId of new Set([task.userId, ...task.assigneeIds])) {
+                byUser.set(userId, [...(byUser.get(userId) ?? []), task]);
+            }
+        }
+
+        const timeZones = await this.getTimeZones([...byUser.keys()]);
+
+        for (const [userId, userTasks] of byUser) {
+            const today = startOfLocalDay(
+                getLocalDay(now, timeZones.get(userId)),
+                'UTC'
+            );
+            const tasks = userTasks.filter(
+                (task) => !task.allDay || task.dueDate < today
+            );
+            if (tasks.length === 0) {
+                continue;
+            }
+
+            try {
+                await this.notificationService.notify(
+                    [userId],
+                    {
+                        type: NotificationType.OVERDUE_TASKS,
+                        message: `You have ${tasks.length} overdue ${tasks.length > 1 ? 'tasks' : 'task'}`,
+                        actorId: null,
+                        data: { taskIds: tasks.map((task) => task.id) }
+                    },
+                    {
+                        subject: EmailSubject.OVERDUE_DIGEST,
+                        template: EmailTemplate.OVERDUE_DIGEST,
+                        context: (recipient) => ({
+                            name: recipient.name,
+                            count: tasks.length,
+                            tasks: tasks
+                                .slice(0, DIGEST_MAX_TASKS)
+                                .map((task) => ({
+                                    title: task.title,
+                                    url: this.taskUrl(task.id),
+                                    dueDate: formatDate(task.dueDate),
+                                    priority: task.priority,
+                                    projectName: task.project?.name ?? null
+                                })),
+                            more: Math.max(0, tasks.length - DIGEST_MAX_TASKS)
+                        })
+                    }
+                );
+            } catch (error) {
+                this.logger.error(
+                    `Failed to send the overdue digest to user ${userId}`,
+                    (error as Error).stack
+                );
+            }
+        }
+    }
+
+    /**
+     * Record the reminder before sending it so that concurrent runs send it once
+     * @returns false if the reminder was already sent
+     */
+    private async claim(
+        task: TaskWithProject,
+        offsetMinutes: number,
+        userId: string | null
+    ): Promise<boolean> {
+        try {
+            await this.prismaService.reminderDelivery.create({
+                data: {
+                    taskId: task.id,
+                    offsetMinutes,
+                    dueDate: task.dueDate,
+                    ...(userId && { userId })
+                }
+            });
+            return true;
+        } catch (error) {
+            if (
+                error instanceof Prisma.PrismaClientKnownRequestError &&
+                error.code === 'P2002'
+            ) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private async remind(
+        task: TaskWithProject,
+        offsetMinutes: number,
+        recipientIds: string[]
+    ): Promise<void> {
+        const dueIn =
+            offsetMinutes === 0 ? 'now' : `in ${formatOffset(offsetMinutes)}`;
+
+        await this.notificationService.notify(
+            recipientIds,
+            {
+                type: NotificationType.TASK_REMINDER,
+                message: `"${task.title}" is due ${dueIn}`,
+                actorId: null,
+                taskId: task.id,
+                data: { offsetMinutes }
+            },
+            {
+                subject: `${EmailSubject.TASK_REMINDER}: ${task.title}`,
+                template: EmailTemplate.TASK_REMINDER,
+                context: (recipient) => ({
+                    name: recipient.name,
+                    headline: `Your task is due ${dueIn}`,
+                    taskTitle: task.title,
+                    taskUrl: this.taskUrl(task.id),
+                    dueDate: formatDate(task.dueDate),
+                    priority: task.priority,
+                    projectName: task.project?.name ?? null
+                })
+            }
+        );
+    }
+
+    /**
+     * Timed tasks are reminded once, to everyone, before their due time.
+     * All-day tasks are reminded to each recipient before the start of the day in their timezone
+     */
+    private toReminders(
+        task: TaskWithProject,
+        timeZones: Map<string, string>
+    ): Reminder[] {
+        if (!task.allDay) {
+            return [
+                {
+                    userId: null,
+                    recipientIds: [task.userId, ...task.assigneeIds],
+                    dueAt: task.dueDate
+                }
+            ];
+        }
+
+        const day = task.dueDate.toISOString().slice(0, 10);
+        return [...new Set([task.userId, ...task.assigneeIds])].map(
+            (userId) => ({
+                userId,
+                recipientIds: [userId],
+                dueAt: startOfLocalDay(day, timeZones.get(userId))
+            })
+        );
+    }
+
+    // Timezone of each user, DEFAULT_TIMEZONE when unset
+    private async getTimeZones(
+        userIds: string[]
+    ): Promise<Map<string, string>> {
+        const ids = [...new Set(userIds)];
+        const users = ids.length
+            ? await this.prismaService.user.findMany({
+                  where: { id: { in: ids } },
+                  select: { id: true, timezone: true }
+              })
+            : [];
+        const timeZones = new Map(
+            users.map((user) => [user.id, user.timezone ?? DEFAULT_TIMEZONE])
+        );
+        for (const id of ids) {
+            if (!timeZones.has(id)) {
+                timeZones.set(id, DEFAULT_TIMEZONE);
+            }
+        }
+        return timeZones;
+    }
+
+    private deliveryKey(
+        taskId: string,
+        offsetMinutes: number,
+        dueDate: Date,
+        userId?: string | null
+    ): string {
+        return `${taskId}:${offsetMinutes}:${dueDate.getTime()}:${userId ?? ''}`;
+    }
+
+    private taskUrl(taskId: string): string {
+        const frontendUrl = this.configService.get<string>(
+            'FRONTEND_URL',
+            'http://localhost:3000'
+        );
+        return `${frontendUrl}/tasks/${taskId}`;
+    }
+}
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaskSearchService } from './task-search.service';
+import { TaskService } from './task.service';
+import { TextGenerationService } from '../task-ai/services/text-generation.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('TaskSearchService', () => {
+    let service: TaskSearchService;
+
+    const mockPrismaService = {
+        teamMember: {
+            findMany: jest.fn()
+        },
+        project: {
+            findMany: jest.fn()
+        },
+        label: {
+            findMany: jest.fn()
+        }
+    };
+
+    const mockTaskService = {
+        findAll: jest.fn(),
+        parseUserText: jest.fn(),
+        getUserTimeZone: jest.fn()
+    };
+
+    const mockTextGenerationService = {
+        interpretTaskSearch: jest.fn()
+    };
+
+    const page = {
+        data: [{ id: 'task1' }],
+        meta: { limit: 10, total: 1, hasNextPage: false }
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskSearchService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TaskService,
+                    useValue: mockTaskService
+                },
+                {
+                    provide: TextGenerationService,
+                    useValue: mockTextGenerationService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskSearchService>(TaskSearchService);
+        mockPrismaService.teamMember.findMany.mockResolvedValue([
+            { teamId: 'team1' }
+        ]);
+        mockPrismaService.project.findMany.mockResolvedValue([
+            { id: 'project1', name: 'Mobile App' }
+        ]);
+        mockPrismaService.label.findMany.mockResolvedValue([
+            { id: 'label1', name: 'bug' }
+        ]);
+        mockTaskService.findAll.mockResolvedValue(page);
+        mockTaskService.getUserTimeZone.mockResolvedValue('Europe/Paris');
+        mockTaskService.parseUserText.mockReturnValue({
+            dueDate: null,
+            parsedText: ''
+        });
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should keep only the valid parts of the LLM interpretation', async () => {
+        mockTextGenerationService.interpretTaskSearch.mockResolvedValue({
+            status: 'STARTED',
+            priority: 'HIGH',
+            dueFrom: '2025-06-09',
+            dueUntil: 'next friday',
+            project: 'mobile app',
+            labels: ['Bug', 'unknown'],
+            search: ' login '
+        });
+
+        const result = await service.search('user1', {
+            q: 'high priority login bugs due next week in Mobile App',
+            limit: 10
+        });
+
+        expect(result.interpretation).toEqual({
+            source: 'llm',
+            filter: {
+                priority: 'HIGH',
+                dueFrom: '2025-06-09',
+                projectId: 'project1',
+                labelIds: ['label1'],
+                search: 'login'
+            },
+            unmatched: []
+        });
+        expect(mockTaskService.findAll).toHaveBeenCalledWith('user1', {
+            ...result.interpretation.filter,
+            page: undefined,
+            limit: 10,
+            cursor: undefined
+        });
+        expect(result.data).toEqual(page.data);
+        expect(mockPrismaService.project.findMany).toHaveBeenCalledWith({
+            where: {
+                OR: [{ ownerId: 'user1' }, { teamId: { in: ['team1'] } }],
+                deletedAt: { isSet: false }
+            },
+            select: { id: true, name: true }
+        });
+        expect(mockPrismaService.label.findMany).toHaveBeenCalledWith({
+            where: {
+                OR: [{ ownerId: 'user1' }, { teamId: { in: ['team1'] } }]
+            },
+            select: { id: true, name: true }
+        });
+    });
+
+    it('should fall back to the rules when the LLM fails', async () => {
+        mockTextGenerationService.interpretTaskSearch.mockRejectedValue(
+            new Error('Request timed out')
+        );
+
+        const result = await service.search('user1', {
+            q: 'tâches urgentes en retard dans Mobile App',
+            limit: 10
+        });
+
+        expect(result.interpretation).toEqual({
+            source: 'rules',
+            filter: {
+                priority: 'URGENT',
+                dueWithin: 'overdue',
+                projectId: 'project1'
+            },
+            unmatched: []
+        });
+        expect(mockTaskService.findAll).toHaveBeenCalledWith(
+            'user1',
+            expect.objectContaining({
+                priority: 'URGENT',
+                dueWithin: 'overdue'
+            })
+        );
+    });
+
+    it("should read the rules' explicit dates as days of the user", async () => {
+        mockTextGenerationService.interpretTaskSearch.mockRejectedValue(
+            new Error('Request timed out')
+        );
+        mockTaskService.parseUserText.mockReturnValue({
+            dueDate: new Date('2025-06-05T22:30:00.000Z'),
+            allDay: false,
+            parsedText: 'june 6 at 0:30'
+        });
+
+        const result = await service.search('user1', {
+            q: 'tasks due june 6 at 0:30',
+            limit: 10
+        });
+
+        // 00:30 on June 6 in Paris
+        expect(result.interpretation.filter).toEqual({
+            dueFrom: '2025-06-06',
+            dueUntil: '2025-06-06'
+        });
+        expect(mockTaskService.parseUserText).toHaveBeenCalledWith(
+            expect.any(String),
+            'Europe/Paris',
+            expect.any(Date)
+        );
+    });
+});
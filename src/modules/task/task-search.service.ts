@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Task, TaskPriority, TaskStatus } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { DEFAULT_TIMEZONE } from '../../core/constants/notification.constants';
+import { getLocalDay } from '../../core/utils/timezone';
+import {
+    parseSearchQuery,
+    SearchCatalog,
+    SearchCatalogItem,
+    TaskSearchFilter
+} from '../../core/utils/search-query';
+import { TextGenerationService } from '../task-ai/services/text-generation.service';
+import { TaskService } from './task.service';
+import { QueryTaskDto, SearchTaskDto } from './dto/task.dto';
+
+export interface TaskSearchInterpretation {
+    // llm, or rules when the LLM was unavailable or answered something unusable
+    source: 'llm' | 'rules';
+    filter: TaskSearchFilter;
+    // Words the rules did not understand; always empty for the LLM
+    unmatched: string[];
+}
+
+export interface TaskSearchResult extends PaginatedResponseDto<Task> {
+    query: string;
+    interpretation: TaskSearchInterpretation;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const findByName = (items: SearchCatalogItem[], name: unknown) =>
+    typeof name === 'string'
+        ? items.find(
+              (item) => item.name.toLowerCase() === name.trim().toLowerCase()
+          )
+        : undefined;
+
+const isDay = (value: unknown): value is string =>
+    typeof value === 'string' &&
+    DAY.test(value) &&
+    !isNaN(new Date(value).getTime());
+
+/**
+ * Keep the parts of an LLM answer that are valid filters; names outside the catalog are dropped
+ */
+const toSearchFilter = (
+    raw: Record<string, unknown>,
+    catalog: SearchCatalog
+): TaskSearchFilter => {
+    const project = findByName(catalog.projects, raw.project);
+    const labelIds = (Array.isArray(raw.labels) ? raw.labels : [])
+        .map((name) => findByName(catalog.labels, name)?.id)
+        .filter(Boolean);
+    const search = typeof raw.search === 'string' ? raw.search.trim() : '';
+
+    return {
+        ...(Object.values(TaskStatus).includes(raw.status as TaskStatus) && {
+            status: raw.status as TaskStatus
+        }),
+        ...(Object.values(TaskPriority).includes(
+            raw.priority as TaskPriority
+        ) && { priority: raw.priority as TaskPriority }),
+        ...(isDay(raw.dueFrom) && { dueFrom: raw.dueFrom }),
+        ...(isDay(raw.dueUntil) && { dueUntil: raw.dueUntil }),
+        ...(project && { projectId: project.id }),
+        ...(labelIds.length > 0 && { labelIds }),
+        ...(search && { search: search.slice(0, 200) })
+    };
+};
+
+@Injectable()
+export class TaskSearchService {
+    private readonly logger = new Logger(TaskSearchService.name);
+
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly taskService: TaskService,
+        private readonly textGenerationService: TextGenerationService
+    ) {}
+
+    /**
+     * Search tasks with a query in natural language: it is turned into filters of GET /tasks,
+     * which are returned along with the matching tasks
+     */
+    async search(
+        userId: string,
+        { q, page, limit, cursor }: SearchTaskDto
+    ): Promise<TaskSearchResult> {
+        const interpretation = await this.interpret(
+            q,
+            await this.getCatalog(userId),
+            await this.taskService.getUserTimeZone(userId)
+        );
+
+        const { data, meta } = await this.taskService.findAll(userId, {
+            ...(interpretation.filter as QueryTaskDto),
+            page,
+            limit,
+            cursor
+        });
+
+        return { query: q, interpretation, data, meta };
+    }
+
+    /**
+     * Interpret a search with the LLM, or with fixed rules when the LLM fails.
+     * Dates are days of the user's timezone
+     */
+    async interpret(
+        query: string,
+        catalog: SearchCatalog,
+        timeZone = DEFAULT_TIMEZONE,
+        now = new Date()
+    ): Promise<TaskSearchInterpretation> {
+        try {
+            const raw = await this.textGenerationService.interpretTaskSearch(
+                query,
+                {
+                    today: getLocalDay(now, timeZone),
+                    projects: catalog.projects.map((project) => project.name),
+                    labels: catalog.labels.map((label) => label.name)
+                }
+            );
+            return {
+                source: 'llm',
+                filter: toSearchFilter(raw, catalog),
+                unmatched: []
+            };
+        } catch (error) {
+            this.logger.warn(
+                `Interpreting the search with rules: ${(error as Error).message}`
+            );
+        }
+
+        return {
+            source: 'rules',
+            ...parseSearchQuery(query, catalog, (text) => {
+                const { dueDate, allDay, parsedText } =
+                    this.taskService.parseUserText(text, timeZone, now);
+                if (!dueDate) {
+                    return null;
+                }
+                // All-day dates are stored on their day at midnight UTC
+                const day = allDay
+                    ? dueDate.toISOString().slice(0, 10)
+                    : getLocalDay(dueDate, timeZone);
+                return { day, text: parsedText };
+            })
+        };
+    }
+
+    /**
+     * The user's own projects and those of their teams, and the labels of their catalogs
+     */
+    private async getCatalog(userId: string): Promise<SearchCatalog> {
+        const memberships = await this.prismaService.teamMember.findMany({
+            where: { userId },
+            select: { teamId: true }
+        });
+        const teamIds = memberships.map((membership) => membership.teamId);
+
+        const [projects, labels] = await Promise.all([
+            this.prismaService.project.findMany({
+                where: {
+                    OR: [{ ownerId: userId }, { teamId: { in: teamIds } }],
+                    ...NOT_TRASHED
+                },
+                select: { id: true, name: true }
+            }),
+            this.prismaService.label.findMany({
+                where: {
+                    OR: [{ ownerId: userId }, { teamId: { in: teamIds } }]
+                },
+                select: { id: true, name: true }
+            })
+        ]);
+
+        return { projects, labels };
+    }
+}
@@ -0,0 +1,144 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    UseGuards,
+    Request,
+    HttpCode,
+    HttpStatus
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam
+} from '@nestjs/swagger';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { TaskTimeService } from './task-time.service';
+import {
+    CreateTimeEntryDto,
+    StartTimerDto,
+    UpdateTimeEntryDto
+} from './dto/time-entry.dto';
+
+@ApiTags('Task Time Tracking')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('tasks/:id')
+export class TaskTimeController {
+    constructor(private readonly taskTimeService: TaskTimeService) {}
+
+    @Post('timer/start')
+    @ApiOperation({
+        summary: 'Start a timer on a task',
+        description:
+            'Starts tracking time for the authenticated user; a timer running on another task is stopped first'
+    })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiResponse({ status: 201, description: 'Timer started' })
+    @ApiResponse({ status: 404, description: 'Task not found' })
+    startTimer(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Body() startTimerDto: StartTimerDto
+    ) {
+        return this.taskTimeService.startTimer(
+            req.user.sub,
+            taskId,
+            startTimerDto
+        );
+    }
+
+    @Post('timer/stop')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Stop the timer on a task',
+        description:
+            'Logs the elapsed time, rounded to the minute (at least one minute)'
+    })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiResponse({ status: 200, description: 'Timer stopped' })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found or no timer running on it'
+    })
+    stopTimer(@Request() req: any, @Param('id') taskId: string) {
+        return this.taskTimeService.stopTimer(req.user.sub, taskId);
+    }
+
+    @Get('time-entries')
+    @ApiOperation({
+        summary: 'Get the time logged on a task',
+        description:
+            'Returns the time entries, newest first, with the total per user and the remaining estimate. Running timers are listed but not counted'
+    })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiResponse({ status: 200, description: 'Time entries and totals' })
+    @ApiResponse({ status: 404, description: 'Task not found' })
+    getTaskTime(@Request() req: any, @Param('id') taskId: string) {
+        return this.taskTimeService.getTaskTime(req.user.sub, taskId);
+    }
+
+    @Post('time-entries')
+    @ApiOperation({ summary: 'Log time on a task by hand' })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiResponse({ status: 201, description: 'Time entry created' })
+    @ApiResponse({ status: 400, description: 'Invalid time entry' })
+    @ApiResponse({ status: 404, description: 'Task not found' })
+    logTime(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Body() createTimeEntryDto: CreateTimeEntryDto
+    ) {
+        return this.taskTimeService.logTime(
+            req.user.sub,
+            taskId,
+            createTimeEntryDto
+        );
+    }
+
+    @Patch('time-entries/:entryId')
+    @ApiOperation({ summary: 'Edit a time entry (author only)' })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiParam({ name: 'entryId', description: 'Time entry ID' })
+    @ApiResponse({ status: 200, description: 'Time entry updated' })
+    @ApiResponse({
+        status: 400,
+        description: 'The duration of a running timer cannot be changed'
+    })
+    @ApiResponse({ status: 403, description: 'Only the author can edit' })
+    @ApiResponse({ status: 404, description: 'Task or time entry not found' })
+    updateEntry(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Param('entryId') entryId: string,
+        @Body() updateTimeEntryDto: UpdateTimeEntryDto
+    ) {
+        return this.taskTimeService.updateEntry(
+            req.user.sub,
+            taskId,
+            entryId,
+            updateTimeEntryDto
+        );
+    }
+
+    @Delete('time-entries/:entryId')
+    @ApiOperation({ summary: 'Delete a time entry (author only)' })
+    @ApiParam({ name: 'id', description: 'Task ID' })
+    @ApiParam({ name: 'entryId', description: 'Time entry ID' })
+    @ApiResponse({ status: 200, description: 'Time entry deleted' })
+    @ApiResponse({ status: 403, description: 'Only the author can delete' })
+    @ApiResponse({ status: 404, description: 'Task or time entry not found' })
+    removeEntry(
+        @Request() req: any,
+        @Param('id') taskId: string,
+        @Param('entryId') entryId: string
+    ) {
+        return this.taskTimeService.removeEntry(req.user.sub, taskId, entryId);
+    }
+}
@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    BadRequestException,
+    ForbiddenException,
+    NotFoundException
+} from '@nestjs/common';
+import { TaskTimeService } from './task-time.service';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('TaskTimeService', () => {
+    let service: TaskTimeService;
+
+    const mockPrismaService = {
+        timeEntry: {
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn()
+        }
+    };
+
+    const mockTaskAccessService = {
+        getAccessibleTask: jest.fn()
+    };
+
+    const mockTasksGateway = {
+        emitToUsers: jest.fn()
+    };
+
+    const now = new Date('2025-06-02T10:00:00.000Z');
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskTimeService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TaskAccessService,
+                    useValue: mockTaskAccessService
+                },
+                {
+                    provide: TasksGateway,
+                    useValue: mockTasksGateway
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskTimeService>(TaskTimeService);
+        jest.useFakeTimers({ now });
+        mockTaskAccessService.getAccessibleTask.mockResolvedValue({
+            id: 'task1',
+            estimateMinutes: 120
+        });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.resetAllMocks();
+    });
+
+    describe('startTimer', () => {
+        it('should stop the timer already running before starting a new one', async () => {
+            mockPrismaService.timeEntry.findMany.mockResolvedValue([
+                {
+                    id: 'entry1',
+                    userId: 'user1',
+                    startedAt: new Date('2025-06-02T09:15:20.000Z')
+                }
+            ]);
+
+            await service.startTimer('user1', 'task1', {});
+
+            expect(mockPrismaService.timeEntry.update).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: 'entry1' },
+                    data: { endedAt: now, minutes: 45 }
+                })
+            );
+            expect(mockPrismaService.timeEntry.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: {
+                        taskId: 'task1',
+                        userId: 'user1',
+                        startedAt: now,
+                        note: undefined
+                    }
+                })
+            );
+        });
+    });
+
+    describe('stopTimer', () => {
+        it('should throw NotFoundException when no timer runs on the task', async () => {
+            mockPrismaService.timeEntry.findFirst.mockResolvedValue(null);
+
+            await expect(service.stopTimer('user1', 'task1')).rejects.toThrow(
+                NotFoundException
+            );
+        });
+
+        it('should log at least one minute', async () => {
+            mockPrismaService.timeEntry.findFirst.mockResolvedValue({
+                id: 'entry1',
+                userId: 'user1',
+                startedAt: new Date('2025-06-02T09:59:50.000Z')
+            });
+
+            await service.stopTimer('user1', 'task1');
+
+            expect(mockPrismaService.timeEntry.update).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: { endedAt: now, minutes: 1 }
+                })
+            );
+        });
+    });
+
+    describe('logTime', () => {
+        it('should end the entry the given minutes after it started', async () => {
+            await service.logTime('user1', 'task1', {
+                minutes: 90,
+                startedAt: '2025-06-01T08:00:00.000Z'
+            });
+
+            expect(mockPrismaService.timeEntry.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        startedAt: new Date('2025-06-01T08:00:00.000Z'),
+                        endedAt: new Date('2025-06-01T09:30:00.000Z'),
+                        minutes: 90
+                    })
+                })
+            );
+        });
+    });
+
+    describe('updateEntry', () => {
+        it('should refuse to change the duration of a running timer', async () => {
+            mockPrismaService.timeEntry.findFirst.mockResolvedValue({
+                id: 'entry1',
+                userId: 'user1',
+                startedAt: now
+            });
+
+            await expect(
+                service.updateEntry('user1', 'task1', 'entry1', { minutes: 30 })
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it("should refuse to change another user's entry", async () => {
+            mockPrismaService.timeEntry.findFirst.mockResolvedValue({
+                id: 'entry1',
+                userId: 'user2'
+            });
+
+            await expect(
+                service.updateEntry('user1', 'task1', 'entry1', { note: 'x' })
+            ).rejects.toThrow(ForbiddenException);
+        });
+    });
+
+    describe('getTaskTime', () => {
+        it('should total stopped entries per user against the estimate', async () => {
+            const alice = { id: 'user1', name: 'Alice', email: 'a@x.io' };
+            const bob = { id: 'user2', name: 'Bob', email: 'b@x.io' };
+            mockPrismaService.timeEntry.findMany.mockResolvedValue([
+                { userId: 'user1', user: alice, minutes: 0, endedAt: null },
+                { userId: 'user2', user: bob, minutes: 30, endedAt: now },
+                { userId: 'user1', user: alice, minutes: 20, endedAt: now },
+                { userId: 'user1', user: alice, minutes: 25, endedAt: now }
+            ]);
+
+            const result = await service.getTaskTime('user1', 'task1');
+
+            expect(result.totalMinutes).toBe(75);
+            expect(result.remainingMinutes).toBe(45);
+            expect(result.byUser).toEqual([
+                { user: alice, minutes: 45 },
+                { user: bob, minutes: 30 }
+            ]);
+            expect(result.entries).toHaveLength(4);
+        });
+    });
+});
@@ -0,0 +1,413 @@
+import {
+    BadRequestException,
+    ForbiddenException,
+    Injectable,
+    NotFoundException
+} from '@nestjs/common';
+import { Prisma, TimeEntry } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { resolveDateRange } from '../../core/utils/helpers';
+import { DateRangeDto } from '../../core/common/dto/date-range.dto';
+import { TaskAccessService } from './task-access.service';
+import { TasksGateway } from './tasks.gateway';
+import {
+    CreateTimeEntryDto,
+    StartTimerDto,
+    UpdateTimeEntryDto
+} from './dto/time-entry.dto';
+
+const MINUTE = 60 * 1000;
+
+const timeEntryInclude = {
+    user: {
+        select: {
+            id: true,
+            name: true,
+            email: true
+        }
+    },
+    task: {
+        select: {
+            id: true,
+            title: true,
+            projectId: true
+        }
+    }
+} satisfies Prisma.TimeEntryInclude;
+
+type TimeEntryWithRelations = Prisma.TimeEntryGetPayload<{
+    include: typeof timeEntryInclude;
+}>;
+
+// Running timers count once they are stopped
+const LOGGED = { endedAt: { isSet: true } } as const;
+const RUNNING = { endedAt: { isSet: false } } as const;
+
+export interface TaskTimeSummary {
+    estimateMinutes: number | null;
+    totalMinutes: number;
+    remainingMinutes: number | null;
+    byUser: { user: TimeEntryWithRelations['user']; minutes: number }[];
+    entries: TimeEntryWithRelations[];
+}
+
+export interface TimeReport {
+    from: Date;
+    to: Date;
+    totalMinutes: number;
+    byUser?: { user: TimeEntryWithRelations['user']; minutes: number }[];
+    byProject?: {
+        project: { id: string; name: string } | null;
+        minutes: number;
+    }[];
+    byTask: { task: TimeEntryWithRelations['task']; minutes: number }[];
+}
+
+const sumMinutes = (entries: { minutes: number }[]): number =>
+    entries.reduce((sum, entry) => sum + entry.minutes, 0);
+
+/**
+ * Sum the minutes of entries sharing a key, biggest totals first
+ */
+const groupMinutes = <E extends { minutes: number }, T extends object>(
+    entries: E[],
+    keyOf: (entry: E) => string,
+    describe: (entry: E) => T
+): (T & { minutes: number })[] => {
+    const groups = new Map<string, T & { minutes: number }>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        const group = groups.get(key) ?? { ...describe(entry), minutes: 0 };
+        group.minutes += entry.minutes;
+        groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) => b.minutes - a.minutes);
+};
+
+@Injectable()
+export class TaskTimeService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly taskAccessService: TaskAccessService,
+        private readonly tasksGateway: TasksGateway
+    ) {}
+
+    /**
+     * Start a timer on a task; a timer already running for the user is stopped first
+     */
+    async startTimer(
+        userId: string,
+        taskId: string,
+        startTimerDto: StartTimerDto
+    ): Promise<TimeEntryWithRelations> {
+        await this.taskAccessService.getAccessibleTask(userId, taskId);
+
+        const running = await this.prismaService.timeEntry.findMany({
+            where: { userId, ...RUNNING }
+        });
+        for (const entry of running) {
+            await this.stop(entry);
+        }
+
+        const entry = await this.prismaService.timeEntry.create({
+            data: {
+                taskId,
+                userId,
+                startedAt: new Date(),
+                note: startTimerDto.note
+            },
+            include: timeEntryInclude
+        });
+
+        // Keeps the user's other devices in sync
+        this.tasksGateway.emitToUsers([userId], 'timerStarted', entry);
+        return entry;
+    }
+
+    /**
+     * Stop the user's timer on a task and log the elapsed time
+     * @throws NotFoundException if no timer is running on the task
+     */
+    async stopTimer(
+        userId: string,
+        taskId: string
+    ): Promise<TimeEntryWithRelations> {
+        await this.taskAccessService.getAccessibleTask(userId, taskId);
+
+        const running = await this.prismaService.timeEntry.findFirst({
+            where: { userId, taskId, ...RUNNING }
+        });
+        if (!running) {
+            throw new NotFoundException('No timer is running on this task');
+        }
+
+        return this.stop(running);
+    }
+
+    /**
+     * Get the user's running timer, if any
+     */
+    async getRunningTimer(
+        userId: string
+    ): Promise<TimeEntryWithRelations | null> {
+        return this.prismaService.timeEntry.findFirst({
+            where: { userId, ...RUNNING },
+            include: timeEntryInclude
+        });
+    }
+
+    /**
+     * Log time spent on a task by hand
+     */
+    async logTime(
+        userId: string,
+        taskId: string,
+        createTimeEntryDto: CreateTimeEntryDto
+    ): Promise<TimeEntryWithRelations> {
+        await this.taskAccessService.getAccessibleTask(userId, taskId);
+
+        const { minutes, note } = createTimeEntryDto;
+        const startedAt = createTimeEntryDto.startedAt
+            ? new Date(createTimeEntryDto.startedAt)
+            : new Date(Date.now() - minutes * MINUTE);
+
+        return this.prismaService.timeEntry.create({
+            data: {
+                taskId,
+                userId,
+                startedAt,
+                endedAt: new Date(startedAt.getTime() + minutes * MINUTE),
+                minutes,
+                note
+            },
+            include: timeEntryInclude
+        });
+    }
+
+    /**
+     * Edit a time entry; only its author can do so, and a running timer only accepts a new note
+     */
+    async updateEntry(
+        userId: string,
+        taskId: string,
+        entryId: string,
+        updateTimeEntryDto: UpdateTimeEntryDto
+    ): Promise<TimeEntryWithRelations> {
+        await this.taskAccessService.getAccessibleTask(userId, taskId);
+        const entry = await this.findOwnEntry(userId, taskId, entryId);
+
+        const { minutes, startedAt, note } = updateTimeEntryDto;
+        if (!entry.endedAt && (minutes !== undefined || startedAt)) {
+            throw new BadRequestException(
+                'Stop the timer before changing its duration'
+            );
+        }
+
+        const start = startedAt ? new Date(startedAt) : entry.startedAt;
+        const duration = minutes ?? entry.minutes;
+
+        return this.prismaService.timeEntry.update({
+            where: { id: entryId },
+            data: {
+                ...(note !== undefined && { note }),
+                ...(entry.endedAt && {
+                    startedAt: start,
+                    endedAt: new Date(start.getTime() + duration * MINUTE),
+                    minutes: duration
+                })
+            },
+            include: timeEntryInclude
+        });
+    }
+
+    /**
+     * Delete a time entry; only its author can do so
+     */
+    async removeEntry(
+        userId: string,
+        taskId: string,
+        entryId: string
+    ): Promise<{ message: string }> {
+        await this.taskAccessService.getAccessibleTask(userId, taskId);
+        await this.findOwnEntry(userId, taskId, entryId);
+
+        await this.prismaService.timeEntry.delete({ where: { id: entryId } });
+        return { message: 'Time entry deleted successfully' };
+    }
+
+    /**
+     * Get the time logged on a task, per user and against its estimate
+     */
+    async getTaskTime(
+        userId: string,
+        taskId: string
+    ): Promise<TaskTimeSummary> {
+        const task = await this.taskAccessService.getAccessibleTask(
+            userId,
+            taskId
+        );
+
+        const entries = await this.prismaService.timeEntry.findMany({
+            where: { taskId },
+            orderBy: { startedAt: 'desc' },
+            include: timeEntryInclude
+        });
+        const logged = entries.filter((entry) => entry.endedAt);
+        const totalMinutes = sumMinutes(logged);
+
+        return {
+            estimateMinutes: task.estimateMinutes ?? null,
+            totalMinutes,
+            remainingMinutes:
+                task.estimateMinutes != null
+                    ? Math.max(0, task.estimateMinutes - totalMinutes)
+                    : null,
+            byUser: groupMinutes(
+                logged,
+                (entry) => entry.userId,
+                (entry) => ({ user: entry.user })
+            ),
+            entries
+        };
+    }
+
+    /**
+     * Get the time a user logged over a period, per project and per task
+     */
+    async getUserTime(
+        userId: string,
+        dateRangeDto: DateRangeDto
+    ): Promise<TimeReport> {
+        const { from, to } = resolveDateRange(
+            dateRangeDto.from,
+            dateRangeDto.to
+        );
+
+        const entries = await this.prismaService.timeEntry.findMany({
+            where: {
+                userId,
+                ...LOGGED,
+                startedAt: { gte: from, lte: to },
+                task: { is: NOT_TRASHED }
+            },
+            include: {
+                task: {
+                    select: {
+                        id: true,
+                        title: true,
+                        projectId: true,
+                        project: { select: { id: true, name: true } }
+                    }
+                }
+            }
+        });
+
+        return {
+            from,
+            to,
+            totalMinutes: sumMinutes(entries),
+            byProject: groupMinutes(
+                entries,
+                (entry) => entry.task.projectId ?? '',
+                (entry) => ({ project: entry.task.project })
+            ),
+            byTask: groupMinutes(
+                entries,
+                (entry) => entry.taskId,
+                ({ task }) => ({
+                    task: {
+                        id: task.id,
+                        title: task.title,
+                        projectId: task.projectId
+                    }
+                })
+            )
+        };
+    }
+
+    /**
+     * Get the time logged on a project's tasks over a period, per member and per task
+     */
+    async getProjectTime(
+        projectId: string,
+        dateRangeDto: DateRangeDto
+    ): Promise<TimeReport & { estimateMinutes: number }> {
+        const { from, to } = resolveDateRange(
+            dateRangeDto.from,
+            dateRangeDto.to
+        );
+
+        const [entries, estimates] = await Promise.all([
+            this.prismaService.timeEntry.findMany({
+                where: {
+                    ...LOGGED,
+                    startedAt: { gte: from, lte: to },
+                    task: { is: { projectId, ...NOT_TRASHED } }
+                },
+                include: timeEntryInclude
+            }),
+            this.prismaService.task.aggregate({
+                where: { projectId, ...NOT_TRASHED },
+                _sum: { estimateMinutes: true }
+            })
+        ]);
+
+        return {
+            from,
+            to,
+            totalMinutes: sumMinutes(entries),
+            estimateMinutes: estimates._sum.estimateMinutes ?? 0,
+            byUser: groupMinutes(
+                entries,
+                (entry) => entry.userId,
+                (entry) => ({ user: entry.user })
+            ),
+            byTask: groupMinutes(
+                entries,
+                (entry) => entry.taskId,
+                (entry) => ({ task: entry.task })
+            )
+        };
+    }
+
+    private async stop(entry: TimeEntry): Promise<TimeEntryWithRelations> {
+        const endedAt = new Date();
+        // Billing works in whole minutes; a started timer logs at least one
+        const minutes = Math.max(
+            1,
+            Math.round((endedAt.getTime() - entry.startedAt.getTime()) / MINUTE)
+        );
+
+        const stopped = await this.prismaService.timeEntry.update({
+            where: { id: entry.id },
+            data: { endedAt, minutes },
+            include: timeEntryInclude
+        });
+
+        this.tasksGateway.emitToUsers([entry.userId], 'timerStopped', stopped);
+        return stopped;
+    }
+
+    private async findOwnEntry(
+        userId: string,
+        taskId: string,
+        entryId: string
+    ): Promise<TimeEntry> {
+        const entry = await this.prismaService.timeEntry.findFirst({
+            where: { id: entryId, taskId }
+        });
+
+        if (!entry) {
+            throw new NotFoundException('Time entry not found');
+        }
+
+        if (entry.userId !== userId) {
+            throw new ForbiddenException(
+                'Only the author can edit or delete this time entry'
+            );
+        }
+
+        return entry;
+    }
+}
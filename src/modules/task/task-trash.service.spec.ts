@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TaskTrashService } from './task-trash.service';
+import { TaskAccessService } from './task-access.service';
+import { TaskDependencyService } from './task-dependency.service';
+import { TaskHistoryService } from './task-history.service';
+import { TasksGateway } from './tasks.gateway';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('TaskTrashService', () => {
+    let service: TaskTrashService;
+
+    const mockPrismaService = {
+        task: {
+            findFirst: jest.fn(),
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            updateMany: jest.fn(),
+            deleteMany: jest.fn()
+        },
+        label: {
+            findMany: jest.fn(),
+            update: jest.fn()
+        }
+    };
+
+    const mockConfigService = {
+        get: jest.fn()
+    };
+
+    const mockTaskAccessService = {
+        assertCanDelete: jest.fn(),
+        getAudienceRooms: jest.fn().mockResolvedValue([])
+    };
+
+    const mockTaskDependencyService = {
+        detachDependents: jest.fn()
+    };
+
+    const mockTaskHistoryService = {
+        recordDeleted: jest.fn(),
+        recordRestored: jest.fn()
+    };
+
+    const mockTasksGateway = {
+        emitToRooms: jest.fn()
+    };
+
+    const mockWebhookDeliveryService = {
+        publishTasks: jest.fn()
+    };
+
+    const deletedAt = new Date('2025-01-01T00:00:00.000Z');
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskTrashService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService
+                },
+                {
+                    provide: TaskAccessService,
+                    useValue: mockTaskAccessService
+                },
+                {
+                    provide: TaskDependencyService,
+                    useValue: mockTaskDependencyService
+                },
+                {
+                    provide: TaskHistoryService,
+                    useValue: mockTaskHistoryService
+                },
+                {
+                    provide: TasksGateway,
+                    useValue: mockTasksGateway
+                },
+                {
+                    provide: WebhookDeliveryService,
+                    useValue: mockWebhookDeliveryService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskTrashService>(TaskTrashService);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('restore', () => {
+        it('should throw NotFoundException when the task is not in the trash', async () => {
+            mockPrismaService.task.findFirst.mockResolvedValue(null);
+
+            await expect(service.restore('user1', 'task1')).rejects.toThrow(
+                NotFoundException
+            );
+        });
+
+        it('should refuse to restore a task whose project is still trashed', async () => {
+            mockPrismaService.task.findFirst.mockResolvedValue({
+                id: 'task1',
+                userId: 'user1',
+                deletedAt,
+                project: { teamId: null, deletedAt },
+                parentTask: null
+            });
+
+            await expect(service.restore('user1', 'task1')).rejects.toThrow(
+                ConflictException
+            );
+            expect(mockPrismaService.task.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('should restore the task with the subtasks deleted at the same time', async () => {
+            mockPrismaService.task.findFirst.mockResolvedValue({
+                id: 'task1',
+                userId: 'user1',
+                deletedAt,
+                project: null,
+                parentTask: null
+            });
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { id: 'task1', deletedAt },
+                { id: 'sub1', parentTaskId: 'task1', deletedAt }
+            ]);
+
+            await service.restore('user1', 'task1');
+
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        OR: [{ id: 'task1' }, { parentTaskId: 'task1' }],
+                        deletedAt
+                    }
+                })
+            );
+            expect(mockPrismaService.task.updateMany).toHaveBeenCalledWith({
+                where: { id: { in: ['task1', 'sub1'] } },
+                data: {
+                    deletedAt: { unset: true },
+                    version: { increment: 1 }
+                }
+            });
+            expect(mockTaskHistoryService.recordRestored).toHaveBeenCalledTimes(
+                2
+            );
+            expect(
+                mockWebhookDeliveryService.publishTasks
+            ).toHaveBeenCalledWith('task.created', [
+                { id: 'task1', deletedAt: null },
+                { id: 'sub1', parentTaskId: 'task1', deletedAt: null }
+            ]);
+        });
+    });
+
+    describe('purgeExpired', () => {
+        it('should delete subtasks before their parents and detach dependents', async () => {
+            mockConfigService.get.mockReturnValue('30');
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { id: 'task1', parentTaskId: null, labelIds: [] },
+                { id: 'sub1', parentTaskId: 'task1', labelIds: [] }
+            ]);
+            mockPrismaService.label.findMany.mockResolvedValue([]);
+
+            await service.purgeExpired();
+
+            expect(
+                mockTaskDependencyService.detachDependents
+            ).toHaveBeenCalledWith(['task1', 'sub1']);
+            expect(mockPrismaService.task.deleteMany.mock.calls).toEqual([
+                [{ where: { id: { in: ['sub1'] } } }],
+                [{ where: { id: { in: ['task1', 'sub1'] } } }]
+            ]);
+        });
+
+        it('should remove purged tasks from their labels', async () => {
+            mockConfigService.get.mockReturnValue(30);
+            mockPrismaService.task.findMany.mockResolvedValue([
+                { id: 'task1', parentTaskId: null, labelIds: ['label1'] }
+            ]);
+            mockPrismaService.label.findMany.mockResolvedValue([
+                { id: 'label1', taskIds: ['task1', 'task2'] }
+            ]);
+
+            await service.purgeExpired();
+
+            expect(mockPrismaService.label.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: { in: ['label1'] } } })
+            );
+            expect(mockPrismaService.label.update).toHaveBeenCalledWith({
+                where: { id: 'label1' },
+                data: { taskIds: { set: ['task2'] } }
+            });
+        });
+
+        it('should do nothing when no trashed task has expired', async () => {
+            mockConfigService.get.mockReturnValue(30);
+            mockPrismaService.task.findMany.mockResolvedValue([]);
+
+            await service.purgeExpired();
+
+            expect(mockPrismaService.task.deleteMany).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,287 @@
+import {
+    ConflictException,
+    Injectable,
+    Logger,
+    NotFoundException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, Task, TeamRole } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import {
+    DEFAULT_TRASH_RETENTION_DAYS,
+    IN_TRASH,
+    NOT_TRASHED
+} from '../../core/constants/trash.constants';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+import { paginate } from '../../core/utils/pagination';
+import { TaskAccessService } from './task-access.service';
+import { TaskDependencyService } from './task-dependency.service';
+import { TaskHistoryService } from './task-history.service';
+import { TasksGateway } from './tasks.gateway';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+
+// Upper bound of tasks purged per scheduler run
+const PURGE_BATCH_SIZE = 500;
+
+const trashedTaskInclude = {
+    user: { select: { id: true, name: true, email: true } },
+    project: {
+        select: { id: true, name: true, teamId: true, deletedAt: true }
+    }
+} satisfies Prisma.TaskInclude;
+
+@Injectable()
+export class TaskTrashService {
+    private readonly logger = new Logger(TaskTrashService.name);
+
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly configService: ConfigService,
+        private readonly taskAccessService: TaskAccessService,
+        private readonly taskDependencyService: TaskDependencyService,
+        private readonly taskHistoryService: TaskHistoryService,
+        private readonly tasksGateway: TasksGateway,
+        private readonly webhookDeliveryService: WebhookDeliveryService
+    ) {}
+
+    /**
+     * List the trashed tasks a user can restore, most recently deleted first
+     * These are the tasks they created and the tasks of projects in teams they own
+     */
+    async findAll(
+        userId: string,
+        page: number = 1,
+        limit: number = 5,
+        cursor?: string
+    ): Promise<PaginatedResponseDto<Task>> {
+        const ownedTeams = await this.prismaService.teamMember.findMany({
+            where: { userId, role: TeamRole.OWNER },
+            select: { teamId: true }
+        });
+
+        const where: Prisma.TaskWhereInput = {
+            ...IN_TRASH,
+            OR: [
+                { userId },
+                {
+                    project: {
+                        is: {
+                            teamId: {
+                                in: ownedTeams.map((member) => member.teamId)
+                            }
+                        }
+                    }
+                }
+            ]
+        };
+
+        return paginate(
+            { page, limit, cursor },
+            [{ field: 'deletedAt', order: 'desc' }],
+            (query) =>
+                this.prismaService.task.findMany({
+                    where: { AND: [where, query.where] },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take,
+                    include: trashedTaskInclude
+                }),
+            () => this.prismaService.task.count({ where })
+        );
+    }
+
+    /**
+     * Restore a trashed task along with the subtasks deleted with it
+     * @throws ConflictException if its project or parent task is still in the trash
+     */
+    async restore(userId: string, taskId: string): Promise<Task> {
+        const task = await this.prismaService.task.findFirst({
+            where: { id: taskId, ...IN_TRASH },
+            include: {
+                ...trashedTaskInclude,
+                parentTask: { select: { deletedAt: true } }
+            }
+        });
+
+        if (!task) {
+            throw new NotFoundException('Task not found in trash');
+        }
+
+        await this.taskAccessService.assertCanDelete(userId, task);
+
+        if (task.project?.deletedAt) {
+            throw new ConflictException(
+                'The project of this task is in the trash; restore the project instead'
+            );
+        }
+
+        if (task.parentTask?.deletedAt) {
+            throw new ConflictException(
+                'The parent of this task is in the trash; restore the parent task instead'
+            );
+        }
+
+        await this.restoreTrashed(userId, {
+            OR: [{ id: taskId }, { parentTaskId: taskId }],
+            deletedAt: task.deletedAt
+        });
+
+        return this.prismaService.task.findUnique({
+            where: { id: taskId },
+            include: trashedTaskInclude
+        });
+    }
+
+    /**
+     * Move the tasks of a project to the trash with it, stamped with the project's deletion time
+     */
+    async trashProjectTasks(
+        userId: string,
+        projectId: string,
+        deletedAt: Date
+    ): Promise<void> {
+        const tasks = await this.prismaService.task.findMany({
+            where: { projectId, ...NOT_TRASHED },
+            include: { project: { select: { teamId: true } } }
+        });
+        if (tasks.length === 0) {
+            return;
+        }
+
+        await this.prismaService.task.updateMany({
+            where: { id: { in: tasks.map((task) => task.id) } },
+            data: { deletedAt, version: { increment: 1 } }
+        });
+
+        for (const task of tasks) {
+            await this.taskHistoryService.recordDeleted(userId, task);
+            this.tasksGateway.emitToRooms(
+                await this.taskAccessService.getAudienceRooms([task]),
+                'taskDeleted',
+                task
+            );
+        }
+        await this.webhookDeliveryService.publishTasks(
+            'task.deleted',
+            tasks.map((task) => ({ ...task, deletedAt }))
+        );
+    }
+
+    /**
+     * Bring back the tasks that were trashed together with a project
+     * Tasks deleted on their own before the project stay in the trash
+     */
+    async restoreProjectTasks(
+        userId: string,
+        projectId: string,
+        deletedAt: Date
+    ): Promise<void> {
+        await this.restoreTrashed(userId, { projectId, deletedAt });
+    }
+
+    /**
+     * Permanently delete tasks that have been in the trash longer than the retention period
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_3AM)
+    async purgeExpired(): Promise<void> {
+        const retentionDays = Number(
+            this.configService.get(
+                'TRASH_RETENTION_DAYS',
+                DEFAULT_TRASH_RETENTION_DAYS
+            )
+        );
+        const cutoff = new Date(Date.now() - retentionDays * 86_400_000);
+
+        const expired = await this.prismaService.task.findMany({
+            where: { deletedAt: { lt: cutoff } },
+            select: { id: true, parentTaskId: true, labelIds: true },
+            take: PURGE_BATCH_SIZE
+        });
+        if (expired.length === 0) {
+            return;
+        }
+
+        const ids = expired.map((task) => task.id);
+        const subtaskIds = expired
+            .filter((task) => task.parentTaskId)
+            .map((task) => task.id);
+        await this.taskDependencyService.detachDependents(ids);
+        await this.detachLabels(ids, [
+            ...new Set(expired.flatMap((task) => task.labelIds))
+        ]);
+
+        // The parent relation does not cascade, so subtasks go first
+        await this.prismaService.task.deleteMany({
+            where: { id: { in: subtaskIds } }
+        });
+        await this.prismaService.task.deleteMany({
+            where: { id: { in: ids } }
+        });
+
+        this.logger.log(`Purged ${ids.length} tasks from the trash`);
+    }
+
+    /**
+     * Drop purged tasks from their labels; deleteMany leaves the label side of the relation untouched
+     */
+    private async detachLabels(
+        taskIds: string[],
+        labelIds: string[]
+    ): Promise<void> {
+        const labels = await this.prismaService.label.findMany({
+            where: { id: { in: labelIds } },
+            select: { id: true, taskIds: true }
+        });
+
+        await Promise.all(
+            labels.map((label) =>
+                this.prismaService.label.update({
+                    where: { id: label.id },
+                    data: {
+                        taskIds: {
+                            set: label.taskIds.filter(
+                                (id) => !taskIds.includes(id)
+                            )
+                        }
+                    }
+                })
+            )
+        );
+    }
+
+    /**
+     * Restore the tasks trashed at a given time; callers always filter on deletedAt
+     */
+    private async restoreTrashed(
+        userId: string,
+        where: Prisma.TaskWhereInput & { deletedAt: Date }
+    ): Promise<void> {
+        const tasks = await this.prismaService.task.findMany({
+            where,
+            include: { project: { select: { teamId: true } } }
+        });
+        if (tasks.length === 0) {
+            return;
+        }
+
+        await this.prismaService.task.updateMany({
+            where: { id: { in: tasks.map((task) => task.id) } },
+            data: { deletedAt: { unset: true }, version: { increment: 1 } }
+        });
+
+        for (const task of tasks) {
+            await this.taskHistoryService.recordRestored(userId, task);
+            this.tasksGateway.emitToRooms(
+                await this.taskAccessService.getAudienceRooms([task]),
+                'taskAdded',
+                { ...task, deletedAt: null }
+            );
+        }
+        // Restored tasks are announced like new ones, as on the socket
+        await this.webhookDeliveryService.publishTasks(
+            'task.created',
+            tasks.map((task) => ({ ...task, deletedAt: null }))
+        );
+    }
+}
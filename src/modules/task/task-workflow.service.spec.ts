@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { TaskWorkflowService } from './task-workflow.service';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TaskStatus } from './dto/task.dto';
+
+describe('TaskWorkflowService', () => {
+    let service: TaskWorkflowService;
+
+    const mockPrismaService = {
+        project: {
+            findUnique: jest.fn(),
+            update: jest.fn()
+        },
+        task: {
+            groupBy: jest.fn(),
+            updateMany: jest.fn()
+        }
+    };
+
+    const states = [
+        { key: 'backlog', name: 'Backlog', category: TaskStatus.TODO },
+        { key: 'doing', name: 'Doing', category: TaskStatus.IN_PROGRESS },
+        { key: 'review', name: 'In Review', category: TaskStatus.IN_PROGRESS },
+        { key: 'done', name: 'Done', category: TaskStatus.DONE },
+        { key: 'dropped', name: 'Dropped', category: TaskStatus.CANCELLED }
+    ];
+
+    const workflow = {
+        states,
+        transitions: [
+            { from: 'backlog', to: 'doing' },
+            { from: 'doing', to: 'review' },
+            { from: 'review', to: 'done' }
+        ]
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskWorkflowService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                }
+            ]
+        }).compile();
+
+        service = module.get<TaskWorkflowService>(TaskWorkflowService);
+        mockPrismaService.project.findUnique.mockResolvedValue({ workflow });
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('resolveMove', () => {
+        const task = {
+            projectId: 'project1',
+            status: TaskStatus.IN_PROGRESS,
+            workflowState: 'doing'
+        };
+
+        it('should set the status to the category of the requested state', async () => {
+            await expect(
+                service.resolveMove(task, 'project1', {
+                    workflowState: 'review'
+                })
+            ).resolves.toEqual({
+                status: TaskStatus.IN_PROGRESS,
+                workflowState: 'review'
+            });
+        });
+
+        it('should move a status change to the first state of the category', async () => {
+            await expect(
+                service.resolveMove(
+                    { ...task, workflowState: 'review' },
+                    'project1',
+                    { status: TaskStatus.DONE }
+                )
+            ).resolves.toEqual({
+                status: TaskStatus.DONE,
+                workflowState: 'done'
+            });
+        });
+
+        it('should refuse a move the transitions do not allow', async () => {
+            await expect(
+                service.resolveMove(task, 'project1', {
+                    status: TaskStatus.DONE
+                })
+            ).rejects.toThrow(ConflictException);
+        });
+
+        it('should reject a status that contradicts the requested state', async () => {
+            await expect(
+                service.resolveMove(task, 'project1', {
+                    status: TaskStatus.DONE,
+                    workflowState: 'review'
+                })
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should ignore transitions when the task changes project', async () => {
+            mockPrismaService.project.findUnique.mockResolvedValue({
+                workflow: null
+            });
+
+            await expect(
+                service.resolveMove(task, 'project2', {})
+            ).resolves.toEqual({
+                status: TaskStatus.IN_PROGRESS,
+                workflowState: null
+            });
+        });
+    });
+
+    describe('resolveRepeat', () => {
+        it('should restart a finished task in the first TODO state', async () => {
+            await expect(
+                service.resolveRepeat({
+                    projectId: 'project1',
+                    status: TaskStatus.DONE,
+                    workflowState: 'done'
+                })
+            ).resolves.toEqual({
+                status: TaskStatus.TODO,
+                workflowState: 'backlog'
+            });
+        });
+    });
+
+    describe('assertCanMoveAll', () => {
+        it('should only check tasks that change category', async () => {
+            await expect(
+                service.assertCanMoveAll(
+                    [
+                        {
+                            projectId: 'project1',
+                            status: TaskStatus.DONE,
+                            workflowState: 'done'
+                        },
+                        {
+                            projectId: 'project1',
+                            status: TaskStatus.IN_PROGRESS,
+                            workflowState: 'review'
+                        }
+                    ],
+                    TaskStatus.DONE
+                )
+            ).resolves.toBeUndefined();
+        });
+    });
+
+    describe('replace', () => {
+        it('should require a state for every category', async () => {
+            await expect(
+                service.replace('project1', {
+                    states: states.filter(
+                        (state) => state.category !== TaskStatus.CANCELLED
+                    )
+                })
+            ).rejects.toThrow(BadRequestException);
+            expect(mockPrismaService.project.update).not.toHaveBeenCalled();
+        });
+
+        it('should move tasks of removed states to the first state of their category', async () => {
+            mockPrismaService.task.groupBy.mockResolvedValue([]);
+
+            await service.replace('project1', { states });
+
+            expect(mockPrismaService.task.updateMany).toHaveBeenLastCalledWith({
+                where: {
+                    projectId: 'project1',
+                    workflowState: {
+                        notIn: ['backlog', 'doing', 'review', 'done', 'dropped']
+                    }
+                },
+                data: { workflowState: null, version: { increment: 1 } }
+            });
+        });
+    });
+
+    describe('describe', () => {
+        it('should count tasks without a state in the first state of their category', async () => {
+            mockPrismaService.task.groupBy.mockResolvedValue([
+                {
+                    status: TaskStatus.IN_PROGRESS,
+                    workflowState: null,
+                    _count: { _all: 2 }
+                },
+                {
+                    status: TaskStatus.IN_PROGRESS,
+                    workflowState: 'review',
+                    _count: { _all: 3 }
+                }
+            ]);
+
+            const result = await service.describe('project1');
+
+            expect(
+                result.states.map((state) => [state.key, state.taskCount])
+            ).toEqual([
+                ['backlog', 0],
+                ['doing', 2],
+                ['review', 3],
+                ['done', 0],
+                ['dropped', 0]
+            ]);
+            expect(result.isDefault).toBe(false);
+        });
+    });
+});
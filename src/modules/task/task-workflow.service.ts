@@ -0,0 +1,379 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable
+} from '@nestjs/common';
+import { Prisma, Workflow, WorkflowState } from '@prisma/client';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { TaskStatus } from './dto/task.dto';
+import { UpdateWorkflowDto } from './dto/workflow.dto';
+
+// Projects without a custom workflow get one state per status and free transitions
+export const DEFAULT_WORKFLOW: Workflow = {
+    states: [
+        { key: 'todo', name: 'To Do', category: TaskStatus.TODO },
+        {
+            key: 'in_progress',
+            name: 'In Progress',
+            category: TaskStatus.IN_PROGRESS
+        },
+        { key: 'done', name: 'Done', category: TaskStatus.DONE },
+        { key: 'cancelled', name: 'Cancelled', category: TaskStatus.CANCELLED }
+    ],
+    transitions: []
+};
+
+interface WorkflowPosition {
+    status: string;
+    workflowState?: string | null;
+}
+
+/** What a status change resolves to: the status category and the state key to store */
+export interface WorkflowTarget {
+    status: TaskStatus;
+    workflowState: string | null;
+}
+
+export interface ProjectWorkflow extends Workflow {
+    isDefault: boolean;
+    states: (WorkflowState & { taskCount: number })[];
+}
+
+@Injectable()
+export class TaskWorkflowService {
+    constructor(private readonly prismaService: PrismaService) {}
+
+    async getWorkflow(projectId: string | null): Promise<Workflow> {
+        if (!projectId) {
+            return DEFAULT_WORKFLOW;
+        }
+
+        const project = await this.prismaService.project.findUnique({
+            where: { id: projectId },
+            select: { workflow: true }
+        });
+        return project?.workflow ?? DEFAULT_WORKFLOW;
+    }
+
+    /**
+     * Get a project's workflow with the number of tasks in each state
+     */
+    async describe(projectId: string): Promise<ProjectWorkflow> {
+        const [workflow, groups] = await Promise.all([
+            this.getWorkflow(projectId),
+            this.prismaService.task.groupBy({
+                by: ['status', 'workflowState'],
+                where: { projectId, ...NOT_TRASHED },
+                _count: { _all: true }
+            })
+        ]);
+
+        const counts = new Map<string, number>();
+        for (const group of groups) {
+            const key = this.getState(workflow, group).key;
+            counts.set(key, (counts.get(key) ?? 0) + group._count._all);
+        }
+
+        return {
+            isDefault: workflow === DEFAULT_WORKFLOW,
+            states: workflow.states.map((state) => ({
+                ...state,
+                taskCount: counts.get(state.key) ?? 0
+            })),
+            transitions: workflow.transitions
+        };
+    }
+
+    /**
+     * Replace a project's workflow
+     * Tasks follow the new category of their state; tasks in a removed state move to the first state of their category
+     * @throws BadRequestException if keys repeat, a category has no state or a transition names an unknown state
+     */
+    async replace(
+        projectId: string,
+        updateWorkflowDto: UpdateWorkflowDto
+    ): Promise<ProjectWorkflow> {
+        const workflow: Workflow = {
+            states: updateWorkflowDto.states.map(({ key, name, category }) => ({
+                key,
+                name,
+                category
+            })),
+            transitions: (updateWorkflowDto.transitions ?? []).map(
+                ({ from, to }) => ({ from, to })
+            )
+        };
+        this.validate(workflow);
+
+        await this.prismaService.project.update({
+            where: { id: projectId },
+            data: { workflow: { set: workflow }, version: { increment: 1 } }
+        });
+
+        for (const state of workflow.states) {
+            await this.prismaService.task.updateMany({
+                where: {
+                    projectId,
+                    workflowState: state.key,
+                    status: { not: state.category }
+                },
+                data: { status: state.category, version: { increment: 1 } }
+            });
+        }
+        await this.prismaService.task.updateMany({
+            where: {
+                projectId,
+                workflowState: {
+                    notIn: workflow.states.map((state) => state.key)
+                }
+            },
+            data: { workflowState: null, version: { increment: 1 } }
+        });
+
+        return this.describe(projectId);
+    }
+
+    /**
+     * Resolve where a new task starts: the given state, or the first state of the given status (TODO by default)
+     */
+    async resolveInitial(
+        projectId: string | null,
+        requested: { status?: TaskStatus; workflowState?: string }
+    ): Promise<WorkflowTarget> {
+        const workflow = await this.getWorkflow(projectId);
+        const state = this.findTarget(
+            workflow,
+            undefined,
+            requested,
+            TaskStatus.TODO
+        );
+        return this.toTarget(workflow, state);
+    }
+
+    /**
+     * Resolve where the next occurrence of a recurring task starts: the task's state if it is a TODO one, else the first TODO state
+     */
+    async resolveRepeat(
+        task: WorkflowPosition & { projectId: string | null }
+    ): Promise<WorkflowTarget> {
+        const workflow = await this.getWorkflow(task.projectId);
+        const state = this.getState(workflow, {
+            status: TaskStatus.TODO,
+            workflowState: task.workflowState
+        });
+        return this.toTarget(workflow, state);
+    }
+
+    /**
+     * Resolve a task update against the workflow of its (possibly new) project
+     * A status alone keeps the current state when the category does not change, otherwise it picks the first state of that category
+     * @throws ConflictException if the project's transitions do not allow the move
+     */
+    async resolveMove(
+        task: WorkflowPosition & { projectId: string | null },
+        projectId: string | null,
+        requested: { status?: TaskStatus; workflowState?: string }
+    ): Promise<WorkflowTarget> {
+        const workflow = await this.getWorkflow(projectId);
+
+        // Another project's workflow: the category carries over, its transitions do not apply
+        if (projectId !== task.projectId) {
+            const state = this.findTarget(
+                workflow,
+                undefined,
+                requested,
+                task.status as TaskStatus
+            );
+            return this.toTarget(workflow, state);
+        }
+
+        const current = this.getState(workflow, task);
+        const next = this.findTarget(
+            workflow,
+            current,
+            requested,
+            task.status as TaskStatus
+        );
+        this.assertTransition(workflow, current, next);
+        return this.toTarget(workflow, next);
+    }
+
+    /**
+     * Check that every task may move to the first state of a status category
+     * Tasks already in that category keep their state
+     * @throws ConflictException if a project's transitions do not allow one of the moves
+     */
+    async assertCanMoveAll(
+        tasks: (WorkflowPosition & { projectId: string | null })[],
+        status: TaskStatus
+    ): Promise<void> {
+        const moving = tasks.filter((task) => task.status !== status);
+        const projectIds = [...new Set(moving.map((task) => task.projectId))];
+        const workflows = new Map(
+            await Promise.all(
+                projectIds.map(
+                    async (projectId) =>
+                        [projectId, await this.getWorkflow(projectId)] as const
+                )
+            )
+        );
+
+        for (const task of moving) {
+            const workflow = workflows.get(task.projectId);
+            this.assertTransition(
+                workflow,
+                this.getState(workflow, task),
+                this.findTarget(workflow, undefined, { status }, status)
+            );
+        }
+    }
+
+    /**
+     * Build the filter for the tasks in a state of a project's workflow
+     * @throws BadRequestException if the state does not exist
+     */
+    async toStateFilter(
+        projectId: string,
+        workflowState: string
+    ): Promise<Prisma.TaskWhereInput> {
+        const workflow = await this.getWorkflow(projectId);
+        const state = this.findTarget(workflow, undefined, { workflowState });
+
+        if (workflow === DEFAULT_WORKFLOW) {
+            return { status: state.category };
+        }
+        if (this.firstState(workflow, state.category) !== state) {
+            return { status: state.category, workflowState: state.key };
+        }
+        // Tasks without a state sit in the first state of their category
+        return {
+            status: state.category,
+            OR: [
+                { workflowState: state.key },
+                { workflowState: null },
+                { workflowState: { isSet: false } }
+            ]
+        };
+    }
+
+    /**
+     * Find the state named in a free text (e.g. "waiting for review"), longest names first
+     * Falls back to the first state of the detected status
+     */
+    matchState(
+        workflow: Workflow,
+        text: string,
+        status: TaskStatus
+    ): WorkflowState {
+        const lower = text.toLowerCase();
+        const named = [...workflow.states]
+            .sort((a, b) => b.name.length - a.name.length)
+            .find((state) => lower.includes(state.name.toLowerCase()));
+        return named ?? this.firstState(workflow, status);
+    }
+
+    /**
+     * State a task is in; tasks without a known state sit in the first state of their status
+     */
+    getState(workflow: Workflow, task: WorkflowPosition): WorkflowState {
+        return (
+            workflow.states.find(
+                (state) =>
+                    state.key === task.workflowState &&
+                    state.category === task.status
+            ) ?? this.firstState(workflow, task.status)
+        );
+    }
+
+    private firstState(workflow: Workflow, status: string): WorkflowState {
+        return workflow.states.find((state) => state.category === status);
+    }
+
+    private findTarget(
+        workflow: Workflow,
+        current: WorkflowState | undefined,
+        requested: { status?: TaskStatus; workflowState?: string },
+        fallbackStatus?: TaskStatus
+    ): WorkflowState {
+        const { status, workflowState } = requested;
+
+        if (workflowState !== undefined) {
+            const state = workflow.states.find(
+                (candidate) => candidate.key === workflowState
+            );
+            if (!state) {
+                throw new BadRequestException(
+                    `Unknown workflow state "${workflowState}"`
+                );
+            }
+            if (status !== undefined && status !== state.category) {
+                throw new BadRequestException(
+                    `Status ${status} does not match the ${state.category} category of "${state.name}"`
+                );
+            }
+            return state;
+        }
+
+        const category = status ?? fallbackStatus;
+        if (current?.category === category) {
+            return current;
+        }
+        return this.firstState(workflow, category);
+    }
+
+    private assertTransition(
+        workflow: Workflow,
+        from: WorkflowState,
+        to: WorkflowState
+    ): void {
+        if (from.key === to.key || workflow.transitions.length === 0) {
+            return;
+        }
+
+        const allowed = workflow.transitions.some(
+            (transition) =>
+                transition.from === from.key && transition.to === to.key
+        );
+        if (!allowed) {
+            throw new ConflictException(
+                `The project workflow does not allow moving from "${from.name}" to "${to.name}"`
+            );
+        }
+    }
+
+    private toTarget(workflow: Workflow, state: WorkflowState): WorkflowTarget {
+        return {
+            status: state.category as TaskStatus,
+            // The default workflow is fully described by the status
+            workflowState: workflow === DEFAULT_WORKFLOW ? null : state.key
+        };
+    }
+
+    private validate(workflow: Workflow): void {
+        const keys = workflow.states.map((state) => state.key);
+        if (new Set(keys).size !== keys.length) {
+            throw new BadRequestException('Workflow state keys must be unique');
+        }
+
+        const missing = Object.values(TaskStatus).filter(
+            (status) =>
+                !workflow.states.some((state) => state.category === status)
+        );
+        if (missing.length > 0) {
+            throw new BadRequestException(
+                `The workflow needs at least one state for: ${missing.join(', ')}`
+            );
+        }
+
+        const unknown = workflow.transitions.find(
+            (transition) =>
+                !keys.includes(transition.from) || !keys.includes(transition.to)
+        );
+        if (unknown) {
+            throw new BadRequestException(
+                `Transition ${unknown.from} -> ${unknown.to} references an unknown state`
+            );
+        }
+    }
+}
@@ -10,8 +10,11 @@ import {
     UseGuards,
     Request,
     HttpCode,
-    HttpStatus
+    HttpStatus,
+    Headers,
+    Res
 } from '@nestjs/common';
+import { Response } from 'express';
 import {
     ApiTags,
     ApiOperation,
@@ -19,10 +22,12 @@ import {
     ApiBearerAuth,
     ApiQuery,
     ApiParam,
-    ApiBody
+    ApiBody,
+    ApiHeader
 } from '@nestjs/swagger';
-import {  Task} from '@prisma/client';
-import { TaskService, PaginatedTasks } from './task.service';
+import { Task } from '@prisma/client';
+import { TaskService, PaginatedTasks, TaskWithProgress } from './task.service';
+import { parseIfMatch, toETag } from '../../core/utils/concurrency';
 import { TextGenerationService } from '../task-ai/services/text-generation.service';
 import { ParseTaskDto } from '../task-ai/dto/parse-task.dto';
 import {
@@ -31,9 +36,32 @@ import {
     QueryTaskDto,
     TaskStatus,
     TaskPriority,
-    BulkUpdateStatusDto
+    BulkUpdateStatusDto,
+    AssignTaskDto,
+    CreateChecklistItemDto,
+    UpdateChecklistItemDto,
+    AddDependencyDto,
+    SearchTaskDto
 } from './dto/task.dto';
+import {
+    TaskDependencyService,
+    TaskDependencies,
+    WithBlockedState
+} from './task-dependency.service';
 import { AuthGuard } from '../../core/common/guards/auth.guard';
+import { formatRRule } from '../../core/utils/recurrence';
+import {
+    CursorPaginationDto,
+    PaginatedResponseDto
+} from '../../core/common/dto/pagination.dto';
+import {
+    TaskHistoryService,
+    TaskActivityWithActor
+} from './task-history.service';
+import { TaskTrashService } from './task-trash.service';
+import { TaskTimeService } from './task-time.service';
+import { TaskSearchService, TaskSearchResult } from './task-search.service';
+import { DateRangeDto } from '../../core/common/dto/date-range.dto';
 
 interface AuthenticatedRequest extends Request {
     user: {
@@ -50,7 +78,15 @@ interface AuthenticatedRequest extends Request {
 @UseGuards(AuthGuard)
 @ApiBearerAuth()
 export class TaskController {
-    constructor(private readonly taskService: TaskService, private readonly textGenService: TextGenerationService) {}
+    constructor(
+        private readonly taskService: TaskService,
+        private readonly taskDependencyService: TaskDependencyService,
+        private readonly taskHistoryService: TaskHistoryService,
+        private readonly taskTrashService: TaskTrashService,
+        private readonly taskTimeService: TaskTimeService,
+        private readonly taskSearchService: TaskSearchService,
+        private readonly textGenService: TextGenerationService
+    ) {}
 
     @Post()
     @ApiOperation({
@@ -88,13 +124,22 @@ export class TaskController {
     @ApiQuery({ name: 'search', required: false })
     @ApiQuery({ name: 'dueFrom', required: false })
     @ApiQuery({ name: 'dueUntil', required: false })
+    @ApiQuery({ name: 'dueWithin', required: false })
+    @ApiQuery({ name: 'assignedToMe', required: false, type: Boolean })
+    @ApiQuery({ name: 'assigneeId', required: false })
     @ApiQuery({ name: 'page', required: false })
     @ApiQuery({ name: 'limit', required: false })
+    @ApiQuery({ name: 'cursor', required: false })
     @ApiQuery({ name: 'sortBy', required: false })
     @ApiQuery({ name: 'sortOrder', required: false })
     @ApiResponse({
         status: 200,
-        description: 'Tasks retrieved successfully'
+        description:
+            'Tasks retrieved successfully, in data; meta.nextCursor gives the next page'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid cursor, or a cursor made for another sort order'
     })
     @ApiResponse({
         status: 401,
@@ -113,6 +158,39 @@ export class TaskController {
         return this.taskService.findAll(req.user.sub, queryDto);
     }
 
+    @Get('search')
+    @ApiOperation({
+        summary: 'Search tasks in natural language',
+        description:
+            'Turns a query in English, French, Spanish, Portuguese or German into the filters of GET /tasks and returns them with the matching tasks. Fixed rules interpret the query when the AI service is unavailable'
+    })
+    @ApiQuery({
+        name: 'q',
+        example: 'high priority tasks due next week in Mobile App'
+    })
+    @ApiQuery({ name: 'page', required: false })
+    @ApiQuery({ name: 'limit', required: false })
+    @ApiQuery({ name: 'cursor', required: false })
+    @ApiResponse({
+        status: 200,
+        description:
+            'The filters understood, in interpretation, and the matching tasks, in data'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Empty or too long query'
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized'
+    })
+    search(
+        @Request() req: AuthenticatedRequest,
+        @Query() searchDto: SearchTaskDto
+    ): Promise<TaskSearchResult> {
+        return this.taskSearchService.search(req.user.sub, searchDto);
+    }
+
     @Get('stats')
     @ApiOperation({
         summary: 'Get task statistics',
@@ -129,6 +207,68 @@ export class TaskController {
     getStats(@Request() req: AuthenticatedRequest) {
         return this.taskService.getTaskStats(req.user.sub);
     }
+
+    @Get('trash')
+    @ApiOperation({
+        summary: 'List trashed tasks',
+        description:
+            'Retrieves the trashed tasks the user can restore (their own and those of teams they own), most recently deleted first'
+    })
+    @ApiQuery({ name: 'page', required: false })
+    @ApiQuery({ name: 'limit', required: false })
+    @ApiQuery({ name: 'cursor', required: false })
+    @ApiResponse({
+        status: 200,
+        description:
+            'Trashed tasks retrieved successfully; meta.nextCursor gives the next page'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid cursor'
+    })
+    @ApiResponse({
+        status: 401,
+        description: 'Unauthorized'
+    })
+    findTrash(
+        @Request() req: AuthenticatedRequest,
+        @Query() paginationDto: CursorPaginationDto
+    ): Promise<PaginatedResponseDto<Task>> {
+        const { page = 1, limit = 5, cursor } = paginationDto;
+        return this.taskTrashService.findAll(req.user.sub, page, limit, cursor);
+    }
+
+    @Get('timer')
+    @ApiOperation({
+        summary: 'Get the running timer',
+        description:
+            "Returns the authenticated user's running timer with its task, or null"
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Running timer retrieved successfully'
+    })
+    getRunningTimer(@Request() req: AuthenticatedRequest) {
+        return this.taskTimeService.getRunningTimer(req.user.sub);
+    }
+
+    @Get('time')
+    @ApiOperation({
+        summary: 'Get logged time',
+        description:
+            'Totals of the time logged by the authenticated user over a period (last 30 days by default), per project and per task'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Time totals retrieved successfully'
+    })
+    getUserTime(
+        @Request() req: AuthenticatedRequest,
+        @Query() dateRangeDto: DateRangeDto
+    ) {
+        return this.taskTimeService.getUserTime(req.user.sub, dateRangeDto);
+    }
+
     @Get(':id')
     @ApiOperation({
         summary: 'Get a task by ID',
@@ -142,7 +282,8 @@ export class TaskController {
     })
     @ApiResponse({
         status: 200,
-        description: 'Task retrieved successfully'
+        description:
+            'Task retrieved successfully, with subtask and checklist progress; the ETag header carries its version'
     })
     @ApiResponse({
         status: 404,
@@ -152,26 +293,37 @@ export class TaskController {
         status: 401,
         description: 'Unauthorized'
     })
-    findOne(
+    async findOne(
         @Request() req: AuthenticatedRequest,
-        @Param('id') id: string
-    ): Promise<Task> {
-        return this.taskService.findOne(req.user.sub, id);
+        @Param('id') id: string,
+        @Res({ passthrough: true }) res: Response
+    ): Promise<WithBlockedState<TaskWithProgress>> {
+        const task = await this.taskService.findOne(req.user.sub, id);
+        res.setHeader('ETag', toETag(task.version));
+        return task;
     }
 
     @Patch(':id')
     @ApiOperation({
         summary: 'Update a task',
-        description: 'Updates a specific task for the authenticated user'
+        description:
+            'Updates a specific task for the authenticated user. Send the ETag from GET /tasks/{id} as If-Match to refuse the update if someone else changed the task meanwhile'
     })
     @ApiParam({
         name: 'id',
         description: 'Task ID',
         type: 'string'
     })
+    @ApiHeader({
+        name: 'If-Match',
+        description:
+            'ETag of the task version the update is based on, e.g. "3"',
+        required: false
+    })
     @ApiResponse({
         status: 200,
-        description: 'Task updated successfully'
+        description:
+            'Task updated successfully; the ETag header carries its new version'
     })
     @ApiResponse({
         status: 404,
@@ -179,47 +331,474 @@ export class TaskController {
     })
     @ApiResponse({
         status: 400,
-        description: 'Invalid update data'
+        description: 'Invalid update data or If-Match header'
+    })
+    @ApiResponse({
+        status: 409,
+        description:
+            'Task is blocked by unfinished tasks, or was changed since the If-Match version; version conflicts return the current task and its ETag'
     })
     @ApiResponse({
         status: 401,
         description: 'Unauthorized'
     })
-    update(
+    async update(
         @Request() req: AuthenticatedRequest,
         @Param('id') id: string,
-        @Body() updateTaskDto: UpdateTaskDto
+        @Body() updateTaskDto: UpdateTaskDto,
+        @Headers('if-match') ifMatch: string | undefined,
+        @Res({ passthrough: true }) res: Response
     ): Promise<Task> {
-        return this.taskService.update(req.user.sub, id, updateTaskDto);
+        const task = await this.taskService.update(
+            req.user.sub,
+            id,
+            updateTaskDto,
+            parseIfMatch(ifMatch)
+        );
+        res.setHeader('ETag', toETag(task.version));
+        return task;
     }
 
     @Delete(':id')
     @ApiOperation({
         summary: 'Delete a task',
-        description: 'Deletes a specific task for the authenticated user'
+        description:
+            'Moves a task and its subtasks to the trash; they are purged after the retention period'
     })
     @ApiParam({
         name: 'id',
         description: 'Task ID',
         type: 'string'
     })
+    @ApiHeader({
+        name: 'If-Match',
+        description:
+            'ETag of the task version the deletion is based on, e.g. "3"',
+        required: false
+    })
     @ApiResponse({
         status: 200,
-        description: 'Task deleted successfully'
+        description: 'Task moved to the trash successfully'
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Only the task creator or a team owner can delete the task'
     })
     @ApiResponse({
         status: 404,
         description: 'Task not found'
     })
+    @ApiResponse({
+        status: 409,
+        description:
+            'Task was changed since the If-Match version; the current task and its ETag are returned'
+    })
     @ApiResponse({
         status: 401,
         description: 'Unauthorized'
     })
     remove(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Headers('if-match') ifMatch: string | undefined
+    ): Promise<Task> {
+        return this.taskService.remove(req.user.sub, id, parseIfMatch(ifMatch));
+    }
+
+    @Post(':id/restore')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Restore a trashed task',
+        description:
+            'Restores a task from the trash, along with the subtasks deleted with it'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Task restored successfully'
+    })
+    @ApiResponse({
+        status: 403,
+        description:
+            'Only the task creator or a team owner can restore the task'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found in trash'
+    })
+    @ApiResponse({
+        status: 409,
+        description: "The task's project or parent task is still in the trash"
+    })
+    restore(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string
+    ): Promise<Task> {
+        return this.taskTrashService.restore(req.user.sub, id);
+    }
+
+    @Post(':id/assignees')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Assign users to a task',
+        description: 'Assigns one or more members of the project team to a task'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Assignees added successfully'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Personal tasks cannot be assigned to other users'
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Assignee is not a member of the project team'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found'
+    })
+    assign(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Body() assignTaskDto: AssignTaskDto
+    ): Promise<Task> {
+        return this.taskService.assign(req.user.sub, id, assignTaskDto.userIds);
+    }
+
+    @Delete(':id/assignees/:assigneeId')
+    @ApiOperation({
+        summary: 'Unassign a user from a task',
+        description: 'Removes an assignee from a task'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiParam({
+        name: 'assigneeId',
+        description: 'ID of the user to unassign',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Assignee removed successfully'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found or user not assigned'
+    })
+    unassign(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Param('assigneeId') assigneeId: string
+    ): Promise<Task> {
+        return this.taskService.unassign(req.user.sub, id, assigneeId);
+    }
+
+    @Get(':id/subtasks')
+    @ApiOperation({
+        summary: 'List subtasks',
+        description: 'Retrieves the subtasks of a task'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Parent task ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Subtasks retrieved successfully'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found'
+    })
+    findSubtasks(
         @Request() req: AuthenticatedRequest,
         @Param('id') id: string
+    ): Promise<Task[]> {
+        return this.taskService.findSubtasks(req.user.sub, id);
+    }
+
+    @Post(':id/subtasks')
+    @ApiOperation({
+        summary: 'Create a subtask',
+        description:
+            'Creates a subtask under a task; the subtask belongs to the parent task project'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Parent task ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 201,
+        description: 'Subtask created successfully'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid task data or the parent is itself a subtask'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found'
+    })
+    createSubtask(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Body() createTaskDto: CreateTaskDto
     ): Promise<Task> {
-        return this.taskService.remove(req.user.sub, id);
+        return this.taskService.createSubtask(req.user.sub, id, createTaskDto);
+    }
+
+    @Post(':id/checklist')
+    @ApiOperation({
+        summary: 'Add a checklist item',
+        description: 'Adds a checklist item to a task'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 201,
+        description: 'Checklist item added successfully'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found'
+    })
+    addChecklistItem(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Body() createItemDto: CreateChecklistItemDto
+    ): Promise<TaskWithProgress> {
+        return this.taskService.addChecklistItem(
+            req.user.sub,
+            id,
+            createItemDto
+        );
+    }
+
+    @Patch(':id/checklist/:itemId')
+    @ApiOperation({
+        summary: 'Update a checklist item',
+        description: 'Renames or ticks off a checklist item'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiParam({
+        name: 'itemId',
+        description: 'Checklist item ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Checklist item updated successfully'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task or checklist item not found'
+    })
+    updateChecklistItem(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Param('itemId') itemId: string,
+        @Body() updateItemDto: UpdateChecklistItemDto
+    ): Promise<TaskWithProgress> {
+        return this.taskService.updateChecklistItem(
+            req.user.sub,
+            id,
+            itemId,
+            updateItemDto
+        );
+    }
+
+    @Delete(':id/checklist/:itemId')
+    @ApiOperation({
+        summary: 'Remove a checklist item',
+        description: 'Removes a checklist item from a task'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiParam({
+        name: 'itemId',
+        description: 'Checklist item ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Checklist item removed successfully'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task or checklist item not found'
+    })
+    removeChecklistItem(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Param('itemId') itemId: string
+    ): Promise<TaskWithProgress> {
+        return this.taskService.removeChecklistItem(req.user.sub, id, itemId);
+    }
+
+    @Get(':id/dependencies')
+    @ApiOperation({
+        summary: 'List task dependencies',
+        description:
+            'Retrieves the tasks blocking this task and the tasks it blocks'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Dependencies retrieved successfully'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found'
+    })
+    getDependencies(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string
+    ): Promise<TaskDependencies> {
+        return this.taskDependencyService.getDependencies(req.user.sub, id);
+    }
+
+    @Post(':id/dependencies')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Add a dependency',
+        description:
+            'Marks the task as blocked by another task of the same project'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Dependency added successfully'
+    })
+    @ApiResponse({
+        status: 400,
+        description:
+            'Tasks are in different projects or the dependency would create a cycle'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found'
+    })
+    addDependency(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Body() addDependencyDto: AddDependencyDto
+    ): Promise<WithBlockedState<Task>> {
+        return this.taskDependencyService.addDependency(
+            req.user.sub,
+            id,
+            addDependencyDto.blockedByTaskId
+        );
+    }
+
+    @Delete(':id/dependencies/:blockedByTaskId')
+    @ApiOperation({
+        summary: 'Remove a dependency',
+        description: 'Removes a "blocked by" link from a task'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiParam({
+        name: 'blockedByTaskId',
+        description: 'ID of the blocking task',
+        type: 'string'
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Dependency removed successfully'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task or dependency not found'
+    })
+    removeDependency(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Param('blockedByTaskId') blockedByTaskId: string
+    ): Promise<WithBlockedState<Task>> {
+        return this.taskDependencyService.removeDependency(
+            req.user.sub,
+            id,
+            blockedByTaskId
+        );
+    }
+
+    @Get(':id/history')
+    @ApiOperation({
+        summary: 'Get task history',
+        description:
+            'Retrieves the change log of a task (field, old value, new value, actor, timestamp), newest first'
+    })
+    @ApiParam({
+        name: 'id',
+        description: 'Task ID',
+        type: 'string'
+    })
+    @ApiQuery({ name: 'page', required: false })
+    @ApiQuery({ name: 'limit', required: false })
+    @ApiQuery({ name: 'cursor', required: false })
+    @ApiResponse({
+        status: 200,
+        description:
+            'History retrieved successfully; meta.nextCursor gives the next page'
+    })
+    @ApiResponse({
+        status: 400,
+        description: 'Invalid cursor'
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Task not found'
+    })
+    getHistory(
+        @Request() req: AuthenticatedRequest,
+        @Param('id') id: string,
+        @Query() paginationDto: CursorPaginationDto
+    ): Promise<PaginatedResponseDto<TaskActivityWithActor>> {
+        const { page = 1, limit = 5, cursor } = paginationDto;
+        return this.taskHistoryService.getHistory(
+            req.user.sub,
+            id,
+            page,
+            limit,
+            cursor
+        );
     }
 
     @Patch('bulk/status')
@@ -235,7 +814,11 @@ export class TaskController {
     })
     @ApiResponse({
         status: 403,
-        description: 'Some tasks do not belong to you'
+        description: 'Some tasks are not accessible to you'
+    })
+    @ApiResponse({
+        status: 409,
+        description: 'Some tasks are blocked by unfinished tasks'
     })
     @ApiResponse({
         status: 401,
@@ -252,174 +835,240 @@ export class TaskController {
         );
     }
 
-        @Post('parse')
-        @ApiBody({ type: ParseTaskDto })
-        async parseTask(@Body() body: ParseTaskDto) {
-            const { input } = body;
+    @Post('parse')
+    @ApiBody({ type: ParseTaskDto })
+    async parseTask(
+        @Request() req: AuthenticatedRequest,
+        @Body() body: ParseTaskDto
+    ) {
+        const { input, projectId } = body;
 
-            // Génération automatique via HF API
-                const generated = await this.textGenService.generateTask(input);
+        // Génération automatique via HF API
+        const generated = await this.textGenService.generateTask(input);
 
-                // Détection de date
-                const parsedDate = this.taskService.parseUserText(input).dueDate;
+        // Détection de date et de récurrence ("every Monday", "chaque lundi")
+        const parsedText = this.taskService.parseUserText(
+            input,
+            await this.taskService.getUserTimeZone(req.user.sub)
+        );
+        const parsedDate = parsedText.dueDate;
 
-                // Robust normalization: accept canonical English labels, localized labels and common verb forms.
-                const normalizeToTaskStatus = (raw: any): TaskStatus => {
-                    const s = String(raw ?? '').toLowerCase().trim();
+        // Robust normalization: accept canonical English labels, localized labels and common verb forms.
+        const normalizeToTaskStatus = (raw: any): TaskStatus => {
+            const s = String(raw ?? '')
+                .toLowerCase()
+                .trim();
 
-                    // DONE indicators (en/fr/es/pt/de + common phrasing)
-                    if (/(\b(done|finished|completed|fini|fait|pagad|pagada|pagado|paguei|paguei|ya pag|já pag|já pago|pagou)\b|j'?ai pay|j'ai payé|j'ai déjà payé|ya pagu[ea]|he pagado)/i.test(s)) {
-                        return TaskStatus.DONE;
-                    }
+            // DONE indicators (en/fr/es/pt/de + common phrasing)
+            if (
+                /(\b(done|finished|completed|fini|fait|pagad|pagada|pagado|paguei|paguei|ya pag|já pag|já pago|pagou)\b|j'?ai pay|j'ai payé|j'ai déjà payé|ya pagu[ea]|he pagado)/i.test(
+                    s
+                )
+            ) {
+                return TaskStatus.DONE;
+            }
 
-                    // IN_PROGRESS indicators (progressive forms, 'en train', 'working on', etc.)
-                    if (/\b(in progress|in_progress|working on|working|doing|en cours|en train(?: de)?|je suis en train|suis en train|trabajando|estoy trabajando|estou trabalhando|ich arbeite)\b/i.test(s)) {
-                        return TaskStatus.IN_PROGRESS;
-                    }
+            // IN_PROGRESS indicators (progressive forms, 'en train', 'working on', etc.)
+            if (
+                /\b(in progress|in_progress|working on|working|doing|en cours|en train(?: de)?|je suis en train|suis en train|trabajando|estoy trabajando|estou trabalhando|ich arbeite)\b/i.test(
+                    s
+                )
+            ) {
+                return TaskStatus.IN_PROGRESS;
+            }
 
-                    // CANCELLED indicators
-                    if (/\b(cancel|cancelled|canceled|annul|anulado|cancelado|abbrechen|abgesagt)\b/i.test(s)) {
-                        return TaskStatus.CANCELLED;
-                    }
+            // CANCELLED indicators
+            if (
+                /\b(cancel|cancelled|canceled|annul|anulado|cancelado|abbrechen|abgesagt)\b/i.test(
+                    s
+                )
+            ) {
+                return TaskStatus.CANCELLED;
+            }
 
-                    // TODO indicators
-                    if (/\b(todo|to do|à faire|a faire|por hacer)\b/i.test(s)) {
-                        return TaskStatus.TODO;
-                    }
+            // TODO indicators
+            if (/\b(todo|to do|à faire|a faire|por hacer)\b/i.test(s)) {
+                return TaskStatus.TODO;
+            }
 
-                    // If the generated value already matches one of the enum keys (case-insensitive), use it
-                    try {
-                        const up = String(raw).toUpperCase();
-                        if (Object.values(TaskStatus).includes(up as any)) return up as TaskStatus;
-                    } catch (e) {
-                        // ignore
-                    }
+            // If the generated value already matches one of the enum keys (case-insensitive), use it
+            try {
+                const up = String(raw).toUpperCase();
+                if (Object.values(TaskStatus).includes(up as any))
+                    return up as TaskStatus;
+            } catch {
+                // ignore
+            }
+
+            // Fallback
+            return TaskStatus.TODO;
+        };
+
+        // Consider multiple sources for status detection: AI status, localized label, generated description and original input
+        const statusSource = [
+            generated.status,
+            generated.statusLabel,
+            generated.description,
+            input
+        ]
+            .filter(Boolean)
+            .join(' ');
+
+        // With a project, a state named in the text ("in review") wins over the generic status
+        const workflowState = projectId
+            ? await this.taskService.matchWorkflowState(
+                  req.user.sub,
+                  projectId,
+                  statusSource,
+                  normalizeToTaskStatus(statusSource)
+              )
+            : null;
+        const normalizedStatus =
+            (workflowState?.category as TaskStatus) ??
+            normalizeToTaskStatus(statusSource);
 
-                    // Fallback
-                    return TaskStatus.TODO;
-                };
-
-                const normalizePriority = (raw: any) => {
-                    const p = String(raw ?? '').toLowerCase().trim();
-                    if (/\b(urgent|asap|immediately|immédiat|immediatamente|urgente|ahora|agora)\b/i.test(p)) return TaskPriority.URGENT;
-                    if (/\b(high|important|soon|important|importante|importante)\b/i.test(p)) return TaskPriority.HIGH;
-                    if (/\b(low|optional|when possible|eventually|faible|bajo|opcional)\b/i.test(p)) return TaskPriority.LOW;
-                    return TaskPriority.MEDIUM;
-                };
-
-                // Consider multiple sources for status detection: AI status, localized label, generated description and original input
-                const statusSource = [generated.status, generated.statusLabel, generated.description, input]
-                    .filter(Boolean)
-                    .join(' ');
-
-                const normalizedStatus = normalizeToTaskStatus(statusSource);
-
-                // Priority: prefer LLM suggestion when confidence is sufficient, otherwise use heuristics
-                const llmPriorityStr = String(generated.priority ?? '').toLowerCase().trim();
-                const llmConfidence = Number(generated.priorityConfidence ?? 0);
-
-                const priorityMap: { [k: string]: TaskPriority } = {
-                    low: TaskPriority.LOW,
-                    medium: TaskPriority.MEDIUM,
-                    high: TaskPriority.HIGH,
-                    urgent: TaskPriority.URGENT
-                };
-
-                let finalPriority: TaskPriority | null = null;
-
-                // Accept LLM priority when confidence >= 0.6
-                if (llmConfidence && llmConfidence >= 0.6 && priorityMap[llmPriorityStr]) {
-                    finalPriority = priorityMap[llmPriorityStr];
+        // Priority: prefer LLM suggestion when confidence is sufficient, otherwise use heuristics
+        const llmPriorityStr = String(generated.priority ?? '')
+            .toLowerCase()
+            .trim();
+        const llmConfidence = Number(generated.priorityConfidence ?? 0);
+
+        const priorityMap: { [k: string]: TaskPriority } = {
+            low: TaskPriority.LOW,
+            medium: TaskPriority.MEDIUM,
+            high: TaskPriority.HIGH,
+            urgent: TaskPriority.URGENT
+        };
+
+        let finalPriority: TaskPriority | null = null;
+
+        // Accept LLM priority when confidence >= 0.6
+        if (
+            llmConfidence &&
+            llmConfidence >= 0.6 &&
+            priorityMap[llmPriorityStr]
+        ) {
+            finalPriority = priorityMap[llmPriorityStr];
+        } else {
+            // Heuristics based on due date and semantic keywords
+            const now = new Date();
+            try {
+                if (parsedDate) {
+                    const diffMs = parsedDate.getTime() - now.getTime();
+                    const diffHours = diffMs / (1000 * 60 * 60);
+                    if (diffHours <= 24) finalPriority = TaskPriority.URGENT;
+                    else if (diffHours <= 24 * 7)
+                        finalPriority = TaskPriority.HIGH;
+                    else finalPriority = TaskPriority.MEDIUM;
                 } else {
-                    // Heuristics based on due date and semantic keywords
-                    const now = new Date();
-                    try {
-                        if (parsedDate) {
-                            const diffMs = parsedDate.getTime() - now.getTime();
-                            const diffHours = diffMs / (1000 * 60 * 60);
-                            if (diffHours <= 24) finalPriority = TaskPriority.URGENT;
-                            else if (diffHours <= 24 * 7) finalPriority = TaskPriority.HIGH;
-                            else finalPriority = TaskPriority.MEDIUM;
-                        } else {
-                            // semantic cues in the full text (statusSource covers generated fields + input)
-                            const s = statusSource.toLowerCase();
-                            // health/medical → URGENT
-                            if (/\b(douleur|urgence|urgence m[ée]dicale|m[ée]decin|hospital|chest pain|sant[eé]|emergency)\b/i.test(s)) {
-                                finalPriority = TaskPriority.URGENT;
-                            } else if (/\b(facture|payer|paiement|paid|pay[eé]|invoice|bill|virement)\b/i.test(s)) {
-                                // financial matters → HIGH
-                                finalPriority = TaskPriority.HIGH;
-                            } else if (/\b(asap|urgent|maintenant|imm[ée]diat|ahora|ahora mismo|sofort)\b/i.test(s)) {
-                                finalPriority = TaskPriority.URGENT;
-                            } else if (priorityMap[llmPriorityStr]) {
-                                finalPriority = priorityMap[llmPriorityStr];
-                            } else {
-                                finalPriority = TaskPriority.MEDIUM;
-                            }
-                        }
-                    } catch (e) {
-                        finalPriority = priorityMap[llmPriorityStr] ?? TaskPriority.MEDIUM;
+                    // semantic cues in the full text (statusSource covers generated fields + input)
+                    const s = statusSource.toLowerCase();
+                    // health/medical → URGENT
+                    if (
+                        /\b(douleur|urgence|urgence m[ée]dicale|m[ée]decin|hospital|chest pain|sant[eé]|emergency)\b/i.test(
+                            s
+                        )
+                    ) {
+                        finalPriority = TaskPriority.URGENT;
+                    } else if (
+                        /\b(facture|payer|paiement|paid|pay[eé]|invoice|bill|virement)\b/i.test(
+                            s
+                        )
+                    ) {
+                        // financial matters → HIGH
+                        finalPriority = TaskPriority.HIGH;
+                    } else if (
+                        /\b(asap|urgent|maintenant|imm[ée]diat|ahora|ahora mismo|sofort)\b/i.test(
+                            s
+                        )
+                    ) {
+                        finalPriority = TaskPriority.URGENT;
+                    } else if (priorityMap[llmPriorityStr]) {
+                        finalPriority = priorityMap[llmPriorityStr];
+                    } else {
+                        finalPriority = TaskPriority.MEDIUM;
                     }
                 }
-
-                // Map enum back to lowercase canonical string for preview (low|medium|high|urgent)
-                const enumToLower: { [k in TaskPriority]: string } = {
-                    [TaskPriority.LOW]: 'low',
-                    [TaskPriority.MEDIUM]: 'medium',
-                    [TaskPriority.HIGH]: 'high',
-                    [TaskPriority.URGENT]: 'urgent'
-                };
-
-                const priorityStr = enumToLower[finalPriority as TaskPriority] ?? 'medium';
-
-                // Compute localized statusLabel from normalizedStatus and language (overwrite any stale label from generated)
-                const lang = generated.language || 'en';
-                const statusLabelMap: { [lang: string]: { [k in TaskStatus]?: string } } = {
-                    en: {
-                        [TaskStatus.TODO]: 'To Do',
-                        [TaskStatus.IN_PROGRESS]: 'In Progress',
-                        [TaskStatus.DONE]: 'Done',
-                        [TaskStatus.CANCELLED]: 'Cancelled'
-                    },
-                    fr: {
-                        [TaskStatus.TODO]: 'À faire',
-                        [TaskStatus.IN_PROGRESS]: 'En cours',
-                        [TaskStatus.DONE]: 'Terminé',
-                        [TaskStatus.CANCELLED]: 'Annulé'
-                    },
-                    es: {
-                        [TaskStatus.TODO]: 'Por hacer',
-                        [TaskStatus.IN_PROGRESS]: 'En progreso',
-                        [TaskStatus.DONE]: 'Hecho',
-                        [TaskStatus.CANCELLED]: 'Cancelado'
-                    },
-                    pt: {
-                        [TaskStatus.TODO]: 'A fazer',
-                        [TaskStatus.IN_PROGRESS]: 'Em progresso',
-                        [TaskStatus.DONE]: 'Concluído',
-                        [TaskStatus.CANCELLED]: 'Cancelado'
-                    },
-                    de: {
-                        [TaskStatus.TODO]: 'Zu erledigen',
-                        [TaskStatus.IN_PROGRESS]: 'In Bearbeitung',
-                        [TaskStatus.DONE]: 'Erledigt',
-                        [TaskStatus.CANCELLED]: 'Abgebrochen'
-                    }
-                };
-
-                const localizedStatusLabel = (statusLabelMap[lang] && statusLabelMap[lang][normalizedStatus]) || statusLabelMap['en'][normalizedStatus];
-
-                // Return: keep LLM metadata for audit/UI, but expose `priority` as low|medium|high|urgent for the frontend preview
-                return {
-                    ...generated,
-                    status: normalizedStatus,
-                    statusLabel: localizedStatusLabel,
-                    priority: priorityStr,
-                    priorityEnum: finalPriority,
-                    priorityConfidence: generated.priorityConfidence ?? null,
-                    priorityReason: generated.priorityReason ?? '',
-                    dueDate: parsedDate ?? null
-                };
+            } catch {
+                finalPriority =
+                    priorityMap[llmPriorityStr] ?? TaskPriority.MEDIUM;
+            }
         }
-    
+
+        // Map enum back to lowercase canonical string for preview (low|medium|high|urgent)
+        const enumToLower: { [k in TaskPriority]: string } = {
+            [TaskPriority.LOW]: 'low',
+            [TaskPriority.MEDIUM]: 'medium',
+            [TaskPriority.HIGH]: 'high',
+            [TaskPriority.URGENT]: 'urgent'
+        };
+
+        const priorityStr =
+            enumToLower[finalPriority as TaskPriority] ?? 'medium';
+
+        // Compute localized statusLabel from normalizedStatus and language (overwrite any stale label from generated)
+        const lang = generated.language || 'en';
+        const statusLabelMap: {
+            [lang: string]: { [k in TaskStatus]?: string };
+        } = {
+            en: {
+                [TaskStatus.TODO]: 'To Do',
+                [TaskStatus.IN_PROGRESS]: 'In Progress',
+                [TaskStatus.DONE]: 'Done',
+                [TaskStatus.CANCELLED]: 'Cancelled'
+            },
+            fr: {
+                [TaskStatus.TODO]: 'À faire',
+                [TaskStatus.IN_PROGRESS]: 'En cours',
+                [TaskStatus.DONE]: 'Terminé',
+                [TaskStatus.CANCELLED]: 'Annulé'
+            },
+            es: {
+                [TaskStatus.TODO]: 'Por hacer',
+                [TaskStatus.IN_PROGRESS]: 'En progreso',
+                [TaskStatus.DONE]: 'Hecho',
+                [TaskStatus.CANCELLED]: 'Cancelado'
+            },
+            pt: {
+                [TaskStatus.TODO]: 'A fazer',
+                [TaskStatus.IN_PROGRESS]: 'Em progresso',
+                [TaskStatus.DONE]: 'Concluído',
+                [TaskStatus.CANCELLED]: 'Cancelado'
+            },
+            de: {
+                [TaskStatus.TODO]: 'Zu erledigen',
+                [TaskStatus.IN_PROGRESS]: 'In Bearbeitung',
+                [TaskStatus.DONE]: 'Erledigt',
+                [TaskStatus.CANCELLED]: 'Abgebrochen'
+            }
+        };
+
+        const localizedStatusLabel =
+            (statusLabelMap[lang] && statusLabelMap[lang][normalizedStatus]) ||
+            statusLabelMap['en'][normalizedStatus];
+
+        // Return: keep LLM metadata for audit/UI, but expose `priority` as low|medium|high|urgent for the frontend preview
+        return {
+            ...generated,
+            status: normalizedStatus,
+            statusLabel: localizedStatusLabel,
+            workflowState: workflowState?.key ?? null,
+            workflowStateName: workflowState?.name ?? null,
+            priority: priorityStr,
+            priorityEnum: finalPriority,
+            priorityConfidence: generated.priorityConfidence ?? null,
+            priorityReason: generated.priorityReason ?? '',
+            dueDate: parsedDate ?? null,
+            allDay: parsedText.allDay,
+            // Same shape as CreateTaskDto.recurrence, so the preview can be submitted as is
+            recurrence: parsedText.recurrence
+                ? {
+                      rrule: formatRRule(parsedText.recurrence),
+                      frequency: parsedText.recurrence.frequency,
+                      interval: parsedText.recurrence.interval,
+                      byDay: parsedText.recurrence.byDay
+                  }
+                : null
+        };
+    }
 }
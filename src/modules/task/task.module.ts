@@ -6,9 +6,24 @@ import { TokenBlacklistService } from '../../core/services/token-blacklist.servi
 import { AuthGuard } from '../../core/common/guards/auth.guard';
 import { TeamModule } from '../team/team.module';
 import { TaskController } from './task.controller';
+import { TaskCommentController } from './task-comment.controller';
 import { TaskService } from './task.service';
 import { TaskAiModule } from '../task-ai/task-ai.module';
-import { TasksGateway } from './tasks.gateway';
+import { WebsocketModule } from '../../websocket/websocket.module';
+import { NotificationModule } from '../notification/notification.module';
+import { WebhookDeliveryModule } from '../webhook/webhook-delivery.module';
+import { TaskAccessService } from './task-access.service';
+import { TaskDependencyService } from './task-dependency.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskCommentService } from './task-comment.service';
+import { TaskHistoryService } from './task-history.service';
+import { TaskTrashService } from './task-trash.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskTimeService } from './task-time.service';
+import { TaskSearchService } from './task-search.service';
+import { TaskTimeController } from './task-time.controller';
+import { TaskReminderService } from './task-reminder.service';
+import { TaskPresenceGateway } from './task-presence.gateway';
 
 
 @Module({
@@ -23,10 +38,35 @@ import { TasksGateway } from './tasks.gateway';
             })
         }),
         TaskAiModule,
-        TeamModule // Import TeamModule to access TeamAccessService
+        TeamModule, // Import TeamModule to access TeamAccessService
+        WebsocketModule,
+        NotificationModule,
+        WebhookDeliveryModule
     ],
-    controllers: [TaskController],
-    providers: [TaskService, PrismaService, TokenBlacklistService, AuthGuard,TasksGateway],
-    exports: [TaskService]
+    controllers: [TaskController, TaskCommentController, TaskTimeController],
+    providers: [
+        TaskService,
+        TaskAccessService,
+        TaskDependencyService,
+        TaskRecurrenceService,
+        TaskCommentService,
+        TaskHistoryService,
+        TaskTrashService,
+        TaskWorkflowService,
+        TaskTimeService,
+        TaskReminderService,
+        TaskSearchService,
+        TaskPresenceGateway,
+        PrismaService,
+        TokenBlacklistService,
+        AuthGuard
+    ],
+    exports: [
+        TaskService,
+        TaskAccessService,
+        TaskTrashService,
+        TaskWorkflowService,
+        TaskTimeService
+    ]
 })
 export class TaskModule {}
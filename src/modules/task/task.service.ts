@@ -1,99 +1,309 @@
 import {
     Injectable,
+    Logger,
     NotFoundException,
-    ForbiddenException
+    OnModuleInit,
+    ForbiddenException,
+    BadRequestException
 } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
 const chrono: any = require('chrono-node');
-import { Prisma, Task } from '@prisma/client';
+import {
+    NotificationType,
+    Prisma,
+    Task,
+    TaskPriority,
+    WorkflowState
+} from '@prisma/client';
 import { PrismaService } from '../../core/services/prisma.service';
 import { TeamAccessService } from '../team/team-access.service';
 import {
     CreateTaskDto,
     UpdateTaskDto,
     QueryTaskDto,
-    TaskStatus
+    TaskStatus,
+    CreateChecklistItemDto,
+    UpdateChecklistItemDto
 } from './dto/task.dto';
 import { TasksGateway } from './tasks.gateway';
+import { TaskAccessService } from './task-access.service';
+import {
+    TaskDependencyService,
+    WithBlockedState
+} from './task-dependency.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskHistoryService } from './task-history.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { NotificationService } from '../notification/notification.service';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+import { detectRecurrence } from '../../core/utils/recurrence';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { NOT_ALL_DAY } from '../../core/constants/due-date.constants';
+import {
+    assertVersion,
+    rethrowVersionConflict,
+    versionFilter
+} from '../../core/utils/concurrency';
+import { paginate } from '../../core/utils/pagination';
+import { toTaskSortKeys } from '../../core/utils/task-sort';
+import { resolveRelativeDueRange } from '../../core/utils/relative-date';
+import {
+    getLocalDay,
+    getTimeZoneOffset,
+    startOfLocalDay
+} from '../../core/utils/timezone';
+import { DEFAULT_TIMEZONE } from '../../core/constants/notification.constants';
+import { PRIORITY_RANK } from '../../core/constants/priority.constants';
+import { PaginatedResponseDto } from '../../core/common/dto/pagination.dto';
+
+const taskInclude = {
+    user: {
+        select: {
+            id: true,
+            name: true,
+            email: true
+        }
+    },
+    assignees: {
+        select: {
+            id: true,
+            name: true,
+            email: true
+        }
+    },
+    labels: {
+        select: {
+            id: true,
+            name: true,
+            color: true
+        }
+    },
+    project: {
+        select: {
+            id: true,
+            name: true,
+            description: true,
+            teamId: true,
+            team: {
+                select: {
+                    id: true,
+                    name: true
+                }
+            }
+        }
+    }
+} satisfies Prisma.TaskInclude;
+
+// Completing a task ticks off every remaining checklist item
+const completeChecklist = {
+    updateMany: {
+        where: { done: false },
+        data: { done: true }
+    }
+} satisfies Prisma.ChecklistItemListUpdateEnvelopeInput;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isDay = (day?: string): boolean =>
+    !!day && !isNaN(startOfLocalDay(day, 'UTC').getTime());
+
+const nextDay = (day: string): string =>
+    new Date(startOfLocalDay(day, 'UTC').getTime() + DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+
+// All-day tasks keep the day written in dueDate, at midnight UTC
+const toDueDate = (dueDate: string, allDay?: boolean | null): Date =>
+    allDay ? startOfLocalDay(dueDate.slice(0, 10), 'UTC') : new Date(dueDate);
+
+/**
+ * Match the tasks due within days of the user: timed tasks between the local midnights,
+ * all-day tasks on the dates themselves. Invalid days are ignored
+ */
+const dueDateFilter = (
+    dueFrom: string | undefined,
+    dueUntil: string | undefined,
+    timeZone: string
+): Prisma.TaskWhereInput | null => {
+    if (!isDay(dueFrom) && !isDay(dueUntil)) {
+        return null;
+    }
 
-export interface PaginatedTasks {
-    tasks: Task[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
+    const between = (zone: string) => ({
+        ...(isDay(dueFrom) && { gte: startOfLocalDay(dueFrom, zone) }),
+        ...(isDay(dueUntil) && { lt: startOfLocalDay(nextDay(dueUntil), zone) })
+    });
+
+    return {
+        OR: [
+            { allDay: true, dueDate: between('UTC') },
+            { AND: [NOT_ALL_DAY, { dueDate: between(timeZone) }] }
+        ]
+    };
+};
+
+export interface TaskProgress {
+    subtasks: { total: number; done: number };
+    checklist: { total: number; done: number };
+    percent: number;
+}
+
+export type TaskWithProgress = Task & { progress: TaskProgress };
+
+// The top-level page fields predate `data` and `meta`; they are only sent when paging by page number
+export interface PaginatedTasks extends PaginatedResponseDto<Task> {
+    tasks?: Task[];
+    total?: number;
+    page?: number;
+    limit?: number;
+    totalPages?: number;
 }
 
 @Injectable()
-export class TaskService {
+export class TaskService implements OnModuleInit {
+    private readonly logger = new Logger(TaskService.name);
+
     constructor(
         private readonly tasksGateway: TasksGateway,
         private readonly prismaService: PrismaService,
-        private readonly teamAccessService: TeamAccessService
+        private readonly teamAccessService: TeamAccessService,
+        private readonly taskAccessService: TaskAccessService,
+        private readonly taskDependencyService: TaskDependencyService,
+        private readonly taskRecurrenceService: TaskRecurrenceService,
+        private readonly taskHistoryService: TaskHistoryService,
+        private readonly taskWorkflowService: TaskWorkflowService,
+        private readonly notificationService: NotificationService,
+        private readonly webhookDeliveryService: WebhookDeliveryService
     ) {}
 
-    async create(userId: string, createTaskDto: CreateTaskDto): Promise<Task> {
+    /**
+     * Store the priority rank of the tasks saved before it existed.
+     * A raw update, because Prisma would also bump their updatedAt
+     */
+    async onModuleInit(): Promise<void> {
+        try {
+            for (const priority of Object.values(TaskPriority)) {
+                await this.prismaService.$runCommandRaw({
+                    update: 'Task',
+                    updates: [
+                        {
+                            q: { priority, priorityRank: { $exists: false } },
+                            u: {
+                                $set: { priorityRank: PRIORITY_RANK[priority] }
+                            },
+                            multi: true
+                        }
+                    ]
+                });
+            }
+        } catch (error) {
+            this.logger.error(
+                'Failed to store the priority rank of older tasks',
+                (error as Error).stack
+            );
+        }
+    }
+
+    async create(
+        userId: string,
+        createTaskDto: CreateTaskDto,
+        options: { parentTaskId?: string; syncMutationId?: string } = {}
+    ): Promise<WithBlockedState<Task>> {
         // If projectId is provided, validate user access to the project
+        let teamId: string | null = null;
         if (createTaskDto.projectId) {
-            const teamId = await this.teamAccessService.getTeamIdFromProject(
+            teamId = await this.teamAccessService.getTeamIdFromProject(
                 createTaskDto.projectId
             );
             await this.teamAccessService.assertMember(userId, teamId);
         }
 
+        const dueDate = createTaskDto.dueDate
+            ? toDueDate(createTaskDto.dueDate, createTaskDto.allDay)
+            : null;
+        const { status, workflowState } =
+            await this.taskWorkflowService.resolveInitial(
+                createTaskDto.projectId || null,
+                createTaskDto
+            );
+
         const taskData = {
             title: createTaskDto.title,
             description: createTaskDto.description,
-            status: createTaskDto.status || TaskStatus.TODO,
+            status,
+            workflowState,
             priority: createTaskDto.priority,
-            dueDate: createTaskDto.dueDate
-                ? new Date(createTaskDto.dueDate)
-                : null,
+            priorityRank:
+                PRIORITY_RANK[createTaskDto.priority ?? TaskPriority.MEDIUM],
+            dueDate,
+            allDay: createTaskDto.allDay ?? false,
+            estimateMinutes: createTaskDto.estimateMinutes,
+            reminderOffsets:
+                createTaskDto.reminderOffsets ??
+                (await this.getDefaultReminderOffsets(userId)),
             userId: userId,
-            projectId: createTaskDto.projectId || null
+            projectId: createTaskDto.projectId || null,
+            parentTaskId: options.parentTaskId || null,
+            syncMutationId: options.syncMutationId,
+            // Accepted AI suggestions reference their dependencies by ID or title
+            blockedByIds: createTaskDto.dependsOn
+                ? await this.taskDependencyService.resolveReferences(
+                      userId,
+                      createTaskDto.projectId || null,
+                      createTaskDto.dependsOn
+                  )
+                : [],
+            recurrence: createTaskDto.recurrence
+                ? this.taskRecurrenceService.toRecurrence(
+                      createTaskDto.recurrence,
+                      dueDate ?? new Date()
+                  )
+                : undefined,
+            labels: {
+                connect: (
+                    await this.resolveLabelIds(
+                        createTaskDto.labelIds ?? [],
+                        teamId,
+                        userId,
+                        true
+                    )
+                ).map((id) => ({ id }))
+            }
         };
 
         const task = await this.prismaService.task.create({
             data: taskData,
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true
-                    }
-                },
-                project: {
-                    select: {
-                        id: true,
-                        name: true,
-                        description: true,
-                        team: {
-                            select: {
-                                id: true,
-                                name: true
-                            }
-                        }
-                    }
-                }
-            }
+            include: taskInclude
         });
-        this.tasksGateway.server.emit('taskAdded', task);
-        return task;
+        await this.taskHistoryService.recordCreated(userId, task);
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([task]),
+            'taskAdded',
+            task
+        );
+        await this.webhookDeliveryService.publishTasks('task.created', [task]);
+        return this.taskDependencyService.withBlockedState(task);
     }
 
     async findAll(
         userId: string,
         queryDto: QueryTaskDto
-     ): Promise<PaginatedTasks> {
+    ): Promise<PaginatedTasks> {
         const {
             status,
             priority,
             search,
-            dueFrom,
-            dueUntil,
+            dueWithin,
             projectId,
+            assignedToMe,
+            assigneeId,
+            labelIds,
+            labelMatch = 'any',
+            workflowState,
             page = 1,
             limit = 10,
+            cursor,
             sortBy = 'createdAt',
             sortOrder = 'desc'
         } = queryDto;
@@ -105,6 +315,27 @@ export class TaskService {
             await this.teamAccessService.assertMember(userId, teamId);
         }
 
+        if (workflowState && !projectId) {
+            throw new BadRequestException(
+                'Filtering by workflow state requires a projectId'
+            );
+        }
+
+        if (dueWithin && (queryDto.dueFrom || queryDto.dueUntil)) {
+            throw new BadRequestException(
+                'Filter by dueWithin or by dueFrom/dueUntil, not both'
+            );
+        }
+        // Days are the user's; relative ranges are resolved on every query, so saved views stay current
+        const timeZone =
+            dueWithin || queryDto.dueFrom || queryDto.dueUntil
+                ? await this.getUserTimeZone(userId)
+                : DEFAULT_TIMEZONE;
+        const { dueFrom, dueUntil } = dueWithin
+            ? resolveRelativeDueRange(dueWithin, new Date(), timeZone)
+            : queryDto;
+        const dueFilter = dueDateFilter(dueFrom, dueUntil, timeZone);
+
         // Debug logging
         // console.log('=== TASK SEARCH DEBUG ===');
         // console.log('User ID:', userId);
@@ -123,42 +354,37 @@ export class TaskService {
 
         // Ensure limit doesn't exceed maximum
         const actualLimit = Math.min(limit, 100);
-        const skip = (page - 1) * actualLimit;
 
         // Build where clause
         const where: Prisma.TaskWhereInput = {
+            ...NOT_TRASHED,
             // If projectId is specified, show all tasks in that project (for team members)
             // Otherwise, show only user's personal tasks
-            ...(projectId ? { projectId } : { userId }),
+            // With assignedToMe, show tasks assigned to the user wherever they were created
+            ...(projectId ? { projectId } : !assignedToMe && { userId }),
+            ...(assignedToMe
+                ? { assigneeIds: { has: userId } }
+                : assigneeId && { assigneeIds: { has: assigneeId } }),
+            ...(labelIds?.length > 0 && {
+                labelIds:
+                    labelMatch === 'all'
+                        ? { hasEvery: labelIds }
+                        : { hasSome: labelIds }
+            }),
             ...(status && { status }),
+            AND: [
+                ...(workflowState
+                    ? [
+                          await this.taskWorkflowService.toStateFilter(
+                              projectId,
+                              workflowState
+                          )
+                      ]
+                    : []),
+                // Invalid days, like 2025-11-31, are ignored
+                ...(dueFilter ? [dueFilter] : [])
+            ],
             ...(priority && { priority }),
-            ...(dueFrom && {
-                dueDate: {
-                    gte: new Date(dueFrom + 'T00:00:00.000Z')
-                }
-            }),
-            ...(dueUntil && {
-                dueDate: {
-                    lte: (() => {
-                        // Handle invalid dates like 2025-11-31
-                        try {
-                            const date = new Date(dueUntil + 'T23:59:59.999Z');
-                            if (isNaN(date.getTime())) {
-                                console.log('Invalid dueUntil date:', dueUntil);
-                                return new Date('2099-12-31T23:59:59.999Z'); // Fallback to far future
-                            }
-                            return date;
-                        } catch (error) {
-                            console.log(
-                                'Error parsing dueUntil date:',
-                                dueUntil,
-                                error
-                            );
-                            return new Date('2099-12-31T23:59:59.999Z'); // Fallback to far future
-                        }
-                    })()
-                }
-            }),
             ...(search && {
                 OR: [
                     { title: { contains: search, mode: 'insensitive' } },
@@ -167,132 +393,85 @@ export class TaskService {
             })
         };
 
-        // Handle both dueFrom and dueUntil filters together
-        if (dueFrom && dueUntil) {
-            try {
-                const fromDate = new Date(dueFrom + 'T00:00:00.000Z');
-                const untilDate = new Date(dueUntil + 'T23:59:59.999Z');
-
-                if (!isNaN(fromDate.getTime()) && !isNaN(untilDate.getTime())) {
-                    where.dueDate = {
-                        gte: fromDate,
-                        lte: untilDate
-                    };
-                } else {
-                    console.log('Invalid date range - skipping date filters');
-                    delete where.dueDate;
-                }
-            } catch (error) {
-                console.log(
-                    'Error with date range - skipping date filters:',
-                    error
-                );
-                delete where.dueDate;
-            }
-        }
-
         console.log('Built where clause:', JSON.stringify(where, null, 2));
 
-        // Build orderBy clause
-        const orderBy: Prisma.TaskOrderByWithRelationInput = {};
-        if (sortBy === 'priority') {
-            // Custom priority ordering: URGENT > HIGH > MEDIUM > LOW
-            orderBy.priority = sortOrder as 'asc' | 'desc';
-        } else if (['createdAt', 'updatedAt', 'dueDate'].includes(sortBy)) {
-            orderBy[sortBy] = sortOrder as 'asc' | 'desc';
-        } else {
-            orderBy.createdAt = 'desc';
-        }
-
-        // Execute queries in parallel
-        const [tasks, total] = await Promise.all([
-            this.prismaService.task.findMany({
-                where,
-                orderBy,
-                skip,
-                take: actualLimit,
-                include: {
-                    user: {
-                        select: {
-                            id: true,
-                            name: true,
-                            email: true
-                        }
-                    },
-                    project: {
-                        select: {
-                            id: true,
-                            name: true,
-                            description: true,
-                            team: {
-                                select: {
-                                    id: true,
-                                    name: true
-                                }
-                            }
-                        }
-                    }
-                }
-            }),
-            this.prismaService.task.count({ where })
-        ]);
+        // Page by cursor, or by page number for existing clients
+        const { data: tasks, meta } = await paginate(
+            { page, limit: actualLimit, cursor },
+            toTaskSortKeys(sortBy, sortOrder),
+            (query) =>
+                this.prismaService.task.findMany({
+                    where: { AND: [where, query.where] },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take,
+                    include: taskInclude
+                }),
+            () => this.prismaService.task.count({ where })
+        );
 
         // console.log('Query results:', { tasksFound: tasks.length, total });
         // console.log('=== END DEBUG ===');
 
+        const data = await this.taskDependencyService.attachBlockedState(tasks);
         return {
-            tasks,
-            total,
-            page,
-            limit: actualLimit,
-            totalPages: Math.ceil(total / actualLimit)
+            data,
+            meta,
+            ...(!cursor && {
+                tasks: data,
+                total: meta.total,
+                page,
+                limit: actualLimit,
+                totalPages: meta.totalPages
+            })
         };
     }
 
-    async findOne(userId: string, taskId: string): Promise<Task> {
+    async findOne(
+        userId: string,
+        taskId: string
+    ): Promise<WithBlockedState<TaskWithProgress>> {
+        const task = await this.findAccessible(userId, taskId);
+
+        return this.taskDependencyService.withBlockedState({
+            ...task,
+            progress: await this.getProgress(task)
+        });
+    }
+
+    private async findAccessible(userId: string, taskId: string) {
         const task = await this.prismaService.task.findFirst({
-            where: {
-                id: taskId,
-                userId
-            },
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true
-                    }
-                },
-                project: {
-                    select: {
-                        id: true,
-                        name: true,
-                        description: true,
-                        team: {
-                            select: {
-                                id: true,
-                                name: true
-                            }
-                        }
-                    }
-                }
-            }
+            where: { id: taskId, ...NOT_TRASHED },
+            include: taskInclude
         });
 
         if (!task) {
             throw new NotFoundException('Task not found');
         }
 
+        // Creator, assignees and members of the project's team can work on the task
+        await this.taskAccessService.assertCanAccess(userId, task);
+
         return task;
     }
 
+    /**
+     * Update a task; with an expected version (from If-Match), the update is refused if the task changed since
+     * @throws ConflictException with the current task if it is not at the expected version, or changes during the update
+     */
     async update(
         userId: string,
         taskId: string,
-        updateTaskDto: UpdateTaskDto
-     ): Promise<Task> {
-        // Check if task exists and belongs to user
-        const existingTask = await this.findOne(userId, taskId);
+        updateTaskDto: UpdateTaskDto,
+        expectedVersion?: number
+    ): Promise<WithBlockedState<Task>> {
+        // Check if task exists and is accessible to the user
+        const existingTask = await this.findAccessible(userId, taskId);
+        const version = assertVersion(
+            existingTask,
+            expectedVersion,
+            'The task was changed since you loaded it'
+        );
 
         // If projectId is being updated, validate user membership in the new project's team
         if (
@@ -308,71 +487,311 @@ export class TaskService {
             }
         }
 
-        const updateData: any = {};
+        // Statuses are the categories of the project's workflow states
+        const projectId =
+            updateTaskDto.projectId !== undefined
+                ? updateTaskDto.projectId || null
+                : existingTask.projectId;
+        const target =
+            updateTaskDto.status !== undefined ||
+            updateTaskDto.workflowState !== undefined ||
+            projectId !== existingTask.projectId
+                ? await this.taskWorkflowService.resolveMove(
+                      existingTask,
+                      projectId,
+                      updateTaskDto
+                  )
+                : undefined;
+
+        if (
+            target?.status === TaskStatus.IN_PROGRESS &&
+            existingTask.status !== TaskStatus.IN_PROGRESS
+        ) {
+            await this.taskDependencyService.assertCanStart([existingTask]);
+        }
+
+        const updateData: any = { version: version + 1 };
 
         if (updateTaskDto.title !== undefined)
             updateData.title = updateTaskDto.title;
         if (updateTaskDto.description !== undefined)
             updateData.description = updateTaskDto.description;
-        if (updateTaskDto.status !== undefined)
-            updateData.status = updateTaskDto.status;
-        if (updateTaskDto.priority !== undefined)
+        if (target) {
+            updateData.status = target.status;
+            updateData.workflowState = target.workflowState;
+            if (target.status === TaskStatus.DONE) {
+                updateData.checklist = completeChecklist;
+            }
+        }
+        if (updateTaskDto.priority !== undefined) {
             updateData.priority = updateTaskDto.priority;
+            updateData.priorityRank = PRIORITY_RANK[updateTaskDto.priority];
+        }
+        if (updateTaskDto.allDay !== undefined) {
+            updateData.allDay = updateTaskDto.allDay;
+        }
+        const allDay = updateTaskDto.allDay ?? existingTask.allDay ?? false;
         if (updateTaskDto.dueDate !== undefined) {
             updateData.dueDate = updateTaskDto.dueDate
-                ? new Date(updateTaskDto.dueDate)
+                ? toDueDate(updateTaskDto.dueDate, allDay)
                 : null;
+        } else if (existingTask.dueDate && allDay !== !!existingTask.allDay) {
+            // Switching keeps the day the task is due on for the user
+            const timeZone = await this.getUserTimeZone(userId);
+            updateData.dueDate = allDay
+                ? startOfLocalDay(
+                      getLocalDay(existingTask.dueDate, timeZone),
+                      'UTC'
+                  )
+                : startOfLocalDay(
+                      existingTask.dueDate.toISOString().slice(0, 10),
+                      timeZone
+                  );
+        }
+        if (updateTaskDto.estimateMinutes !== undefined) {
+            updateData.estimateMinutes = updateTaskDto.estimateMinutes;
+        }
+        if (updateTaskDto.reminderOffsets !== undefined) {
+            updateData.reminderOffsets = updateTaskDto.reminderOffsets;
         }
         if (updateTaskDto.projectId !== undefined) {
             updateData.projectId = updateTaskDto.projectId || null;
         }
+        if (updateTaskDto.recurrence !== undefined) {
+            // Keep the series aligned on its original first occurrence
+            updateData.recurrence = updateTaskDto.recurrence
+                ? {
+                      set: this.taskRecurrenceService.toRecurrence(
+                          updateTaskDto.recurrence,
+                          existingTask.recurrence?.startsAt ??
+                              updateData.dueDate ??
+                              existingTask.dueDate ??
+                              existingTask.createdAt
+                      )
+                  }
+                : { unset: true };
+        }
 
-        const before = await this.findOne(userId, taskId);
+        // Labels come from the task's team catalog, so a move drops those that no longer apply
+        if (
+            updateTaskDto.labelIds !== undefined ||
+            updateData.projectId !== undefined
+        ) {
+            const teamId =
+                updateData.projectId !== undefined
+                    ? updateData.projectId &&
+                      (await this.teamAccessService.getTeamIdFromProject(
+                          updateData.projectId
+                      ))
+                    : await this.taskAccessService.getTeamId(existingTask);
+            const labelIds = await this.resolveLabelIds(
+                updateTaskDto.labelIds ?? existingTask.labelIds,
+                teamId,
+                existingTask.userId,
+                updateTaskDto.labelIds !== undefined
+            );
+            updateData.labels = { set: labelIds.map((id) => ({ id })) };
+        }
 
-        const updated = await this.prismaService.task.update({
-            where: { id: taskId },
-            data: updateData,
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true
-                    }
-                },
-                project: {
-                    select: {
-                        id: true,
-                        name: true,
-                        description: true,
-                        team: {
-                            select: {
-                                id: true,
-                                name: true
-                            }
-                        }
+        // Only applied if nobody changed the task while this update was prepared
+        const updated = await this.prismaService.task
+            .update({
+                where: { id: taskId, ...versionFilter(version) },
+                data: updateData,
+                include: taskInclude
+            })
+            .catch(
+                rethrowVersionConflict(
+                    'The task was changed during the update',
+                    () => this.findAccessible(userId, taskId)
+                )
+            );
+
+        await this.taskHistoryService.recordUpdated(
+            userId,
+            existingTask,
+            updated
+        );
+
+        if (updated.status !== existingTask.status) {
+            await this.cascadeStatusToSubtasks(
+                userId,
+                [taskId],
+                updated.status as TaskStatus
+            );
+            if (updated.status === TaskStatus.DONE) {
+                await this.taskRecurrenceService.createNextOccurrence(updated);
+            }
+        }
+
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([
+                existingTask,
+                updated
+            ]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+        return this.taskDependencyService.withBlockedState(updated);
+    }
+
+    /**
+     * Move a task to the trash; it is purged for good after the retention period
+     * With an expected version (from If-Match), the task is only deleted if it did not change since
+     */
+    async remove(
+        userId: string,
+        taskId: string,
+        expectedVersion?: number
+    ): Promise<Task> {
+        const task = await this.findAccessible(userId, taskId);
+        await this.taskAccessService.assertCanDelete(userId, task);
+        const version = assertVersion(
+            task,
+            expectedVersion,
+            'The task was changed since you loaded it'
+        );
+
+        // Subtasks share their parent's deletion time, so restoring the parent brings them back
+        const deletedAt = new Date();
+        const deletedTask = await this.prismaService.task
+            .update({
+                where: { id: taskId, ...versionFilter(version) },
+                data: { deletedAt, version: version + 1 },
+                include: {
+                    user: { select: { id: true, name: true, email: true } },
+                    project: {
+                        select: { id: true, name: true, description: true }
                     }
                 }
+            })
+            .catch(
+                rethrowVersionConflict(
+                    'The task was changed during the deletion',
+                    () => this.findAccessible(userId, taskId)
+                )
+            );
+
+        const subtasks = await this.prismaService.task.findMany({
+            where: { parentTaskId: taskId, ...NOT_TRASHED },
+            include: { project: { select: { teamId: true } } }
+        });
+        await this.prismaService.task.updateMany({
+            where: { id: { in: subtasks.map((subtask) => subtask.id) } },
+            data: { deletedAt, version: { increment: 1 } }
+        });
+
+        for (const deleted of [task, ...subtasks]) {
+            await this.taskHistoryService.recordDeleted(userId, deleted);
+        }
+
+        // Emit the taskDeleted event to notify connected clients
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([task, ...subtasks]),
+            'taskDeleted',
+            deletedTask
+        );
+        await this.webhookDeliveryService.publishTasks('task.deleted', [
+            deletedTask,
+            ...subtasks.map((subtask) => ({ ...subtask, deletedAt }))
+        ]);
+        return deletedTask;
+    }
+
+    /**
+     * Assign users to a task
+     * Assignees must be members of the team owning the task's project
+     */
+    async assign(
+        userId: string,
+        taskId: string,
+        assigneeIds: string[]
+    ): Promise<Task> {
+        const task = await this.findAccessible(userId, taskId);
+        const teamId = await this.taskAccessService.getTeamId(task);
+
+        for (const assigneeId of assigneeIds) {
+            if (teamId) {
+                await this.teamAccessService.assertMember(assigneeId, teamId);
+            } else if (assigneeId !== task.userId) {
+                throw new BadRequestException(
+                    'Only tasks in team projects can be assigned to other users'
+                );
             }
+        }
+
+        const newAssigneeIds = assigneeIds.filter(
+            (id) => !task.assigneeIds.includes(id)
+        );
+        if (newAssigneeIds.length === 0) {
+            return task;
+        }
+
+        const updated = await this.prismaService.task.update({
+            where: { id: taskId },
+            data: {
+                assignees: {
+                    connect: newAssigneeIds.map((id) => ({ id }))
+                },
+                version: { increment: 1 }
+            },
+            include: taskInclude
+        });
+        await this.taskHistoryService.recordUpdated(userId, task, updated);
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([task, updated]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+        await this.notificationService.notify(newAssigneeIds, {
+            type: NotificationType.TASK_ASSIGNED,
+            message: `assigned you to "${task.title}"`,
+            actorId: userId,
+            taskId
         });
-        this.tasksGateway.server.emit('taskUpdated', updated);
         return updated;
     }
 
-    async remove(userId: string, taskId: string): Promise<Task> {
-        await this.findOne(userId, taskId);
+    /**
+     * Remove an assignee from a task
+     */
+    async unassign(
+        userId: string,
+        taskId: string,
+        assigneeId: string
+    ): Promise<Task> {
+        const task = await this.findAccessible(userId, taskId);
+
+        if (!task.assigneeIds.includes(assigneeId)) {
+            throw new NotFoundException('User is not assigned to this task');
+        }
 
-        const deletedTask = await this.prismaService.task.delete({
+        const updated = await this.prismaService.task.update({
             where: { id: taskId },
-            include: {
-                user: { select: { id: true, name: true, email: true } },
-                project: { select: { id: true, name: true, description: true } }
-            }
+            data: {
+                assignees: {
+                    disconnect: { id: assigneeId }
+                },
+                version: { increment: 1 }
+            },
+            include: taskInclude
         });
-
-        // Emit the taskDeleted event to notify connected clients
-        this.tasksGateway.server.emit('taskDeleted', deletedTask);
-        return deletedTask;
+        await this.taskHistoryService.recordUpdated(userId, task, updated);
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([task, updated]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+        return updated;
     }
 
     async getTaskStats(userId: string): Promise<{
@@ -382,42 +801,73 @@ export class TaskService {
         done: number;
         cancelled: number;
         overdue: number;
+        labels: { id: string; name: string; color: string; count: number }[];
     }> {
         const now = new Date();
+        // All-day tasks are overdue once their day is over for the user
+        const today = startOfLocalDay(
+            getLocalDay(now, await this.getUserTimeZone(userId)),
+            'UTC'
+        );
+
+        const own = { userId, ...NOT_TRASHED };
 
-        const [total, todo, inProgress, done, cancelled, overdue] =
+        const [total, todo, inProgress, done, cancelled, overdue, labelled] =
             await Promise.all([
-                this.prismaService.task.count({ where: { userId } }),
+                this.prismaService.task.count({ where: own }),
                 this.prismaService.task.count({
-                    where: { userId, status: TaskStatus.TODO }
+                    where: { ...own, status: TaskStatus.TODO }
                 }),
                 this.prismaService.task.count({
-                    where: { userId, status: TaskStatus.IN_PROGRESS }
+                    where: { ...own, status: TaskStatus.IN_PROGRESS }
                 }),
                 this.prismaService.task.count({
-                    where: { userId, status: TaskStatus.DONE }
+                    where: { ...own, status: TaskStatus.DONE }
                 }),
                 this.prismaService.task.count({
-                    where: { userId, status: TaskStatus.CANCELLED }
+                    where: { ...own, status: TaskStatus.CANCELLED }
                 }),
                 this.prismaService.task.count({
                     where: {
-                        userId,
+                        ...own,
                         status: {
                             in: [TaskStatus.TODO, TaskStatus.IN_PROGRESS]
                         },
-                        dueDate: { lt: now }
+                        OR: [
+                            { allDay: true, dueDate: { lt: today } },
+                            { AND: [NOT_ALL_DAY, { dueDate: { lt: now } }] }
+                        ]
                     }
+                }),
+                this.prismaService.task.findMany({
+                    where: { ...own, labelIds: { isEmpty: false } },
+                    select: { labelIds: true }
                 })
             ]);
 
+        const labelCounts = new Map<string, number>();
+        for (const id of labelled.flatMap((task) => task.labelIds)) {
+            labelCounts.set(id, (labelCounts.get(id) ?? 0) + 1);
+        }
+        const labels = await this.prismaService.label.findMany({
+            where: { id: { in: [...labelCounts.keys()] } },
+            select: { id: true, name: true, color: true }
+        });
+
         return {
             total,
             todo,
             inProgress,
             done,
             cancelled,
-            overdue
+            overdue,
+            // Most used first
+            labels: labels
+                .map((label) => ({
+                    ...label,
+                    count: labelCounts.get(label.id)
+                }))
+                .sort((a, b) => b.count - a.count)
         };
     }
 
@@ -425,7 +875,7 @@ export class TaskService {
         userId: string,
         taskIds: string[],
         status: TaskStatus
-     ): Promise<{ count: number }> {
+    ): Promise<{ count: number }> {
         // Validate input parameters
         if (!taskIds || !Array.isArray(taskIds) || taskIds.length === 0) {
             throw new ForbiddenException('taskIds must be a non-empty array');
@@ -435,46 +885,422 @@ export class TaskService {
             throw new ForbiddenException('status is required');
         }
 
-        // Verify all tasks belong to the user
+        // Verify all tasks are accessible to the user (creator, assignee or team member)
         const tasks = await this.prismaService.task.findMany({
             where: {
                 id: { in: taskIds },
-                userId
+                ...NOT_TRASHED
             },
-            select: { id: true }
+            include: {
+                project: { select: { teamId: true } }
+            }
         });
 
-        if (tasks.length !== taskIds.length) {
-            // One or more task IDs do not belong to the user
-            throw new ForbiddenException('One or more tasks do not belong to the user');
+        const accessible = await Promise.all(
+            tasks.map((task) => this.taskAccessService.canAccess(userId, task))
+        );
+
+        if (tasks.length !== taskIds.length || accessible.includes(false)) {
+            // One or more task IDs are not accessible to the user
+            throw new ForbiddenException(
+                'One or more tasks do not belong to the user'
+            );
         }
 
+        await this.taskWorkflowService.assertCanMoveAll(tasks, status);
+        if (status === TaskStatus.IN_PROGRESS) {
+            await this.taskDependencyService.assertCanStart(
+                tasks.filter((task) => task.status !== TaskStatus.IN_PROGRESS)
+            );
+        }
+
+        // Tasks changing category land in the first state of the new one
+        await this.prismaService.task.updateMany({
+            where: { id: { in: taskIds }, status: { not: status } },
+            data: { workflowState: null }
+        });
+
         const updateData = {
-            status
+            status,
+            version: { increment: 1 },
+            ...(status === TaskStatus.DONE && { checklist: completeChecklist })
         };
 
         const result = await this.prismaService.task.updateMany({
             where: {
-                id: { in: taskIds },
-                userId
+                id: { in: taskIds }
             },
             data: updateData
         });
-         this.tasksGateway.server.emit('bulkUpdateStatus', {
-        count: result.count, 
-        taskIds: taskIds,
-        status: status
-     });
+        await this.taskHistoryService.recordStatusChanges(
+            userId,
+            tasks,
+            status
+        );
+        await this.cascadeStatusToSubtasks(userId, taskIds, status);
+        if (status === TaskStatus.DONE) {
+            for (const task of tasks) {
+                await this.taskRecurrenceService.createNextOccurrence(task);
+            }
+        }
+
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms(tasks),
+            'bulkUpdateStatus',
+            {
+                count: result.count,
+                taskIds: taskIds,
+                status: status
+            }
+        );
+        await this.publishUpdatedTasks(taskIds);
 
         return { count: result.count };
     }
 
-    parseUserText(input: string) {
+    /**
+     * List the subtasks of a task
+     */
+    async findSubtasks(
+        userId: string,
+        taskId: string
+    ): Promise<WithBlockedState<Task>[]> {
+        await this.findAccessible(userId, taskId);
+
+        const subtasks = await this.prismaService.task.findMany({
+            where: { parentTaskId: taskId, ...NOT_TRASHED },
+            orderBy: { createdAt: 'asc' },
+            include: taskInclude
+        });
+
+        return this.taskDependencyService.attachBlockedState(subtasks);
+    }
+
+    /**
+     * Create a subtask under a task; the subtask always lives in the parent's project
+     */
+    async createSubtask(
+        userId: string,
+        taskId: string,
+        createTaskDto: CreateTaskDto
+    ): Promise<WithBlockedState<Task>> {
+        const parent = await this.findAccessible(userId, taskId);
+
+        if (parent.parentTaskId) {
+            throw new BadRequestException(
+                'Subtasks cannot have their own subtasks'
+            );
+        }
+
+        return this.create(
+            userId,
+            { ...createTaskDto, projectId: parent.projectId ?? undefined },
+            { parentTaskId: parent.id }
+        );
+    }
+
+    async addChecklistItem(
+        userId: string,
+        taskId: string,
+        createItemDto: CreateChecklistItemDto
+    ): Promise<TaskWithProgress> {
+        await this.findAccessible(userId, taskId);
+
+        const updated = await this.prismaService.task.update({
+            where: { id: taskId },
+            data: {
+                checklist: {
+                    push: {
+                        // Composite items have no generated id, so build an ObjectId-compatible one
+                        id: randomBytes(12).toString('hex'),
+                        title: createItemDto.title,
+                        done: false,
+                        createdAt: new Date()
+                    }
+                },
+                version: { increment: 1 }
+            },
+            include: taskInclude
+        });
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([updated]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+
+        return { ...updated, progress: await this.getProgress(updated) };
+    }
+
+    async updateChecklistItem(
+        userId: string,
+        taskId: string,
+        itemId: string,
+        updateItemDto: UpdateChecklistItemDto
+    ): Promise<TaskWithProgress> {
+        const task = await this.findAccessible(userId, taskId);
+
+        if (!task.checklist.some((item) => item.id === itemId)) {
+            throw new NotFoundException('Checklist item not found');
+        }
+
+        const updated = await this.prismaService.task.update({
+            where: { id: taskId },
+            data: {
+                checklist: {
+                    updateMany: {
+                        where: { id: itemId },
+                        data: {
+                            ...(updateItemDto.title !== undefined && {
+                                title: updateItemDto.title
+                            }),
+                            ...(updateItemDto.done !== undefined && {
+                                done: updateItemDto.done
+                            })
+                        }
+                    }
+                },
+                version: { increment: 1 }
+            },
+            include: taskInclude
+        });
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([updated]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+
+        return { ...updated, progress: await this.getProgress(updated) };
+    }
+
+    async removeChecklistItem(
+        userId: string,
+        taskId: string,
+        itemId: string
+    ): Promise<TaskWithProgress> {
+        const task = await this.findAccessible(userId, taskId);
+
+        if (!task.checklist.some((item) => item.id === itemId)) {
+            throw new NotFoundException('Checklist item not found');
+        }
+
+        const updated = await this.prismaService.task.update({
+            where: { id: taskId },
+            data: {
+                checklist: {
+                    deleteMany: { where: { id: itemId } }
+                },
+                version: { increment: 1 }
+            },
+            include: taskInclude
+        });
+        this.tasksGateway.emitToRooms(
+            await this.taskAccessService.getAudienceRooms([updated]),
+            'taskUpdated',
+            updated
+        );
+        await this.webhookDeliveryService.publishTasks('task.updated', [
+            updated
+        ]);
+
+        return { ...updated, progress: await this.getProgress(updated) };
+    }
+
+    /**
+     * Match a parsed status against a project's workflow, so "move to review" lands in the review column
+     */
+    async matchWorkflowState(
+        userId: string,
+        projectId: string,
+        text: string,
+        status: TaskStatus
+    ): Promise<WorkflowState> {
+        const teamId =
+            await this.teamAccessService.getTeamIdFromProject(projectId);
+        await this.teamAccessService.assertMember(userId, teamId);
+
+        const workflow = await this.taskWorkflowService.getWorkflow(projectId);
+        return this.taskWorkflowService.matchState(workflow, text, status);
+    }
+
+    private async getDefaultReminderOffsets(userId: string): Promise<number[]> {
+        const user = await this.prismaService.user.findUnique({
+            where: { id: userId },
+            select: { defaultReminderOffsets: true }
+        });
+        return user?.defaultReminderOffsets ?? [];
+    }
+
+    /**
+     * Keep the labels that can tag a task: team labels for tasks in a team project,
+     * the creator's personal labels otherwise
+     * @param strict - Reject unknown or out-of-catalog labels instead of dropping them
+     * @throws BadRequestException in strict mode when a label cannot be used
+     */
+    private async resolveLabelIds(
+        labelIds: string[],
+        teamId: string | null,
+        ownerId: string,
+        strict: boolean
+    ): Promise<string[]> {
+        const wanted = [...new Set(labelIds)];
+        if (wanted.length === 0) {
+            return [];
+        }
+
+        const labels = await this.prismaService.label.findMany({
+            where: {
+                id: { in: wanted },
+                ...(teamId ? { teamId } : { ownerId })
+            },
+            select: { id: true }
+        });
+
+        if (strict && labels.length !== wanted.length) {
+            throw new BadRequestException(
+                teamId
+                    ? "Labels must come from the task's team catalog"
+                    : "Labels must come from the task creator's personal catalog"
+            );
+        }
+
+        return labels.map((label) => label.id);
+    }
+
+    /**
+     * Roll up subtask and checklist completion into a single progress value
+     * Cancelled subtasks are left out of the total
+     */
+    private async getProgress(task: Task): Promise<TaskProgress> {
+        const [subtaskTotal, subtaskDone] = await Promise.all([
+            this.prismaService.task.count({
+                where: {
+                    parentTaskId: task.id,
+                    status: { not: TaskStatus.CANCELLED },
+                    ...NOT_TRASHED
+                }
+            }),
+            this.prismaService.task.count({
+                where: {
+                    parentTaskId: task.id,
+                    status: TaskStatus.DONE,
+                    ...NOT_TRASHED
+                }
+            })
+        ]);
+
+        const checklistTotal = task.checklist?.length ?? 0;
+        const checklistDone =
+            task.checklist?.filter((item) => item.done).length ?? 0;
+
+        const total = subtaskTotal + checklistTotal;
+        const done = subtaskDone + checklistDone;
+
+        return {
+            subtasks: { total: subtaskTotal, done: subtaskDone },
+            checklist: { total: checklistTotal, done: checklistDone },
+            percent: total > 0 ? Math.round((done / total) * 100) : 0
+        };
+    }
+
+    /**
+     * When a parent is closed, close its open subtasks with the same status
+     */
+    private async cascadeStatusToSubtasks(
+        userId: string,
+        taskIds: string[],
+        status: TaskStatus
+    ): Promise<void> {
+        if (status !== TaskStatus.DONE && status !== TaskStatus.CANCELLED) {
+            return;
+        }
+
+        const openSubtasks = await this.prismaService.task.findMany({
+            where: {
+                parentTaskId: { in: taskIds },
+                status: { in: [TaskStatus.TODO, TaskStatus.IN_PROGRESS] },
+                ...NOT_TRASHED
+            },
+            include: { project: { select: { teamId: true } } }
+        });
+
+        if (openSubtasks.length > 0) {
+            const subtaskIds = openSubtasks.map((subtask) => subtask.id);
+            const result = await this.prismaService.task.updateMany({
+                where: { id: { in: subtaskIds } },
+                data: {
+                    status,
+                    workflowState: null,
+                    version: { increment: 1 },
+                    ...(status === TaskStatus.DONE && {
+                        checklist: completeChecklist
+                    })
+                }
+            });
+            await this.taskHistoryService.recordStatusChanges(
+                userId,
+                openSubtasks,
+                status
+            );
+            this.tasksGateway.emitToRooms(
+                await this.taskAccessService.getAudienceRooms(openSubtasks),
+                'bulkUpdateStatus',
+                {
+                    count: result.count,
+                    taskIds: subtaskIds,
+                    status
+                }
+            );
+            await this.publishUpdatedTasks(subtaskIds);
+        }
+    }
+
+    /**
+     * Announce tasks changed in bulk to webhooks, as they are after the change
+     */
+    private async publishUpdatedTasks(taskIds: string[]): Promise<void> {
+        const tasks = await this.prismaService.task.findMany({
+            where: { id: { in: taskIds } }
+        });
+        await this.webhookDeliveryService.publishTasks('task.updated', tasks);
+    }
+
+    /**
+     * Get the timezone a user's days are counted in
+     */
+    async getUserTimeZone(userId: string): Promise<string> {
+        const user = await this.prismaService.user.findUnique({
+            where: { id: userId },
+            select: { timezone: true }
+        });
+        return user?.timezone ?? DEFAULT_TIMEZONE;
+    }
+
+    /**
+     * Find a due date and a recurrence in free text, in English, French, Spanish, Portuguese or German.
+     * Dates without a time ("tomorrow") are all-day; times are read in the user's timezone
+     */
+    parseUserText(
+        input: string,
+        timeZone = DEFAULT_TIMEZONE,
+        now = new Date()
+    ) {
         // Multilingue : on essaie plusieurs parseurs locaux de chrono-node
         // chrono-node fournit des parseurs par langue : chrono.fr, chrono.es, chrono.pt, chrono.de, etc.
         // Stratégie : heuristique rapide pour détecter la langue, sinon tenter FR/ES/PT/DE/EN dans cet ordre.
         const text = (input || '').trim();
-        if (!text) return { dueDate: null, parsedText: null };
+        if (!text)
+            return {
+                dueDate: null,
+                allDay: false,
+                parsedText: null,
+                recurrence: null
+            };
 
         // Heuristique simple basé sur mots-clés pour favoriser certains parseurs
         const lower = text.toLowerCase();
@@ -579,7 +1405,7 @@ export class TaskService {
                 const p = parsers[lang];
                 if (!preferredOrder.includes(p)) preferredOrder.push(p);
             }
-        } catch (e) {
+        } catch {
             // Fallback order in case of any issue
             preferredOrder = [
                 (chrono as any).fr,
@@ -590,18 +1416,33 @@ export class TaskService {
             ];
         }
 
+        const reference = {
+            instant: now,
+            timezone: getTimeZoneOffset(now, timeZone)
+        };
         let dueDate: Date | null = null;
+        let allDay = false;
         let matchedText: string | null = null;
         for (const parser of preferredOrder) {
             try {
                 if (!parser || typeof parser.parse !== 'function') continue;
-                const results = parser.parse(text);
+                const results = parser.parse(text, reference);
                 if (results && results.length > 0 && results[0].start) {
-                    dueDate = results[0].start.date();
+                    const start = results[0].start;
+                    allDay = !start.isCertain('hour');
+                    dueDate = allDay
+                        ? new Date(
+                              Date.UTC(
+                                  start.get('year'),
+                                  start.get('month') - 1,
+                                  start.get('day')
+                              )
+                          )
+                        : start.date();
                     matchedText = results[0].text;
                     break;
                 }
-            } catch (err) {
+            } catch {
                 // ignore and try next parser
                 continue;
             }
@@ -609,7 +1450,10 @@ export class TaskService {
 
         return {
             dueDate,
-            parsedText: matchedText
+            allDay,
+            parsedText: matchedText,
+            // "every Monday", "chaque lundi", "tous les mois"...
+            recurrence: detectRecurrence(text)
         };
     }
 }
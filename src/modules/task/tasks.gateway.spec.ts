@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { TasksGateway } from './tasks.gateway';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { PresenceService } from '../../websocket/presence.service';
+
+describe('TasksGateway', () => {
+    let gateway: TasksGateway;
+    let presenceService: PresenceService;
+
+    const mockJwtService = {
+        verifyAsync: jest.fn()
+    };
+
+    const mockConfigService = {
+        get: jest.fn((key: string, defaultValue?: unknown) => defaultValue)
+    };
+
+    const mockTokenBlacklistService = {
+        isTokenBlacklisted: jest.fn()
+    };
+
+    const mockPrismaService = {
+        teamMember: {
+            findMany: jest.fn()
+        }
+    };
+
+    const mockServer = {
+        emit: jest.fn(),
+        to: jest.fn()
+    };
+
+    const makeClient = (handshake: Record<string, unknown>) =>
+        ({
+            id: 'socket1',
+            connected: true,
+            data: {},
+            handshake: { auth: {}, headers: {}, ...handshake },
+            join: jest.fn(),
+            emit: jest.fn(),
+            disconnect: jest.fn()
+        }) as any;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TasksGateway,
+                PresenceService,
+                {
+                    provide: JwtService,
+                    useValue: mockJwtService
+                },
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService
+                },
+                {
+                    provide: TokenBlacklistService,
+                    useValue: mockTokenBlacklistService
+                },
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                }
+            ]
+        }).compile();
+
+        gateway = module.get<TasksGateway>(TasksGateway);
+        presenceService = module.get<PresenceService>(PresenceService);
+        gateway.server = mockServer as any;
+        mockServer.to.mockReturnValue(mockServer);
+        mockTokenBlacklistService.isTokenBlacklisted.mockResolvedValue(false);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('handleConnection', () => {
+        it('should disconnect a socket without a token', async () => {
+            const client = makeClient({});
+
+            await gateway.handleConnection(client);
+
+            expect(client.join).not.toHaveBeenCalled();
+            expect(client.emit).toHaveBeenCalledWith(
+                'unauthorized',
+                expect.any(Object)
+            );
+            expect(client.disconnect).toHaveBeenCalledWith(true);
+        });
+
+        it('should disconnect a socket with a logged out token', async () => {
+            mockTokenBlacklistService.isTokenBlacklisted.mockResolvedValue(
+                true
+            );
+            const client = makeClient({ auth: { token: 'revoked' } });
+
+            await gateway.handleConnection(client);
+
+            expect(mockJwtService.verifyAsync).not.toHaveBeenCalled();
+            expect(client.disconnect).toHaveBeenCalledWith(true);
+        });
+
+        it("should join the user's room and their team rooms", async () => {
+            mockJwtService.verifyAsync.mockResolvedValue({ sub: 'user1' });
+            mockPrismaService.teamMember.findMany.mockResolvedValue([
+                { teamId: 'team1' },
+                { teamId: 'team2' }
+            ]);
+            const client = makeClient({
+                headers: { authorization: 'Bearer valid' }
+            });
+
+            await gateway.handleConnection(client);
+
+            expect(mockJwtService.verifyAsync).toHaveBeenCalledWith('valid', {
+                secret: 'secret'
+            });
+            expect(client.join).toHaveBeenCalledWith([
+                'user:user1',
+                'team:team1',
+                'team:team2'
+            ]);
+            expect(client.disconnect).not.toHaveBeenCalled();
+            expect(mockServer.to).toHaveBeenCalledWith([
+                'team:team1',
+                'team:team2'
+            ]);
+            expect(mockServer.emit).toHaveBeenCalledWith('userOnline', {
+                userId: 'user1'
+            });
+        });
+
+        it('should not register a socket that closed while connecting', async () => {
+            const client = makeClient({
+                headers: { authorization: 'Bearer valid' }
+            });
+            mockJwtService.verifyAsync.mockResolvedValue({ sub: 'user1' });
+            mockPrismaService.teamMember.findMany.mockImplementation(
+                async () => {
+                    client.connected = false;
+                    return [{ teamId: 'team1' }];
+                }
+            );
+
+            await gateway.handleConnection(client);
+
+            expect(client.join).not.toHaveBeenCalled();
+            expect(presenceService.disconnect('socket1')).toBeNull();
+            expect(mockServer.emit).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('handleDisconnect', () => {
+        it("should tell the user's teams when their last socket closes", async () => {
+            presenceService.connect('socket1', { id: 'user1', name: 'Ann' });
+            mockPrismaService.teamMember.findMany.mockResolvedValue([
+                { teamId: 'team1' }
+            ]);
+
+            await gateway.handleDisconnect(makeClient({}));
+
+            expect(presenceService.isOnline('user1')).toBe(false);
+            expect(mockServer.to).toHaveBeenCalledWith(['team:team1']);
+            expect(mockServer.emit).toHaveBeenCalledWith('userOffline', {
+                userId: 'user1'
+            });
+        });
+    });
+});
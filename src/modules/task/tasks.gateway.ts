@@ -1,80 +1,169 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
 import {
     WebSocketGateway,
     WebSocketServer,
-    SubscribeMessage,
-    MessageBody
+    OnGatewayConnection,
+    OnGatewayDisconnect
 } from '@nestjs/websockets';
-import { Task, TaskStatus } from '@prisma/client';
+import { Namespace, Socket } from 'socket.io';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { verifyAccessToken } from '../../core/utils/auth';
+import {
+    projectChannel,
+    taskChannel
+} from '../../core/constants/presence.constants';
+import { EditLock, PresenceService } from '../../websocket/presence.service';
+
+// Every socket of a user joins their room, and the room of each team they belong to
+export const userRoom = (userId: string): string => `user:${userId}`;
 
-import { Server, Socket } from 'socket.io';
+export const teamRoom = (teamId: string): string => `team:${teamId}`;
 
+/**
+ * Pushes server events to the users concerned; the only messages clients send are the presence ones of TaskPresenceGateway.
+ * Connecting requires an access token, given as `auth.token` or as a Bearer Authorization header
+ */
 @WebSocketGateway({
     transports: ['websocket'],
-    cors: { origin: '*' },
     namespace: '/tasks'
 })
-export class TasksGateway {
-    @WebSocketServer() server: Server;
-    private connectedUsers: Map<string, Set<string>> = new Map(); // Multiple connections per user
-
-    // Gérer la connexion des utilisateurs
-    handleConnection(client: Socket) {
-        const userId = client.handshake.query.userId as string;
-        if (userId) {
-            if (!this.connectedUsers.has(userId)) {
-                this.connectedUsers.set(userId, new Set());
+export class TasksGateway implements OnGatewayConnection, OnGatewayDisconnect {
+    @WebSocketServer() server: Namespace;
+    private readonly logger = new Logger(TasksGateway.name);
+
+    constructor(
+        private readonly jwtService: JwtService,
+        private readonly configService: ConfigService,
+        private readonly tokenBlacklistService: TokenBlacklistService,
+        private readonly prismaService: PrismaService,
+        private readonly presenceService: PresenceService
+    ) {}
+
+    async handleConnection(client: Socket): Promise<void> {
+        try {
+            const token = this.extractToken(client);
+            if (!token) {
+                throw new UnauthorizedException();
             }
-            this.connectedUsers.get(userId).add(client.id);
-            client.join(userId);
-            console.log(
-                `Client connecté: ${client.id} pour l'utilisateur ${userId}`
+
+            const { sub: userId, name } = await verifyAccessToken(
+                this.jwtService,
+                this.configService,
+                this.tokenBlacklistService,
+                token
+            );
+            const memberships = await this.prismaService.teamMember.findMany({
+                where: { userId },
+                select: { teamId: true }
+            });
+
+            const teamRooms = memberships.map((membership) =>
+                teamRoom(membership.teamId)
             );
+
+            // The socket may have closed during the lookups, before handleDisconnect had anything to clean up
+            if (!client.connected) {
+                return;
+            }
+
+            client.data.userId = userId;
+            client.join([userRoom(userId), ...teamRooms]);
+
+            if (this.presenceService.connect(client.id, { id: userId, name })) {
+                this.emitToRooms(teamRooms, 'userOnline', { userId });
+            }
+        } catch {
+            this.logger.warn(`Rejected unauthenticated socket ${client.id}`);
+            client.emit('unauthorized', {
+                message: 'Invalid or missing token'
+            });
+            client.disconnect(true);
         }
     }
 
-    // Gérer la déconnexion des utilisateurs
-    handleDisconnect(client: Socket) {
-        const userId = client.handshake.query.userId as string;
-        if (userId) {
-            this.connectedUsers.get(userId)?.delete(client.id);
-            client.leave(userId);
-            console.log(
-                `Client déconnecté: ${client.id} pour l'utilisateur ${userId}`
+    /**
+     * Take the socket out of the presence channels it had open, and tell teammates when its user went offline
+     */
+    async handleDisconnect(client: Socket): Promise<void> {
+        const disconnected = this.presenceService.disconnect(client.id);
+        if (!disconnected) {
+            return;
+        }
+
+        disconnected.channels.forEach((channel) => this.emitPresence(channel));
+        disconnected.releasedLocks.forEach((lock) =>
+            this.emitLock(lock.taskId, lock.projectId, null)
+        );
+
+        if (disconnected.wentOffline) {
+            const userId = disconnected.user.id;
+            const memberships = await this.prismaService.teamMember.findMany({
+                where: { userId },
+                select: { teamId: true }
+            });
+            this.emitToRooms(
+                memberships.map((membership) => teamRoom(membership.teamId)),
+                'userOffline',
+                { userId }
             );
         }
     }
-   @SubscribeMessage('taskAdded')
-    handleTaskAdd(@MessageBody() task: any) {
-        console.log('Task added:', task); // Log for verification
-        this.server.emit('taskAdded', task); // Broadcast task update to all connected clients
+
+    // Émettre un événement uniquement aux utilisateurs concernés (chaque utilisateur a sa room)
+    emitToUsers(userIds: string[], event: string, payload: any) {
+        this.emitToRooms(userIds.map(userRoom), event, payload);
     }
-   @SubscribeMessage('taskDeleted')
-  handleTaskDeleted(@MessageBody() taskId: string) {
-    console.log('Received task deletion request for taskId:', taskId);
-    this.server.emit('taskDeleted', taskId); // You can also send the full task data if needed
-  }
-    // Événement pour la mise à jour de la tâche (à un utilisateur spécifique)
-    @SubscribeMessage('taskUpdated')
-    handleTaskUpdate(@MessageBody() taskData: any) {
-        console.log('Task updated:', taskData); // Log for verification
-        this.server.emit('taskUpdated', taskData); // Broadcast task update to all connected clients
+
+    // A socket in several of the rooms receives the event once
+    emitToRooms(rooms: string[], event: string, payload: any) {
+        if (rooms.length === 0) return;
+        this.server.to(rooms).emit(event, payload);
     }
-     @SubscribeMessage('bulkUpdateStatus')
-handleBulkUpdateStatus(@MessageBody() payload: { count: number, taskIds: string[], status: TaskStatus }) {
-  console.log('Received bulk update status:', payload);
-
-  // Now we emit this to all connected clients so that they can reflect the updated tasks
-  this.server.emit('bulkUpdateStatus', {
-    count: payload.count,
-    taskIds: payload.taskIds,  // Emit the taskIds
-    status: payload.status,    // Emit the updated status
-  });
-}
 
+    /**
+     * Send the members of a presence channel to the sockets in it
+     */
+    emitPresence(channel: string): void {
+        this.emitToRooms([channel], 'presence', {
+            channel,
+            members: this.presenceService.getChannelMembers(channel)
+        });
+    }
 
-    // Événement de test pour émettre un message personnalisé
-    @SubscribeMessage('sendMessage')
-    handleSendMessage(@MessageBody() message: string) {
-        this.server.emit('messageReceived', message); // Émettre à tous les clients connectés
+    /**
+     * Tell the sockets viewing a task or its project that its edit lock was taken, renewed or released
+     */
+    emitLock(taskId: string, projectId: string | null, lock: EditLock | null) {
+        this.emitToRooms(
+            [
+                taskChannel(taskId),
+                ...(projectId ? [projectChannel(projectId)] : [])
+            ],
+            'lockChanged',
+            { taskId, lock }
+        );
+    }
+
+    /**
+     * Keep the team rooms of a user's open sockets in line with their memberships
+     */
+    joinTeamRoom(userId: string, teamId: string): void {
+        this.server.in(userRoom(userId)).socketsJoin(teamRoom(teamId));
+    }
+
+    leaveTeamRoom(userId: string, teamId: string): void {
+        this.server.in(userRoom(userId)).socketsLeave(teamRoom(teamId));
+    }
+
+    private extractToken(client: Socket): string | undefined {
+        if (typeof client.handshake.auth?.token === 'string') {
+            return client.handshake.auth.token;
+        }
+        const [type, token] =
+            client.handshake.headers.authorization?.split(' ') ?? [];
+        return type === 'Bearer' ? token : undefined;
     }
 }
@@ -6,9 +6,12 @@ import {
     IsEnum,
     IsEmail,
     MinLength,
-    MaxLength
+    MaxLength,
+    Matches
 } from 'class-validator';
 import { TeamRole } from '@prisma/client';
+import { DateRangeDto } from '../../../core/common/dto/date-range.dto';
+import { SORT_ORDER_LIST } from '../../../core/utils/task-sort';
 
 export class CreateTeamDto {
     @ApiProperty({
@@ -135,4 +138,28 @@ export class InviteResponseDto {
         description: 'Invitation token (only shown in development)' 
     })
     token?: string;
-}
\ No newline at end of file
+}
+export class TeamActivityQueryDto extends DateRangeDto {
+    @ApiProperty({
+        example: 'priority,dueDate',
+        description:
+            'Sort the recent tasks by field (createdAt, updatedAt, dueDate, priority), or by several comma-separated fields (default: updatedAt)',
+        required: false
+    })
+    @IsOptional()
+    @IsString()
+    sortBy?: string;
+
+    @ApiProperty({
+        example: 'desc,asc',
+        description:
+            'Sort order of the recent tasks (asc, desc), or one per sort field (default: desc)',
+        required: false
+    })
+    @IsOptional()
+    @Matches(SORT_ORDER_LIST, {
+        message:
+            'Sort order must be asc or desc, or a comma-separated list of them'
+    })
+    sortOrder?: string;
+}
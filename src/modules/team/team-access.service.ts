@@ -1,6 +1,7 @@
 import { Injectable, ForbiddenException, NotFoundException } from '@nestjs/common';
 import { TeamRole } from '@prisma/client';
 import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
 
 @Injectable()
 export class TeamAccessService {
@@ -56,12 +57,12 @@ export class TeamAccessService {
      * Get the team ID from a project ID
      * @param projectId - The project ID to get the team for
      * @returns The team ID or null if project has no team
-     * @throws NotFoundException if project doesn't exist
+     * @throws NotFoundException if project doesn't exist or is in the trash
      * @deprecated This method can return null which causes issues. Use direct project queries instead.
      */
     async getTeamIdFromProject(projectId: string): Promise<string | null> {
-        const project = await this.prismaService.project.findUnique({
-            where: { id: projectId },
+        const project = await this.prismaService.project.findFirst({
+            where: { id: projectId, ...NOT_TRASHED },
             select: { teamId: true }
         });
 
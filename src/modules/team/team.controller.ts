@@ -5,6 +5,7 @@ import {
     Put,
     Body,
     Param,
+    Query,
     UseGuards,
     Request,
     HttpCode,
@@ -22,12 +23,14 @@ import {
 } from '@nestjs/swagger';
 import { AuthGuard } from '../../core/common/guards/auth.guard';
 import { TeamService } from './team.service';
+import { CursorPaginationDto } from '../../core/common/dto/pagination.dto';
 import {
     CreateTeamDto,
     InviteDto,
     AcceptInviteDto,
     TeamResponseDto,
-    InviteResponseDto
+    InviteResponseDto,
+    TeamActivityQueryDto
 } from './dto/team.dto';
 
 @ApiTags('Teams')
@@ -215,11 +218,18 @@ export class TeamController {
             properties: {
                 recentTasks: {
                     type: 'array',
-                    description: 'Recently created or updated tasks by team members'
+                    description:
+                        'Tasks created or updated by team members over the last 30 days, most recently updated first unless sortBy/sortOrder are given'
+                },
+                recentEvents: {
+                    type: 'array',
+                    description:
+                        'Task changes (created, updated, status changed, moved, deleted) from the last 30 days'
                 },
                 memberStats: {
                     type: 'array',
-                    description: 'Task statistics per team member'
+                    description:
+                        'Task statistics per team member, with the minutes they logged on team projects over the period (from/to, last 30 days by default) and whether they are online'
                 },
                 projectStats: {
                     type: 'object',
@@ -232,9 +242,44 @@ export class TeamController {
     @ApiResponse({ status: 404, description: 'Team not found' })
     async getTeamActivity(
         @Request() req: any,
-        @Param('teamId') teamId: string
+        @Param('teamId') teamId: string,
+        @Query() activityQueryDto: TeamActivityQueryDto
+    ) {
+        return this.teamService.getTeamActivity(
+            req.user.sub,
+            teamId,
+            activityQueryDto
+        );
+    }
+
+    @Get(':teamId/events')
+    @ApiOperation({
+        summary: 'Get the task changes of the team projects',
+        description:
+            'Newest first. Page with page and limit, or with the cursor from meta.nextCursor'
+    })
+    @ApiParam({
+        name: 'teamId',
+        description: 'Team ID',
+        example: '507f1f77bcf86cd799439011'
+    })
+    @ApiResponse({
+        status: 200,
+        description:
+            'Task changes (created, updated, status changed, moved, deleted, restored) with their actor'
+    })
+    @ApiResponse({ status: 400, description: 'Invalid cursor' })
+    @ApiResponse({ status: 403, description: 'Not a team member' })
+    async getTeamEvents(
+        @Request() req: any,
+        @Param('teamId') teamId: string,
+        @Query() paginationDto: CursorPaginationDto
     ) {
-        return this.teamService.getTeamActivity(req.user.sub, teamId);
+        return this.teamService.getTeamEvents(
+            req.user.sub,
+            teamId,
+            paginationDto
+        );
     }
 
     @Get('invite/accept/:token')
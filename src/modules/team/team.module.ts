@@ -6,11 +6,17 @@ import { TokenBlacklistService } from '../../core/services/token-blacklist.servi
 import { TeamController } from './team.controller';
 import { TeamService } from './team.service';
 import { TeamAccessService } from './team-access.service';
+import { NotificationModule } from '../notification/notification.module';
+import { WebhookDeliveryModule } from '../webhook/webhook-delivery.module';
+import { WebsocketModule } from '../../websocket/websocket.module';
 
 @Module({
     imports: [
         ConfigModule,
-        JwtModule.register({}) // Empty register for AuthGuard dependency
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        NotificationModule,
+        WebhookDeliveryModule,
+        WebsocketModule
     ],
     controllers: [TeamController],
     providers: [
@@ -4,6 +4,10 @@ import { MailerService } from '@nestjs-modules/mailer';
 import { ConflictException } from '@nestjs/common';
 import { TeamService } from './team.service';
 import { TeamAccessService } from './team-access.service';
+import { NotificationService } from '../notification/notification.service';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+import { TasksGateway } from '../task/tasks.gateway';
+import { PresenceService } from '../../websocket/presence.service';
 import { PrismaService } from '../../core/services/prisma.service';
 import { TeamRole } from '@prisma/client';
 
@@ -19,9 +23,26 @@ describe('TeamService', () => {
             findFirst: jest.fn(),
             create: jest.fn(),
             findMany: jest.fn(),
+            findUnique: jest.fn()
+        },
+        taskActivity: {
+            findMany: jest.fn(),
+            count: jest.fn()
+        },
+        task: {
+            findMany: jest.fn(),
+            count: jest.fn()
+        },
+        timeEntry: {
+            groupBy: jest.fn()
+        },
+        user: {
+            findMany: jest.fn()
         },
         teamMember: {
             create: jest.fn(),
+            findFirst: jest.fn(),
+            update: jest.fn()
         },
         $transaction: jest.fn(),
     };
@@ -39,6 +60,23 @@ describe('TeamService', () => {
         sendMail: jest.fn(),
     };
 
+    const mockNotificationService = {
+        notify: jest.fn()
+    };
+
+    const mockWebhookDeliveryService = {
+        publish: jest.fn()
+    };
+
+    const mockTasksGateway = {
+        joinTeamRoom: jest.fn(),
+        leaveTeamRoom: jest.fn()
+    };
+
+    const mockPresenceService = {
+        getOnlineUserIds: jest.fn()
+    };
+
     beforeEach(async () => {
         const module: TestingModule = await Test.createTestingModule({
             providers: [
@@ -59,7 +97,23 @@ describe('TeamService', () => {
                     provide: MailerService,
                     useValue: mockMailerService,
                 },
-            ],
+                {
+                    provide: NotificationService,
+                    useValue: mockNotificationService
+                },
+                {
+                    provide: WebhookDeliveryService,
+                    useValue: mockWebhookDeliveryService
+                },
+                {
+                    provide: TasksGateway,
+                    useValue: mockTasksGateway
+                },
+                {
+                    provide: PresenceService,
+                    useValue: mockPresenceService
+                }
+            ]
         }).compile();
 
         service = module.get<TeamService>(TeamService);
@@ -111,6 +165,10 @@ describe('TeamService', () => {
             const result = await service.createTeam(userId, createTeamDto);
 
             expect(result).toEqual(mockTeam);
+            expect(mockTasksGateway.joinTeamRoom).toHaveBeenCalledWith(
+                userId,
+                'team123'
+            );
             expect(mockPrismaService.team.findFirst).toHaveBeenCalledWith({
                 where: {
                     name: createTeamDto.name,
@@ -255,6 +313,7 @@ describe('TeamService', () => {
                         orderBy: [{ role: 'asc' }, { joinedAt: 'asc' }],
                     },
                     projects: {
+                        where: { deletedAt: { isSet: false } },
                         select: {
                             id: true,
                             name: true,
@@ -280,4 +339,178 @@ describe('TeamService', () => {
             expect(result).toEqual([]);
         });
     });
-});
\ No newline at end of file
+
+    describe('updateMemberRole', () => {
+        it('should notify the member of their new role', async () => {
+            mockPrismaService.teamMember.findFirst
+                .mockResolvedValueOnce({
+                    userId: 'owner123',
+                    role: TeamRole.OWNER
+                })
+                .mockResolvedValueOnce({
+                    id: 'member1',
+                    userId: 'user456',
+                    role: TeamRole.MEMBER
+                });
+            mockPrismaService.teamMember.update.mockResolvedValue({
+                id: 'member1',
+                userId: 'user456',
+                role: 'ADMIN',
+                user: { name: 'Jane', email: 'jane@example.com' },
+                team: { name: 'Test Team' }
+            });
+
+            await service.updateMemberRole(
+                'owner123',
+                'team123',
+                'member1',
+                'ADMIN'
+            );
+
+            expect(mockNotificationService.notify).toHaveBeenCalledWith(
+                ['user456'],
+                {
+                    type: 'TEAM_ROLE_CHANGED',
+                    message: 'changed your role in Test Team to ADMIN',
+                    actorId: 'owner123',
+                    teamId: 'team123',
+                    data: { role: 'ADMIN' }
+                }
+            );
+        });
+    });
+
+    describe('getTeamActivity', () => {
+        it('should report which members are online', async () => {
+            mockPrismaService.team.findUnique.mockResolvedValue({
+                id: 'team123',
+                members: [
+                    {
+                        userId: 'user1',
+                        role: TeamRole.OWNER,
+                        user: { name: 'Ann', email: 'ann@example.com' }
+                    },
+                    {
+                        userId: 'user2',
+                        role: TeamRole.MEMBER,
+                        user: { name: 'Bob', email: 'bob@example.com' }
+                    }
+                ],
+                projects: []
+            });
+            mockPrismaService.taskActivity.findMany.mockResolvedValue([]);
+            mockPrismaService.user.findMany.mockResolvedValue([]);
+            mockPresenceService.getOnlineUserIds.mockReturnValue(['user2']);
+
+            const result = await service.getTeamActivity('user1', 'team123');
+
+            expect(result.memberStats.map((member) => member.online)).toEqual([
+                false,
+                true
+            ]);
+            expect(result.teamSummary.onlineMembers).toBe(1);
+        });
+
+        it('should sort the recent tasks by the requested fields', async () => {
+            mockPrismaService.team.findUnique.mockResolvedValue({
+                id: 'team123',
+                members: [],
+                projects: [
+                    { id: 'project1', name: 'Launch', _count: { tasks: 0 } }
+                ]
+            });
+            mockPrismaService.taskActivity.findMany.mockResolvedValue([]);
+            mockPrismaService.user.findMany.mockResolvedValue([]);
+            mockPrismaService.timeEntry.groupBy.mockResolvedValue([]);
+            mockPrismaService.task.findMany.mockResolvedValue([]);
+            mockPresenceService.getOnlineUserIds.mockReturnValue([]);
+
+            await service.getTeamActivity('user1', 'team123', {
+                sortBy: 'priority,dueDate',
+                sortOrder: 'desc,asc'
+            });
+
+            expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    orderBy: [
+                        { priorityRank: 'desc' },
+                        { dueDate: 'asc' },
+                        { id: 'asc' }
+                    ]
+                })
+            );
+        });
+    });
+
+    describe('getTeamEvents', () => {
+        it('should page the team events after a cursor, with their actors', async () => {
+            const createdAt = new Date('2025-06-02T09:00:00.000Z');
+            const events = [
+                {
+                    id: 'event3',
+                    teamId: 'team123',
+                    actorId: 'user1',
+                    action: 'UPDATED',
+                    createdAt
+                },
+                {
+                    id: 'event2',
+                    teamId: 'team123',
+                    actorId: null,
+                    action: 'CREATED',
+                    createdAt
+                }
+            ];
+            mockPrismaService.taskActivity.findMany
+                .mockResolvedValueOnce([events[0]])
+                .mockResolvedValueOnce(events);
+            mockPrismaService.taskActivity.count.mockResolvedValue(5);
+            mockPrismaService.user.findMany.mockResolvedValue([
+                { id: 'user1', name: 'Ann', email: 'ann@example.com' }
+            ]);
+
+            const first = await service.getTeamEvents('user1', 'team123', {
+                limit: 1
+            });
+            const second = await service.getTeamEvents('user1', 'team123', {
+                limit: 1,
+                cursor: first.meta.nextCursor
+            });
+
+            expect(mockTeamAccessService.assertMember).toHaveBeenCalledWith(
+                'user1',
+                'team123'
+            );
+            expect(first.data[0].actor).toEqual({
+                id: 'user1',
+                name: 'Ann',
+                email: 'ann@example.com'
+            });
+            expect(
+                mockPrismaService.taskActivity.findMany
+            ).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    where: {
+                        AND: [
+                            { teamId: 'team123' },
+                            {
+                                OR: [
+                                    { AND: [{ createdAt: { lt: createdAt } }] },
+                                    {
+                                        AND: [
+                                            { createdAt },
+                                            { id: { lt: 'event3' } }
+                                        ]
+                                    }
+                                ]
+                            }
+                        ]
+                    },
+                    take: 2
+                })
+            );
+            expect(second.meta.hasNextPage).toBe(true);
+            expect(second.data[1]).toBeUndefined();
+        });
+    });
+});
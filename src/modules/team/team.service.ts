@@ -1,12 +1,34 @@
 import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { MailerService } from '@nestjs-modules/mailer';
-import { Team, TeamMember, TeamInvite, User, TeamRole } from '@prisma/client';
+import {
+    Team,
+    TeamInvite,
+    TeamRole,
+    NotificationType,
+    TaskActivity
+} from '@prisma/client';
 import { randomBytes } from 'crypto';
 import { PrismaService } from '../../core/services/prisma.service';
-import { CreateTeamDto, InviteDto, AcceptInviteDto, TeamResponseDto, InviteResponseDto } from './dto/team.dto';
+import {
+    CreateTeamDto,
+    InviteDto,
+    AcceptInviteDto,
+    TeamResponseDto,
+    InviteResponseDto,
+    TeamActivityQueryDto
+} from './dto/team.dto';
 import { TeamAccessService } from './team-access.service';
 import { EmailTemplate, EmailSubject } from '../../core/constants/email.constants';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import { CursorPaginationDto } from '../../core/common/dto/pagination.dto';
+import { cursorOrderBy, paginate } from '../../core/utils/pagination';
+import { toTaskSortKeys } from '../../core/utils/task-sort';
+import { resolveDateRange } from '../../core/utils/helpers';
+import { NotificationService } from '../notification/notification.service';
+import { WebhookDeliveryService } from '../webhook/webhook-delivery.service';
+import { TasksGateway } from '../task/tasks.gateway';
+import { PresenceService } from '../../websocket/presence.service';
 
 @Injectable()
 export class TeamService {
@@ -14,7 +36,11 @@ export class TeamService {
         private readonly prismaService: PrismaService,
         private readonly teamAccessService: TeamAccessService,
         private readonly configService: ConfigService,
-        private readonly mailerService: MailerService
+        private readonly mailerService: MailerService,
+        private readonly notificationService: NotificationService,
+        private readonly webhookDeliveryService: WebhookDeliveryService,
+        private readonly tasksGateway: TasksGateway,
+        private readonly presenceService: PresenceService
     ) {}
 
     /**
@@ -56,6 +82,7 @@ export class TeamService {
 
             return team;
         });
+        this.tasksGateway.joinTeamRoom(userId, result.id);
 
         return result;
     }
@@ -89,6 +116,7 @@ export class TeamService {
                     ]
                 },
                 projects: {
+                    where: NOT_TRASHED,
                     select: {
                         id: true,
                         name: true,
@@ -138,11 +166,12 @@ export class TeamService {
         }
 
         // Check if user is already a member
+        const inviteeId = await this.getUserIdByEmail(inviteDto.email);
         const existingMember = await this.prismaService.teamMember.findUnique({
             where: {
                 teamId_userId: {
                     teamId,
-                    userId: await this.getUserIdByEmail(inviteDto.email)
+                    userId: inviteeId
                 }
             }
         });
@@ -217,12 +246,11 @@ export class TeamService {
         // Send invitation email
         try {
             await this.sendInvitationEmail(
-                inviteDto.email,
+                invite,
+                inviteeId,
                 team.name,
                 team.description,
-                token,
-                inviteDto.role || TeamRole.MEMBER,
-                expiresAt,
+                userId,
                 inviter?.name || 'Unknown User',
                 inviter?.email || 'unknown@example.com'
             );
@@ -306,11 +334,14 @@ export class TeamService {
         // Accept invitation in a transaction
         const result = await this.prismaService.$transaction(async (prisma) => {
             // Add user to team
-            await prisma.teamMember.create({
+            const member = await prisma.teamMember.create({
                 data: {
                     teamId: invite.teamId,
                     userId,
                     role: invite.role
+                },
+                include: {
+                    user: { select: { id: true, name: true, email: true } }
                 }
             });
 
@@ -320,12 +351,19 @@ export class TeamService {
                 data: { acceptedAt: new Date() }
             });
 
-            return invite.team;
+            return { team: invite.team, member };
         });
 
+        this.tasksGateway.joinTeamRoom(userId, invite.teamId);
+        await this.webhookDeliveryService.publish(
+            'member.joined',
+            { teamId: invite.teamId },
+            result.member
+        );
+
         return {
             message: 'Successfully joined the team',
-            team: result
+            team: result.team
         };
     }
 
@@ -375,6 +413,28 @@ export class TeamService {
             }
         });
 
+        const team = await this.prismaService.team.findUnique({
+            where: { id: teamId },
+            select: { name: true }
+        });
+        await this.notificationService.notify([targetUserId], {
+            type: NotificationType.TEAM_MEMBER_REMOVED,
+            message: `removed you from ${team?.name ?? 'a team'}`,
+            actorId: userId,
+            teamId
+        });
+        this.tasksGateway.leaveTeamRoom(targetUserId, teamId);
+        await this.webhookDeliveryService.publish(
+            'member.left',
+            { teamId },
+            {
+                teamId,
+                userId: targetUserId,
+                role: targetMember.role,
+                removedById: userId
+            }
+        );
+
         return { message: 'Member removed successfully' };
     }
 
@@ -407,14 +467,14 @@ export class TeamService {
 
     /**
      * Send team invitation email
+     * Registered invitees get it as a notification, so their notification preferences apply
      */
     private async sendInvitationEmail(
-        email: string,
+        invite: TeamInvite,
+        inviteeId: string | null,
         teamName: string,
         teamDescription: string | null,
-        token: string,
-        role: TeamRole,
-        expirationDate: Date,
+        inviterId: string,
         inviterName: string,
         inviterEmail: string
     ): Promise<void> {
@@ -422,19 +482,18 @@ export class TeamService {
         const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
         
         // Generate direct acceptance URL - matches the frontend route structure
-        const acceptUrl = `${frontendUrl}/teams/invite/accept/${token}`;
-        
-        await this.mailerService.sendMail({
-            to: email,
+        const acceptUrl = `${frontendUrl}/teams/invite/accept/${invite.token}`;
+
+        const email = {
             subject: EmailSubject.TEAM_INVITATION,
             template: EmailTemplate.TEAM_INVITATION,
             context: {
                 teamName,
                 teamDescription,
-                token,
-                role,
+                token: invite.token,
+                role: invite.role,
                 acceptUrl,
-                expirationDate: expirationDate.toLocaleDateString('en-US', {
+                expirationDate: invite.expiresAt.toLocaleDateString('en-US', {
                     year: 'numeric',
                     month: 'long',
                     day: 'numeric',
@@ -445,7 +504,24 @@ export class TeamService {
                 inviterEmail,
                 baseUrl
             }
-        });
+        };
+
+        if (!inviteeId) {
+            await this.mailerService.sendMail({ to: invite.email, ...email });
+            return;
+        }
+
+        await this.notificationService.notify(
+            [inviteeId],
+            {
+                type: NotificationType.TEAM_INVITATION,
+                message: `invited you to join ${teamName}`,
+                actorId: inviterId,
+                teamId: invite.teamId,
+                data: { token: invite.token, role: invite.role }
+            },
+            { ...email, context: () => email.context }
+        );
     }
 
     /**
@@ -490,6 +566,12 @@ export class TeamService {
         await this.prismaService.teamMember.delete({
             where: { id: userMembership.id }
         });
+        this.tasksGateway.leaveTeamRoom(userId, teamId);
+        await this.webhookDeliveryService.publish(
+            'member.left',
+            { teamId },
+            { teamId, userId, role: userMembership.role, removedById: null }
+        );
 
         return { message: 'Successfully left the team' };
     }
@@ -537,6 +619,7 @@ export class TeamService {
                     }
                 },
                 projects: {
+                    where: NOT_TRASHED,
                     select: {
                         id: true,
                         name: true,
@@ -567,7 +650,11 @@ export class TeamService {
     /**
      * Get team activity dashboard data
      */
-    async getTeamActivity(userId: string, teamId: string) {
+    async getTeamActivity(
+        userId: string,
+        teamId: string,
+        activityQueryDto: TeamActivityQueryDto = {}
+    ) {
         // Check if user is a team member
         await this.teamAccessService.assertMember(userId, teamId);
 
@@ -587,12 +674,13 @@ export class TeamService {
                     }
                 },
                 projects: {
+                    where: NOT_TRASHED,
                     select: {
                         id: true,
                         name: true,
                         _count: {
                             select: {
-                                tasks: true
+                                tasks: { where: NOT_TRASHED }
                             }
                         }
                     }
@@ -606,38 +694,66 @@ export class TeamService {
 
         const memberIds = team.members.map(member => member.userId);
         const projectIds = team.projects.map(project => project.id);
+        const onlineIds = new Set(
+            this.presenceService.getOnlineUserIds(memberIds)
+        );
+
+        // Recent activity window (last 30 days)
+        const thirtyDaysAgo = new Date();
+        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+        // Real change events, including those of tasks deleted since
+        const recentEvents = await this.getRecentTaskEvents(
+            teamId,
+            thirtyDaysAgo
+        );
+
+        // Time logged on team projects over the requested period
+        const period = resolveDateRange(
+            activityQueryDto.from,
+            activityQueryDto.to
+        );
+        const minutesByMember = await this.getMinutesLogged(
+            memberIds,
+            projectIds,
+            period
+        );
 
         // If team has no projects, return empty data
         if (projectIds.length === 0) {
             return {
                 recentTasks: [],
+                recentEvents,
                 memberStats: team.members.map(member => ({
                     userId: member.userId,
                     name: member.user.name,
                     email: member.user.email,
                     role: member.role,
+                    online: onlineIds.has(member.userId),
                     totalTasks: 0,
                     completedTasks: 0,
                     inProgressTasks: 0,
-                    completionRate: 0
+                    completionRate: 0,
+                    minutesLogged: 0
                 })),
                 projectStats: [],
+                period,
                 teamSummary: {
                     totalMembers: team.members.length,
+                    onlineMembers: onlineIds.size,
                     totalProjects: 0,
                     totalTasks: 0,
-                    completedTasks: 0
+                    completedTasks: 0,
+                    minutesLogged: 0
                 }
             };
         }
 
         // Get recent tasks from team projects (last 30 days)
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
         const recentTasks = await this.prismaService.task.findMany({
             where: {
                 projectId: { in: projectIds },
+                ...NOT_TRASHED,
                 OR: [
                     { createdAt: { gte: thirtyDaysAgo } },
                     { updatedAt: { gte: thirtyDaysAgo } }
@@ -658,45 +774,60 @@ export class TeamService {
                     }
                 }
             },
-            orderBy: { updatedAt: 'desc' },
+            orderBy: cursorOrderBy(
+                toTaskSortKeys(
+                    activityQueryDto.sortBy,
+                    activityQueryDto.sortOrder,
+                    { field: 'updatedAt', order: 'desc' }
+                )
+            ),
             take: 20
         });
 
         // Get member statistics (only for tasks in team projects)
         const memberStats = await Promise.all(
             team.members.map(async (member) => {
-                const [totalTasks, completedTasks, inProgressTasks] = await Promise.all([
-                    this.prismaService.task.count({
-                        where: { 
-                            userId: member.userId,
-                            projectId: { in: projectIds }
-                        }
-                    }),
-                    this.prismaService.task.count({
-                        where: { 
-                            userId: member.userId,
-                            projectId: { in: projectIds },
-                            status: 'DONE'
-                        }
-                    }),
-                    this.prismaService.task.count({
-                        where: { 
-                            userId: member.userId,
-                            projectId: { in: projectIds },
-                            status: 'IN_PROGRESS'
-                        }
-                    })
-                ]);
+                const [totalTasks, completedTasks, inProgressTasks] =
+                    await Promise.all([
+                        this.prismaService.task.count({
+                            where: {
+                                userId: member.userId,
+                                projectId: { in: projectIds },
+                                ...NOT_TRASHED
+                            }
+                        }),
+                        this.prismaService.task.count({
+                            where: {
+                                userId: member.userId,
+                                projectId: { in: projectIds },
+                                ...NOT_TRASHED,
+                                status: 'DONE'
+                            }
+                        }),
+                        this.prismaService.task.count({
+                            where: {
+                                userId: member.userId,
+                                projectId: { in: projectIds },
+                                ...NOT_TRASHED,
+                                status: 'IN_PROGRESS'
+                            }
+                        })
+                    ]);
 
                 return {
                     userId: member.userId,
                     name: member.user.name,
                     email: member.user.email,
                     role: member.role,
+                    online: onlineIds.has(member.userId),
                     totalTasks,
                     completedTasks,
                     inProgressTasks,
-                    completionRate: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0
+                    completionRate:
+                        totalTasks > 0
+                            ? Math.round((completedTasks / totalTasks) * 100)
+                            : 0,
+                    minutesLogged: minutesByMember.get(member.userId) ?? 0
                 };
             })
         );
@@ -714,22 +845,133 @@ export class TeamService {
                 title: task.title,
                 status: task.status,
                 priority: task.priority,
+                dueDate: task.dueDate,
                 createdAt: task.createdAt,
                 updatedAt: task.updatedAt,
                 user: task.user,
                 project: task.project
             })),
+            recentEvents,
             memberStats,
             projectStats,
+            period,
             teamSummary: {
                 totalMembers: team.members.length,
+                onlineMembers: onlineIds.size,
                 totalProjects: team.projects.length,
-                totalTasks: memberStats.reduce((sum, member) => sum + member.totalTasks, 0),
-                completedTasks: memberStats.reduce((sum, member) => sum + member.completedTasks, 0)
+                totalTasks: memberStats.reduce(
+                    (sum, member) => sum + member.totalTasks,
+                    0
+                ),
+                completedTasks: memberStats.reduce(
+                    (sum, member) => sum + member.completedTasks,
+                    0
+                ),
+                minutesLogged: memberStats.reduce(
+                    (sum, member) => sum + member.minutesLogged,
+                    0
+                )
             }
         };
     }
 
+    /**
+     * Sum the minutes each member logged on the team's projects over a period (running timers excluded)
+     */
+    private async getMinutesLogged(
+        memberIds: string[],
+        projectIds: string[],
+        period: { from: Date; to: Date }
+    ): Promise<Map<string, number>> {
+        if (projectIds.length === 0) {
+            return new Map();
+        }
+
+        const totals = await this.prismaService.timeEntry.groupBy({
+            by: ['userId'],
+            where: {
+                userId: { in: memberIds },
+                endedAt: { isSet: true },
+                startedAt: { gte: period.from, lte: period.to },
+                task: { is: { projectId: { in: projectIds }, ...NOT_TRASHED } }
+            },
+            _sum: { minutes: true }
+        });
+
+        return new Map(
+            totals.map((total) => [total.userId, total._sum.minutes ?? 0])
+        );
+    }
+
+    /**
+     * Get the latest task changes recorded for a team, with the acting user
+     */
+    private async getRecentTaskEvents(teamId: string, since: Date) {
+        const events = await this.prismaService.taskActivity.findMany({
+            where: {
+                teamId,
+                createdAt: { gte: since }
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 50
+        });
+
+        return this.toTeamEvents(events);
+    }
+
+    /**
+     * Get the task changes of a team's projects, newest first, paged by cursor or page number
+     */
+    async getTeamEvents(
+        userId: string,
+        teamId: string,
+        paginationDto: CursorPaginationDto = {}
+    ) {
+        await this.teamAccessService.assertMember(userId, teamId);
+
+        const { page = 1, limit = 5, cursor } = paginationDto;
+        const { data, meta } = await paginate(
+            { page, limit, cursor },
+            [{ field: 'createdAt', order: 'desc' }],
+            (query) =>
+                this.prismaService.taskActivity.findMany({
+                    where: { AND: [{ teamId }, query.where] },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take
+                }),
+            () => this.prismaService.taskActivity.count({ where: { teamId } })
+        );
+
+        return { data: await this.toTeamEvents(data), meta };
+    }
+
+    private async toTeamEvents(events: TaskActivity[]) {
+        const actorIds = [
+            ...new Set(events.map((event) => event.actorId).filter(Boolean))
+        ];
+        const actors = await this.prismaService.user.findMany({
+            where: { id: { in: actorIds } },
+            select: {
+                id: true,
+                name: true,
+                email: true
+            }
+        });
+        const actorsById = new Map(actors.map((actor) => [actor.id, actor]));
+
+        return events.map((event) => ({
+            id: event.id,
+            action: event.action,
+            taskId: event.taskId,
+            taskTitle: event.taskTitle,
+            projectId: event.projectId,
+            changes: event.changes,
+            actor: (event.actorId && actorsById.get(event.actorId)) || null,
+            createdAt: event.createdAt
+        }));
+    }
+
     /**
      * Update a team member's role (only owners can do this)
      */
@@ -793,10 +1035,21 @@ export class TeamService {
                 role: newRole as TeamRole
             },
             include: {
-                user: true
+                user: true,
+                team: { select: { name: true } }
             }
         });
 
+        if (targetMember.role !== updatedMember.role) {
+            await this.notificationService.notify([updatedMember.userId], {
+                type: NotificationType.TEAM_ROLE_CHANGED,
+                message: `changed your role in ${updatedMember.team.name} to ${updatedMember.role}`,
+                actorId: userId,
+                teamId,
+                data: { role: updatedMember.role }
+            });
+        }
+
         return {
             message: 'Member role updated successfully',
             member: {
@@ -1,14 +1,25 @@
 import { ApiProperty, PartialType, OmitType } from '@nestjs/swagger';
 import { Transform } from 'class-transformer';
 import {
+    ArrayMaxSize,
+    ArrayUnique,
+    IsArray,
     IsEmail,
+    IsInt,
     IsOptional,
     IsString,
+    IsTimeZone,
     Matches,
+    Max,
     MaxLength,
+    Min,
     MinLength
 } from 'class-validator';
 import { MatchesProperty } from '../../../core/common/validators/matches-property.validator';
+import {
+    MAX_REMINDER_OFFSET_MINUTES,
+    MAX_REMINDERS_PER_TASK
+} from '../../../core/constants/reminder.constants';
 
 export class CreateUserDto {
     @ApiProperty({ example: 'user@example.com' })
@@ -51,6 +62,40 @@ export class UpdateUserDto extends PartialType(
     @MaxLength(160, { message: 'Bio cannot exceed 160 characters' })
     @Transform(({ value }) => value?.trim())
     bio?: string;
+
+    @ApiProperty({
+        required: false,
+        example: [1440],
+        description:
+            'Reminders given to new tasks, in minutes before the due date (0 = at due time)',
+        type: [Number]
+    })
+    @IsOptional()
+    @IsArray({ message: 'defaultReminderOffsets must be an array' })
+    @ArrayMaxSize(MAX_REMINDERS_PER_TASK, {
+        message: `Cannot set more than ${MAX_REMINDERS_PER_TASK} reminders`
+    })
+    @ArrayUnique({ message: 'Reminders must be different' })
+    @IsInt({
+        each: true,
+        message: 'Each reminder must be a whole number of minutes'
+    })
+    @Min(0, { each: true, message: 'Reminders cannot be after the due date' })
+    @Max(MAX_REMINDER_OFFSET_MINUTES, {
+        each: true,
+        message: 'Reminders cannot be more than a week before the due date'
+    })
+    defaultReminderOffsets?: number[];
+
+    @ApiProperty({
+        required: false,
+        example: 'Europe/Paris',
+        description:
+            "IANA timezone of the user's days: due date filters, overdue tasks, dates read from text, quiet hours and digests; UTC when not set"
+    })
+    @IsOptional()
+    @IsTimeZone({ message: 'Timezone must be a valid IANA timezone' })
+    timezone?: string;
 }
 
 export class ChangePasswordDto {
@@ -0,0 +1,100 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+    ArrayNotEmpty,
+    ArrayUnique,
+    IsArray,
+    IsBoolean,
+    IsIn,
+    IsMongoId,
+    IsOptional,
+    IsUrl
+} from 'class-validator';
+import {
+    WEBHOOK_EVENTS,
+    WebhookEvent
+} from '../../../core/constants/webhook.constants';
+import { IsPublicUrl } from '../../../core/common/validators/public-url.validator';
+
+export class CreateWebhookDto {
+    @ApiProperty({
+        example: 'https://ci.example.com/hooks/flow-space',
+        description:
+            'HTTP(S) endpoint receiving the events as POST requests; localhost and private, loopback or link-local addresses are refused'
+    })
+    @IsUrl(
+        { protocols: ['http', 'https'], require_protocol: true },
+        { message: 'URL must be a valid http(s) URL' }
+    )
+    @IsPublicUrl()
+    @Transform(({ value }) => value?.trim())
+    url: string;
+
+    @ApiProperty({
+        enum: WEBHOOK_EVENTS,
+        isArray: true,
+        example: ['task.created', 'task.updated'],
+        description: 'Events to receive'
+    })
+    @IsArray({ message: 'events must be an array' })
+    @ArrayNotEmpty({ message: 'Subscribe to at least one event' })
+    @ArrayUnique({ message: 'Events must be different' })
+    @IsIn(WEBHOOK_EVENTS, {
+        each: true,
+        message: `Each event must be one of ${WEBHOOK_EVENTS.join(', ')}`
+    })
+    events: WebhookEvent[];
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description:
+            'Team whose projects and members send events; give either teamId or projectId',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Team ID must be a valid MongoDB ObjectId' })
+    teamId?: string;
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439012',
+        description:
+            'Project whose tasks send events; give either teamId or projectId',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
+    projectId?: string;
+}
+
+export class UpdateWebhookDto extends PartialType(
+    OmitType(CreateWebhookDto, ['teamId', 'projectId'] as const)
+) {
+    @ApiProperty({
+        example: false,
+        description: 'Pause or resume deliveries',
+        required: false
+    })
+    @IsOptional()
+    @IsBoolean({ message: 'active must be a boolean' })
+    active?: boolean;
+}
+
+export class QueryWebhookDto {
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439011',
+        description: 'List the webhooks of a team',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Team ID must be a valid MongoDB ObjectId' })
+    teamId?: string;
+
+    @ApiProperty({
+        example: '507f1f77bcf86cd799439012',
+        description: 'List the webhooks of a project',
+        required: false
+    })
+    @IsOptional()
+    @IsMongoId({ message: 'Project ID must be a valid MongoDB ObjectId' })
+    projectId?: string;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../core/services/prisma.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+/**
+ * Publishes events to webhooks; kept apart from WebhookModule so that the modules raising events do not depend on TeamModule
+ */
+@Module({
+    providers: [WebhookDeliveryService, PrismaService],
+    exports: [WebhookDeliveryService]
+})
+export class WebhookDeliveryModule {}
@@ -0,0 +1,262 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import axios from 'axios';
+import {
+    WebhookDeliveryService,
+    signWebhookPayload
+} from './webhook-delivery.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+jest.mock('axios');
+
+describe('WebhookDeliveryService', () => {
+    let service: WebhookDeliveryService;
+
+    const mockPrismaService = {
+        webhook: {
+            findMany: jest.fn()
+        },
+        webhookDelivery: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn()
+        },
+        project: {
+            findMany: jest.fn()
+        }
+    };
+
+    const mockedPost = axios.post as jest.Mock;
+
+    const now = new Date('2025-06-02T10:00:00.000Z');
+
+    const delivery = (overrides = {}) => ({
+        id: 'delivery1',
+        webhookId: 'hook1',
+        event: 'task.created',
+        payload: { event: 'task.created', data: { id: 'task1' } },
+        attempts: [],
+        webhook: {
+            id: 'hook1',
+            url: 'https://ci.example.com/hook',
+            secret: 'shh'
+        },
+        ...overrides
+    });
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                WebhookDeliveryService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                }
+            ]
+        }).compile();
+
+        service = module.get<WebhookDeliveryService>(WebhookDeliveryService);
+        jest.useFakeTimers({ now });
+        mockPrismaService.webhookDelivery.updateMany.mockResolvedValue({
+            count: 1
+        });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.resetAllMocks();
+    });
+
+    describe('publish', () => {
+        it('should queue a delivery for each subscribed webhook of the scope', async () => {
+            mockPrismaService.webhook.findMany.mockResolvedValue([
+                { id: 'hook1' },
+                { id: 'hook2' }
+            ]);
+            mockPrismaService.webhookDelivery.create.mockImplementation(
+                ({ data }) => ({ id: `d-${data.webhookId}`, ...data })
+            );
+            jest.spyOn(service, 'attempt').mockResolvedValue(null);
+
+            await service.publish(
+                'task.created',
+                { projectId: 'project1', teamId: 'team1' },
+                { id: 'task1', dueDate: now }
+            );
+
+            expect(mockPrismaService.webhook.findMany).toHaveBeenCalledWith({
+                where: {
+                    active: true,
+                    events: { has: 'task.created' },
+                    OR: [{ projectId: 'project1' }, { teamId: 'team1' }]
+                },
+                select: { id: true }
+            });
+            expect(
+                mockPrismaService.webhookDelivery.create
+            ).toHaveBeenCalledWith({
+                data: {
+                    webhookId: 'hook1',
+                    event: 'task.created',
+                    payload: {
+                        event: 'task.created',
+                        createdAt: now.toISOString(),
+                        data: { id: 'task1', dueDate: now.toISOString() }
+                    },
+                    nextAttemptAt: now
+                }
+            });
+            expect(service.attempt).toHaveBeenCalledWith('d-hook2');
+        });
+
+        it('should not throw when the event cannot be queued', async () => {
+            mockPrismaService.webhook.findMany.mockRejectedValue(
+                new Error('connection lost')
+            );
+
+            await expect(
+                service.publish('member.joined', { teamId: 'team1' }, {})
+            ).resolves.toBeUndefined();
+        });
+    });
+
+    describe('publishTasks', () => {
+        it('should not throw when the projects of the tasks cannot be read', async () => {
+            mockPrismaService.project.findMany.mockRejectedValue(
+                new Error('connection lost')
+            );
+
+            await expect(
+                service.publishTasks('task.deleted', [
+                    { projectId: 'project1' }
+                ])
+            ).resolves.toBeUndefined();
+            expect(mockPrismaService.webhook.findMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('attempt', () => {
+        it('should send a signed request and mark the delivery as succeeded', async () => {
+            mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(
+                delivery()
+            );
+            mockedPost.mockResolvedValue({ status: 204 });
+
+            await service.attempt('delivery1');
+
+            const body = JSON.stringify(delivery().payload);
+            const timestamp = String(now.getTime() / 1000);
+            expect(mockedPost).toHaveBeenCalledWith(
+                'https://ci.example.com/hook',
+                body,
+                expect.objectContaining({
+                    headers: expect.objectContaining({
+                        'X-FlowSpace-Event': 'task.created',
+                        'X-FlowSpace-Timestamp': timestamp,
+                        'X-FlowSpace-Signature': `sha256=${signWebhookPayload('shh', timestamp, body)}`
+                    })
+                })
+            );
+            expect(
+                mockPrismaService.webhookDelivery.update
+            ).toHaveBeenCalledWith({
+                where: { id: 'delivery1' },
+                data: {
+                    attempts: {
+                        push: expect.objectContaining({ responseStatus: 204 })
+                    },
+                    status: WebhookDeliveryStatus.SUCCEEDED,
+                    nextAttemptAt: { unset: true }
+                }
+            });
+        });
+
+        it('should not send to an internal address', async () => {
+            mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(
+                delivery({
+                    webhook: {
+                        id: 'hook1',
+                        url: 'http://169.254.169.254/latest/meta-data',
+                        secret: 'shh'
+                    }
+                })
+            );
+
+            await service.attempt('delivery1');
+
+            expect(mockedPost).not.toHaveBeenCalled();
+            expect(
+                mockPrismaService.webhookDelivery.update
+            ).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        attempts: {
+                            push: expect.objectContaining({
+                                responseStatus: null,
+                                error: 'The webhook URL points to this server or an internal network'
+                            })
+                        },
+                        status: WebhookDeliveryStatus.PENDING
+                    })
+                })
+            );
+        });
+
+        it('should retry failed attempts with an exponential backoff', async () => {
+            mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(
+                delivery({ attempts: [{}, {}] })
+            );
+            mockedPost.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+            await service.attempt('delivery1');
+
+            expect(
+                mockPrismaService.webhookDelivery.update
+            ).toHaveBeenCalledWith({
+                where: { id: 'delivery1' },
+                data: {
+                    attempts: {
+                        push: expect.objectContaining({
+                            responseStatus: null,
+                            error: 'connect ECONNREFUSED'
+                        })
+                    },
+                    status: WebhookDeliveryStatus.PENDING,
+                    // Third attempt: 30s * 2^2
+                    nextAttemptAt: new Date(now.getTime() + 120 * 1000)
+                }
+            });
+        });
+
+        it('should give up after the last attempt', async () => {
+            mockPrismaService.webhookDelivery.findUnique.mockResolvedValue(
+                delivery({ attempts: [{}, {}, {}, {}, {}] })
+            );
+            mockedPost.mockResolvedValue({ status: 500 });
+
+            await service.attempt('delivery1');
+
+            expect(
+                mockPrismaService.webhookDelivery.update
+            ).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        status: WebhookDeliveryStatus.FAILED,
+                        nextAttemptAt: { unset: true }
+                    })
+                })
+            );
+        });
+
+        it('should skip a delivery another run is already sending', async () => {
+            mockPrismaService.webhookDelivery.updateMany.mockResolvedValue({
+                count: 0
+            });
+
+            expect(await service.attempt('delivery1')).toBeNull();
+            expect(mockedPost).not.toHaveBeenCalled();
+        });
+    });
+});
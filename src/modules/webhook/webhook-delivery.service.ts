@@ -0,0 +1,303 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+    Prisma,
+    Webhook,
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookDeliveryStatus
+} from '@prisma/client';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { PrismaService } from '../../core/services/prisma.service';
+import { isInternalHost, publicLookup } from '../../core/utils/network';
+import {
+    WEBHOOK_HEADERS,
+    WEBHOOK_MAX_ATTEMPTS,
+    WEBHOOK_RETRY_BASE_SECONDS,
+    WEBHOOK_TIMEOUT_MS,
+    WebhookEvent
+} from '../../core/constants/webhook.constants';
+
+// Upper bound of retries sent per scheduler run
+const RETRY_BATCH_SIZE = 100;
+
+// The address is checked when connecting, so a host cannot be pointed at an internal network once its webhook exists
+const httpAgent = new HttpAgent({ lookup: publicLookup });
+const httpsAgent = new HttpsAgent({ lookup: publicLookup });
+
+export interface WebhookScope {
+    teamId?: string | null;
+    projectId?: string | null;
+}
+
+/**
+ * Sign a delivery body the way receivers are expected to verify it:
+ * hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the webhook secret
+ */
+export const signWebhookPayload = (
+    secret: string,
+    timestamp: string,
+    body: string
+): string =>
+    createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+@Injectable()
+export class WebhookDeliveryService {
+    private readonly logger = new Logger(WebhookDeliveryService.name);
+
+    constructor(private readonly prismaService: PrismaService) {}
+
+    /**
+     * Queue an event for every active webhook of the scope subscribed to it and send it right away.
+     * Never throws: webhooks must not fail the change that triggered them
+     */
+    async publish(
+        event: WebhookEvent,
+        scope: WebhookScope,
+        data: unknown
+    ): Promise<void> {
+        const scopes: Prisma.WebhookWhereInput[] = [
+            ...(scope.projectId ? [{ projectId: scope.projectId }] : []),
+            ...(scope.teamId ? [{ teamId: scope.teamId }] : [])
+        ];
+        if (scopes.length === 0) {
+            return;
+        }
+
+        try {
+            const webhooks = await this.prismaService.webhook.findMany({
+                where: { active: true, events: { has: event }, OR: scopes },
+                select: { id: true }
+            });
+
+            // Dates become ISO strings, as in the body the receivers get
+            const payload = JSON.parse(
+                JSON.stringify({
+                    event,
+                    createdAt: new Date(),
+                    data
+                })
+            );
+
+            for (const webhook of webhooks) {
+                const delivery =
+                    await this.prismaService.webhookDelivery.create({
+                        data: {
+                            webhookId: webhook.id,
+                            event,
+                            payload,
+                            nextAttemptAt: new Date()
+                        }
+                    });
+                this.attemptInBackground(delivery.id);
+            }
+        } catch (error) {
+            this.logger.error(
+                `Failed to publish the ${event} webhook event`,
+                (error as Error).stack
+            );
+        }
+    }
+
+    /**
+     * Publish a task event once per task, scoped to the task's project and the team owning it.
+     * Never throws, like publish
+     */
+    async publishTasks(
+        event: WebhookEvent,
+        tasks: { projectId?: string | null }[]
+    ): Promise<void> {
+        const projectIds = [
+            ...new Set(tasks.map((task) => task.projectId).filter(Boolean))
+        ];
+        if (projectIds.length === 0) {
+            return;
+        }
+
+        let teamIds: Map<string, string | null>;
+        try {
+            const projects = await this.prismaService.project.findMany({
+                where: { id: { in: projectIds } },
+                select: { id: true, teamId: true }
+            });
+            teamIds = new Map(
+                projects.map((project) => [project.id, project.teamId])
+            );
+        } catch (error) {
+            this.logger.error(
+                `Failed to publish the ${event} webhook event`,
+                (error as Error).stack
+            );
+            return;
+        }
+
+        for (const task of tasks) {
+            if (task.projectId) {
+                await this.publish(
+                    event,
+                    {
+                        projectId: task.projectId,
+                        teamId: teamIds.get(task.projectId)
+                    },
+                    task
+                );
+            }
+        }
+    }
+
+    /**
+     * Send a past delivery again as a new delivery, with its own retries
+     */
+    async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+        const redelivery = await this.prismaService.webhookDelivery.create({
+            data: {
+                webhookId: delivery.webhookId,
+                event: delivery.event,
+                payload: delivery.payload as Prisma.InputJsonValue,
+                redeliveryOf: delivery.id,
+                nextAttemptAt: new Date()
+            }
+        });
+
+        return (await this.attempt(redelivery.id)) ?? redelivery;
+    }
+
+    /**
+     * Retry the deliveries whose backoff delay is over
+     */
+    @Cron(CronExpression.EVERY_MINUTE)
+    async retryDueDeliveries(): Promise<void> {
+        const due = await this.prismaService.webhookDelivery.findMany({
+            where: {
+                status: WebhookDeliveryStatus.PENDING,
+                nextAttemptAt: { lte: new Date() }
+            },
+            orderBy: { nextAttemptAt: 'asc' },
+            select: { id: true },
+            take: RETRY_BATCH_SIZE
+        });
+
+        for (const delivery of due) {
+            try {
+                await this.attempt(delivery.id);
+            } catch (error) {
+                this.logger.error(
+                    `Failed to retry webhook delivery ${delivery.id}`,
+                    (error as Error).stack
+                );
+            }
+        }
+    }
+
+    /**
+     * Make one attempt at a pending delivery and schedule the next one on failure
+     * @returns the updated delivery, or null if it is not due or another run is sending it
+     */
+    async attempt(deliveryId: string): Promise<WebhookDelivery | null> {
+        const now = Date.now();
+
+        // Push the next attempt past the timeout so that concurrent runs skip it
+        const { count } = await this.prismaService.webhookDelivery.updateMany({
+            where: {
+                id: deliveryId,
+                status: WebhookDeliveryStatus.PENDING,
+                nextAttemptAt: { lte: new Date(now) }
+            },
+            data: { nextAttemptAt: new Date(now + 2 * WEBHOOK_TIMEOUT_MS) }
+        });
+        if (count === 0) {
+            return null;
+        }
+
+        const delivery = await this.prismaService.webhookDelivery.findUnique({
+            where: { id: deliveryId },
+            include: { webhook: true }
+        });
+        const result = await this.send(delivery.webhook, delivery);
+
+        const attempts = delivery.attempts.length + 1;
+        const succeeded =
+            result.responseStatus >= 200 && result.responseStatus < 300;
+        const retry = !succeeded && attempts < WEBHOOK_MAX_ATTEMPTS;
+
+        return this.prismaService.webhookDelivery.update({
+            where: { id: deliveryId },
+            data: {
+                attempts: { push: result },
+                status: succeeded
+                    ? WebhookDeliveryStatus.SUCCEEDED
+                    : retry
+                      ? WebhookDeliveryStatus.PENDING
+                      : WebhookDeliveryStatus.FAILED,
+                nextAttemptAt: retry
+                    ? new Date(
+                          Date.now() +
+                              WEBHOOK_RETRY_BASE_SECONDS *
+                                  2 ** (attempts - 1) *
+                                  1000
+                      )
+                    : { unset: true }
+            }
+        });
+    }
+
+    private attemptInBackground(deliveryId: string): void {
+        this.attempt(deliveryId).catch((error) =>
+            this.logger.error(
+                `Failed to send webhook delivery ${deliveryId}`,
+                (error as Error).stack
+            )
+        );
+    }
+
+    private async send(
+        webhook: Webhook,
+        delivery: WebhookDelivery
+    ): Promise<WebhookAttempt> {
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const startedAt = new Date();
+
+        try {
+            // IP addresses are not looked up
+            if (isInternalHost(new URL(webhook.url).hostname)) {
+                throw new Error(
+                    'The webhook URL points to this server or an internal network'
+                );
+            }
+
+            const response = await axios.post(webhook.url, body, {
+                headers: {
+                    'Content-Type': 'application/json',
+                    [WEBHOOK_HEADERS.EVENT]: delivery.event,
+                    [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+                    [WEBHOOK_HEADERS.TIMESTAMP]: timestamp,
+                    [WEBHOOK_HEADERS.SIGNATURE]: `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`
+                },
+                timeout: WEBHOOK_TIMEOUT_MS,
+                maxRedirects: 0,
+                httpAgent,
+                httpsAgent,
+                // Any answer is recorded; only 2xx counts as delivered
+                validateStatus: () => true
+            });
+
+            return {
+                at: startedAt,
+                durationMs: Date.now() - startedAt.getTime(),
+                responseStatus: response.status,
+                error: null
+            };
+        } catch (error) {
+            return {
+                at: startedAt,
+                durationMs: Date.now() - startedAt.getTime(),
+                responseStatus: null,
+                error: (error as Error).message
+            };
+        }
+    }
+}
@@ -0,0 +1,193 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    Request,
+    HttpCode,
+    HttpStatus
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiParam,
+    ApiBody
+} from '@nestjs/swagger';
+import { Webhook, WebhookDelivery } from '@prisma/client';
+import { AuthGuard } from '../../core/common/guards/auth.guard';
+import {
+    CursorPaginationDto,
+    PaginatedResponseDto
+} from '../../core/common/dto/pagination.dto';
+import { WebhookService, WebhookSummary } from './webhook.service';
+import {
+    CreateWebhookDto,
+    QueryWebhookDto,
+    UpdateWebhookDto
+} from './dto/webhook.dto';
+
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('/webhooks')
+export class WebhookController {
+    constructor(private readonly webhookService: WebhookService) {}
+
+    @Get()
+    @ApiOperation({
+        summary: 'List the webhooks of a team or project',
+        description: 'Signing secrets are not included'
+    })
+    @ApiResponse({ status: 200, description: 'Webhooks, newest first' })
+    @ApiResponse({
+        status: 400,
+        description: 'Neither or both of teamId and projectId given'
+    })
+    @ApiResponse({
+        status: 403,
+        description: 'Only project owner or team owner can manage webhooks'
+    })
+    async findAll(
+        @Request() req: any,
+        @Query() queryWebhookDto: QueryWebhookDto
+    ): Promise<WebhookSummary[]> {
+        return this.webhookService.findAll(req.user.sub, queryWebhookDto);
+    }
+
+    @Post()
+    @ApiOperation({
+        summary: 'Create a webhook',
+        description:
+            'Subscribes a URL to events of a team or project. The response contains the secret used to sign deliveries; it is not shown again'
+    })
+    @ApiBody({ type: CreateWebhookDto })
+    @ApiResponse({
+        status: 201,
+        description: 'Webhook created with its secret'
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input data' })
+    @ApiResponse({
+        status: 403,
+        description: 'Only project owner or team owner can manage webhooks'
+    })
+    @ApiResponse({ status: 404, description: 'Project not found' })
+    async create(
+        @Request() req: any,
+        @Body() createWebhookDto: CreateWebhookDto
+    ): Promise<Webhook> {
+        return this.webhookService.create(req.user.sub, createWebhookDto);
+    }
+
+    @Patch(':webhookId')
+    @ApiOperation({
+        summary: 'Update a webhook',
+        description:
+            'Changes its URL or events, or pauses it with active: false'
+    })
+    @ApiParam({
+        name: 'webhookId',
+        description: 'Webhook ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiBody({ type: UpdateWebhookDto })
+    @ApiResponse({ status: 200, description: 'Webhook updated successfully' })
+    @ApiResponse({ status: 404, description: 'Webhook not found' })
+    async update(
+        @Request() req: any,
+        @Param('webhookId') webhookId: string,
+        @Body() updateWebhookDto: UpdateWebhookDto
+    ): Promise<WebhookSummary> {
+        return this.webhookService.update(
+            req.user.sub,
+            webhookId,
+            updateWebhookDto
+        );
+    }
+
+    @Delete(':webhookId')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Delete a webhook and its delivery log' })
+    @ApiParam({
+        name: 'webhookId',
+        description: 'Webhook ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiResponse({ status: 200, description: 'Webhook deleted successfully' })
+    @ApiResponse({ status: 404, description: 'Webhook not found' })
+    async remove(
+        @Request() req: any,
+        @Param('webhookId') webhookId: string
+    ): Promise<{ message: string }> {
+        return this.webhookService.remove(req.user.sub, webhookId);
+    }
+
+    @Get(':webhookId/deliveries')
+    @ApiOperation({
+        summary: 'List the deliveries of a webhook',
+        description:
+            'Each delivery has its event, payload, status (PENDING, SUCCEEDED or FAILED) and the response status or error of every attempt'
+    })
+    @ApiParam({
+        name: 'webhookId',
+        description: 'Webhook ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiResponse({
+        status: 200,
+        description:
+            'Paginated deliveries, newest first; meta.nextCursor gives the next page'
+    })
+    @ApiResponse({ status: 400, description: 'Invalid cursor' })
+    @ApiResponse({ status: 404, description: 'Webhook not found' })
+    async findDeliveries(
+        @Request() req: any,
+        @Param('webhookId') webhookId: string,
+        @Query() paginationDto: CursorPaginationDto
+    ): Promise<PaginatedResponseDto<WebhookDelivery>> {
+        return this.webhookService.findDeliveries(
+            req.user.sub,
+            webhookId,
+            paginationDto
+        );
+    }
+
+    @Post(':webhookId/deliveries/:deliveryId/redeliver')
+    @ApiOperation({
+        summary: 'Redeliver an event',
+        description:
+            'Sends the payload of a past delivery again as a new delivery, retried like any other'
+    })
+    @ApiParam({
+        name: 'webhookId',
+        description: 'Webhook ID',
+        example: '507f1f77bcf86cd799439013'
+    })
+    @ApiParam({
+        name: 'deliveryId',
+        description: 'Delivery to send again',
+        example: '507f1f77bcf86cd799439014'
+    })
+    @ApiResponse({
+        status: 201,
+        description: 'The new delivery after its first attempt'
+    })
+    @ApiResponse({ status: 404, description: 'Webhook or delivery not found' })
+    async redeliver(
+        @Request() req: any,
+        @Param('webhookId') webhookId: string,
+        @Param('deliveryId') deliveryId: string
+    ): Promise<WebhookDelivery> {
+        return this.webhookService.redeliver(
+            req.user.sub,
+            webhookId,
+            deliveryId
+        );
+    }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../../core/services/prisma.service';
+import { TokenBlacklistService } from '../../core/services/token-blacklist.service';
+import { TeamModule } from '../team/team.module';
+import { WebhookController } from './webhook.controller';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryModule } from './webhook-delivery.module';
+
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}), // Empty register for AuthGuard dependency
+        TeamModule, // Import TeamModule to access TeamAccessService
+        WebhookDeliveryModule
+    ],
+    controllers: [WebhookController],
+    providers: [WebhookService, PrismaService, TokenBlacklistService]
+})
+export class WebhookModule {}
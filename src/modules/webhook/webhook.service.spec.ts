@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    BadRequestException,
+    ForbiddenException,
+    NotFoundException
+} from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { TeamAccessService } from '../team/team-access.service';
+import { PrismaService } from '../../core/services/prisma.service';
+
+describe('WebhookService', () => {
+    let service: WebhookService;
+
+    const mockPrismaService = {
+        webhook: {
+            create: jest.fn(),
+            findUnique: jest.fn()
+        },
+        webhookDelivery: {
+            findFirst: jest.fn()
+        },
+        project: {
+            findFirst: jest.fn()
+        }
+    };
+
+    const mockTeamAccessService = {
+        assertAdmin: jest.fn(),
+        isAdmin: jest.fn()
+    };
+
+    const mockWebhookDeliveryService = {
+        redeliver: jest.fn()
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                WebhookService,
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService
+                },
+                {
+                    provide: TeamAccessService,
+                    useValue: mockTeamAccessService
+                },
+                {
+                    provide: WebhookDeliveryService,
+                    useValue: mockWebhookDeliveryService
+                }
+            ]
+        }).compile();
+
+        service = module.get<WebhookService>(WebhookService);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    describe('create', () => {
+        it('should create a team webhook with a generated secret', async () => {
+            mockPrismaService.webhook.create.mockImplementation(
+                ({ data }) => data
+            );
+
+            const webhook = await service.create('user1', {
+                url: 'https://ci.example.com/hook',
+                events: ['task.created'],
+                teamId: 'team1'
+            });
+
+            expect(mockTeamAccessService.assertAdmin).toHaveBeenCalledWith(
+                'user1',
+                'team1'
+            );
+            expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+            expect(webhook.createdById).toBe('user1');
+        });
+
+        it('should require exactly one of teamId and projectId', async () => {
+            await expect(
+                service.create('user1', {
+                    url: 'https://ci.example.com/hook',
+                    events: ['task.created'],
+                    teamId: 'team1',
+                    projectId: 'project1'
+                })
+            ).rejects.toThrow(BadRequestException);
+            expect(mockPrismaService.webhook.create).not.toHaveBeenCalled();
+        });
+
+        it('should only let the project owner or team owner manage project webhooks', async () => {
+            mockPrismaService.project.findFirst.mockResolvedValue({
+                ownerId: 'owner',
+                teamId: 'team1'
+            });
+            mockTeamAccessService.isAdmin.mockResolvedValue(false);
+
+            await expect(
+                service.create('user1', {
+                    url: 'https://ci.example.com/hook',
+                    events: ['task.updated'],
+                    projectId: 'project1'
+                })
+            ).rejects.toThrow(ForbiddenException);
+        });
+    });
+
+    describe('redeliver', () => {
+        it('should throw NotFoundException for a delivery of another webhook', async () => {
+            mockPrismaService.webhook.findUnique.mockResolvedValue({
+                id: 'hook1',
+                teamId: 'team1'
+            });
+            mockPrismaService.webhookDelivery.findFirst.mockResolvedValue(null);
+
+            await expect(
+                service.redeliver('user1', 'hook1', 'delivery9')
+            ).rejects.toThrow(NotFoundException);
+            expect(mockWebhookDeliveryService.redeliver).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,206 @@
+import {
+    BadRequestException,
+    ForbiddenException,
+    Injectable,
+    NotFoundException
+} from '@nestjs/common';
+import { Webhook, WebhookDelivery } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../core/services/prisma.service';
+import { NOT_TRASHED } from '../../core/constants/trash.constants';
+import {
+    CursorPaginationDto,
+    PaginatedResponseDto
+} from '../../core/common/dto/pagination.dto';
+import { paginate } from '../../core/utils/pagination';
+import { TeamAccessService } from '../team/team-access.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import {
+    CreateWebhookDto,
+    QueryWebhookDto,
+    UpdateWebhookDto
+} from './dto/webhook.dto';
+
+// The secret is only returned when the webhook is created
+export type WebhookSummary = Omit<Webhook, 'secret'>;
+
+const omitSecret = { secret: true } as const;
+
+@Injectable()
+export class WebhookService {
+    constructor(
+        private readonly prismaService: PrismaService,
+        private readonly teamAccessService: TeamAccessService,
+        private readonly webhookDeliveryService: WebhookDeliveryService
+    ) {}
+
+    /**
+     * Subscribe an endpoint to the events of a team or project
+     * @returns the webhook with its signing secret, shown this once
+     */
+    async create(
+        userId: string,
+        createDto: CreateWebhookDto
+    ): Promise<Webhook> {
+        const { teamId, projectId, ...webhook } = createDto;
+        await this.assertCanManage(userId, this.toScope(teamId, projectId));
+
+        return this.prismaService.webhook.create({
+            data: {
+                ...webhook,
+                teamId,
+                projectId,
+                secret: randomBytes(32).toString('hex'),
+                createdById: userId
+            }
+        });
+    }
+
+    async findAll(
+        userId: string,
+        queryDto: QueryWebhookDto
+    ): Promise<WebhookSummary[]> {
+        const scope = this.toScope(queryDto.teamId, queryDto.projectId);
+        await this.assertCanManage(userId, scope);
+
+        return this.prismaService.webhook.findMany({
+            where: scope,
+            orderBy: { createdAt: 'desc' },
+            omit: omitSecret
+        });
+    }
+
+    async update(
+        userId: string,
+        webhookId: string,
+        updateDto: UpdateWebhookDto
+    ): Promise<WebhookSummary> {
+        await this.findManageable(userId, webhookId);
+
+        return this.prismaService.webhook.update({
+            where: { id: webhookId },
+            data: updateDto,
+            omit: omitSecret
+        });
+    }
+
+    /**
+     * Delete a webhook along with its delivery log
+     */
+    async remove(
+        userId: string,
+        webhookId: string
+    ): Promise<{ message: string }> {
+        await this.findManageable(userId, webhookId);
+        await this.prismaService.webhook.delete({ where: { id: webhookId } });
+
+        return { message: 'Webhook deleted successfully' };
+    }
+
+    /**
+     * List the deliveries of a webhook with their attempts, newest first
+     */
+    async findDeliveries(
+        userId: string,
+        webhookId: string,
+        paginationDto: CursorPaginationDto
+    ): Promise<PaginatedResponseDto<WebhookDelivery>> {
+        await this.findManageable(userId, webhookId);
+
+        const { page = 1, limit = 5, cursor } = paginationDto;
+        return paginate(
+            { page, limit, cursor },
+            [{ field: 'createdAt', order: 'desc' }],
+            (query) =>
+                this.prismaService.webhookDelivery.findMany({
+                    where: { AND: [{ webhookId }, query.where] },
+                    orderBy: query.orderBy,
+                    skip: query.skip,
+                    take: query.take
+                }),
+            () =>
+                this.prismaService.webhookDelivery.count({
+                    where: { webhookId }
+                })
+        );
+    }
+
+    /**
+     * Send a delivery again, e.g. once the receiver is fixed
+     * @returns the new delivery after its first attempt
+     */
+    async redeliver(
+        userId: string,
+        webhookId: string,
+        deliveryId: string
+    ): Promise<WebhookDelivery> {
+        await this.findManageable(userId, webhookId);
+
+        const delivery = await this.prismaService.webhookDelivery.findFirst({
+            where: { id: deliveryId, webhookId }
+        });
+        if (!delivery) {
+            throw new NotFoundException('Delivery not found');
+        }
+
+        return this.webhookDeliveryService.redeliver(delivery);
+    }
+
+    private async findManageable(
+        userId: string,
+        webhookId: string
+    ): Promise<Webhook> {
+        const webhook = await this.prismaService.webhook.findUnique({
+            where: { id: webhookId }
+        });
+        if (!webhook) {
+            throw new NotFoundException('Webhook not found');
+        }
+
+        await this.assertCanManage(userId, webhook);
+        return webhook;
+    }
+
+    private toScope(
+        teamId?: string,
+        projectId?: string
+    ): { teamId: string } | { projectId: string } {
+        if (!teamId === !projectId) {
+            throw new BadRequestException('Give either teamId or projectId');
+        }
+        return teamId ? { teamId } : { projectId };
+    }
+
+    /**
+     * Team webhooks are managed by team owners, project webhooks by the project owner or team owner
+     * @throws ForbiddenException otherwise
+     */
+    private async assertCanManage(
+        userId: string,
+        scope: { teamId?: string | null; projectId?: string | null }
+    ): Promise<void> {
+        if (scope.teamId) {
+            await this.teamAccessService.assertAdmin(userId, scope.teamId);
+            return;
+        }
+
+        const project = await this.prismaService.project.findFirst({
+            where: { id: scope.projectId, ...NOT_TRASHED },
+            select: { ownerId: true, teamId: true }
+        });
+        if (!project) {
+            throw new NotFoundException('Project not found');
+        }
+
+        const isOwner = project.ownerId === userId;
+        const isTeamOwner =
+            project.teamId &&
+            (await this.teamAccessService.isAdmin(userId, project.teamId));
+
+        if (!isOwner && !isTeamOwner) {
+            throw new ForbiddenException(
+                'Only project owner or team owner can manage webhooks'
+            );
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import { Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { SearchIndexModule } from './modules/search/search-index.module';
+import { SearchIndexService } from './modules/search/search-index.service';
+
+// Rebuilds the search index from the existing tasks, projects and comments: npm run search:reindex
+async function reindex() {
+    const app = await NestFactory.createApplicationContext(SearchIndexModule);
+
+    try {
+        const counts = await app.get(SearchIndexService).reindex();
+        Logger.log(
+            `Search index rebuilt: ${JSON.stringify(counts)}`,
+            'Reindex'
+        );
+    } finally {
+        await app.close();
+    }
+}
+
+reindex().catch((error) => {
+    console.error('[Reindex]', error);
+    process.exit(1);
+});
@@ -0,0 +1,121 @@
+import { PresenceService } from './presence.service';
+import {
+    EDIT_LOCK_TTL_MS,
+    PresenceState
+} from '../core/constants/presence.constants';
+
+describe('PresenceService', () => {
+    let service: PresenceService;
+
+    const ann = { id: 'user1', name: 'Ann' };
+    const bob = { id: 'user2', name: 'Bob' };
+    const now = new Date('2025-06-02T09:00:00.000Z');
+
+    beforeEach(() => {
+        service = new PresenceService();
+    });
+
+    describe('connect', () => {
+        it('should report a user online until their last socket disconnects', () => {
+            expect(service.connect('socket1', ann)).toBe(true);
+            expect(service.connect('socket2', ann)).toBe(false);
+
+            expect(service.disconnect('socket1').wentOffline).toBe(false);
+            expect(service.getOnlineUserIds(['user1', 'user2'])).toEqual([
+                'user1'
+            ]);
+
+            expect(service.disconnect('socket2').wentOffline).toBe(true);
+            expect(service.isOnline('user1')).toBe(false);
+        });
+
+        it('should ignore sockets that never authenticated', () => {
+            expect(service.disconnect('unknown')).toBeNull();
+        });
+    });
+
+    describe('getChannelMembers', () => {
+        it('should list each user once, as editing if any of their sockets edits', () => {
+            service.connect('socket1', ann);
+            service.connect('socket2', ann);
+            service.connect('socket3', bob);
+            service.joinChannel('socket1', 'task:task1');
+            service.joinChannel('socket3', 'task:task1');
+            service.acquireLock('socket2', 'task1', 'project1', now);
+
+            expect(service.getChannelMembers('task:task1')).toEqual([
+                { userId: 'user1', name: 'Ann', state: PresenceState.EDITING },
+                { userId: 'user2', name: 'Bob', state: PresenceState.VIEWING }
+            ]);
+        });
+    });
+
+    describe('acquireLock', () => {
+        beforeEach(() => {
+            service.connect('socket1', ann);
+            service.connect('socket2', bob);
+        });
+
+        it('should refuse a lock held by another user until it expires', () => {
+            service.acquireLock('socket1', 'task1', 'project1', now);
+
+            const refused = service.acquireLock(
+                'socket2',
+                'task1',
+                'project1',
+                now
+            );
+            expect(refused.acquired).toBe(false);
+            expect(refused.lock.userId).toBe('user1');
+
+            const later = new Date(now.getTime() + EDIT_LOCK_TTL_MS);
+            expect(
+                service.acquireLock('socket2', 'task1', 'project1', later)
+                    .acquired
+            ).toBe(true);
+        });
+
+        it('should release the locks of a disconnected socket', () => {
+            service.acquireLock('socket1', 'task1', 'project1', now);
+
+            const disconnected = service.disconnect('socket1');
+
+            expect(
+                disconnected.releasedLocks.map((lock) => lock.taskId)
+            ).toEqual(['task1']);
+            expect(disconnected.channels).toEqual(['task:task1']);
+            expect(service.getLock('task1', now)).toBeNull();
+        });
+
+        it('should only let the holding socket release a lock', () => {
+            service.acquireLock('socket1', 'task1', 'project1', now);
+
+            expect(service.releaseLock('socket2', 'task1')).toBeNull();
+            expect(service.releaseLock('socket1', 'task1')).not.toBeNull();
+            expect(service.getChannelMembers('task:task1')).toEqual([
+                { userId: 'user1', name: 'Ann', state: PresenceState.VIEWING }
+            ]);
+        });
+    });
+
+    describe('expireLocks', () => {
+        it('should drop the locks that were not renewed', () => {
+            service.connect('socket1', ann);
+            service.acquireLock('socket1', 'task1', 'project1', now);
+            service.acquireLock('socket1', 'task2', 'project1', now);
+            const renewedAt = new Date(now.getTime() + EDIT_LOCK_TTL_MS / 2);
+            service.acquireLock('socket1', 'task2', 'project1', renewedAt);
+
+            const expired = service.expireLocks(
+                new Date(now.getTime() + EDIT_LOCK_TTL_MS)
+            );
+
+            expect(expired.map((lock) => lock.taskId)).toEqual(['task1']);
+            expect(
+                service
+                    .getProjectLocks('project1', now)
+                    .map((lock) => lock.taskId)
+            ).toEqual(['task2']);
+        });
+    });
+});
@@ -0,0 +1,269 @@
+import { Injectable } from '@nestjs/common';
+import {
+    EDIT_LOCK_TTL_MS,
+    PresenceState,
+    taskChannel
+} from '../core/constants/presence.constants';
+
+export interface PresenceUser {
+    id: string;
+    name: string;
+}
+
+export interface ChannelMember {
+    userId: string;
+    name: string;
+    state: PresenceState;
+}
+
+export interface EditLock {
+    taskId: string;
+    projectId: string | null;
+    userId: string;
+    name: string;
+    expiresAt: Date;
+}
+
+export interface DisconnectedSocket {
+    user: PresenceUser;
+    // true when this was the user's last open socket
+    wentOffline: boolean;
+    channels: string[];
+    releasedLocks: EditLock[];
+}
+
+interface SocketPresence {
+    user: PresenceUser;
+    channels: Map<string, PresenceState>;
+}
+
+/**
+ * Tracks who is online, which channels their sockets have open and the edit locks they hold.
+ * State lives in the memory of this API instance and is rebuilt as sockets reconnect
+ */
+@Injectable()
+export class PresenceService {
+    private readonly sockets = new Map<string, SocketPresence>();
+    private readonly channelSockets = new Map<string, Set<string>>();
+    private readonly locks = new Map<
+        string,
+        { lock: EditLock; socketId: string }
+    >();
+
+    /**
+     * Register an authenticated socket
+     * @returns true when the user was offline until now
+     */
+    connect(socketId: string, user: PresenceUser): boolean {
+        const wasOnline = this.isOnline(user.id);
+        this.sockets.set(socketId, { user, channels: new Map() });
+        return !wasOnline;
+    }
+
+    /**
+     * Forget a socket, leaving its channels and releasing its locks
+     * @returns what changed, or null for a socket that never authenticated
+     */
+    disconnect(socketId: string): DisconnectedSocket | null {
+        const presence = this.sockets.get(socketId);
+        if (!presence) {
+            return null;
+        }
+
+        const releasedLocks = [...this.locks.values()]
+            .filter((held) => held.socketId === socketId)
+            .map((held) => held.lock);
+        releasedLocks.forEach((lock) => this.locks.delete(lock.taskId));
+
+        const channels = [...presence.channels.keys()];
+        channels.forEach((channel) => this.leaveChannel(socketId, channel));
+        this.sockets.delete(socketId);
+
+        return {
+            user: presence.user,
+            wentOffline: !this.isOnline(presence.user.id),
+            channels,
+            releasedLocks
+        };
+    }
+
+    isOnline(userId: string): boolean {
+        for (const presence of this.sockets.values()) {
+            if (presence.user.id === userId) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    getOnlineUserIds(userIds: string[]): string[] {
+        return userIds.filter((userId) => this.isOnline(userId));
+    }
+
+    /**
+     * Add a socket to a channel as viewing; a socket already in it keeps its state
+     */
+    joinChannel(socketId: string, channel: string): void {
+        if (!this.sockets.get(socketId)?.channels.has(channel)) {
+            this.setChannelState(socketId, channel, PresenceState.VIEWING);
+        }
+    }
+
+    /**
+     * @returns true if the socket was in the channel
+     */
+    leaveChannel(socketId: string, channel: string): boolean {
+        const left = this.sockets.get(socketId)?.channels.delete(channel);
+
+        const socketIds = this.channelSockets.get(channel);
+        socketIds?.delete(socketId);
+        if (socketIds?.size === 0) {
+            this.channelSockets.delete(channel);
+        }
+
+        return !!left;
+    }
+
+    /**
+     * List the users in a channel once each; a user editing in any of their sockets shows as editing
+     */
+    getChannelMembers(channel: string): ChannelMember[] {
+        const members = new Map<string, ChannelMember>();
+
+        for (const socketId of this.channelSockets.get(channel) ?? []) {
+            const { user, channels } = this.sockets.get(socketId);
+            const state = channels.get(channel);
+            const member = members.get(user.id);
+
+            if (!member || state === PresenceState.EDITING) {
+                members.set(user.id, {
+                    userId: user.id,
+                    name: user.name,
+                    state
+                });
+            }
+        }
+
+        return [...members.values()];
+    }
+
+    /**
+     * Take or renew the edit lock of a task for a socket's user, who then shows as editing in the task's channel.
+     * A lock held by the same user in another socket moves to this one
+     * @returns whether the socket holds the lock, and the current lock either way
+     */
+    acquireLock(
+        socketId: string,
+        taskId: string,
+        projectId: string | null,
+        now: Date = new Date()
+    ): { acquired: boolean; lock: EditLock | null } {
+        const presence = this.sockets.get(socketId);
+        if (!presence) {
+            return { acquired: false, lock: null };
+        }
+
+        const current = this.getLock(taskId, now);
+        if (current && current.userId !== presence.user.id) {
+            return { acquired: false, lock: current };
+        }
+
+        const lock: EditLock = {
+            taskId,
+            projectId,
+            userId: presence.user.id,
+            name: presence.user.name,
+            expiresAt: new Date(now.getTime() + EDIT_LOCK_TTL_MS)
+        };
+        const previous = this.locks.get(taskId);
+        if (previous && previous.socketId !== socketId) {
+            this.stopEditing(previous.socketId, taskId);
+        }
+
+        this.locks.set(taskId, { lock, socketId });
+        this.setChannelState(
+            socketId,
+            taskChannel(taskId),
+            PresenceState.EDITING
+        );
+        return { acquired: true, lock };
+    }
+
+    /**
+     * Release a task's edit lock if this socket holds it
+     * @returns the released lock, or null if the socket did not hold it
+     */
+    releaseLock(socketId: string, taskId: string): EditLock | null {
+        const held = this.locks.get(taskId);
+        if (!held || held.socketId !== socketId) {
+            return null;
+        }
+
+        this.locks.delete(taskId);
+        this.stopEditing(socketId, taskId);
+        return held.lock;
+    }
+
+    /**
+     * @returns the unexpired edit lock of a task, or null
+     */
+    getLock(taskId: string, now: Date = new Date()): EditLock | null {
+        const held = this.locks.get(taskId);
+        return held && held.lock.expiresAt > now ? held.lock : null;
+    }
+
+    /**
+     * @returns the unexpired edit locks on the tasks of a project
+     */
+    getProjectLocks(projectId: string, now: Date = new Date()): EditLock[] {
+        return [...this.locks.values()]
+            .map((held) => held.lock)
+            .filter(
+                (lock) => lock.projectId === projectId && lock.expiresAt > now
+            );
+    }
+
+    /**
+     * Drop the locks that were not renewed in time
+     * @returns the expired locks
+     */
+    expireLocks(now: Date = new Date()): EditLock[] {
+        const expired = [...this.locks.values()].filter(
+            (held) => held.lock.expiresAt <= now
+        );
+        expired.forEach((held) => {
+            this.locks.delete(held.lock.taskId);
+            this.stopEditing(held.socketId, held.lock.taskId);
+        });
+        return expired.map((held) => held.lock);
+    }
+
+    // Set what a socket is doing in a channel, joining it if needed
+    private setChannelState(
+        socketId: string,
+        channel: string,
+        state: PresenceState
+    ): void {
+        const presence = this.sockets.get(socketId);
+        if (!presence) {
+            return;
+        }
+
+        presence.channels.set(channel, state);
+        if (!this.channelSockets.has(channel)) {
+            this.channelSockets.set(channel, new Set());
+        }
+        this.channelSockets.get(channel).add(socketId);
+    }
+
+    // The socket keeps viewing the task, unless it left it meanwhile
+    private stopEditing(socketId: string, taskId: string): void {
+        if (this.sockets.get(socketId)?.channels.has(taskChannel(taskId))) {
+            this.setChannelState(
+                socketId,
+                taskChannel(taskId),
+                PresenceState.VIEWING
+            );
+        }
+    }
+}
@@ -0,0 +1,22 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { ServerOptions } from 'socket.io';
+
+/**
+ * Socket.IO adapter applying the same allowed origins as the HTTP API
+ */
+export class SocketIoAdapter extends IoAdapter {
+    constructor(
+        app: INestApplicationContext,
+        private readonly allowedOrigins: string
+    ) {
+        super(app);
+    }
+
+    createIOServer(port: number, options?: ServerOptions) {
+        return super.createIOServer(port, {
+            ...options,
+            cors: { origin: this.allowedOrigins, credentials: true }
+        });
+    }
+}
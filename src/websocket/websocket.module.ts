@@ -1,7 +1,25 @@
-// import { Module } from '@nestjs/common';
-// import { WebsocketGateway } from './websocket.gateway';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaService } from '../core/services/prisma.service';
+import { TokenBlacklistService } from '../core/services/token-blacklist.service';
+import { TasksGateway } from '../modules/task/tasks.gateway';
+import { PresenceService } from './presence.service';
 
-// @Module({
-//   providers: [WebsocketGateway]
-// })
-// export class WebsocketModule {}
+/**
+ * Provides the single socket gateway instance, and the presence state, shared by every module that pushes events
+ */
+@Module({
+    imports: [
+        ConfigModule,
+        JwtModule.register({}) // Empty register, tokens are verified with JWT_SECRET like in AuthGuard
+    ],
+    providers: [
+        TasksGateway,
+        PresenceService,
+        PrismaService,
+        TokenBlacklistService
+    ],
+    exports: [TasksGateway, PresenceService]
+})
+export class WebsocketModule {}